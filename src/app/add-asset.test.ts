@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest';
+import { addAsset } from './add-asset';
+import type { InventoryService, Asset } from './inventory-service';
+
+describe('addAsset', () => {
+  const createdAsset: Asset = {
+    id: 'ast-1',
+    deviceModelId: 'dev-1',
+    serialNumber: 'SN-001',
+    assetTag: 'LAP-001',
+    condition: 'good',
+    status: 'available',
+    updatedAt: new Date('2025-01-01'),
+  };
+
+  const createMockService = (overrides: Partial<InventoryService> = {}): InventoryService => ({
+    listInventoryItems: vi.fn(),
+    addInventoryItem: vi.fn(),
+    updateInventoryItem: vi.fn(),
+    deleteInventoryItem: vi.fn(),
+    listAssets: vi.fn(),
+    addAsset: vi.fn().mockResolvedValue({ item: createdAsset }),
+    updateAsset: vi.fn(),
+    deleteAsset: vi.fn(),
+    ...overrides,
+  });
+
+  it('trims input, applies defaults and returns the created asset', async () => {
+    const service = createMockService();
+
+    const result = await addAsset(service, {
+      deviceId: 'dev-1',
+      serialNumber: ' SN-001 ',
+      assetTag: 'LAP-001',
+    });
+
+    expect(service.addAsset).toHaveBeenCalledWith('dev-1', {
+      serialNumber: 'SN-001',
+      assetTag: 'LAP-001',
+      condition: 'good',
+      status: 'available',
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.item).toEqual(createdAsset);
+    }
+  });
+
+  it('rejects blank serial numbers and tags without calling the service', async () => {
+    const service = createMockService();
+
+    const result = await addAsset(service, {
+      deviceId: 'dev-1',
+      serialNumber: ' ',
+      assetTag: '',
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors).toEqual(['Serial number is required', 'Asset tag is required']);
+    }
+    expect(service.addAsset).not.toHaveBeenCalled();
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      addAsset: vi.fn().mockRejectedValue(new Error('duplicate serial')),
+    });
+
+    const result = await addAsset(service, {
+      deviceId: 'dev-1',
+      serialNumber: 'SN-001',
+      assetTag: 'LAP-001',
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors).toEqual(['duplicate serial']);
+    }
+  });
+});
@@ -0,0 +1,47 @@
+import type {
+  InventoryService,
+  Asset,
+  AssetCondition,
+  AssetStatus,
+  AddAssetInput,
+} from './inventory-service';
+
+export type AddAssetResult =
+  | { success: true; item: Asset }
+  | { success: false; errors: readonly string[] };
+
+export type AddAssetCommand = {
+  readonly deviceId: string;
+  readonly serialNumber: string;
+  readonly assetTag: string;
+  readonly condition?: AssetCondition;
+  readonly status?: AssetStatus;
+};
+
+export type AddAssetUseCase = (
+  service: InventoryService,
+  command: AddAssetCommand,
+) => Promise<AddAssetResult>;
+
+export const addAsset: AddAssetUseCase = async (service, command) => {
+  const serialNumber = command.serialNumber.trim();
+  const assetTag = command.assetTag.trim();
+  const errors: string[] = [];
+  if (!serialNumber) errors.push('Serial number is required');
+  if (!assetTag) errors.push('Asset tag is required');
+  if (errors.length) return { success: false, errors };
+
+  try {
+    const input: AddAssetInput = {
+      serialNumber,
+      assetTag,
+      condition: command.condition ?? 'good',
+      status: command.status ?? 'available',
+    };
+    const { item } = await service.addAsset(command.deviceId, input);
+    return { success: true, item };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, errors: [message] };
+  }
+};
@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from 'vitest';
+import { addCategory } from './add-category';
+import type { Category, InventoryService } from './inventory-service';
+
+describe('addCategory', () => {
+  const created: Category = { id: 'cat-1', name: 'Cameras' };
+
+  const createMockService = (overrides: Partial<InventoryService> = {}): InventoryService =>
+    ({
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi.fn(),
+      deleteInventoryItem: vi.fn(),
+      addCategory: vi.fn().mockResolvedValue({ item: created }),
+      ...overrides,
+    }) as InventoryService;
+
+  it('trims the name and returns the created category', async () => {
+    const service = createMockService();
+
+    const result = await addCategory(service, { name: ' Cameras ' });
+
+    expect(service.addCategory).toHaveBeenCalledWith({ name: 'Cameras' });
+    expect(result).toEqual({ success: true, item: created });
+  });
+
+  it('rejects blank and overlong names without calling the service', async () => {
+    const service = createMockService();
+
+    expect(await addCategory(service, { name: '  ' })).toEqual({
+      success: false,
+      errors: ['Category name is required'],
+    });
+    expect(await addCategory(service, { name: 'x'.repeat(41) })).toEqual({
+      success: false,
+      errors: ['Category name must be no more than 40 characters'],
+    });
+    expect(service.addCategory).not.toHaveBeenCalled();
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      addCategory: vi.fn().mockRejectedValue(new Error('Category "Cameras" already exists')),
+    });
+
+    const result = await addCategory(service, { name: 'Cameras' });
+
+    expect(result).toEqual({ success: false, errors: ['Category "Cameras" already exists'] });
+  });
+});
@@ -0,0 +1,38 @@
+import type { Category, InventoryService } from './inventory-service';
+
+export const CATEGORY_NAME_MAX_LENGTH = 40;
+
+export type AddCategoryResult =
+  | { success: true; item: Category }
+  | { success: false; errors: readonly string[] };
+
+export type AddCategoryCommand = {
+  readonly name: string;
+};
+
+export type AddCategoryUseCase = (
+  service: InventoryService,
+  command: AddCategoryCommand,
+) => Promise<AddCategoryResult>;
+
+/** Rules for a category name, checked after trimming. */
+export function checkCategoryName(name: string): string | undefined {
+  if (!name) return 'Category name is required';
+  if (name.length > CATEGORY_NAME_MAX_LENGTH)
+    return `Category name must be no more than ${CATEGORY_NAME_MAX_LENGTH} characters`;
+  return undefined;
+}
+
+export const addCategory: AddCategoryUseCase = async (service, command) => {
+  const name = command.name.trim();
+  const invalid = checkCategoryName(name);
+  if (invalid) return { success: false, errors: [invalid] };
+
+  try {
+    const { item } = await service.addCategory({ name });
+    return { success: true, item };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, errors: [message] };
+  }
+};
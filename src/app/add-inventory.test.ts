@@ -56,6 +56,56 @@ describe('addInventory', () => {
     });
   });
 
+  it('passes the minimum stock through when set', async () => {
+    const service: InventoryService = {
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn().mockResolvedValue({ item: createdItem }),
+      updateInventoryItem: vi.fn(),
+      deleteInventoryItem: vi.fn(),
+    };
+
+    await addInventory(service, {
+      name: 'Mouse',
+      description: 'Wireless mouse',
+      count: 4,
+      minStock: 2,
+    });
+
+    expect(service.addInventoryItem).toHaveBeenCalledWith({
+      name: 'Mouse',
+      description: 'Wireless mouse',
+      count: 4,
+      minStock: 2,
+    });
+  });
+
+  it('passes the split across locations through when set', async () => {
+    const service: InventoryService = {
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn().mockResolvedValue({ item: createdItem }),
+      updateInventoryItem: vi.fn(),
+      deleteInventoryItem: vi.fn(),
+    };
+    const locationStock = [
+      { locationId: 'loc-a', count: 1 },
+      { locationId: 'loc-b', count: 2 },
+    ];
+
+    await addInventory(service, {
+      name: 'Mouse',
+      description: 'Wireless mouse',
+      count: 3,
+      locationStock,
+    });
+
+    expect(service.addInventoryItem).toHaveBeenCalledWith({
+      name: 'Mouse',
+      description: 'Wireless mouse',
+      count: 3,
+      locationStock,
+    });
+  });
+
   it('returns error messages when service throws', async () => {
     const service: InventoryService = {
       listInventoryItems: vi.fn(),
@@ -74,4 +124,80 @@ describe('addInventory', () => {
       expect(result.errors).toEqual(['failed']);
     }
   });
+
+  it('rejects a command that breaks the field rules without calling the service', async () => {
+    const service: InventoryService = {
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi.fn(),
+      deleteInventoryItem: vi.fn(),
+    };
+
+    const result = await addInventory(service, { name: 'K', description: 'Mechanical keyboard', count: -1 });
+
+    expect(service.addInventoryItem).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      success: false,
+      errors: ['Name must be at least 2 characters', 'Count must be a non-negative number'],
+      fieldErrors: [
+        { field: 'name', message: 'Name must be at least 2 characters' },
+        { field: 'count', message: 'Count must be a non-negative number' },
+      ],
+    });
+  });
+
+  it('passes specs through and checks them', async () => {
+    const service: InventoryService = {
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn().mockResolvedValue({ item: createdItem }),
+      updateInventoryItem: vi.fn(),
+      deleteInventoryItem: vi.fn(),
+    };
+
+    await addInventory(service, {
+      name: 'Camera',
+      description: 'Canon EOS',
+      specs: { 'Lens mount': 'EF', Megapixels: 24 },
+    });
+    expect(service.addInventoryItem).toHaveBeenCalledWith({
+      name: 'Camera',
+      description: 'Canon EOS',
+      count: 1,
+      specs: { 'Lens mount': 'EF', Megapixels: 24 },
+    });
+
+    const result = await addInventory(service, {
+      name: 'Camera',
+      description: 'Canon EOS',
+      specs: { 'Lens mount': '' },
+    });
+    expect(result).toMatchObject({
+      success: false,
+      fieldErrors: [{ field: 'specs', message: 'Spec "Lens mount" needs a value' }],
+    });
+  });
+
+  it('files the device under a category with tidied tags', async () => {
+    const service: InventoryService = {
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn().mockResolvedValue({ item: createdItem }),
+      updateInventoryItem: vi.fn(),
+      deleteInventoryItem: vi.fn(),
+    };
+
+    await addInventory(service, {
+      name: 'Camera',
+      description: 'Canon EOS',
+      categoryId: 'cat-cameras',
+      tags: [' 4k ', 'travel', '4K'],
+    });
+
+    expect(service.addInventoryItem).toHaveBeenCalledWith({
+      name: 'Camera',
+      description: 'Canon EOS',
+      count: 1,
+      categoryId: 'cat-cameras',
+      tags: ['4k', 'travel'],
+    });
+  });
 });
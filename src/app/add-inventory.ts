@@ -2,16 +2,36 @@ import type {
   InventoryService,
   AddDeviceInput,
   Device,
+  LocationStock,
+  DeviceSpecs,
 } from './inventory-service';
+import { DeviceValidationError } from './errors';
+import { specEntries } from './device-specs';
+import { normalizeTags } from './device-tags';
+import {
+  toFieldErrorList,
+  validateInventoryFields,
+  type InventoryFieldError,
+} from './validate-inventory';
 
 export type AddInventoryResult =
   | { success: true; item: Device }
-  | { success: false; errors: readonly string[] };
+  | {
+      success: false;
+      errors: readonly string[];
+      /** Set when the command broke a rule for one or more fields. */
+      fieldErrors?: readonly InventoryFieldError[];
+    };
 
 export type AddInventoryCommand = {
   readonly name: string;
   readonly description: string;
   readonly count?: number;
+  readonly minStock?: number;
+  readonly locationStock?: readonly LocationStock[];
+  readonly specs?: DeviceSpecs;
+  readonly categoryId?: string;
+  readonly tags?: readonly string[];
 };
 
 export type AddInventoryUseCase = (
@@ -20,15 +40,39 @@ export type AddInventoryUseCase = (
 ) => Promise<AddInventoryResult>;
 
 export const addInventory: AddInventoryUseCase = async (service, command) => {
+  const invalid = toFieldErrorList(
+    validateInventoryFields({
+      ...command,
+      count: command.count ?? 1,
+      specs: command.specs !== undefined ? specEntries(command.specs) : undefined,
+    }),
+  );
+  if (invalid.length) {
+    return { success: false, errors: invalid.map((e) => e.message), fieldErrors: invalid };
+  }
   try {
     const input: AddDeviceInput = {
       name: command.name,
       description: command.description,
       count: command.count ?? 1,
+      ...(command.minStock !== undefined ? { minStock: command.minStock } : {}),
+      ...(command.locationStock !== undefined
+        ? { locationStock: command.locationStock }
+        : {}),
+      ...(command.specs !== undefined ? { specs: command.specs } : {}),
+      ...(command.categoryId ? { categoryId: command.categoryId } : {}),
+      ...(command.tags !== undefined ? { tags: normalizeTags(command.tags) } : {}),
     };
     const { item } = await service.addInventoryItem(input);
     return { success: true, item };
   } catch (err) {
+    if (err instanceof DeviceValidationError) {
+      return {
+        success: false,
+        errors: [err.message],
+        fieldErrors: toFieldErrorList(err.fieldErrors),
+      };
+    }
     const message = err instanceof Error ? err.message : String(err);
     return { success: false, errors: [message] };
   }
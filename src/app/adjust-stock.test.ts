@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+import { adjustStock } from './adjust-stock';
+import type { InventoryService, Device, StockAdjustment } from './inventory-service';
+
+describe('adjustStock', () => {
+  const device: Device = {
+    id: 'dev-1',
+    name: 'Laptop',
+    description: 'Dell XPS',
+    count: 4,
+    updatedAt: new Date('2025-01-01'),
+  };
+
+  const adjustment: StockAdjustment = {
+    id: 'adj-1',
+    deviceModelId: 'dev-1',
+    delta: -1,
+    reason: 'lost',
+    resultingCount: 4,
+    createdAt: new Date('2025-01-01'),
+  };
+
+  const createMockService = (overrides: Partial<InventoryService> = {}): InventoryService => ({
+    listInventoryItems: vi.fn(),
+    addInventoryItem: vi.fn(),
+    updateInventoryItem: vi.fn(),
+    deleteInventoryItem: vi.fn(),
+    listAssets: vi.fn(),
+    addAsset: vi.fn(),
+    updateAsset: vi.fn(),
+    deleteAsset: vi.fn(),
+    adjustStock: vi.fn().mockResolvedValue({ item: device, adjustment }),
+    listStockAdjustments: vi.fn(),
+    ...overrides,
+  });
+
+  it('records the adjustment and returns the updated device', async () => {
+    const service = createMockService();
+
+    const result = await adjustStock(service, {
+      id: 'dev-1',
+      delta: -1,
+      reason: 'lost',
+      note: '  Left on the bus ',
+    });
+
+    expect(service.adjustStock).toHaveBeenCalledWith('dev-1', {
+      delta: -1,
+      reason: 'lost',
+      note: 'Left on the bus',
+    });
+    expect(result).toEqual({ success: true, item: device, adjustment });
+  });
+
+  it('omits a blank note', async () => {
+    const service = createMockService();
+
+    await adjustStock(service, { id: 'dev-1', delta: 2, reason: 'purchased', note: '   ' });
+
+    expect(service.adjustStock).toHaveBeenCalledWith('dev-1', { delta: 2, reason: 'purchased' });
+  });
+
+  it('passes the location whose stock changes', async () => {
+    const service = createMockService();
+
+    await adjustStock(service, { id: 'dev-1', delta: -1, reason: 'lost', locationId: 'loc-a' });
+
+    expect(service.adjustStock).toHaveBeenCalledWith('dev-1', {
+      delta: -1,
+      reason: 'lost',
+      locationId: 'loc-a',
+    });
+  });
+
+  it('rejects zero or fractional adjustments', async () => {
+    const service = createMockService();
+
+    const result = await adjustStock(service, { id: 'dev-1', delta: 0.5, reason: 'purchased' });
+
+    expect(result).toEqual({
+      success: false,
+      errors: ['Adjustment must be a non-zero whole number'],
+    });
+    expect(service.adjustStock).not.toHaveBeenCalled();
+  });
+
+  it('rejects a delta that goes against the reason', async () => {
+    const service = createMockService();
+
+    const purchase = await adjustStock(service, { id: 'dev-1', delta: -2, reason: 'purchased' });
+    const loss = await adjustStock(service, { id: 'dev-1', delta: 1, reason: 'damaged' });
+
+    expect(purchase).toEqual({ success: false, errors: ['Purchased adjustments must add stock'] });
+    expect(loss).toEqual({ success: false, errors: ['Damaged adjustments must remove stock'] });
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      adjustStock: vi.fn().mockRejectedValue(new Error('Stock cannot go below zero')),
+    });
+
+    const result = await adjustStock(service, { id: 'dev-1', delta: -9, reason: 'written-off' });
+
+    expect(result).toEqual({ success: false, errors: ['Stock cannot go below zero'] });
+  });
+});
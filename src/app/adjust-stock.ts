@@ -0,0 +1,74 @@
+import type {
+  InventoryService,
+  Device,
+  StockAdjustment,
+  StockAdjustmentReason,
+  AdjustStockInput,
+} from './inventory-service';
+
+export type AdjustStockResult =
+  | { success: true; item: Device; adjustment: StockAdjustment }
+  | { success: false; errors: readonly string[] };
+
+export type AdjustStockCommand = {
+  readonly id: string;
+  readonly delta: number;
+  readonly reason: StockAdjustmentReason;
+  readonly note?: string;
+  readonly locationId?: string;
+};
+
+export type AdjustStockUseCase = (
+  service: InventoryService,
+  command: AdjustStockCommand,
+) => Promise<AdjustStockResult>;
+
+/** Reasons staff can pick, with the direction each one moves stock in. */
+export const ADJUSTMENT_REASONS: ReadonlyArray<{
+  readonly value: Exclude<StockAdjustmentReason, 'correction'>;
+  readonly label: string;
+  readonly sign: 1 | -1;
+}> = [
+  { value: 'purchased', label: 'Purchased', sign: 1 },
+  { value: 'lost', label: 'Lost', sign: -1 },
+  { value: 'damaged', label: 'Damaged', sign: -1 },
+  { value: 'written-off', label: 'Written off', sign: -1 },
+];
+
+const NOTE_MAX_LENGTH = 500;
+
+export const adjustStock: AdjustStockUseCase = async (service, command) => {
+  const errors: string[] = [];
+  if (!Number.isInteger(command.delta) || command.delta === 0) {
+    errors.push('Adjustment must be a non-zero whole number');
+  }
+  const reason = ADJUSTMENT_REASONS.find((r) => r.value === command.reason);
+  if (command.reason !== 'correction' && !reason) {
+    errors.push(`Unknown adjustment reason "${command.reason}"`);
+  } else if (reason && Math.sign(command.delta) === -reason.sign) {
+    errors.push(
+      reason.sign > 0
+        ? `${reason.label} adjustments must add stock`
+        : `${reason.label} adjustments must remove stock`,
+    );
+  }
+  const note = command.note?.trim();
+  if (note && note.length > NOTE_MAX_LENGTH) {
+    errors.push(`Note must be no more than ${NOTE_MAX_LENGTH} characters`);
+  }
+  if (errors.length) return { success: false, errors };
+
+  try {
+    const input: AdjustStockInput = {
+      delta: command.delta,
+      reason: command.reason,
+      ...(note ? { note } : {}),
+      ...(command.locationId ? { locationId: command.locationId } : {}),
+    };
+    const { item, adjustment } = await service.adjustStock(command.id, input);
+    return { success: true, item, adjustment };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, errors: [message] };
+  }
+};
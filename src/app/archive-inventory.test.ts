@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+import { archiveInventory } from './archive-inventory';
+import type { InventoryService, Device } from './inventory-service';
+
+describe('archiveInventory', () => {
+  const archived: Device = {
+    id: 'dev-1',
+    name: 'Laptop',
+    description: 'Dell XPS',
+    count: 5,
+    updatedAt: new Date('2025-02-01'),
+    archivedAt: new Date('2025-02-01'),
+  };
+
+  const createMockService = (overrides: Partial<InventoryService> = {}): InventoryService =>
+    ({
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi.fn(),
+      deleteInventoryItem: vi.fn(),
+      archiveInventoryItem: vi.fn().mockResolvedValue({ item: archived }),
+      ...overrides,
+    }) as InventoryService;
+
+  it('returns the archived device', async () => {
+    const service = createMockService();
+
+    const result = await archiveInventory(service, { id: 'dev-1' });
+
+    expect(service.archiveInventoryItem).toHaveBeenCalledWith('dev-1');
+    expect(result).toEqual({ success: true, item: archived });
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      archiveInventoryItem: vi.fn().mockRejectedValue(new Error('Device with id dev-1 not found')),
+    });
+
+    const result = await archiveInventory(service, { id: 'dev-1' });
+
+    expect(result).toEqual({ success: false, errors: ['Device with id dev-1 not found'] });
+  });
+});
@@ -0,0 +1,24 @@
+import type { InventoryService, Device } from './inventory-service';
+
+export type ArchiveInventoryResult =
+  | { success: true; item: Device }
+  | { success: false; errors: readonly string[] };
+
+export type ArchiveInventoryCommand = {
+  readonly id: string;
+};
+
+export type ArchiveInventoryUseCase = (
+  service: InventoryService,
+  command: ArchiveInventoryCommand,
+) => Promise<ArchiveInventoryResult>;
+
+export const archiveInventory: ArchiveInventoryUseCase = async (service, command) => {
+  try {
+    const { item } = await service.archiveInventoryItem(command.id);
+    return { success: true, item };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, errors: [message] };
+  }
+};
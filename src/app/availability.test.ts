@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  availableUnits,
+  countActiveReservations,
+  holdsUnitOn,
+  peakReservedUnits,
+  reservableStock,
+  reservationPeriod,
+  stockAt,
+  withAvailability,
+} from './availability';
+import { addDays } from './calendar-date';
+import type { Device } from './inventory-service';
+import type { Reservation } from './reservation-service';
+
+const device = (overrides: Partial<Device> = {}): Device => ({
+  id: 'dev-1',
+  name: 'Laptop',
+  description: 'Dell XPS',
+  count: 3,
+  updatedAt: new Date('2025-01-01'),
+  ...overrides,
+});
+
+const reservation = (overrides: Partial<Reservation> = {}): Reservation => ({
+  id: 'res-1',
+  userId: 'user-1',
+  deviceModelId: 'dev-1',
+  deviceModelName: 'Laptop',
+  status: 'reserved',
+  createdAt: new Date('2025-01-01'),
+  updatedAt: new Date('2025-01-01'),
+  ...overrides,
+});
+
+describe('availability', () => {
+  const reservations = [
+    reservation({ id: 'res-1', status: 'reserved' }),
+    reservation({ id: 'res-2', status: 'collected' }),
+    reservation({ id: 'res-3', status: 'returned' }),
+    reservation({ id: 'res-4', deviceModelId: 'dev-2' }),
+  ];
+
+  it('counts only reserved and collected reservations for the device', () => {
+    expect(countActiveReservations(reservations, 'dev-1')).toBe(2);
+    expect(countActiveReservations(reservations, 'dev-3')).toBe(0);
+  });
+
+  it('derives available units from stock', () => {
+    expect(withAvailability(device(), reservations).available).toBe(1);
+  });
+
+  it('never reports negative availability', () => {
+    expect(withAvailability(device({ count: 1 }), reservations).available).toBe(0);
+  });
+
+  it('leaves devices without a count unchanged', () => {
+    const unknown = device({ count: undefined });
+    expect(withAvailability(unknown, reservations)).toBe(unknown);
+  });
+
+  it('falls back to stock when availability is unknown', () => {
+    expect(availableUnits(device({ count: 4 }))).toBe(4);
+    expect(availableUnits(device({ count: 4, available: 0 }))).toBe(0);
+  });
+
+  it('leaves units under repair out of reservable stock', () => {
+    expect(reservableStock(device({ count: 4, inRepair: 1 }))).toBe(3);
+    expect(availableUnits(device({ count: 4, inRepair: 4 }))).toBe(0);
+    expect(withAvailability(device({ count: 4, inRepair: 1 }), reservations).available).toBe(1);
+  });
+
+  it('counts only the units and pickups of one location when asked', () => {
+    const split = device({
+      count: 5,
+      locationStock: [
+        { locationId: 'loc-a', count: 2 },
+        { locationId: 'loc-b', count: 3 },
+      ],
+    });
+    const pickups = [
+      reservation({ id: 'res-1', pickupLocationId: 'loc-a' }),
+      reservation({ id: 'res-2', pickupLocationId: 'loc-a' }),
+      reservation({ id: 'res-3' }),
+    ];
+
+    expect(stockAt(split, 'loc-b')).toBe(3);
+    expect(stockAt(split, 'loc-c')).toBe(0);
+    expect(countActiveReservations(pickups, 'dev-1', 'loc-a')).toBe(2);
+    expect(withAvailability(split, pickups).available).toBe(2);
+    expect(withAvailability(split, pickups, 'loc-a').available).toBe(0);
+    // The reservation without a pickup location still holds one of the five.
+    expect(withAvailability(split, pickups, 'loc-b').available).toBe(2);
+  });
+
+  describe('booked periods', () => {
+    const today = new Date(2025, 5, 10);
+    const day = (d: number) => new Date(2025, 5, d);
+    const booking = (id: string, start: number, end: number, overrides: Partial<Reservation> = {}) =>
+      reservation({ id, startDate: day(start), endDate: day(end), ...overrides });
+
+    it('holds a unit only on the booked days', () => {
+      const later = booking('res-1', 12, 13);
+
+      expect(holdsUnitOn(later, today)).toBe(false);
+      expect(holdsUnitOn(later, day(13))).toBe(true);
+      expect(holdsUnitOn(booking('res-2', 8, 9, { status: 'returned' }), day(8))).toBe(false);
+      // Undated reservations hold a unit from creation until returned.
+      expect(holdsUnitOn(reservation(), day(20))).toBe(true);
+    });
+
+    it('keeps a late unit held until today', () => {
+      const late = booking('res-1', 5, 7, { status: 'collected' });
+
+      expect(reservationPeriod(late, today)).toEqual({ start: day(5), end: today });
+    });
+
+    it('finds the busiest day of a period', () => {
+      const bookings = [
+        booking('res-1', 11, 12),
+        booking('res-2', 12, 14),
+        booking('res-3', 14, 15),
+        booking('res-4', 12, 12, { status: 'returned' }),
+      ];
+
+      expect(peakReservedUnits(bookings, 'dev-1', { start: day(11), end: day(13) }, undefined, today)).toBe(2);
+      expect(peakReservedUnits(bookings, 'dev-1', { start: day(14), end: day(14) }, undefined, today)).toBe(2);
+      expect(peakReservedUnits(bookings, 'dev-1', { start: day(16), end: day(20) }, undefined, today)).toBe(0);
+      expect(peakReservedUnits(bookings, 'dev-1', { start: day(15) }, undefined, today)).toBe(1);
+    });
+
+    it('leaves later bookings out of today’s availability', () => {
+      const nextWeek = addDays(new Date(), 7);
+      const later = reservation({ startDate: nextWeek, endDate: nextWeek });
+
+      expect(withAvailability(device({ count: 1 }), [later]).available).toBe(1);
+    });
+  });
+});
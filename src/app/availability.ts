@@ -0,0 +1,146 @@
+import type { Device } from './inventory-service';
+import type { Reservation, ReservationStatus } from './reservation-service';
+import { startOfDay } from './calendar-date';
+
+/** Reservation states that hold a unit of stock. */
+export const ACTIVE_RESERVATION_STATUSES: readonly ReservationStatus[] = [
+  'reserved',
+  'collected',
+];
+
+export function isActiveReservation(reservation: Reservation): boolean {
+  return ACTIVE_RESERVATION_STATUSES.includes(reservation.status);
+}
+
+/** Counts every location's reservations unless `locationId` narrows it down. */
+export function countActiveReservations(
+  reservations: readonly Reservation[],
+  deviceId: string,
+  locationId?: string,
+): number {
+  return reservations.filter(
+    (r) =>
+      r.deviceModelId === deviceId &&
+      isActiveReservation(r) &&
+      (locationId === undefined || r.pickupLocationId === locationId),
+  ).length;
+}
+
+/** Days a reservation holds a unit, inclusive; no `end` means until returned. */
+export type ReservationPeriod = {
+  readonly start: Date;
+  readonly end?: Date;
+};
+
+/**
+ * The days an active reservation holds a unit. A unit that has been collected
+ * is held from today at the latest and, when it is late, until today.
+ */
+export function reservationPeriod(
+  reservation: Reservation,
+  today: Date = new Date(),
+): ReservationPeriod {
+  const day = startOfDay(today);
+  let start = startOfDay(reservation.startDate ?? reservation.createdAt);
+  let end = reservation.endDate ? startOfDay(reservation.endDate) : undefined;
+  if (reservation.status === 'collected') {
+    if (start > day) start = day;
+    if (end && end < day) end = day;
+  }
+  return end ? { start, end } : { start };
+}
+
+export function periodsOverlap(a: ReservationPeriod, b: ReservationPeriod): boolean {
+  return (!b.end || a.start <= b.end) && (!a.end || b.start <= a.end);
+}
+
+/** Whether the reservation keeps a unit from being lent out on `day`. */
+export function holdsUnitOn(reservation: Reservation, day: Date): boolean {
+  if (!isActiveReservation(reservation)) return false;
+  const date = startOfDay(day);
+  return periodsOverlap(reservationPeriod(reservation, day), { start: date, end: date });
+}
+
+/**
+ * The most units the device's active reservations hold on any one day of
+ * `period`, optionally only counting those collected at `locationId`.
+ */
+export function peakReservedUnits(
+  reservations: readonly Reservation[],
+  deviceId: string,
+  period: ReservationPeriod,
+  locationId?: string,
+  today: Date = new Date(),
+): number {
+  const periods = reservations
+    .filter(
+      (r) =>
+        r.deviceModelId === deviceId &&
+        isActiveReservation(r) &&
+        (locationId === undefined || r.pickupLocationId === locationId),
+    )
+    .map((r) => reservationPeriod(r, today))
+    .filter((p) => periodsOverlap(p, period));
+  // Usage only goes up on a day some reservation starts, so those days hold the peak.
+  const days = [period.start, ...periods.map((p) => p.start).filter((d) => d > period.start)];
+  return Math.max(
+    0,
+    ...days.map((day) => periods.filter((p) => periodsOverlap(p, { start: day, end: day })).length),
+  );
+}
+
+/** Stock that could be lent out at all, i.e. not away for repair. */
+export function reservableStock(device: Device): number | undefined {
+  if (typeof device.count !== 'number') return undefined;
+  return Math.max(device.count - (device.inRepair ?? 0), 0);
+}
+
+/** Units borrowers have collected and not brought back yet. */
+export function countOnLoan(reservations: readonly Reservation[], deviceId: string): number {
+  return reservations.filter((r) => r.deviceModelId === deviceId && r.status === 'collected')
+    .length;
+}
+
+/** Units that could still be sent for repair: not there already and not out on loan. */
+export function repairableUnits(device: Device, onLoan: number): number {
+  return Math.max((device.count ?? 0) - (device.inRepair ?? 0) - onLoan, 0);
+}
+
+export function repairLimitMessage(device: Device, onLoan: number): string {
+  const free = repairableUnits(device, onLoan);
+  return `Only ${free} unit${free === 1 ? '' : 's'} of "${device.name}" can be sent for repair`;
+}
+
+/** Units recorded at one location; 0 when the device has none there. */
+export function stockAt(device: Device, locationId: string): number {
+  return device.locationStock?.find((s) => s.locationId === locationId)?.count ?? 0;
+}
+
+/**
+ * Returns the device with `available` derived from its stock and the given
+ * reservations. Devices without a known count are returned unchanged.
+ * With a `locationId`, only units that can be collected there are counted.
+ * Bookings for later days do not count against today's availability.
+ */
+export function withAvailability(
+  device: Device,
+  reservations: readonly Reservation[],
+  locationId?: string,
+): Device {
+  const stock = reservableStock(device);
+  if (stock === undefined) return device;
+  const today = new Date();
+  const held = reservations.filter((r) => holdsUnitOn(r, today));
+  let available = stock - countActiveReservations(held, device.id);
+  if (locationId !== undefined) {
+    const here =
+      stockAt(device, locationId) - countActiveReservations(held, device.id, locationId);
+    available = Math.min(available, here);
+  }
+  return { ...device, available: Math.max(available, 0) };
+}
+
+/** Units a borrower could take right now, falling back to reservable stock. */
+export function availableUnits(device: Device): number | undefined {
+  return device.available ?? reservableStock(device);
+}
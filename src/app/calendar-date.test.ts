@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { addDays, formatDayRange, parseIsoDate, startOfDay, toIsoDate } from './calendar-date';
+
+describe('calendar dates', () => {
+  it('round-trips local days through YYYY-MM-DD', () => {
+    const day = new Date(2025, 5, 12, 15, 30);
+
+    expect(toIsoDate(day)).toBe('2025-06-12');
+    expect(parseIsoDate('2025-06-12')).toEqual(startOfDay(day));
+  });
+
+  it('rejects malformed and impossible days', () => {
+    expect(parseIsoDate('12/06/2025')).toBeUndefined();
+    expect(parseIsoDate('2025-02-30')).toBeUndefined();
+  });
+
+  it('adds days across month ends', () => {
+    expect(toIsoDate(addDays(new Date(2025, 0, 30), 3))).toBe('2025-02-02');
+  });
+
+  it('shows a single day once', () => {
+    const day = new Date(2025, 5, 12);
+
+    expect(formatDayRange(day, day)).not.toContain('–');
+    expect(formatDayRange(day, addDays(day, 1))).toContain(' – ');
+  });
+});
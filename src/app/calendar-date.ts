@@ -0,0 +1,48 @@
+/**
+ * Bookings are made for whole days. These helpers move between `Date`s at
+ * local midnight and the `YYYY-MM-DD` strings used by date inputs and the API.
+ */
+
+/** Local midnight at the start of `date`'s day. */
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/** The local calendar day of `date` as `YYYY-MM-DD`. */
+export function toIsoDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Reads `YYYY-MM-DD` as local midnight; `undefined` for anything else. */
+export function parseIsoDate(value: string): Date | undefined {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) return undefined;
+  const [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+  const date = new Date(year, month, day);
+  // Rejects days that roll over, such as 2025-02-30.
+  if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) {
+    return undefined;
+  }
+  return date;
+}
+
+/** A day or an inclusive range of days for display, e.g. "Thu, 12 Jun – Fri, 13 Jun". */
+export function formatDayRange(start: Date, end: Date): string {
+  const format = (d: Date) => {
+    try {
+      return new Intl.DateTimeFormat(undefined, {
+        weekday: 'short',
+        day: 'numeric',
+        month: 'short',
+      }).format(d);
+    } catch {
+      return toIsoDate(d);
+    }
+  };
+  return toIsoDate(start) === toIsoDate(end) ? format(start) : `${format(start)} – ${format(end)}`;
+}
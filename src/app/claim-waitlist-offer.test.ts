@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+import { claimWaitlistOffer } from './claim-waitlist-offer';
+import type { ReservationService, Reservation, WaitlistEntry } from './reservation-service';
+
+describe('claimWaitlistOffer', () => {
+  const offered = (expiresInMs: number): WaitlistEntry => ({
+    id: 'wait-1',
+    userId: 'user-1',
+    deviceModelId: 'device-1',
+    deviceModelName: 'Laptop',
+    status: 'offered',
+    createdAt: new Date('2025-01-01'),
+    offeredAt: new Date(),
+    offerExpiresAt: new Date(Date.now() + expiresInMs),
+  });
+
+  const reservation: Reservation = {
+    id: 'res-1',
+    userId: 'user-1',
+    deviceModelId: 'device-1',
+    deviceModelName: 'Laptop',
+    status: 'reserved',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const createMockService = (overrides: Partial<ReservationService> = {}): ReservationService =>
+    ({
+      claimWaitlistOffer: vi.fn(),
+      ...overrides,
+    }) as ReservationService;
+
+  it('claims an open offer and returns the reservation', async () => {
+    const claimed = { ...offered(60_000), status: 'claimed' as const, reservationId: 'res-1' };
+    const mockClaim = vi.fn().mockResolvedValue({ item: claimed, reservation });
+    const service = createMockService({ claimWaitlistOffer: mockClaim });
+
+    const result = await claimWaitlistOffer(service, { entry: offered(60_000) });
+
+    expect(result).toEqual({ success: true, item: claimed, reservation });
+    expect(mockClaim).toHaveBeenCalledWith('wait-1');
+  });
+
+  it('refuses a lapsed offer without calling the service', async () => {
+    const mockClaim = vi.fn();
+    const service = createMockService({ claimWaitlistOffer: mockClaim });
+
+    const result = await claimWaitlistOffer(service, { entry: offered(-1) });
+
+    expect(result).toEqual({ success: false, errors: ['The offer for "Laptop" has expired'] });
+    expect(mockClaim).not.toHaveBeenCalled();
+  });
+
+  it('refuses entries that are still waiting', async () => {
+    const service = createMockService();
+
+    const result = await claimWaitlistOffer(service, {
+      entry: { ...offered(60_000), status: 'waiting', offerExpiresAt: undefined },
+    });
+
+    expect(result).toEqual({
+      success: false,
+      errors: ['No unit of "Laptop" has been offered to you yet'],
+    });
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      claimWaitlistOffer: vi.fn().mockRejectedValue(new Error('Offer wait-1 has expired')),
+    });
+
+    const result = await claimWaitlistOffer(service, { entry: offered(60_000) });
+
+    expect(result).toEqual({ success: false, errors: ['Offer wait-1 has expired'] });
+  });
+});
@@ -0,0 +1,37 @@
+import type { ReservationService, Reservation, WaitlistEntry } from './reservation-service';
+import { isOfferOpen } from './waitlist';
+
+export type ClaimWaitlistOfferCommand = {
+  /** The entry as last seen, so a lapsed offer is refused without a round trip. */
+  entry: WaitlistEntry;
+};
+
+export type ClaimWaitlistOfferResult =
+  | { success: true; item: WaitlistEntry; reservation: Reservation }
+  | { success: false; errors: string[] };
+
+export async function claimWaitlistOffer(
+  service: ReservationService,
+  command: ClaimWaitlistOfferCommand,
+): Promise<ClaimWaitlistOfferResult> {
+  const { entry } = command;
+  if (!isOfferOpen(entry)) {
+    return {
+      success: false,
+      errors: [
+        entry.status === 'offered'
+          ? `The offer for "${entry.deviceModelName}" has expired`
+          : `No unit of "${entry.deviceModelName}" has been offered to you yet`,
+      ],
+    };
+  }
+  try {
+    const output = await service.claimWaitlistOffer(entry.id);
+    return { success: true, item: output.item, reservation: output.reservation };
+  } catch (err: unknown) {
+    return {
+      success: false,
+      errors: [err instanceof Error ? err.message : 'Failed to claim the offer'],
+    };
+  }
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi } from 'vitest';
 import { createReservation } from './create-reservation';
+import { addDays, startOfDay } from './calendar-date';
 import type { ReservationService, Reservation } from './reservation-service';
 
 describe('createReservation', () => {
@@ -52,6 +53,37 @@ describe('createReservation', () => {
     });
   });
 
+  it('refuses without calling the service when no units are available', async () => {
+    const service = createMockService();
+
+    const result = await createReservation(service, {
+      deviceModelId: 'device-1',
+      deviceModelName: 'Laptop',
+      available: 0,
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors[0]).toContain('"Laptop" is fully booked');
+    }
+    expect(service.createReservation).not.toHaveBeenCalled();
+  });
+
+  it('does not forward availability to the service', async () => {
+    const service = createMockService();
+
+    await createReservation(service, {
+      deviceModelId: 'device-1',
+      deviceModelName: 'Laptop',
+      available: 2,
+    });
+
+    expect(service.createReservation).toHaveBeenCalledWith({
+      deviceModelId: 'device-1',
+      deviceModelName: 'Laptop',
+    });
+  });
+
   it('returns error messages when service throws', async () => {
     const service = createMockService({
       createReservation: vi.fn().mockRejectedValue(new Error('Device unavailable')),
@@ -83,4 +115,57 @@ describe('createReservation', () => {
       expect(result.errors).toEqual(['Failed to create reservation']);
     }
   });
+
+  describe('booking dates', () => {
+    const today = startOfDay(new Date());
+
+    it('forwards the booked days at midnight', async () => {
+      const service = createMockService();
+      const start = new Date(addDays(today, 7).getTime() + 15 * 3600_000);
+
+      await createReservation(service, {
+        deviceModelId: 'device-1',
+        deviceModelName: 'Laptop',
+        startDate: start,
+        endDate: addDays(today, 8),
+        available: 0,
+      });
+
+      // A unit free next week is what matters, not one free today.
+      expect(service.createReservation).toHaveBeenCalledWith({
+        deviceModelId: 'device-1',
+        deviceModelName: 'Laptop',
+        startDate: addDays(today, 7),
+        endDate: addDays(today, 8),
+      });
+    });
+
+    it('refuses incomplete, reversed, past and far-off periods', async () => {
+      const service = createMockService();
+      const book = (startDate?: Date, endDate?: Date) =>
+        createReservation(service, {
+          deviceModelId: 'device-1',
+          deviceModelName: 'Laptop',
+          ...(startDate ? { startDate } : {}),
+          ...(endDate ? { endDate } : {}),
+        });
+
+      expect(await book(addDays(today, 1))).toEqual({
+        success: false,
+        errors: ['Choose both a start and an end date'],
+      });
+      expect(await book(addDays(today, -1), addDays(today, -2))).toEqual({
+        success: false,
+        errors: [
+          'Bookings cannot start in the past',
+          'The end date must not be before the start date',
+        ],
+      });
+      expect(await book(addDays(today, 200), addDays(today, 201))).toEqual({
+        success: false,
+        errors: ['Bookings can be made up to 180 days ahead'],
+      });
+      expect(service.createReservation).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,17 +1,58 @@
 import type { ReservationService, CreateReservationInput, Reservation } from './reservation-service';
+import { addDays, startOfDay } from './calendar-date';
 
-export type CreateReservationCommand = CreateReservationInput;
+/** How far ahead bookings can be made. */
+export const MAX_BOOKING_DAYS_AHEAD = 180;
+
+export type CreateReservationCommand = CreateReservationInput & {
+  /** Units currently available, when the caller knows it. Zero refuses an undated reservation. */
+  readonly available?: number;
+};
 
 export type CreateReservationResult =
   | { success: true; item: Reservation }
   | { success: false; errors: string[] };
 
+/** Rules for a booking's days; returns every problem found. */
+export function checkBookingDates(
+  startDate: Date | undefined,
+  endDate: Date | undefined,
+  today: Date = new Date(),
+): string[] {
+  if (!startDate && !endDate) return [];
+  if (!startDate || !endDate) return ['Choose both a start and an end date'];
+  const errors: string[] = [];
+  const first = startOfDay(startDate);
+  const day = startOfDay(today);
+  if (first < day) errors.push('Bookings cannot start in the past');
+  if (startOfDay(endDate) < first) errors.push('The end date must not be before the start date');
+  const latest = addDays(day, MAX_BOOKING_DAYS_AHEAD);
+  if (first > latest) {
+    errors.push(`Bookings can be made up to ${MAX_BOOKING_DAYS_AHEAD} days ahead`);
+  }
+  return errors;
+}
+
 export async function createReservation(
   service: ReservationService,
   command: CreateReservationCommand
 ): Promise<CreateReservationResult> {
+  const { available, ...input } = command;
+  const dateErrors = checkBookingDates(input.startDate, input.endDate);
+  if (dateErrors.length) return { success: false, errors: dateErrors };
+  // Current availability says nothing about the days of a booking; the service checks those.
+  if (!input.startDate && available !== undefined && available <= 0) {
+    return {
+      success: false,
+      errors: [`"${command.deviceModelName}" is fully booked right now. Please try again once a unit is returned.`],
+    };
+  }
   try {
-    const output = await service.createReservation(command);
+    const output = await service.createReservation({
+      ...input,
+      ...(input.startDate ? { startDate: startOfDay(input.startDate) } : {}),
+      ...(input.endDate ? { endDate: startOfDay(input.endDate) } : {}),
+    });
     return { success: true, item: output.item };
   } catch (err: unknown) {
     return {
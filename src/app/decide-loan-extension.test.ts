@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+import { decideLoanExtension } from './decide-loan-extension';
+import type { ReservationService, Reservation } from './reservation-service';
+
+describe('decideLoanExtension', () => {
+  const reservation: Reservation = {
+    id: 'res-1',
+    userId: 'user-1',
+    deviceModelId: 'device-1',
+    deviceModelName: 'Laptop',
+    status: 'collected',
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-02'),
+    dueAt: new Date('2025-01-04T10:00:00Z'),
+    extension: { status: 'pending', requestedAt: new Date('2025-01-02'), days: 3 },
+  };
+
+  const createMockService = (overrides: Partial<ReservationService> = {}): ReservationService =>
+    ({
+      decideExtension: vi.fn().mockResolvedValue({ item: reservation }),
+      ...overrides,
+    }) as ReservationService;
+
+  it('approves and returns the reservation', async () => {
+    const approved: Reservation = {
+      ...reservation,
+      dueAt: new Date('2025-01-07T10:00:00Z'),
+      extension: { ...reservation.extension!, status: 'approved', decidedAt: new Date('2025-01-03') },
+    };
+    const mockDecide = vi.fn().mockResolvedValue({ item: approved });
+    const service = createMockService({ decideExtension: mockDecide });
+
+    const result = await decideLoanExtension(service, { reservation, approve: true, waitlisted: 0 });
+
+    expect(result).toEqual({ success: true, item: approved });
+    expect(mockDecide).toHaveBeenCalledWith('res-1', { approve: true });
+  });
+
+  it('denies with the trimmed reason', async () => {
+    const mockDecide = vi.fn().mockResolvedValue({ item: reservation });
+    const service = createMockService({ decideExtension: mockDecide });
+
+    await decideLoanExtension(service, { reservation, approve: false, reason: ' Needed for a course ' });
+
+    expect(mockDecide).toHaveBeenCalledWith('res-1', { approve: false, reason: 'Needed for a course' });
+  });
+
+  it('requires a reason to deny', async () => {
+    const mockDecide = vi.fn();
+    const service = createMockService({ decideExtension: mockDecide });
+
+    const result = await decideLoanExtension(service, { reservation, approve: false, reason: '  ' });
+
+    expect(result).toEqual({ success: false, errors: ['Give a reason for denying the extension'] });
+    expect(mockDecide).not.toHaveBeenCalled();
+  });
+
+  it('refuses to approve while someone is waitlisted, but still allows denying', async () => {
+    const mockDecide = vi.fn().mockResolvedValue({ item: reservation });
+    const service = createMockService({ decideExtension: mockDecide });
+
+    const approved = await decideLoanExtension(service, { reservation, approve: true, waitlisted: 2 });
+    const denied = await decideLoanExtension(service, {
+      reservation,
+      approve: false,
+      reason: 'Others are waiting',
+      waitlisted: 2,
+    });
+
+    expect(approved.success).toBe(false);
+    if (!approved.success) {
+      expect(approved.errors[0]).toContain('waitlist for "Laptop"');
+    }
+    expect(denied.success).toBe(true);
+    expect(mockDecide).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      decideExtension: vi.fn().mockRejectedValue(new Error('Reservation res-1 has no pending extension request')),
+    });
+
+    const result = await decideLoanExtension(service, { reservation, approve: true });
+
+    expect(result).toEqual({
+      success: false,
+      errors: ['Reservation res-1 has no pending extension request'],
+    });
+  });
+
+  it('returns default error message for non-Error exceptions', async () => {
+    const service = createMockService({
+      decideExtension: vi.fn().mockRejectedValue('boom'),
+    });
+
+    const result = await decideLoanExtension(service, { reservation, approve: true });
+
+    expect(result).toEqual({ success: false, errors: ['Failed to decide on the extension'] });
+  });
+});
@@ -0,0 +1,41 @@
+import type { ReservationService, Reservation } from './reservation-service';
+import { waitlistBlocksExtensionMessage } from './loan-extension';
+
+export type DecideLoanExtensionCommand = {
+  reservation: Reservation;
+  approve: boolean;
+  /** Required when denying so the borrower learns why. */
+  reason?: string;
+  /** Open waitlist entries for the device, when the caller knows them. Any blocks approval. */
+  waitlisted?: number;
+};
+
+export type DecideLoanExtensionResult =
+  | { success: true; item: Reservation }
+  | { success: false; errors: string[] };
+
+export async function decideLoanExtension(
+  service: ReservationService,
+  command: DecideLoanExtensionCommand,
+): Promise<DecideLoanExtensionResult> {
+  const { reservation, approve } = command;
+  const reason = command.reason?.trim();
+  if (!approve && !reason) {
+    return { success: false, errors: ['Give a reason for denying the extension'] };
+  }
+  if (approve && command.waitlisted !== undefined && command.waitlisted > 0) {
+    return { success: false, errors: [waitlistBlocksExtensionMessage(reservation.deviceModelName)] };
+  }
+  try {
+    const output = await service.decideExtension(reservation.id, {
+      approve,
+      ...(reason ? { reason } : {}),
+    });
+    return { success: true, item: output.item };
+  } catch (err: unknown) {
+    return {
+      success: false,
+      errors: [err instanceof Error ? err.message : 'Failed to decide on the extension'],
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect, vi } from 'vitest';
+import { deleteAsset } from './delete-asset';
+import type { InventoryService } from './inventory-service';
+
+describe('deleteAsset', () => {
+  const createMockService = (overrides: Partial<InventoryService> = {}): InventoryService => ({
+    listInventoryItems: vi.fn(),
+    addInventoryItem: vi.fn(),
+    updateInventoryItem: vi.fn(),
+    deleteInventoryItem: vi.fn(),
+    listAssets: vi.fn(),
+    addAsset: vi.fn(),
+    updateAsset: vi.fn(),
+    deleteAsset: vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  });
+
+  it('returns success when service deletes the asset', async () => {
+    const service = createMockService();
+
+    const result = await deleteAsset(service, { deviceId: 'dev-1', assetId: 'ast-1' });
+
+    expect(result.success).toBe(true);
+    expect(service.deleteAsset).toHaveBeenCalledWith('dev-1', 'ast-1');
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      deleteAsset: vi.fn().mockRejectedValue(new Error('delete failed')),
+    });
+
+    const result = await deleteAsset(service, { deviceId: 'dev-1', assetId: 'ast-1' });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors).toEqual(['delete failed']);
+    }
+  });
+});
@@ -0,0 +1,25 @@
+import type { InventoryService } from './inventory-service';
+
+export type DeleteAssetResult =
+  | { success: true }
+  | { success: false; errors: readonly string[] };
+
+export type DeleteAssetCommand = {
+  readonly deviceId: string;
+  readonly assetId: string;
+};
+
+export type DeleteAssetUseCase = (
+  service: InventoryService,
+  command: DeleteAssetCommand,
+) => Promise<DeleteAssetResult>;
+
+export const deleteAsset: DeleteAssetUseCase = async (service, command) => {
+  try {
+    await service.deleteAsset(command.deviceId, command.assetId);
+    return { success: true };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, errors: [message] };
+  }
+};
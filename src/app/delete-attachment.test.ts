@@ -0,0 +1,34 @@
+import { describe, it, expect, vi } from 'vitest';
+import { deleteAttachment } from './delete-attachment';
+import type { InventoryService } from './inventory-service';
+
+describe('deleteAttachment', () => {
+  const createMockService = (overrides: Partial<InventoryService> = {}): InventoryService =>
+    ({
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi.fn(),
+      deleteInventoryItem: vi.fn(),
+      deleteAttachment: vi.fn().mockResolvedValue(undefined),
+      ...overrides,
+    }) as InventoryService;
+
+  it('returns success when service deletes the file', async () => {
+    const service = createMockService();
+
+    const result = await deleteAttachment(service, { deviceId: 'dev-1', attachmentId: 'att-1' });
+
+    expect(result.success).toBe(true);
+    expect(service.deleteAttachment).toHaveBeenCalledWith('dev-1', 'att-1');
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      deleteAttachment: vi.fn().mockRejectedValue(new Error('delete failed')),
+    });
+
+    const result = await deleteAttachment(service, { deviceId: 'dev-1', attachmentId: 'att-1' });
+
+    expect(result).toEqual({ success: false, errors: ['delete failed'] });
+  });
+});
@@ -0,0 +1,25 @@
+import type { InventoryService } from './inventory-service';
+
+export type DeleteAttachmentResult =
+  | { success: true }
+  | { success: false; errors: readonly string[] };
+
+export type DeleteAttachmentCommand = {
+  readonly deviceId: string;
+  readonly attachmentId: string;
+};
+
+export type DeleteAttachmentUseCase = (
+  service: InventoryService,
+  command: DeleteAttachmentCommand,
+) => Promise<DeleteAttachmentResult>;
+
+export const deleteAttachment: DeleteAttachmentUseCase = async (service, command) => {
+  try {
+    await service.deleteAttachment(command.deviceId, command.attachmentId);
+    return { success: true };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, errors: [message] };
+  }
+};
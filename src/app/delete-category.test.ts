@@ -0,0 +1,34 @@
+import { describe, it, expect, vi } from 'vitest';
+import { deleteCategory } from './delete-category';
+import type { InventoryService } from './inventory-service';
+
+describe('deleteCategory', () => {
+  const createMockService = (overrides: Partial<InventoryService> = {}): InventoryService =>
+    ({
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi.fn(),
+      deleteInventoryItem: vi.fn(),
+      deleteCategory: vi.fn().mockResolvedValue(undefined),
+      ...overrides,
+    }) as InventoryService;
+
+  it('returns success when service deletes the category', async () => {
+    const service = createMockService();
+
+    const result = await deleteCategory(service, { id: 'cat-1' });
+
+    expect(result.success).toBe(true);
+    expect(service.deleteCategory).toHaveBeenCalledWith('cat-1');
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      deleteCategory: vi.fn().mockRejectedValue(new Error('delete failed')),
+    });
+
+    const result = await deleteCategory(service, { id: 'cat-1' });
+
+    expect(result).toEqual({ success: false, errors: ['delete failed'] });
+  });
+});
@@ -0,0 +1,24 @@
+import type { InventoryService } from './inventory-service';
+
+export type DeleteCategoryResult =
+  | { success: true }
+  | { success: false; errors: readonly string[] };
+
+export type DeleteCategoryCommand = {
+  readonly id: string;
+};
+
+export type DeleteCategoryUseCase = (
+  service: InventoryService,
+  command: DeleteCategoryCommand,
+) => Promise<DeleteCategoryResult>;
+
+export const deleteCategory: DeleteCategoryUseCase = async (service, command) => {
+  try {
+    await service.deleteCategory(command.id);
+    return { success: true };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, errors: [message] };
+  }
+};
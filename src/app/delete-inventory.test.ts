@@ -1,6 +1,7 @@
 import { describe, it, expect, vi } from 'vitest';
 import { deleteInventory } from './delete-inventory';
 import type { InventoryService } from './inventory-service';
+import { DeviceInUseError } from './errors';
 
 describe('deleteInventory', () => {
   it('returns success when service deletes item', async () => {
@@ -32,4 +33,21 @@ describe('deleteInventory', () => {
       expect(result.errors).toEqual(['delete failed']);
     }
   });
+
+  it('reports active reservations that block the delete', async () => {
+    const service: InventoryService = {
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi.fn(),
+      deleteInventoryItem: vi.fn().mockRejectedValue(new DeviceInUseError(2)),
+    };
+
+    const result = await deleteInventory(service, { id: 'dev-1' });
+
+    expect(result).toEqual({
+      success: false,
+      errors: ['This device has 2 active reservations and cannot be deleted'],
+      inUse: { activeReservations: 2 },
+    });
+  });
 });
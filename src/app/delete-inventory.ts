@@ -1,8 +1,14 @@
 import type { InventoryService } from './inventory-service';
+import { DeviceInUseError } from './errors';
 
 export type DeleteInventoryResult =
   | { success: true }
-  | { success: false; errors: readonly string[] };
+  | {
+      success: false;
+      errors: readonly string[];
+      /** Set when active reservations still reference the device. */
+      inUse?: { readonly activeReservations: number };
+    };
 
 export type DeleteInventoryCommand = {
   readonly id: string;
@@ -18,6 +24,13 @@ export const deleteInventory: DeleteInventoryUseCase = async (service, command)
     await service.deleteInventoryItem(command.id);
     return { success: true };
   } catch (err) {
+    if (err instanceof DeviceInUseError) {
+      return {
+        success: false,
+        errors: [err.message],
+        inUse: { activeReservations: err.activeReservations },
+      };
+    }
     const message = err instanceof Error ? err.message : String(err);
     return { success: false, errors: [message] };
   }
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  matchesSpec,
+  parseSpecValue,
+  draftEntries,
+  sameSpecs,
+  specDrafts,
+  specEntries,
+  specKeys,
+  toSpecs,
+} from './device-specs';
+import type { Device } from './inventory-service';
+
+const device = (overrides: Partial<Device> = {}): Device => ({
+  id: 'dev-1',
+  name: 'Laptop',
+  description: 'Dell XPS 13',
+  count: 1,
+  updatedAt: new Date('2025-01-01'),
+  ...overrides,
+});
+
+describe('device specs', () => {
+  it('parses plain numbers as numbers and keeps other text', () => {
+    expect(parseSpecValue(' 16 ')).toBe(16);
+    expect(parseSpecValue('2.8')).toBe(2.8);
+    expect(parseSpecValue('1920x1080')).toBe('1920x1080');
+    expect(parseSpecValue(' EF ')).toBe('EF');
+  });
+
+  it('converts between entries and the spec map', () => {
+    const specs = toSpecs([
+      { key: ' RAM ', value: 16 },
+      { key: 'Lens mount', value: ' EF ' },
+    ]);
+
+    expect(specs).toEqual({ RAM: 16, 'Lens mount': 'EF' });
+    expect(specEntries(specs)).toEqual([
+      { key: 'RAM', value: 16 },
+      { key: 'Lens mount', value: 'EF' },
+    ]);
+    expect(specEntries(undefined)).toEqual([]);
+  });
+
+  it('turns form rows into entries and back, skipping blank rows', () => {
+    expect(
+      draftEntries([
+        { key: 'RAM', value: '16' },
+        { key: ' ', value: '' },
+        { key: 'OS', value: '' },
+      ]),
+    ).toEqual([
+      { key: 'RAM', value: 16 },
+      { key: 'OS', value: '' },
+    ]);
+    expect(specDrafts({ RAM: 16 })).toEqual([{ key: 'RAM', value: '16' }]);
+  });
+
+  it('compares spec maps by content', () => {
+    expect(sameSpecs({ RAM: 16, CPU: 'i7' }, { CPU: 'i7', RAM: 16 })).toBe(true);
+    expect(sameSpecs({ RAM: 16 }, { RAM: '16' })).toBe(false);
+    expect(sameSpecs(undefined, {})).toBe(true);
+    expect(sameSpecs({ RAM: 16 }, undefined)).toBe(false);
+  });
+
+  it('matches a spec value ignoring case', () => {
+    const laptop = device({ specs: { RAM: 16, OS: 'Windows' } });
+
+    expect(matchesSpec(laptop, { key: 'ram', value: '16' })).toBe(true);
+    expect(matchesSpec(laptop, { key: 'os', value: ' windows ' })).toBe(true);
+    expect(matchesSpec(laptop, { key: 'RAM', value: '8' })).toBe(false);
+    expect(matchesSpec(device(), { key: 'RAM', value: '16' })).toBe(false);
+  });
+
+  it('lists the labels in use', () => {
+    expect(
+      specKeys([
+        device({ specs: { RAM: 16, os: 'Windows' } }),
+        device({ id: 'dev-2', specs: { 'Lens mount': 'EF', RAM: 8 } }),
+        device({ id: 'dev-3' }),
+      ]),
+    ).toEqual(['Lens mount', 'os', 'RAM']);
+  });
+});
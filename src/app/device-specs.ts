@@ -0,0 +1,70 @@
+import type { Device, DeviceSpecs, SpecFilter, SpecValue } from './inventory-service';
+
+/** One spec as edited in a form or read from a file. */
+export type SpecEntry = {
+  readonly key: string;
+  readonly value: SpecValue;
+};
+
+/** A spec row in a form, before its value is parsed. */
+export type SpecDraft = {
+  key: string;
+  value: string;
+};
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+/** Plain numbers become numbers so they compare as such; the rest stays text. */
+export function parseSpecValue(raw: string): SpecValue {
+  const value = raw.trim();
+  return NUMBER_PATTERN.test(value) ? Number(value) : value;
+}
+
+export function specEntries(specs: DeviceSpecs | undefined): SpecEntry[] {
+  return Object.entries(specs ?? {}).map(([key, value]) => ({ key, value }));
+}
+
+export function specDrafts(specs: DeviceSpecs | undefined): SpecDraft[] {
+  return specEntries(specs).map(({ key, value }) => ({ key, value: String(value) }));
+}
+
+/** Blank rows are dropped; the rest are kept for validation as typed. */
+export function draftEntries(drafts: readonly SpecDraft[]): SpecEntry[] {
+  return drafts
+    .filter((d) => d.key.trim() || d.value.trim())
+    .map((d) => ({ key: d.key, value: parseSpecValue(d.value) }));
+}
+
+/** Keys are trimmed; a later entry for the same key wins. */
+export function toSpecs(entries: readonly SpecEntry[]): DeviceSpecs {
+  const specs: Record<string, SpecValue> = {};
+  for (const { key, value } of entries) {
+    specs[key.trim()] = typeof value === 'string' ? value.trim() : value;
+  }
+  return specs;
+}
+
+export function sameSpecs(a: DeviceSpecs | undefined, b: DeviceSpecs | undefined): boolean {
+  const left = Object.entries(a ?? {});
+  return (
+    left.length === Object.keys(b ?? {}).length &&
+    left.every(([key, value]) => b?.[key] === value)
+  );
+}
+
+export function matchesSpec(device: Device, filter: SpecFilter): boolean {
+  const key = filter.key.trim().toLowerCase();
+  const value = filter.value.trim().toLowerCase();
+  return Object.entries(device.specs ?? {}).some(
+    ([k, v]) => k.toLowerCase() === key && String(v).toLowerCase() === value,
+  );
+}
+
+/** Every spec label used by the given devices, sorted for a picker. */
+export function specKeys(devices: readonly Device[]): string[] {
+  const keys = new Set<string>();
+  for (const device of devices) {
+    for (const key of Object.keys(device.specs ?? {})) keys.add(key);
+  }
+  return [...keys].sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }));
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatTags,
+  hasTag,
+  normalizeTags,
+  parseTags,
+  sameTags,
+  tagNames,
+} from './device-tags';
+import type { Device } from './inventory-service';
+
+const device = (overrides: Partial<Device> = {}): Device => ({
+  id: 'dev-1',
+  name: 'Laptop',
+  description: 'Dell XPS 13',
+  count: 1,
+  updatedAt: new Date('2025-01-01'),
+  ...overrides,
+});
+
+describe('device tags', () => {
+  it('trims tags and drops blanks and repeats, keeping the first spelling', () => {
+    expect(normalizeTags([' 4K ', '', 'usb-c', '4k', 'USB-C '])).toEqual(['4K', 'usb-c']);
+  });
+
+  it('parses and formats comma-separated text', () => {
+    expect(parseTags('4k, usb-c,, travel ')).toEqual(['4k', 'usb-c', 'travel']);
+    expect(parseTags('  ')).toEqual([]);
+    expect(formatTags(['4k', 'usb-c'])).toBe('4k, usb-c');
+    expect(formatTags(undefined)).toBe('');
+  });
+
+  it('compares tag lists in order, treating a missing list as empty', () => {
+    expect(sameTags(['a', 'b'], ['a', 'b'])).toBe(true);
+    expect(sameTags(['a', 'b'], ['b', 'a'])).toBe(false);
+    expect(sameTags(undefined, [])).toBe(true);
+  });
+
+  it('matches a tag ignoring case', () => {
+    const tagged = device({ tags: ['USB-C', 'travel'] });
+
+    expect(hasTag(tagged, ' usb-c ')).toBe(true);
+    expect(hasTag(tagged, '4k')).toBe(false);
+    expect(hasTag(device(), 'travel')).toBe(false);
+  });
+
+  it('lists every tag in use, sorted', () => {
+    const devices = [
+      device({ tags: ['travel', 'USB-C'] }),
+      device({ id: 'dev-2', tags: ['4k', 'usb-c'] }),
+      device({ id: 'dev-3' }),
+    ];
+
+    expect(tagNames(devices)).toEqual(['4k', 'travel', 'USB-C']);
+  });
+});
@@ -0,0 +1,44 @@
+import type { Device } from './inventory-service';
+
+/** Tags are trimmed, blanks dropped and repeats removed, ignoring case. */
+export function normalizeTags(tags: readonly string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const raw of tags) {
+    const tag = raw.trim();
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    result.push(tag);
+  }
+  return result;
+}
+
+/** Comma-separated tags as typed in a form. */
+export function parseTags(text: string): string[] {
+  return normalizeTags(text.split(','));
+}
+
+export function formatTags(tags: readonly string[] | undefined): string {
+  return (tags ?? []).join(', ');
+}
+
+export function sameTags(
+  a: readonly string[] | undefined,
+  b: readonly string[] | undefined,
+): boolean {
+  const left = a ?? [];
+  const right = b ?? [];
+  return left.length === right.length && left.every((tag, i) => tag === right[i]);
+}
+
+export function hasTag(device: Device, tag: string): boolean {
+  const wanted = tag.trim().toLowerCase();
+  return (device.tags ?? []).some((t) => t.toLowerCase() === wanted);
+}
+
+/** Every tag used by the given devices, sorted for a picker. */
+export function tagNames(devices: readonly Device[]): string[] {
+  return normalizeTags(devices.flatMap((d) => d.tags ?? [])).sort((a, b) =>
+    a.localeCompare(b, undefined, { sensitivity: 'base' }),
+  );
+}
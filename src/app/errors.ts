@@ -0,0 +1,51 @@
+import type { Device } from './inventory-service';
+import type { InventoryFieldErrors } from './validate-inventory';
+
+/**
+ * Thrown when an update was made against a stale version of a device, i.e.
+ * someone else saved a change in between.
+ */
+export class ConcurrencyConflictError extends Error {
+  /** The device as it is now, when the service could tell us. */
+  readonly current?: Device;
+
+  constructor(
+    message = 'This device was changed by someone else since you loaded it',
+    current?: Device,
+  ) {
+    super(message);
+    this.name = 'ConcurrencyConflictError';
+    this.current = current;
+  }
+}
+
+/**
+ * Thrown when a device cannot be deleted permanently because active
+ * reservations still reference it.
+ */
+export class DeviceInUseError extends Error {
+  readonly activeReservations: number;
+
+  constructor(activeReservations: number, message?: string) {
+    super(
+      message ??
+        `This device has ${activeReservations} active reservation${activeReservations === 1 ? '' : 's'} and cannot be deleted`,
+    );
+    this.name = 'DeviceInUseError';
+    this.activeReservations = activeReservations;
+  }
+}
+
+/**
+ * Thrown when the service rejects a device's fields, keyed by the field each
+ * message belongs to so a form can show it next to the input.
+ */
+export class DeviceValidationError extends Error {
+  readonly fieldErrors: InventoryFieldErrors;
+
+  constructor(fieldErrors: InventoryFieldErrors, message?: string) {
+    super(message ?? (Object.values(fieldErrors).join('; ') || 'The device is not valid'));
+    this.name = 'DeviceValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { exportDevices, exportReservations } from './export-records';
+import type { Device } from './inventory-service';
+import type { Reservation } from './reservation-service';
+
+const devices: Device[] = [
+  {
+    id: 'dev-1',
+    name: 'Camera, DSLR',
+    description: 'Body with "kit" lens\nand strap',
+    count: 4,
+    available: 2,
+    updatedAt: new Date('2025-01-02T03:04:05.000Z'),
+  },
+  {
+    id: 'dev-2',
+    name: '=HYPERLINK("x")',
+    description: 'Plain',
+    updatedAt: new Date('2025-02-01T00:00:00.000Z'),
+  },
+];
+
+const reservation: Reservation = {
+  id: 'res-1',
+  userId: 'user-1',
+  deviceModelId: 'dev-1',
+  deviceModelName: 'Camera',
+  status: 'collected',
+  createdAt: new Date('2025-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2025-01-02T00:00:00.000Z'),
+  collectedAt: new Date('2025-01-02T00:00:00.000Z'),
+  dueAt: new Date('2025-01-04T00:00:00.000Z'),
+};
+
+const now = new Date('2025-03-15T12:00:00.000Z');
+
+describe('exportDevices', () => {
+  it('writes CSV with stable columns, ISO dates and escaping', () => {
+    const file = exportDevices(devices, 'csv', now);
+
+    expect(file.filename).toBe('inventory-2025-03-15.csv');
+    expect(file.mimeType).toBe('text/csv;charset=utf-8');
+    expect(file.content).toBe(
+      [
+        'id,name,description,count,available,updatedAt',
+        'dev-1,"Camera, DSLR","Body with ""kit"" lens\nand strap",4,2,2025-01-02T03:04:05.000Z',
+        `dev-2,"'=HYPERLINK(""x"")",Plain,,,2025-02-01T00:00:00.000Z`,
+        '',
+      ].join('\r\n'),
+    );
+  });
+
+  it('writes JSON with nulls for missing values', () => {
+    const file = exportDevices(devices.slice(1), 'json', now);
+
+    expect(file.filename).toBe('inventory-2025-03-15.json');
+    expect(JSON.parse(file.content)).toEqual([
+      {
+        id: 'dev-2',
+        name: '=HYPERLINK("x")',
+        description: 'Plain',
+        count: null,
+        available: null,
+        updatedAt: '2025-02-01T00:00:00.000Z',
+      },
+    ]);
+  });
+});
+
+describe('exportReservations', () => {
+  it('exports every reservation column in order', () => {
+    const file = exportReservations([reservation], 'csv', now);
+
+    expect(file.filename).toBe('reservations-2025-03-15.csv');
+    expect(file.content.split('\r\n').slice(0, 2)).toEqual([
+      'id,userId,deviceModelId,deviceModelName,status,assetId,createdAt,collectedAt,returnedAt,dueAt',
+      'res-1,user-1,dev-1,Camera,collected,,2025-01-01T00:00:00.000Z,2025-01-02T00:00:00.000Z,,2025-01-04T00:00:00.000Z',
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+import type { Device } from './inventory-service';
+import type { Reservation } from './reservation-service';
+
+export type ExportFormat = 'csv' | 'json';
+
+export type ExportFile = {
+  readonly filename: string;
+  readonly mimeType: string;
+  readonly content: string;
+};
+
+type Cell = string | number | Date | undefined;
+
+/** An ordered column. Keys double as CSV headers and JSON property names. */
+export type ExportColumn<T> = {
+  readonly key: string;
+  readonly value: (row: T) => Cell;
+};
+
+// Column order is part of the file format; append new columns at the end.
+export const DEVICE_EXPORT_COLUMNS: readonly ExportColumn<Device>[] = [
+  { key: 'id', value: (d) => d.id },
+  { key: 'name', value: (d) => d.name },
+  { key: 'description', value: (d) => d.description },
+  { key: 'count', value: (d) => d.count },
+  { key: 'available', value: (d) => d.available },
+  { key: 'updatedAt', value: (d) => d.updatedAt },
+];
+
+export const RESERVATION_EXPORT_COLUMNS: readonly ExportColumn<Reservation>[] = [
+  { key: 'id', value: (r) => r.id },
+  { key: 'userId', value: (r) => r.userId },
+  { key: 'deviceModelId', value: (r) => r.deviceModelId },
+  { key: 'deviceModelName', value: (r) => r.deviceModelName },
+  { key: 'status', value: (r) => r.status },
+  { key: 'assetId', value: (r) => r.assetId },
+  { key: 'createdAt', value: (r) => r.createdAt },
+  { key: 'collectedAt', value: (r) => r.collectedAt },
+  { key: 'returnedAt', value: (r) => r.returnedAt },
+  { key: 'dueAt', value: (r) => r.dueAt },
+];
+
+export function exportDevices(
+  items: readonly Device[],
+  format: ExportFormat,
+  now: Date = new Date(),
+): ExportFile {
+  return buildFile('inventory', items, DEVICE_EXPORT_COLUMNS, format, now);
+}
+
+export function exportReservations(
+  items: readonly Reservation[],
+  format: ExportFormat,
+  now: Date = new Date(),
+): ExportFile {
+  return buildFile('reservations', items, RESERVATION_EXPORT_COLUMNS, format, now);
+}
+
+export function toCsv<T>(
+  rows: readonly T[],
+  columns: readonly ExportColumn<T>[],
+): string {
+  const lines = [
+    columns.map((c) => escapeCsv(c.key)).join(','),
+    ...rows.map((row) =>
+      columns.map((c) => escapeCsv(formatCell(c.value(row)))).join(','),
+    ),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function toJson<T>(
+  rows: readonly T[],
+  columns: readonly ExportColumn<T>[],
+): string {
+  const records = rows.map((row) => {
+    const record: Record<string, string | number | null> = {};
+    for (const c of columns) {
+      const value = c.value(row);
+      record[c.key] =
+        value === undefined ? null : value instanceof Date ? value.toISOString() : value;
+    }
+    return record;
+  });
+  return JSON.stringify(records, null, 2);
+}
+
+function buildFile<T>(
+  name: string,
+  rows: readonly T[],
+  columns: readonly ExportColumn<T>[],
+  format: ExportFormat,
+  now: Date,
+): ExportFile {
+  const stamp = now.toISOString().slice(0, 10);
+  return format === 'csv'
+    ? {
+        filename: `${name}-${stamp}.csv`,
+        mimeType: 'text/csv;charset=utf-8',
+        content: toCsv(rows, columns),
+      }
+    : {
+        filename: `${name}-${stamp}.json`,
+        mimeType: 'application/json',
+        content: toJson(rows, columns),
+      };
+}
+
+function formatCell(value: Cell): string {
+  if (value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+function escapeCsv(value: string): string {
+  // Spreadsheet apps run cells starting with these as formulas.
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getDeviceHistory } from './get-device-history';
+import type { InventoryService, AuditEntry } from './inventory-service';
+
+describe('getDeviceHistory', () => {
+  const entries: AuditEntry[] = [
+    {
+      id: 'aud-2',
+      deviceModelId: 'dev-1',
+      actor: 'staff-1',
+      action: 'updated',
+      changes: [{ field: 'name', before: 'Laptop', after: 'Laptop Pro' }],
+      timestamp: new Date('2025-02-01'),
+    },
+    {
+      id: 'aud-1',
+      deviceModelId: 'dev-1',
+      actor: 'staff-1',
+      action: 'created',
+      changes: [{ field: 'name', before: null, after: 'Laptop' }],
+      timestamp: new Date('2025-01-01'),
+    },
+  ];
+
+  const createMockService = (overrides: Partial<InventoryService> = {}): InventoryService =>
+    ({
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi.fn(),
+      deleteInventoryItem: vi.fn(),
+      getHistory: vi.fn().mockResolvedValue({ items: entries, totalCount: 2 }),
+      ...overrides,
+    }) as InventoryService;
+
+  it('returns the audit trail of a device', async () => {
+    const service = createMockService();
+
+    const result = await getDeviceHistory(service, { id: 'dev-1' });
+
+    expect(service.getHistory).toHaveBeenCalledWith('dev-1');
+    expect(result).toEqual({ success: true, items: entries, totalCount: 2 });
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      getHistory: vi.fn().mockRejectedValue(new Error('forbidden')),
+    });
+
+    const result = await getDeviceHistory(service, { id: 'dev-1' });
+
+    expect(result).toEqual({ success: false, errors: ['forbidden'] });
+  });
+});
@@ -0,0 +1,27 @@
+import type { InventoryService, AuditEntry } from './inventory-service';
+
+export type GetDeviceHistoryResult =
+  | { success: true; items: readonly AuditEntry[]; totalCount: number }
+  | { success: false; errors: readonly string[] };
+
+export type GetDeviceHistoryCommand = {
+  readonly id: string;
+};
+
+export type GetDeviceHistoryUseCase = (
+  service: InventoryService,
+  command: GetDeviceHistoryCommand,
+) => Promise<GetDeviceHistoryResult>;
+
+export const getDeviceHistory: GetDeviceHistoryUseCase = async (
+  service,
+  command,
+) => {
+  try {
+    const { items, totalCount } = await service.getHistory(command.id);
+    return { success: true, items, totalCount };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, errors: [message] };
+  }
+};
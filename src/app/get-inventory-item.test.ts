@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getInventoryItem } from './get-inventory-item';
+import type { InventoryService, Device } from './inventory-service';
+
+describe('getInventoryItem', () => {
+  const device: Device = {
+    id: 'dev-1',
+    name: 'Laptop',
+    description: 'Dell XPS 13',
+    count: 4,
+    available: 3,
+    updatedAt: new Date('2025-01-01'),
+  };
+
+  const createMockService = (overrides: Partial<InventoryService> = {}): InventoryService =>
+    ({
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi.fn(),
+      deleteInventoryItem: vi.fn(),
+      getInventoryItem: vi.fn().mockResolvedValue({ item: device }),
+      ...overrides,
+    }) as InventoryService;
+
+  it('returns the device', async () => {
+    const service = createMockService();
+
+    const result = await getInventoryItem(service, { id: 'dev-1' });
+
+    expect(service.getInventoryItem).toHaveBeenCalledWith('dev-1');
+    expect(result).toEqual({ success: true, item: device });
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      getInventoryItem: vi.fn().mockRejectedValue(new Error('Device with id dev-9 not found')),
+    });
+
+    const result = await getInventoryItem(service, { id: 'dev-9' });
+
+    expect(result).toEqual({ success: false, errors: ['Device with id dev-9 not found'] });
+  });
+});
@@ -0,0 +1,27 @@
+import type { InventoryService, Device } from './inventory-service';
+
+export type GetInventoryItemResult =
+  | { success: true; item: Device }
+  | { success: false; errors: readonly string[] };
+
+export type GetInventoryItemCommand = {
+  readonly id: string;
+};
+
+export type GetInventoryItemUseCase = (
+  service: InventoryService,
+  command: GetInventoryItemCommand,
+) => Promise<GetInventoryItemResult>;
+
+export const getInventoryItem: GetInventoryItemUseCase = async (
+  service,
+  command,
+) => {
+  try {
+    const { item } = await service.getInventoryItem(command.id);
+    return { success: true, item };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, errors: [message] };
+  }
+};
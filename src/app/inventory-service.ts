@@ -1,29 +1,369 @@
+/** A room or site devices are lent from. */
+export type Location = {
+  readonly id: string;
+  readonly name: string;
+};
+
+/** Units of a device kept at one location. */
+export type LocationStock = {
+  readonly locationId: string;
+  readonly count: number;
+};
+
+/** A kind of device borrowers browse by, e.g. Laptops or Cameras. */
+export type Category = {
+  readonly id: string;
+  readonly name: string;
+};
+
+/** Numbers compare as numbers, e.g. RAM in GB; anything else is text. */
+export type SpecValue = string | number;
+
+/** Technical specifications by label, e.g. `{ RAM: 16, 'Lens mount': 'EF' }`. */
+export type DeviceSpecs = Readonly<Record<string, SpecValue>>;
+
+/** Devices whose spec `key` has `value`, both compared ignoring case. */
+export type SpecFilter = {
+  readonly key: string;
+  readonly value: string;
+};
+
 export type Device = {
   readonly id: string;
   readonly name: string;
   readonly description: string;
   readonly count?: number;
+  /** Stock minus active reservations, when known. */
+  readonly available?: number;
   readonly updatedAt: Date;
+  /** Opaque version tag (an ETag over HTTP), changed by every write. */
+  readonly version?: string;
+  /** Set while the device sits in the trash. */
+  readonly archivedAt?: Date;
+  /** Staff are alerted when availability falls below this; 0 or unset turns it off. */
+  readonly minStock?: number;
+  /** Units out for repair. They stay in `count` but cannot be reserved. */
+  readonly inRepair?: number;
+  /**
+   * Units kept at each location. They never add up to more than `count`;
+   * any remainder has no recorded location.
+   */
+  readonly locationStock?: readonly LocationStock[];
+  readonly specs?: DeviceSpecs;
+  /** Unset for devices not filed under any category. */
+  readonly categoryId?: string;
+  /** Free-form labels such as `4k` or `usb-c`, in the order they were given. */
+  readonly tags?: readonly string[];
+  /** Address of the device's photo, when one was uploaded. */
+  readonly imageUrl?: string;
+};
+
+export type DeviceSortField = 'name' | 'count' | 'updatedAt';
+
+export type SortDirection = 'asc' | 'desc';
+
+export type ListDevicesQuery = {
+  /** Opaque cursor taken from `nextCursor` of the previous page. */
+  readonly cursor?: string;
+  /** Maximum number of items per page. Omit to fetch everything. */
+  readonly limit?: number;
+  /** Case-insensitive free-text match over name and description. */
+  readonly search?: string;
+  readonly inStockOnly?: boolean;
+  readonly sortBy?: DeviceSortField;
+  /** Defaults to ascending. */
+  readonly sortDirection?: SortDirection;
+  /** List only devices in the trash instead of leaving them out. */
+  readonly archived?: boolean;
+  /** Only devices stocked at this location; `available` then counts it alone. */
+  readonly locationId?: string;
+  readonly spec?: SpecFilter;
+  readonly categoryId?: string;
+  /** Only devices carrying this tag, compared ignoring case. */
+  readonly tag?: string;
 };
 
 export type ListDevicesOutput = {
   readonly items: readonly Device[];
   readonly totalCount: number;
+  /** Present when more items follow this page. */
+  readonly nextCursor?: string;
 };
 
 export type AddDeviceInput = {
   readonly name: string;
   readonly description: string;
   readonly count?: number;
+  readonly minStock?: number;
+  /** Replaces the whole split across locations when given. */
+  readonly locationStock?: readonly LocationStock[];
+  /** Replaces every spec when given; an empty map clears them. */
+  readonly specs?: DeviceSpecs;
+  /** An empty string takes the device out of its category. */
+  readonly categoryId?: string;
+  /** Replaces every tag when given; an empty list clears them. */
+  readonly tags?: readonly string[];
 };
 
 export type AddDeviceOutput = {
   readonly item: Device;
 };
 
+/** A device has at most one photo; any number of documents such as manuals. */
+export type AttachmentKind = 'photo' | 'document';
+
+/** A file kept with a device model. */
+export type Attachment = {
+  readonly id: string;
+  readonly deviceModelId: string;
+  readonly kind: AttachmentKind;
+  readonly fileName: string;
+  readonly contentType: string;
+  /** In bytes. */
+  readonly size: number;
+  /** Where the file can be viewed or downloaded. */
+  readonly url: string;
+  readonly createdAt: Date;
+};
+
+export type ListAttachmentsOutput = {
+  readonly items: readonly Attachment[];
+  readonly totalCount: number;
+};
+
+export type UploadAttachmentInput = {
+  readonly kind: AttachmentKind;
+  readonly file: Blob;
+  readonly fileName: string;
+};
+
+export type UploadAttachmentOutput = {
+  readonly item: Attachment;
+  /** The device afterwards; a new photo changes its `imageUrl`. */
+  readonly device: Device;
+};
+
+export type AssetCondition = 'new' | 'good' | 'fair' | 'damaged';
+
+export type AssetStatus = 'available' | 'on-loan' | 'maintenance' | 'retired';
+
+/** A single physical unit of a device model. */
+export type Asset = {
+  readonly id: string;
+  readonly deviceModelId: string;
+  readonly serialNumber: string;
+  readonly assetTag: string;
+  readonly condition: AssetCondition;
+  readonly status: AssetStatus;
+  readonly updatedAt: Date;
+};
+
+export type ListAssetsOutput = {
+  readonly items: readonly Asset[];
+  readonly totalCount: number;
+};
+
+export type AddAssetInput = {
+  readonly serialNumber: string;
+  readonly assetTag: string;
+  readonly condition?: AssetCondition;
+  readonly status?: AssetStatus;
+};
+
+export type AssetOutput = {
+  readonly item: Asset;
+};
+
+/**
+ * Why stock moved. `correction` is recorded when a count is overwritten
+ * directly rather than adjusted.
+ */
+export type StockAdjustmentReason =
+  | 'purchased'
+  | 'lost'
+  | 'damaged'
+  | 'written-off'
+  | 'correction';
+
+/** One signed entry in a device's stock ledger. */
+export type StockAdjustment = {
+  readonly id: string;
+  readonly deviceModelId: string;
+  /** Positive adds units, negative removes them. */
+  readonly delta: number;
+  readonly reason: StockAdjustmentReason;
+  readonly note?: string;
+  /** Stock count after this entry was applied. */
+  readonly resultingCount: number;
+  /** Set when the units were added or removed at one location. */
+  readonly locationId?: string;
+  readonly createdAt: Date;
+};
+
+export type AdjustStockInput = {
+  readonly delta: number;
+  readonly reason: StockAdjustmentReason;
+  readonly note?: string;
+  /** Location whose stock changes; omit for units without a location. */
+  readonly locationId?: string;
+};
+
+export type AdjustStockOutput = {
+  readonly item: Device;
+  readonly adjustment: StockAdjustment;
+};
+
+export type ListStockAdjustmentsOutput = {
+  /** Newest first. */
+  readonly items: readonly StockAdjustment[];
+  readonly totalCount: number;
+};
+
+export type AuditAction =
+  | 'created'
+  | 'updated'
+  | 'stock-adjusted'
+  | 'maintenance'
+  | 'archived'
+  | 'restored'
+  | 'deleted';
+
+export type AuditValue = string | number | boolean | null;
+
+/** One field as it was before and after a change; `null` means unset. */
+export type AuditChange = {
+  readonly field: string;
+  readonly before: AuditValue;
+  readonly after: AuditValue;
+};
+
+/** Who changed what on a device, and when. */
+export type AuditEntry = {
+  readonly id: string;
+  readonly deviceModelId: string;
+  /** User id (or name) of whoever made the change. */
+  readonly actor: string;
+  readonly action: AuditAction;
+  readonly changes: readonly AuditChange[];
+  /** Free-text context, e.g. the reason for a stock adjustment. */
+  readonly note?: string;
+  readonly timestamp: Date;
+};
+
+export type DeviceHistoryOutput = {
+  /** Newest first. */
+  readonly items: readonly AuditEntry[];
+  readonly totalCount: number;
+};
+
+export type MaintenanceStatus = 'in-repair' | 'repaired' | 'written-off';
+
+/** Units of one device sent for repair together. */
+export type MaintenanceRecord = {
+  readonly id: string;
+  readonly deviceModelId: string;
+  readonly deviceModelName: string;
+  readonly quantity: number;
+  readonly note?: string;
+  readonly expectedReturnAt?: Date;
+  readonly status: MaintenanceStatus;
+  readonly createdAt: Date;
+  /** Set once the units came back repaired or were written off. */
+  readonly resolvedAt?: Date;
+  readonly resolutionNote?: string;
+};
+
+export type SendToMaintenanceInput = {
+  readonly quantity: number;
+  readonly note?: string;
+  readonly expectedReturnAt?: Date;
+};
+
+export type ResolveMaintenanceInput = {
+  /** `written-off` also removes the units from stock. */
+  readonly outcome: Exclude<MaintenanceStatus, 'in-repair'>;
+  readonly note?: string;
+};
+
+export type MaintenanceOutput = {
+  readonly item: MaintenanceRecord;
+  /** The device after its repair and stock figures changed. */
+  readonly device: Device;
+};
+
+export type ListMaintenanceQuery = {
+  readonly status?: MaintenanceStatus;
+};
+
+export type ListMaintenanceOutput = {
+  /** Newest first. */
+  readonly items: readonly MaintenanceRecord[];
+  readonly totalCount: number;
+};
+
+export type ListLocationsOutput = {
+  readonly items: readonly Location[];
+  readonly totalCount: number;
+};
+
+export type ListCategoriesOutput = {
+  readonly items: readonly Category[];
+  readonly totalCount: number;
+};
+
+export type CategoryInput = {
+  readonly name: string;
+};
+
+export type CategoryOutput = {
+  readonly item: Category;
+};
+
 export interface InventoryService {
-  listInventoryItems(): Promise<ListDevicesOutput>;
+  listInventoryItems(query?: ListDevicesQuery): Promise<ListDevicesOutput>;
+  /** A single device, including one in the trash. */
+  getInventoryItem(id: string): Promise<AddDeviceOutput>;
   addInventoryItem(input: AddDeviceInput): Promise<AddDeviceOutput>;
-  updateInventoryItem(id: string, input: Partial<AddDeviceInput>): Promise<AddDeviceOutput>;
+  /**
+   * Rejects with `ConcurrencyConflictError` when `expectedVersion` is given
+   * and no longer matches the stored device.
+   */
+  updateInventoryItem(
+    id: string,
+    input: Partial<AddDeviceInput>,
+    expectedVersion?: string,
+  ): Promise<AddDeviceOutput>;
+  /** Moves a device to the trash; it keeps its history and can be restored. */
+  archiveInventoryItem(id: string): Promise<AddDeviceOutput>;
+  restoreInventoryItem(id: string): Promise<AddDeviceOutput>;
+  /**
+   * Removes a device for good. Rejects with `DeviceInUseError` while active
+   * reservations still reference it.
+   */
   deleteInventoryItem(id: string): Promise<void>;
+  listAssets(deviceId: string): Promise<ListAssetsOutput>;
+  addAsset(deviceId: string, input: AddAssetInput): Promise<AssetOutput>;
+  updateAsset(deviceId: string, assetId: string, input: Partial<AddAssetInput>): Promise<AssetOutput>;
+  deleteAsset(deviceId: string, assetId: string): Promise<void>;
+  listAttachments(deviceId: string): Promise<ListAttachmentsOutput>;
+  /** A photo replaces the device's previous photo, if any. */
+  uploadAttachment(deviceId: string, input: UploadAttachmentInput): Promise<UploadAttachmentOutput>;
+  /** Deleting the photo leaves the device without an `imageUrl`. */
+  deleteAttachment(deviceId: string, attachmentId: string): Promise<void>;
+  adjustStock(id: string, input: AdjustStockInput): Promise<AdjustStockOutput>;
+  listStockAdjustments(id: string): Promise<ListStockAdjustmentsOutput>;
+  /** Audit trail of a device, including after it was deleted. */
+  getHistory(id: string): Promise<DeviceHistoryOutput>;
+  listLocations(): Promise<ListLocationsOutput>;
+  listCategories(): Promise<ListCategoriesOutput>;
+  /** Rejects when another category already has the name, ignoring case. */
+  addCategory(input: CategoryInput): Promise<CategoryOutput>;
+  updateCategory(id: string, input: CategoryInput): Promise<CategoryOutput>;
+  /** Devices filed under the category are left without one. */
+  deleteCategory(id: string): Promise<void>;
+  /** Records across every device, for the staff maintenance view. */
+  listMaintenance(query?: ListMaintenanceQuery): Promise<ListMaintenanceOutput>;
+  sendToMaintenance(deviceId: string, input: SendToMaintenanceInput): Promise<MaintenanceOutput>;
+  /** Closes an open record; rejects when it is already resolved. */
+  resolveMaintenance(recordId: string, input: ResolveMaintenanceInput): Promise<MaintenanceOutput>;
 }
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+import { joinWaitlist } from './join-waitlist';
+import type { ReservationService, WaitlistEntry } from './reservation-service';
+
+describe('joinWaitlist', () => {
+  const entry: WaitlistEntry = {
+    id: 'wait-1',
+    userId: 'user-1',
+    deviceModelId: 'device-1',
+    deviceModelName: 'Laptop',
+    status: 'waiting',
+    position: 2,
+    createdAt: new Date('2025-01-01'),
+  };
+
+  const createMockService = (overrides: Partial<ReservationService> = {}): ReservationService =>
+    ({
+      joinWaitlist: vi.fn().mockResolvedValue({ item: entry }),
+      ...overrides,
+    }) as ReservationService;
+
+  it('joins and returns the entry', async () => {
+    const mockJoin = vi.fn().mockResolvedValue({ item: entry });
+    const service = createMockService({ joinWaitlist: mockJoin });
+
+    const result = await joinWaitlist(service, {
+      deviceModelId: 'device-1',
+      deviceModelName: 'Laptop',
+      available: 0,
+      pickupLocationId: 'loc-1',
+    });
+
+    expect(result).toEqual({ success: true, item: entry });
+    expect(mockJoin).toHaveBeenCalledWith({
+      deviceModelId: 'device-1',
+      deviceModelName: 'Laptop',
+      pickupLocationId: 'loc-1',
+    });
+  });
+
+  it('refuses when units are available', async () => {
+    const mockJoin = vi.fn();
+    const service = createMockService({ joinWaitlist: mockJoin });
+
+    const result = await joinWaitlist(service, {
+      deviceModelId: 'device-1',
+      deviceModelName: 'Laptop',
+      available: 2,
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors[0]).toContain('Reserve one instead');
+    }
+    expect(mockJoin).not.toHaveBeenCalled();
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      joinWaitlist: vi.fn().mockRejectedValue(new Error('You are already on the waitlist for "Laptop"')),
+    });
+
+    const result = await joinWaitlist(service, { deviceModelId: 'device-1', deviceModelName: 'Laptop' });
+
+    expect(result).toEqual({ success: false, errors: ['You are already on the waitlist for "Laptop"'] });
+  });
+});
@@ -0,0 +1,32 @@
+import type { ReservationService, JoinWaitlistInput, WaitlistEntry } from './reservation-service';
+
+export type JoinWaitlistCommand = JoinWaitlistInput & {
+  /** Units currently available, when the caller knows it. Any free unit should be reserved instead. */
+  readonly available?: number;
+};
+
+export type JoinWaitlistResult =
+  | { success: true; item: WaitlistEntry }
+  | { success: false; errors: string[] };
+
+export async function joinWaitlist(
+  service: ReservationService,
+  command: JoinWaitlistCommand,
+): Promise<JoinWaitlistResult> {
+  const { available, ...input } = command;
+  if (available !== undefined && available > 0) {
+    return {
+      success: false,
+      errors: [`"${command.deviceModelName}" has units available. Reserve one instead of joining the waitlist.`],
+    };
+  }
+  try {
+    const output = await service.joinWaitlist(input);
+    return { success: true, item: output.item };
+  } catch (err: unknown) {
+    return {
+      success: false,
+      errors: [err instanceof Error ? err.message : 'Failed to join the waitlist'],
+    };
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { LABEL_SHEETS, labelsPerSheet, layoutLabels, type LabelSheet } from './label-sheets';
+
+const small: LabelSheet = { ...LABEL_SHEETS[0]!, columns: 2, rows: 2 };
+
+describe('LABEL_SHEETS', () => {
+  it('fit on their paper', () => {
+    for (const sheet of LABEL_SHEETS) {
+      const width =
+        sheet.marginLeft + sheet.columns * sheet.labelWidth + (sheet.columns - 1) * sheet.gapX;
+      const height =
+        sheet.marginTop + sheet.rows * sheet.labelHeight + (sheet.rows - 1) * sheet.gapY;
+      expect(width).toBeLessThanOrEqual(sheet.pageWidth);
+      expect(height).toBeLessThanOrEqual(sheet.pageHeight);
+    }
+  });
+});
+
+describe('layoutLabels', () => {
+  it('fills whole sheets and pads the last one', () => {
+    const pages = layoutLabels(['a', 'b', 'c', 'd', 'e'], small);
+
+    expect(labelsPerSheet(small)).toBe(4);
+    expect(pages).toEqual([
+      ['a', 'b', 'c', 'd'],
+      ['e', null, null, null],
+    ]);
+  });
+
+  it('skips labels already used on the first sheet', () => {
+    expect(layoutLabels(['a', 'b', 'c'], small, 3)).toEqual([
+      [null, null, null, 'a'],
+      ['b', 'c', null, null],
+    ]);
+    // Skipping a whole sheet or more makes no sense; one cell is always left.
+    expect(layoutLabels(['a'], small, 9)).toEqual([[null, null, null, 'a']]);
+  });
+
+  it('returns no pages without labels', () => {
+    expect(layoutLabels([], small, 2)).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+/** A sheet of sticky labels; all measurements are in millimetres. */
+export type LabelSheet = {
+  readonly id: string;
+  readonly name: string;
+  readonly pageWidth: number;
+  readonly pageHeight: number;
+  readonly columns: number;
+  readonly rows: number;
+  readonly labelWidth: number;
+  readonly labelHeight: number;
+  /** Distance from the top and left page edges to the first label. */
+  readonly marginTop: number;
+  readonly marginLeft: number;
+  /** Space between neighbouring labels. */
+  readonly gapX: number;
+  readonly gapY: number;
+};
+
+/** Common label sheets, matching the popular Avery layouts. */
+export const LABEL_SHEETS: readonly LabelSheet[] = [
+  {
+    id: 'a4-21',
+    name: 'A4, 21 labels (63.5 × 38.1 mm)',
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5,
+    labelHeight: 38.1,
+    marginTop: 15.15,
+    marginLeft: 7.25,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  {
+    id: 'a4-14',
+    name: 'A4, 14 labels (99.1 × 38.1 mm)',
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 2,
+    rows: 7,
+    labelWidth: 99.1,
+    labelHeight: 38.1,
+    marginTop: 15.15,
+    marginLeft: 4.65,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  {
+    id: 'a4-65',
+    name: 'A4, 65 labels (38.1 × 21.2 mm)',
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 5,
+    rows: 13,
+    labelWidth: 38.1,
+    labelHeight: 21.2,
+    marginTop: 10.7,
+    marginLeft: 4.75,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  {
+    id: 'letter-30',
+    name: 'Letter, 30 labels (2⅝ × 1 in)',
+    pageWidth: 215.9,
+    pageHeight: 279.4,
+    columns: 3,
+    rows: 10,
+    labelWidth: 66.675,
+    labelHeight: 25.4,
+    marginTop: 12.7,
+    marginLeft: 4.7625,
+    gapX: 3.175,
+    gapY: 0,
+  },
+];
+
+export function labelsPerSheet(sheet: LabelSheet): number {
+  return sheet.columns * sheet.rows;
+}
+
+/**
+ * Splits labels into pages of `columns × rows` cells, filled row by row.
+ * The first `skip` cells stay empty so a part-used sheet can go through the
+ * printer again; `null` marks an empty cell.
+ */
+export function layoutLabels<T>(
+  labels: readonly T[],
+  sheet: LabelSheet,
+  skip = 0,
+): (T | null)[][] {
+  const perSheet = labelsPerSheet(sheet);
+  const offset = Math.min(Math.max(Math.floor(skip), 0), perSheet - 1);
+  const cells: (T | null)[] = [...new Array<null>(offset).fill(null), ...labels];
+  const pages: (T | null)[][] = [];
+  for (let i = 0; i < cells.length; i += perSheet) {
+    const page = cells.slice(i, i + perSheet);
+    pages.push([...page, ...new Array<null>(perSheet - page.length).fill(null)]);
+  }
+  return labels.length ? pages : [];
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect, vi } from 'vitest';
+import { leaveWaitlist } from './leave-waitlist';
+import type { ReservationService } from './reservation-service';
+
+describe('leaveWaitlist', () => {
+  const createMockService = (overrides: Partial<ReservationService> = {}): ReservationService =>
+    ({
+      leaveWaitlist: vi.fn().mockResolvedValue(undefined),
+      ...overrides,
+    }) as ReservationService;
+
+  it('passes the id to the service', async () => {
+    const mockLeave = vi.fn().mockResolvedValue(undefined);
+    const service = createMockService({ leaveWaitlist: mockLeave });
+
+    const result = await leaveWaitlist(service, { id: 'wait-1' });
+
+    expect(result.success).toBe(true);
+    expect(mockLeave).toHaveBeenCalledWith('wait-1');
+  });
+
+  it('returns default error message for non-Error exceptions', async () => {
+    const service = createMockService({
+      leaveWaitlist: vi.fn().mockRejectedValue('Unknown error'),
+    });
+
+    const result = await leaveWaitlist(service, { id: 'wait-1' });
+
+    expect(result).toEqual({ success: false, errors: ['Failed to leave the waitlist'] });
+  });
+});
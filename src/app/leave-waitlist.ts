@@ -0,0 +1,24 @@
+import type { ReservationService } from './reservation-service';
+
+export type LeaveWaitlistCommand = {
+  id: string;
+};
+
+export type LeaveWaitlistResult =
+  | { success: true }
+  | { success: false; errors: string[] };
+
+export async function leaveWaitlist(
+  service: ReservationService,
+  command: LeaveWaitlistCommand,
+): Promise<LeaveWaitlistResult> {
+  try {
+    await service.leaveWaitlist(command.id);
+    return { success: true };
+  } catch (err: unknown) {
+    return {
+      success: false,
+      errors: [err instanceof Error ? err.message : 'Failed to leave the waitlist'],
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+import { listAssets } from './list-assets';
+import type { InventoryService, Asset } from './inventory-service';
+
+describe('listAssets', () => {
+  const sampleAssets: Asset[] = [
+    {
+      id: 'ast-1',
+      deviceModelId: 'dev-1',
+      serialNumber: 'SN-001',
+      assetTag: 'LAP-001',
+      condition: 'good',
+      status: 'available',
+      updatedAt: new Date('2025-01-01'),
+    },
+  ];
+
+  const createMockService = (overrides: Partial<InventoryService> = {}): InventoryService => ({
+    listInventoryItems: vi.fn(),
+    addInventoryItem: vi.fn(),
+    updateInventoryItem: vi.fn(),
+    deleteInventoryItem: vi.fn(),
+    listAssets: vi.fn().mockResolvedValue({ items: sampleAssets, totalCount: 1 }),
+    addAsset: vi.fn(),
+    updateAsset: vi.fn(),
+    deleteAsset: vi.fn(),
+    ...overrides,
+  });
+
+  it('returns assets for the device', async () => {
+    const service = createMockService();
+
+    const result = await listAssets(service, { deviceId: 'dev-1' });
+
+    expect(service.listAssets).toHaveBeenCalledWith('dev-1');
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.items).toEqual(sampleAssets);
+      expect(result.totalCount).toBe(1);
+    }
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      listAssets: vi.fn().mockRejectedValue(new Error('not found')),
+    });
+
+    const result = await listAssets(service, { deviceId: 'dev-1' });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors).toEqual(['not found']);
+    }
+  });
+});
@@ -0,0 +1,24 @@
+import type { InventoryService, Asset } from './inventory-service';
+
+export type ListAssetsResult =
+  | { success: true; items: readonly Asset[]; totalCount: number }
+  | { success: false; errors: readonly string[] };
+
+export type ListAssetsCommand = {
+  readonly deviceId: string;
+};
+
+export type ListAssetsUseCase = (
+  service: InventoryService,
+  command: ListAssetsCommand,
+) => Promise<ListAssetsResult>;
+
+export const listAssets: ListAssetsUseCase = async (service, command) => {
+  try {
+    const { items, totalCount } = await service.listAssets(command.deviceId);
+    return { success: true, items, totalCount };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, errors: [message] };
+  }
+};
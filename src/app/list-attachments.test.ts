@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest';
+import { listAttachments } from './list-attachments';
+import type { Attachment, InventoryService } from './inventory-service';
+
+describe('listAttachments', () => {
+  const manual: Attachment = {
+    id: 'att-1',
+    deviceModelId: 'dev-1',
+    kind: 'document',
+    fileName: 'manual.pdf',
+    contentType: 'application/pdf',
+    size: 2048,
+    url: '/files/manual.pdf',
+    createdAt: new Date('2024-03-01T10:00:00Z'),
+  };
+
+  const createMockService = (overrides: Partial<InventoryService> = {}): InventoryService =>
+    ({
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi.fn(),
+      deleteInventoryItem: vi.fn(),
+      listAttachments: vi.fn().mockResolvedValue({ items: [manual], totalCount: 1 }),
+      ...overrides,
+    }) as InventoryService;
+
+  it("returns the device's files", async () => {
+    const service = createMockService();
+
+    const result = await listAttachments(service, { deviceId: 'dev-1' });
+
+    expect(service.listAttachments).toHaveBeenCalledWith('dev-1');
+    expect(result).toEqual({ success: true, items: [manual], totalCount: 1 });
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      listAttachments: vi.fn().mockRejectedValue(new Error('offline')),
+    });
+
+    const result = await listAttachments(service, { deviceId: 'dev-1' });
+
+    expect(result).toEqual({ success: false, errors: ['offline'] });
+  });
+});
@@ -0,0 +1,24 @@
+import type { InventoryService, Attachment } from './inventory-service';
+
+export type ListAttachmentsResult =
+  | { success: true; items: readonly Attachment[]; totalCount: number }
+  | { success: false; errors: readonly string[] };
+
+export type ListAttachmentsCommand = {
+  readonly deviceId: string;
+};
+
+export type ListAttachmentsUseCase = (
+  service: InventoryService,
+  command: ListAttachmentsCommand,
+) => Promise<ListAttachmentsResult>;
+
+export const listAttachments: ListAttachmentsUseCase = async (service, command) => {
+  try {
+    const { items, totalCount } = await service.listAttachments(command.deviceId);
+    return { success: true, items, totalCount };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, errors: [message] };
+  }
+};
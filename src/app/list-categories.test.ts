@@ -0,0 +1,39 @@
+import { describe, it, expect, vi } from 'vitest';
+import { listCategories } from './list-categories';
+import type { Category, InventoryService } from './inventory-service';
+
+describe('listCategories', () => {
+  const categories: Category[] = [
+    { id: 'cat-laptops', name: 'Laptops' },
+    { id: 'cat-audio', name: 'Audio' },
+  ];
+
+  const createMockService = (overrides: Partial<InventoryService> = {}): InventoryService =>
+    ({
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi.fn(),
+      deleteInventoryItem: vi.fn(),
+      listCategories: vi.fn().mockResolvedValue({ items: categories, totalCount: 2 }),
+      ...overrides,
+    }) as InventoryService;
+
+  it('returns the categories devices are filed under', async () => {
+    const service = createMockService();
+
+    const result = await listCategories(service);
+
+    expect(service.listCategories).toHaveBeenCalled();
+    expect(result).toEqual({ success: true, items: categories, totalCount: 2 });
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      listCategories: vi.fn().mockRejectedValue(new Error('offline')),
+    });
+
+    const result = await listCategories(service);
+
+    expect(result).toEqual({ success: false, errors: ['offline'] });
+  });
+});
@@ -0,0 +1,19 @@
+import type { Category, InventoryService } from './inventory-service';
+
+export type ListCategoriesResult =
+  | { success: true; items: readonly Category[]; totalCount: number }
+  | { success: false; errors: readonly string[] };
+
+export type ListCategoriesUseCase = (
+  service: InventoryService,
+) => Promise<ListCategoriesResult>;
+
+export const listCategories: ListCategoriesUseCase = async (service) => {
+  try {
+    const { items, totalCount } = await service.listCategories();
+    return { success: true, items, totalCount };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, errors: [message] };
+  }
+};
@@ -37,6 +37,26 @@ describe('listInventory', () => {
     }
   });
 
+  it('passes the page query through and returns the next cursor', async () => {
+    const service: InventoryService = {
+      listInventoryItems: vi
+        .fn()
+        .mockResolvedValue({ items: sampleItems.slice(0, 1), totalCount: 2, nextCursor: '1' }),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi.fn(),
+      deleteInventoryItem: vi.fn(),
+    };
+
+    const result = await listInventory(service, { limit: 1 });
+
+    expect(service.listInventoryItems).toHaveBeenCalledWith({ limit: 1 });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.items).toHaveLength(1);
+      expect(result.nextCursor).toBe('1');
+    }
+  });
+
   it('returns error messages when service throws', async () => {
     const service: InventoryService = {
       listInventoryItems: vi.fn().mockRejectedValue(new Error('boom')),
@@ -1,17 +1,30 @@
-import type { InventoryService, Device } from './inventory-service';
+import type {
+  InventoryService,
+  Device,
+  ListDevicesQuery,
+} from './inventory-service';
+
+export type ListInventoryQuery = ListDevicesQuery;
 
 export type ListInventoryResult =
-  | { success: true; items: readonly Device[]; totalCount: number }
+  | {
+      success: true;
+      items: readonly Device[];
+      totalCount: number;
+      nextCursor?: string;
+    }
   | { success: false; errors: readonly string[] };
 
 export type ListInventoryUseCase = (
   service: InventoryService,
+  query?: ListInventoryQuery,
 ) => Promise<ListInventoryResult>;
 
-export const listInventory: ListInventoryUseCase = async (service) => {
+export const listInventory: ListInventoryUseCase = async (service, query) => {
   try {
-    const { items, totalCount } = await service.listInventoryItems();
-    return { success: true, items, totalCount };
+    const { items, totalCount, nextCursor } =
+      await service.listInventoryItems(query);
+    return { success: true, items, totalCount, nextCursor };
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
     return { success: false, errors: [message] };
@@ -0,0 +1,39 @@
+import { describe, it, expect, vi } from 'vitest';
+import { listLocations } from './list-locations';
+import type { InventoryService, Location } from './inventory-service';
+
+describe('listLocations', () => {
+  const locations: Location[] = [
+    { id: 'loc-a', name: 'Room A.101' },
+    { id: 'loc-b', name: 'Library desk' },
+  ];
+
+  const createMockService = (overrides: Partial<InventoryService> = {}): InventoryService =>
+    ({
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi.fn(),
+      deleteInventoryItem: vi.fn(),
+      listLocations: vi.fn().mockResolvedValue({ items: locations, totalCount: 2 }),
+      ...overrides,
+    }) as InventoryService;
+
+  it('returns the locations devices are lent from', async () => {
+    const service = createMockService();
+
+    const result = await listLocations(service);
+
+    expect(service.listLocations).toHaveBeenCalled();
+    expect(result).toEqual({ success: true, items: locations, totalCount: 2 });
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      listLocations: vi.fn().mockRejectedValue(new Error('offline')),
+    });
+
+    const result = await listLocations(service);
+
+    expect(result).toEqual({ success: false, errors: ['offline'] });
+  });
+});
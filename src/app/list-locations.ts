@@ -0,0 +1,19 @@
+import type { InventoryService, Location } from './inventory-service';
+
+export type ListLocationsResult =
+  | { success: true; items: readonly Location[]; totalCount: number }
+  | { success: false; errors: readonly string[] };
+
+export type ListLocationsUseCase = (
+  service: InventoryService,
+) => Promise<ListLocationsResult>;
+
+export const listLocations: ListLocationsUseCase = async (service) => {
+  try {
+    const { items, totalCount } = await service.listLocations();
+    return { success: true, items, totalCount };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, errors: [message] };
+  }
+};
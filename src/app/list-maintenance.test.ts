@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest';
+import { listMaintenance } from './list-maintenance';
+import type { InventoryService, MaintenanceRecord } from './inventory-service';
+
+describe('listMaintenance', () => {
+  const records: MaintenanceRecord[] = [
+    {
+      id: 'mnt-1',
+      deviceModelId: 'dev-1',
+      deviceModelName: 'Laptop',
+      quantity: 1,
+      status: 'in-repair',
+      createdAt: new Date('2025-01-01'),
+    },
+  ];
+
+  const createMockService = (overrides: Partial<InventoryService> = {}): InventoryService =>
+    ({
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi.fn(),
+      deleteInventoryItem: vi.fn(),
+      listMaintenance: vi.fn().mockResolvedValue({ items: records, totalCount: 1 }),
+      ...overrides,
+    }) as InventoryService;
+
+  it('passes the status filter through', async () => {
+    const service = createMockService();
+
+    const result = await listMaintenance(service, { status: 'in-repair' });
+
+    expect(service.listMaintenance).toHaveBeenCalledWith({ status: 'in-repair' });
+    expect(result).toEqual({ success: true, items: records, totalCount: 1 });
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      listMaintenance: vi.fn().mockRejectedValue(new Error('forbidden')),
+    });
+
+    const result = await listMaintenance(service);
+
+    expect(result).toEqual({ success: false, errors: ['forbidden'] });
+  });
+});
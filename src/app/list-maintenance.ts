@@ -0,0 +1,26 @@
+import type {
+  InventoryService,
+  ListMaintenanceQuery,
+  MaintenanceRecord,
+} from './inventory-service';
+
+export type ListMaintenanceResult =
+  | { success: true; items: readonly MaintenanceRecord[]; totalCount: number }
+  | { success: false; errors: readonly string[] };
+
+export type ListMaintenanceCommand = ListMaintenanceQuery;
+
+export type ListMaintenanceUseCase = (
+  service: InventoryService,
+  command?: ListMaintenanceCommand,
+) => Promise<ListMaintenanceResult>;
+
+export const listMaintenance: ListMaintenanceUseCase = async (service, command) => {
+  try {
+    const { items, totalCount } = await service.listMaintenance(command);
+    return { success: true, items, totalCount };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, errors: [message] };
+  }
+};
@@ -58,6 +58,17 @@ describe('listReservations', () => {
     expect(mockListReservations).toHaveBeenCalledWith(['reserved', 'collected']);
   });
 
+  it('passes the pickup location to service', async () => {
+    const mockListReservations = vi.fn().mockResolvedValue({ items: [], totalCount: 0 });
+    const service = createMockService({
+      listReservations: mockListReservations,
+    });
+
+    await listReservations(service, undefined, 'loc-a');
+
+    expect(mockListReservations).toHaveBeenCalledWith(undefined, 'loc-a');
+  });
+
   it('returns empty items when no reservations exist', async () => {
     const service = createMockService({
       listReservations: vi.fn().mockResolvedValue({ items: [], totalCount: 0 }),
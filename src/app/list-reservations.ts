@@ -8,10 +8,14 @@ export type ListReservationsResult =
 
 export async function listReservations(
   service: ReservationService,
-  statusFilter?: ReservationStatus[]
+  statusFilter?: ReservationStatus[],
+  pickupLocationId?: string,
 ): Promise<ListReservationsResult> {
   try {
-    const output = await service.listReservations(statusFilter);
+    const output =
+      pickupLocationId !== undefined
+        ? await service.listReservations(statusFilter, pickupLocationId)
+        : await service.listReservations(statusFilter);
     return {
       success: true,
       items: output.items,
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { listStockAdjustments } from './list-stock-adjustments';
+import type { InventoryService, StockAdjustment } from './inventory-service';
+
+describe('listStockAdjustments', () => {
+  const entries: StockAdjustment[] = [
+    {
+      id: 'adj-2',
+      deviceModelId: 'dev-1',
+      delta: -1,
+      reason: 'damaged',
+      note: 'Cracked screen',
+      resultingCount: 4,
+      createdAt: new Date('2025-02-01'),
+    },
+    {
+      id: 'adj-1',
+      deviceModelId: 'dev-1',
+      delta: 5,
+      reason: 'purchased',
+      resultingCount: 5,
+      createdAt: new Date('2025-01-01'),
+    },
+  ];
+
+  const createMockService = (overrides: Partial<InventoryService> = {}): InventoryService => ({
+    listInventoryItems: vi.fn(),
+    addInventoryItem: vi.fn(),
+    updateInventoryItem: vi.fn(),
+    deleteInventoryItem: vi.fn(),
+    listAssets: vi.fn(),
+    addAsset: vi.fn(),
+    updateAsset: vi.fn(),
+    deleteAsset: vi.fn(),
+    adjustStock: vi.fn(),
+    listStockAdjustments: vi.fn().mockResolvedValue({ items: entries, totalCount: 2 }),
+    ...overrides,
+  });
+
+  it('returns the ledger for a device', async () => {
+    const service = createMockService();
+
+    const result = await listStockAdjustments(service, { id: 'dev-1' });
+
+    expect(service.listStockAdjustments).toHaveBeenCalledWith('dev-1');
+    expect(result).toEqual({ success: true, items: entries, totalCount: 2 });
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      listStockAdjustments: vi.fn().mockRejectedValue(new Error('Device with id dev-9 not found')),
+    });
+
+    const result = await listStockAdjustments(service, { id: 'dev-9' });
+
+    expect(result).toEqual({ success: false, errors: ['Device with id dev-9 not found'] });
+  });
+});
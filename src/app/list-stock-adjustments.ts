@@ -0,0 +1,27 @@
+import type { InventoryService, StockAdjustment } from './inventory-service';
+
+export type ListStockAdjustmentsResult =
+  | { success: true; items: readonly StockAdjustment[]; totalCount: number }
+  | { success: false; errors: readonly string[] };
+
+export type ListStockAdjustmentsCommand = {
+  readonly id: string;
+};
+
+export type ListStockAdjustmentsUseCase = (
+  service: InventoryService,
+  command: ListStockAdjustmentsCommand,
+) => Promise<ListStockAdjustmentsResult>;
+
+export const listStockAdjustments: ListStockAdjustmentsUseCase = async (
+  service,
+  command,
+) => {
+  try {
+    const { items, totalCount } = await service.listStockAdjustments(command.id);
+    return { success: true, items, totalCount };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, errors: [message] };
+  }
+};
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+import { listWaitlist } from './list-waitlist';
+import type { ReservationService, WaitlistEntry } from './reservation-service';
+
+describe('listWaitlist', () => {
+  const sampleItems: WaitlistEntry[] = [
+    {
+      id: 'wait-1',
+      userId: 'user-1',
+      deviceModelId: 'device-1',
+      deviceModelName: 'Laptop',
+      status: 'waiting',
+      position: 1,
+      createdAt: new Date('2025-01-01'),
+    },
+  ];
+
+  const createMockService = (overrides: Partial<ReservationService> = {}): ReservationService =>
+    ({
+      listWaitlist: vi.fn().mockResolvedValue({ items: [], totalCount: 0 }),
+      ...overrides,
+    }) as ReservationService;
+
+  it('returns items and total count when service succeeds', async () => {
+    const service = createMockService({
+      listWaitlist: vi.fn().mockResolvedValue({ items: sampleItems, totalCount: 1 }),
+    });
+
+    const result = await listWaitlist(service);
+
+    expect(result).toEqual({ success: true, items: sampleItems, totalCount: 1 });
+  });
+
+  it('passes the device through only when given', async () => {
+    const mockList = vi.fn().mockResolvedValue({ items: [], totalCount: 0 });
+    const service = createMockService({ listWaitlist: mockList });
+
+    await listWaitlist(service);
+    await listWaitlist(service, 'device-1');
+
+    expect(mockList).toHaveBeenNthCalledWith(1);
+    expect(mockList).toHaveBeenNthCalledWith(2, 'device-1');
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      listWaitlist: vi.fn().mockRejectedValue(new Error('Network error')),
+    });
+
+    const result = await listWaitlist(service);
+
+    expect(result).toEqual({ success: false, errors: ['Network error'] });
+  });
+});
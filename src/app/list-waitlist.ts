@@ -0,0 +1,27 @@
+import type { ReservationService, ListWaitlistOutput } from './reservation-service';
+
+export type ListWaitlistResult =
+  | { success: true; items: ListWaitlistOutput['items']; totalCount: number }
+  | { success: false; errors: string[] };
+
+export async function listWaitlist(
+  service: ReservationService,
+  deviceModelId?: string,
+): Promise<ListWaitlistResult> {
+  try {
+    const output =
+      deviceModelId !== undefined
+        ? await service.listWaitlist(deviceModelId)
+        : await service.listWaitlist();
+    return {
+      success: true,
+      items: output.items,
+      totalCount: output.totalCount,
+    };
+  } catch (err: unknown) {
+    return {
+      success: false,
+      errors: [err instanceof Error ? err.message : 'Failed to list the waitlist'],
+    };
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canRequestExtension,
+  extendDueAt,
+  hasPendingExtension,
+  isValidExtensionDays,
+} from './loan-extension';
+import type { Reservation } from './reservation-service';
+
+const reservation = (overrides: Partial<Reservation> = {}): Reservation => ({
+  id: 'res-1',
+  userId: 'user-1',
+  deviceModelId: 'dev-1',
+  deviceModelName: 'Laptop',
+  status: 'collected',
+  createdAt: new Date('2025-01-01T10:00:00Z'),
+  updatedAt: new Date('2025-01-01T10:00:00Z'),
+  ...overrides,
+});
+
+describe('loan extension', () => {
+  const requestedAt = new Date('2025-01-02T10:00:00Z');
+
+  it('only lets collected loans without a pending request ask for more time', () => {
+    expect(canRequestExtension(reservation())).toBe(true);
+    expect(canRequestExtension(reservation({ status: 'reserved' }))).toBe(false);
+    expect(canRequestExtension(reservation({ status: 'returned' }))).toBe(false);
+    expect(
+      canRequestExtension(reservation({ extension: { status: 'pending', requestedAt, days: 2 } })),
+    ).toBe(false);
+    expect(
+      canRequestExtension(reservation({ extension: { status: 'denied', requestedAt, days: 2 } })),
+    ).toBe(true);
+  });
+
+  it('recognises pending requests', () => {
+    expect(hasPendingExtension(reservation())).toBe(false);
+    expect(
+      hasPendingExtension(reservation({ extension: { status: 'pending', requestedAt, days: 2 } })),
+    ).toBe(true);
+    expect(
+      hasPendingExtension(reservation({ extension: { status: 'approved', requestedAt, days: 2 } })),
+    ).toBe(false);
+  });
+
+  it('accepts whole day counts up to the maximum', () => {
+    expect(isValidExtensionDays(1)).toBe(true);
+    expect(isValidExtensionDays(7)).toBe(true);
+    expect(isValidExtensionDays(0)).toBe(false);
+    expect(isValidExtensionDays(8)).toBe(false);
+    expect(isValidExtensionDays(2.5)).toBe(false);
+  });
+
+  it('moves the due date by whole days, keeping the time of day', () => {
+    const dueAt = new Date(2025, 0, 30, 17, 0);
+    expect(extendDueAt(dueAt, 3)).toEqual(new Date(2025, 1, 2, 17, 0));
+    expect(dueAt).toEqual(new Date(2025, 0, 30, 17, 0));
+  });
+});
@@ -0,0 +1,29 @@
+import type { Reservation } from './reservation-service';
+
+/** The most a single extension request may add to a loan. */
+export const MAX_EXTENSION_DAYS = 7;
+
+export function hasPendingExtension(reservation: Reservation): boolean {
+  return reservation.extension?.status === 'pending';
+}
+
+/** Only loans on hand can be extended, one request at a time. */
+export function canRequestExtension(reservation: Reservation): boolean {
+  return reservation.status === 'collected' && !hasPendingExtension(reservation);
+}
+
+export function isValidExtensionDays(days: number): boolean {
+  return Number.isInteger(days) && days >= 1 && days <= MAX_EXTENSION_DAYS;
+}
+
+/** The due date after adding `days`, same time of day. */
+export function extendDueAt(dueAt: Date, days: number): Date {
+  const extended = new Date(dueAt);
+  extended.setDate(extended.getDate() + days);
+  return extended;
+}
+
+/** Why a loan cannot be extended while others are queueing for the device. */
+export function waitlistBlocksExtensionMessage(deviceModelName: string): string {
+  return `Someone is on the waitlist for "${deviceModelName}", so this loan cannot be extended.`;
+}
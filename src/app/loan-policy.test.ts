@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_LOAN_POLICY,
+  isOverdue,
+  loanDueAt,
+  loanPeriodDays,
+  parseLoanPolicy,
+  reservationDueAt,
+  type LoanPolicy,
+} from './loan-policy';
+import type { Reservation } from './reservation-service';
+
+const reservation = (overrides: Partial<Reservation> = {}): Reservation => ({
+  id: 'res-1',
+  userId: 'user-1',
+  deviceModelId: 'dev-1',
+  deviceModelName: 'Laptop',
+  status: 'collected',
+  createdAt: new Date('2025-01-01T09:00:00'),
+  updatedAt: new Date('2025-01-01T09:00:00'),
+  collectedAt: new Date('2025-01-01T09:00:00'),
+  ...overrides,
+});
+
+describe('loan policy', () => {
+  const policy: LoanPolicy = {
+    defaults: { student: 2, staff: 14 },
+    categories: { 'cat-cameras': { student: 7 } },
+    devices: { 'dev-drone': { student: 1, staff: 3 } },
+  };
+
+  it('lends by role, with devices overriding categories overriding defaults', () => {
+    expect(loanPeriodDays(policy, { deviceModelId: 'dev-1' })).toBe(2);
+    expect(loanPeriodDays(policy, { deviceModelId: 'dev-1', borrowerRole: 'staff' })).toBe(14);
+    expect(loanPeriodDays(policy, { deviceModelId: 'dev-1', categoryId: 'cat-cameras' })).toBe(7);
+    expect(
+      loanPeriodDays(policy, { deviceModelId: 'dev-1', categoryId: 'cat-cameras', borrowerRole: 'staff' }),
+    ).toBe(14);
+    expect(loanPeriodDays(policy, { deviceModelId: 'dev-drone', categoryId: 'cat-cameras' })).toBe(1);
+  });
+
+  it('keeps the time of day of the collection', () => {
+    expect(loanDueAt(policy, { deviceModelId: 'dev-1' }, new Date('2025-01-30T16:45:00'))).toEqual(
+      new Date('2025-02-01T16:45:00'),
+    );
+  });
+
+  it('prefers the stored due date and falls back to the policy', () => {
+    const stored = new Date('2025-01-10T09:00:00');
+    expect(reservationDueAt(reservation({ dueAt: stored }))).toBe(stored);
+    expect(reservationDueAt(reservation({ borrowerRole: 'staff' }))).toEqual(
+      new Date('2025-01-15T09:00:00'),
+    );
+    expect(reservationDueAt(reservation({ status: 'reserved', collectedAt: undefined }))).toBeUndefined();
+  });
+
+  it('only reports collected loans past their due date as overdue', () => {
+    const dueAt = new Date('2025-01-03T09:00:00');
+    expect(isOverdue(reservation({ dueAt }), new Date('2025-01-03T09:00:01'))).toBe(true);
+    expect(isOverdue(reservation({ dueAt }), new Date('2025-01-03T09:00:00'))).toBe(false);
+    expect(
+      isOverdue(reservation({ dueAt, status: 'returned' }), new Date('2025-02-01')),
+    ).toBe(false);
+  });
+
+  it('reads the policy from configuration and ignores bad values', () => {
+    expect(parseLoanPolicy({})).toEqual(DEFAULT_LOAN_POLICY);
+    expect(
+      parseLoanPolicy({
+        student: '3',
+        staff: '0',
+        overrides: JSON.stringify({
+          categories: { 'cat-cameras': { student: 7, staff: 'x' }, 'cat-empty': {} },
+          devices: { 'dev-drone': { staff: 1.5 } },
+        }),
+      }),
+    ).toEqual({
+      defaults: { student: 3, staff: 14 },
+      categories: { 'cat-cameras': { student: 7 } },
+    });
+    expect(parseLoanPolicy({ overrides: '{not json' })).toEqual(DEFAULT_LOAN_POLICY);
+  });
+
+  it('ignores overrides that are not objects keyed by id', () => {
+    for (const overrides of ['null', '[]', '"cameras"', '{"categories":[{"student":3}]}']) {
+      expect(parseLoanPolicy({ overrides })).toEqual(DEFAULT_LOAN_POLICY);
+    }
+    expect(
+      parseLoanPolicy({
+        overrides: JSON.stringify({ devices: { 'dev-1': null, 'dev-2': [5], 'dev-3': { student: 4 } } }),
+      }),
+    ).toEqual({ ...DEFAULT_LOAN_POLICY, devices: { 'dev-3': { student: 4 } } });
+  });
+});
@@ -0,0 +1,127 @@
+import type { Reservation } from './reservation-service';
+
+/** Who a unit is lent to; each gets its own loan period. */
+export type BorrowerRole = 'student' | 'staff';
+
+/** Loan periods in days for some or all roles. */
+export type LoanPeriods = Readonly<Partial<Record<BorrowerRole, number>>>;
+
+/**
+ * How long a collected unit may be kept. A device's own periods win over its
+ * category's, which win over the defaults; each role is looked up separately.
+ */
+export type LoanPolicy = {
+  readonly defaults: Readonly<Record<BorrowerRole, number>>;
+  /** Keyed by category id. */
+  readonly categories?: Readonly<Record<string, LoanPeriods>>;
+  /** Keyed by device id. */
+  readonly devices?: Readonly<Record<string, LoanPeriods>>;
+};
+
+export const DEFAULT_LOAN_POLICY: LoanPolicy = {
+  defaults: { student: 2, staff: 14 },
+};
+
+/** What the policy needs to know about a loan. */
+export type LoanSubject = {
+  readonly deviceModelId: string;
+  readonly categoryId?: string;
+  /** Borrowers of unknown role get the student period. */
+  readonly borrowerRole?: BorrowerRole;
+};
+
+export function loanPeriodDays(policy: LoanPolicy, subject: LoanSubject): number {
+  const role = subject.borrowerRole ?? 'student';
+  const forCategory = subject.categoryId ? policy.categories?.[subject.categoryId] : undefined;
+  return (
+    policy.devices?.[subject.deviceModelId]?.[role] ?? forCategory?.[role] ?? policy.defaults[role]
+  );
+}
+
+/** When a unit collected at `collectedAt` must be back, same time of day. */
+export function loanDueAt(
+  policy: LoanPolicy,
+  subject: LoanSubject,
+  collectedAt: Date = new Date(),
+): Date {
+  const dueAt = new Date(collectedAt);
+  dueAt.setDate(dueAt.getDate() + loanPeriodDays(policy, subject));
+  return dueAt;
+}
+
+/**
+ * The stored due date of a collected reservation. Loans collected before due
+ * dates were stored fall back to the policy, without the device's category.
+ */
+export function reservationDueAt(
+  reservation: Reservation,
+  policy: LoanPolicy = DEFAULT_LOAN_POLICY,
+): Date | undefined {
+  if (reservation.dueAt) return reservation.dueAt;
+  if (!reservation.collectedAt) return undefined;
+  return loanDueAt(policy, reservation, reservation.collectedAt);
+}
+
+export function isOverdue(
+  reservation: Reservation,
+  now: Date = new Date(),
+  policy: LoanPolicy = DEFAULT_LOAN_POLICY,
+): boolean {
+  if (reservation.status !== 'collected') return false;
+  const dueAt = reservationDueAt(reservation, policy);
+  return dueAt !== undefined && now > dueAt;
+}
+
+/**
+ * Reads the policy from configuration: a day count per role and a JSON object
+ * of `categories` and `devices` overrides. Values that are not whole positive
+ * day counts are ignored so a typo cannot lend devices for zero days.
+ */
+export function parseLoanPolicy(raw: {
+  student?: string;
+  staff?: string;
+  overrides?: string;
+}): LoanPolicy {
+  const defaults = {
+    student: toDays(raw.student) ?? DEFAULT_LOAN_POLICY.defaults.student,
+    staff: toDays(raw.staff) ?? DEFAULT_LOAN_POLICY.defaults.staff,
+  };
+  let overrides: unknown;
+  try {
+    overrides = raw.overrides ? JSON.parse(raw.overrides) : undefined;
+  } catch {
+    overrides = undefined;
+  }
+  const categories = toPeriodsById(isRecord(overrides) ? overrides.categories : undefined);
+  const devices = toPeriodsById(isRecord(overrides) ? overrides.devices : undefined);
+  return {
+    defaults,
+    ...(categories ? { categories } : {}),
+    ...(devices ? { devices } : {}),
+  };
+}
+
+function toDays(value: unknown): number | undefined {
+  const days = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof days === 'number' && Number.isInteger(days) && days > 0 ? days : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toPeriodsById(value: unknown): Record<string, LoanPeriods> | undefined {
+  if (!isRecord(value)) return undefined;
+  const result: Record<string, LoanPeriods> = {};
+  for (const [id, periods] of Object.entries(value)) {
+    if (!isRecord(periods)) continue;
+    const student = toDays(periods.student);
+    const staff = toDays(periods.staff);
+    if (student === undefined && staff === undefined) continue;
+    result[id] = {
+      ...(student !== undefined ? { student } : {}),
+      ...(staff !== undefined ? { staff } : {}),
+    };
+  }
+  return Object.keys(result).length ? result : undefined;
+}
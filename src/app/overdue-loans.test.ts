@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { daysOverdue, findOverdueLoans, overdueSeverity } from './overdue-loans';
+import type { Reservation } from './reservation-service';
+
+const reservation = (overrides: Partial<Reservation> = {}): Reservation => ({
+  id: 'res-1',
+  userId: 'user-1',
+  deviceModelId: 'dev-1',
+  deviceModelName: 'Laptop',
+  status: 'collected',
+  createdAt: new Date('2025-01-01T09:00:00'),
+  updatedAt: new Date('2025-01-01T09:00:00'),
+  collectedAt: new Date('2025-01-01T09:00:00'),
+  ...overrides,
+});
+
+describe('overdue loans', () => {
+  const now = new Date('2025-01-10T12:00:00');
+
+  it('counts started days past the due date', () => {
+    expect(daysOverdue(new Date('2025-01-10T11:00:00'), now)).toBe(1);
+    expect(daysOverdue(new Date('2025-01-08T12:00:00'), now)).toBe(2);
+    expect(daysOverdue(new Date('2025-01-11T12:00:00'), now)).toBe(0);
+  });
+
+  it('grades how late a loan is', () => {
+    expect(overdueSeverity(1)).toBe('late');
+    expect(overdueSeverity(3)).toBe('serious');
+    expect(overdueSeverity(7)).toBe('critical');
+  });
+
+  it('lists only overdue collected loans, the longest overdue first', () => {
+    const loans = findOverdueLoans(
+      [
+        reservation({ id: 'res-recent', dueAt: new Date('2025-01-09T12:00:00') }),
+        reservation({ id: 'res-old', dueAt: new Date('2025-01-02T12:00:00') }),
+        reservation({ id: 'res-ok', dueAt: new Date('2025-01-11T12:00:00') }),
+        reservation({ id: 'res-back', status: 'returned', dueAt: new Date('2025-01-02T12:00:00') }),
+        reservation({ id: 'res-waiting', status: 'reserved', collectedAt: undefined }),
+      ],
+      now,
+    );
+
+    expect(loans.map((l) => [l.reservation.id, l.daysOverdue, l.severity])).toEqual([
+      ['res-old', 8, 'critical'],
+      ['res-recent', 1, 'late'],
+    ]);
+  });
+
+  it('falls back to the policy for loans without a stored due date', () => {
+    const [loan] = findOverdueLoans([reservation()], now, { defaults: { student: 5, staff: 14 } });
+
+    expect(loan?.dueAt).toEqual(new Date('2025-01-06T09:00:00'));
+    expect(loan?.severity).toBe('serious');
+  });
+});
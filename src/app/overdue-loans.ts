@@ -0,0 +1,48 @@
+import type { Reservation } from './reservation-service';
+import { DEFAULT_LOAN_POLICY, isOverdue, reservationDueAt, type LoanPolicy } from './loan-policy';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How late a loan is: up to 2 days, up to a week, or longer. */
+export type OverdueSeverity = 'late' | 'serious' | 'critical';
+
+/** A collected reservation past its due date. */
+export type OverdueLoan = {
+  readonly reservation: Reservation;
+  readonly dueAt: Date;
+  /** Started days past the due date, so a loan an hour late counts one. */
+  readonly daysOverdue: number;
+  readonly severity: OverdueSeverity;
+};
+
+export function daysOverdue(dueAt: Date, now: Date = new Date()): number {
+  return Math.max(Math.ceil((now.getTime() - dueAt.getTime()) / DAY_MS), 0);
+}
+
+export function overdueSeverity(days: number): OverdueSeverity {
+  if (days >= 7) return 'critical';
+  if (days >= 3) return 'serious';
+  return 'late';
+}
+
+/** Every overdue loan, the longest overdue first. */
+export function findOverdueLoans(
+  reservations: readonly Reservation[],
+  now: Date = new Date(),
+  policy: LoanPolicy = DEFAULT_LOAN_POLICY,
+): OverdueLoan[] {
+  return reservations
+    .filter((r) => isOverdue(r, now, policy))
+    .map((reservation) => {
+      const dueAt = reservationDueAt(reservation, policy)!;
+      const days = daysOverdue(dueAt, now);
+      return { reservation, dueAt, daysOverdue: days, severity: overdueSeverity(days) };
+    })
+    .sort(
+      (a, b) =>
+        a.dueAt.getTime() - b.dueAt.getTime() ||
+        a.reservation.deviceModelName.localeCompare(b.reservation.deviceModelName, undefined, {
+          sensitivity: 'base',
+        }),
+    );
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { parseInventoryCsv } from './parse-inventory-csv';
+
+describe('parseInventoryCsv', () => {
+  it('parses rows in any column order and defaults a blank count', () => {
+    const result = parseInventoryCsv(
+      'Description,Name,Count\r\nDell XPS 13,Laptop,4\r\nFull HD projector,Projector,\r\n',
+    );
+
+    expect(result).toEqual({
+      success: true,
+      rows: [
+        { line: 2, command: { name: 'Laptop', description: 'Dell XPS 13', count: 4 }, errors: {} },
+        { line: 3, command: { name: 'Projector', description: 'Full HD projector', count: 1 }, errors: {} },
+      ],
+    });
+  });
+
+  it('handles quoted cells with commas, quotes and line breaks', () => {
+    const result = parseInventoryCsv(
+      'name,description\n"Camera, DSLR","24MP ""pro"" body\nwith kit lens"\nTripod,Aluminium tripod\n',
+    );
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.rows[0].command).toMatchObject({
+        name: 'Camera, DSLR',
+        description: '24MP "pro" body\nwith kit lens',
+      });
+      expect(result.rows[1].line).toBe(4);
+    }
+  });
+
+  it('reports per-row validation errors with the form rules', () => {
+    const result = parseInventoryCsv('name,description,count\nX,short,two\n\nMouse,Wireless mouse,3\n');
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.rows).toHaveLength(2);
+      expect(result.rows[0].errors).toEqual({
+        name: 'Name must be at least 2 characters',
+        count: 'Count must be a non-negative number',
+      });
+      expect(result.rows[1]).toMatchObject({ line: 4, errors: {} });
+    }
+  });
+
+  it('only reads plain digits as a count', () => {
+    const result = parseInventoryCsv(
+      'name,description,count\nLaptop,Dell XPS,0x10\nMouse,Wireless,1e1\nTablet,iPad,12\n',
+    );
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.rows.map((r) => r.errors.count)).toEqual([
+        'Count must be a non-negative number',
+        'Count must be a non-negative number',
+        undefined,
+      ]);
+      expect(result.rows[2].command.count).toBe(12);
+    }
+  });
+
+  it('rejects a quoted cell that is never closed', () => {
+    expect(
+      parseInventoryCsv('name,description\nLaptop,Dell XPS\nCamera,"24MP body\nTripod,Aluminium\n'),
+    ).toEqual({
+      success: false,
+      errors: ['The quoted cell starting on line 3 is never closed'],
+    });
+  });
+
+  it('rejects files without the required columns or rows', () => {
+    expect(parseInventoryCsv('')).toEqual({ success: false, errors: ['The file is empty'] });
+    expect(parseInventoryCsv('title,count\nLaptop,2')).toEqual({
+      success: false,
+      errors: ['Missing required column(s): name, description'],
+    });
+    expect(parseInventoryCsv('name,description\n')).toEqual({
+      success: false,
+      errors: ['The file has no data rows'],
+    });
+  });
+});
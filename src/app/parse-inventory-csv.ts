@@ -0,0 +1,126 @@
+import type { AddInventoryCommand } from './add-inventory';
+import {
+  validateInventoryFields,
+  type InventoryFieldErrors,
+} from './validate-inventory';
+
+export type InventoryCsvRow = {
+  /** 1-based line in the file where the row starts; the header is line 1. */
+  readonly line: number;
+  readonly command: AddInventoryCommand;
+  /** Same rules as the add form; empty when the row can be imported. */
+  readonly errors: InventoryFieldErrors;
+};
+
+export type ParseInventoryCsvResult =
+  | { success: true; rows: readonly InventoryCsvRow[] }
+  | { success: false; errors: readonly string[] };
+
+const REQUIRED_COLUMNS = ['name', 'description'] as const;
+
+/** Count used when the column is missing or the cell is blank, as in the form. */
+const DEFAULT_COUNT = 1;
+
+/**
+ * Parses a CSV export with a header row naming `name`, `description` and
+ * optionally `count` (any order, case-insensitive). Quoted cells may contain
+ * commas, doubled quotes and line breaks.
+ */
+export function parseInventoryCsv(text: string): ParseInventoryCsvResult {
+  const { records, unclosedQuoteLine } = readRecords(text.replace(/^\uFEFF/, ''));
+  if (unclosedQuoteLine !== undefined) {
+    return {
+      success: false,
+      errors: [`The quoted cell starting on line ${unclosedQuoteLine} is never closed`],
+    };
+  }
+  const header = records.shift();
+  if (!header) return { success: false, errors: ['The file is empty'] };
+
+  const columns = header.cells.map((c) => c.trim().toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter((c) => !columns.includes(c));
+  if (missing.length) {
+    return {
+      success: false,
+      errors: [`Missing required column(s): ${missing.join(', ')}`],
+    };
+  }
+  const nameAt = columns.indexOf('name');
+  const descriptionAt = columns.indexOf('description');
+  const countAt = columns.indexOf('count');
+
+  const rows = records
+    .filter((r) => r.cells.some((c) => c.trim() !== ''))
+    .map((r): InventoryCsvRow => {
+      const name = (r.cells[nameAt] ?? '').trim();
+      const description = (r.cells[descriptionAt] ?? '').trim();
+      const rawCount = countAt === -1 ? '' : (r.cells[countAt] ?? '').trim();
+      // Plain digits only, so `0x10` or `1e1` is reported rather than read as another number.
+      const count =
+        rawCount === '' ? DEFAULT_COUNT : /^\d+$/.test(rawCount) ? Number(rawCount) : Number.NaN;
+      return {
+        line: r.line,
+        command: { name, description, count },
+        errors: validateInventoryFields({ name, description, count }),
+      };
+    });
+
+  if (!rows.length) return { success: false, errors: ['The file has no data rows'] };
+  return { success: true, rows };
+}
+
+type CsvRecord = { line: number; cells: string[] };
+
+type CsvRecords = {
+  records: CsvRecord[];
+  /** Set when the text ends inside a quoted cell that opened on this line. */
+  unclosedQuoteLine?: number;
+};
+
+function readRecords(text: string): CsvRecords {
+  const records: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let quoteLine = 1;
+  let line = 1;
+  let startLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    records.push({ line: startLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === '\n') line++;
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+      quoteLine = line;
+    } else if (ch === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      startLine = line;
+    } else {
+      cell += ch;
+    }
+  }
+  if (quoted) return { records, unclosedQuoteLine: quoteLine };
+  if (cell !== '' || cells.length) endRecord();
+  return { records };
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { encodeQr, qrPath, reedSolomon } from './qr-code';
+
+/** Reads the 15 format bits next to the top-left finder, most significant first. */
+const formatString = (modules: readonly (readonly boolean[])[]): string => {
+  const cells = [
+    ...[0, 1, 2, 3, 4, 5, 7, 8].map((x) => modules[8]![x]!),
+    ...[7, 5, 4, 3, 2, 1, 0].map((y) => modules[y]![8]!),
+  ];
+  return cells.map((dark) => (dark ? '1' : '0')).join('');
+};
+
+// Format strings for level M with masks 0–7, from the specification.
+const LEVEL_M_FORMATS = [
+  '101010000010010',
+  '101000100100101',
+  '101111001111100',
+  '101101101001011',
+  '100010111111001',
+  '100000011001110',
+  '100111110010111',
+  '100101010100000',
+];
+
+describe('reedSolomon', () => {
+  it('matches the error correction of the HELLO WORLD 1-M example', () => {
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+
+    expect(reedSolomon(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  });
+});
+
+describe('encodeQr', () => {
+  it('picks the smallest version that fits', () => {
+    expect(encodeQr('dev_1').version).toBe(1);
+    expect(encodeQr('https://inventory.example.edu/devices/dev_001').version).toBe(4);
+    const large = encodeQr('x'.repeat(200));
+    expect(large.version).toBe(10);
+    expect(large.size).toBe(57);
+    expect(large.modules).toHaveLength(57);
+  });
+
+  it('draws the finder patterns in three corners', () => {
+    const { modules, size } = encodeQr('dev_1');
+    const finder = ['1111111', '1000001', '1011101', '1011101', '1011101', '1000001', '1111111'];
+    const read = (left: number, top: number) =>
+      finder.map((_, y) =>
+        modules[top + y]!.slice(left, left + 7).map((dark) => (dark ? '1' : '0')).join(''),
+      );
+
+    expect(read(0, 0)).toEqual(finder);
+    expect(read(size - 7, 0)).toEqual(finder);
+    expect(read(0, size - 7)).toEqual(finder);
+  });
+
+  it('writes valid format information for the chosen mask', () => {
+    const { modules } = encodeQr('https://inventory.example.edu/devices/dev_001');
+
+    expect(LEVEL_M_FORMATS).toContain(formatString(modules));
+  });
+
+  it('refuses text beyond version 10', () => {
+    expect(() => encodeQr('x'.repeat(214))).toThrow('Text is too long for a QR code (214 bytes)');
+  });
+});
+
+describe('qrPath', () => {
+  it('draws one unit square per dark module', () => {
+    const code = encodeQr('dev_1');
+    const dark = code.modules.flat().filter(Boolean).length;
+
+    expect(qrPath(code).match(/M/g)).toHaveLength(dark);
+    expect(qrPath(code).startsWith('M0 0h1v1h-1z')).toBe(true);
+  });
+});
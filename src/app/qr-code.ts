@@ -0,0 +1,385 @@
+/**
+ * A small QR code encoder (ISO/IEC 18004) so labels can be printed offline.
+ * It writes text in byte mode and supports versions 1–10, which is plenty for
+ * device links; the smallest version that fits is chosen.
+ */
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+export type QrCode = {
+  readonly version: number;
+  /** Modules per side, without the quiet zone. */
+  readonly size: number;
+  /** `modules[y][x]` is `true` for a dark module. */
+  readonly modules: readonly (readonly boolean[])[];
+};
+
+const MAX_VERSION = 10;
+
+/** Indexed by version - 1. */
+const EC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, readonly number[]> = {
+  L: [7, 10, 15, 20, 26, 18, 20, 24, 30, 18],
+  M: [10, 16, 26, 18, 24, 16, 18, 22, 22, 26],
+  Q: [13, 22, 18, 26, 18, 24, 18, 22, 20, 24],
+  H: [17, 28, 22, 16, 22, 28, 26, 26, 24, 28],
+};
+
+/** Indexed by version - 1. */
+const EC_BLOCKS: Record<QrErrorCorrection, readonly number[]> = {
+  L: [1, 1, 1, 1, 1, 2, 2, 2, 2, 4],
+  M: [1, 1, 1, 2, 2, 4, 4, 4, 5, 5],
+  Q: [1, 1, 2, 2, 4, 4, 6, 6, 8, 8],
+  H: [1, 1, 2, 4, 4, 4, 5, 6, 8, 8],
+};
+
+/** The two bits that name the level in the format information. */
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+const MASKS: ReadonlyArray<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+/** Encodes `text` as UTF-8; throws when it does not fit in version 10. */
+export function encodeQr(text: string, level: QrErrorCorrection = 'M'): QrCode {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+  while (version <= MAX_VERSION && dataBitsNeeded(bytes.length, version) > dataCodewords(version, level) * 8) {
+    version += 1;
+  }
+  if (version > MAX_VERSION) {
+    throw new Error(`Text is too long for a QR code (${bytes.length} bytes)`);
+  }
+
+  const codewords = addErrorCorrection(dataWithPadding(bytes, version, level), version, level);
+  const matrix = new Matrix(version);
+  matrix.drawFunctionPatterns();
+  matrix.drawCodewords(codewords);
+
+  let best: boolean[][] | undefined;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask += 1) {
+    const candidate = matrix.withMask(mask, level);
+    const penalty = penaltyScore(candidate);
+    if (penalty < bestPenalty) {
+      best = candidate;
+      bestPenalty = penalty;
+    }
+  }
+  return { version, size: matrix.size, modules: best! };
+}
+
+/** SVG path data drawing each dark module as a unit square. */
+export function qrPath(code: QrCode): string {
+  let path = '';
+  code.modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (dark) path += `M${x} ${y}h1v1h-1z`;
+    }),
+  );
+  return path;
+}
+
+/** Error correction codewords for `data`; exported for testing. */
+export function reedSolomon(data: readonly number[], degree: number): number[] {
+  const divisor = rsDivisor(degree);
+  const result = new Array<number>(degree).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i]! ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+function rsDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i += 1) {
+    for (let j = 0; j < degree; j += 1) {
+      result[j] = gfMultiply(result[j]!, root);
+      if (j + 1 < degree) result[j]! ^= result[j + 1]!;
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+/** Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1. */
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i -= 1) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function dataCodewords(version: number, level: QrErrorCorrection): number {
+  return (
+    Math.floor(rawDataModules(version) / 8) -
+    EC_CODEWORDS_PER_BLOCK[level][version - 1]! * EC_BLOCKS[level][version - 1]!
+  );
+}
+
+function countBits(version: number): number {
+  return version < 10 ? 8 : 16;
+}
+
+function dataBitsNeeded(length: number, version: number): number {
+  return 4 + countBits(version) + length * 8;
+}
+
+/** Byte mode header, the text, a terminator and the standard pad bytes. */
+function dataWithPadding(bytes: Uint8Array, version: number, level: QrErrorCorrection): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i -= 1) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4);
+  append(bytes.length, countBits(version));
+  for (const byte of bytes) append(byte, 8);
+
+  const capacity = dataCodewords(version, level) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+  const result: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    result.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return result;
+}
+
+/** Splits the data into blocks, adds their error correction and interleaves them. */
+function addErrorCorrection(data: number[], version: number, level: QrErrorCorrection): number[] {
+  const blockCount = EC_BLOCKS[level][version - 1]!;
+  const ecLength = EC_CODEWORDS_PER_BLOCK[level][version - 1]!;
+  const total = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (total % blockCount);
+  const shortLength = Math.floor(total / blockCount);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < blockCount; i += 1) {
+    const length = shortLength - ecLength + (i < shortBlocks ? 0 : 1);
+    const block = data.slice(k, k + length);
+    k += length;
+    const ec = reedSolomon(block, ecLength);
+    // Short blocks get a placeholder so every block lines up when interleaving.
+    if (i < shortBlocks) block.push(0);
+    blocks.push([...block, ...ec]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0]!.length; i += 1) {
+    blocks.forEach((block, j) => {
+      if (i !== shortLength - ecLength || j >= shortBlocks) result.push(block[i]!);
+    });
+  }
+  return result;
+}
+
+class Matrix {
+  readonly size: number;
+  private readonly modules: boolean[][];
+  private readonly reserved: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i += 1) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+    this.drawFinder(3, 3);
+    this.drawFinder(this.size - 4, 3);
+    this.drawFinder(3, this.size - 4);
+
+    const positions = this.alignmentPositions();
+    const last = positions.length - 1;
+    positions.forEach((x, i) =>
+      positions.forEach((y, j) => {
+        const overlapsFinder = (i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0);
+        if (!overlapsFinder) this.drawAlignment(x, y);
+      }),
+    );
+
+    // Reserve the format areas now; their bits depend on the mask chosen later.
+    this.drawFormatBits(0, 0);
+    this.drawVersionBits();
+  }
+
+  /** Places the codewords in the zig-zag order, skipping function modules. */
+  drawCodewords(codewords: readonly number[]): void {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vert = 0; vert < this.size; vert += 1) {
+        for (let j = 0; j < 2; j += 1) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vert : vert;
+          if (!this.reserved[y]![x] && i < codewords.length * 8) {
+            this.modules[y]![x] = ((codewords[i >>> 3]! >>> (7 - (i & 7))) & 1) === 1;
+            i += 1;
+          }
+        }
+      }
+    }
+  }
+
+  /** A copy with `mask` applied to the data modules and its format bits drawn. */
+  withMask(mask: number, level: QrErrorCorrection): boolean[][] {
+    const copy = new Matrix(this.version);
+    for (let y = 0; y < this.size; y += 1) {
+      for (let x = 0; x < this.size; x += 1) {
+        copy.reserved[y]![x] = this.reserved[y]![x]!;
+        copy.modules[y]![x] = this.modules[y]![x]! !== (!this.reserved[y]![x] && MASKS[mask]!(x, y));
+      }
+    }
+    copy.drawFormatBits(FORMAT_BITS[level], mask);
+    return copy.modules;
+  }
+
+  private drawFormatBits(levelBits: number, mask: number): void {
+    const data = (levelBits << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i += 1) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+    for (let i = 0; i <= 5; i += 1) this.setFunction(8, i, bit(i));
+    this.setFunction(8, 7, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i += 1) this.setFunction(14 - i, 8, bit(i));
+
+    for (let i = 0; i < 8; i += 1) this.setFunction(this.size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i += 1) this.setFunction(8, this.size - 15 + i, bit(i));
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  private drawVersionBits(): void {
+    if (this.version < 7) return;
+    let rem = this.version;
+    for (let i = 0; i < 12; i += 1) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | rem;
+    for (let i = 0; i < 18; i += 1) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  /** A finder pattern with its separator, centred on (x, y). */
+  private drawFinder(x: number, y: number): void {
+    for (let dy = -4; dy <= 4; dy += 1) {
+      for (let dx = -4; dx <= 4; dx += 1) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunction(xx, yy, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignment(x: number, y: number): void {
+    for (let dy = -2; dy <= 2; dy += 1) {
+      for (let dx = -2; dx <= 2; dx += 1) {
+        this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  private alignmentPositions(): number[] {
+    if (this.version === 1) return [];
+    const count = Math.floor(this.version / 7) + 2;
+    const step = Math.ceil((this.version * 4 + 4) / (count * 2 - 2)) * 2;
+    const result = [6];
+    for (let pos = this.size - 7; result.length < count; pos -= step) result.splice(1, 0, pos);
+    return result;
+  }
+
+  private setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y]![x] = dark;
+    this.reserved[y]![x] = true;
+  }
+}
+
+/** The standard penalty rules used to pick the mask that scans most reliably. */
+function penaltyScore(modules: boolean[][]): number {
+  const size = modules.length;
+  const at = (x: number, y: number, vertical: boolean) => (vertical ? modules[x]![y]! : modules[y]![x]!);
+  const finderLike = [true, false, true, true, true, false, true];
+  let penalty = 0;
+
+  for (const vertical of [false, true]) {
+    for (let y = 0; y < size; y += 1) {
+      let run = 1;
+      for (let x = 1; x <= size; x += 1) {
+        if (x < size && at(x, y, vertical) === at(x - 1, y, vertical)) {
+          run += 1;
+          continue;
+        }
+        if (run >= 5) penalty += run - 2;
+        run = 1;
+      }
+      for (let x = 0; x + 7 <= size; x += 1) {
+        if (!finderLike.every((dark, i) => at(x + i, y, vertical) === dark)) continue;
+        // Beyond the edge is the light quiet zone.
+        const light = (xx: number) => xx < 0 || xx >= size || !at(xx, y, vertical);
+        const lightBefore = [1, 2, 3, 4].every((i) => light(x - i));
+        const lightAfter = [7, 8, 9, 10].every((i) => light(x + i));
+        if (lightBefore || lightAfter) penalty += 40;
+      }
+    }
+  }
+
+  let dark = 0;
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      const color = modules[y]![x]!;
+      if (color) dark += 1;
+      if (
+        x + 1 < size &&
+        y + 1 < size &&
+        color === modules[y]![x + 1] &&
+        color === modules[y + 1]![x] &&
+        color === modules[y + 1]![x + 1]
+      ) {
+        penalty += 3;
+      }
+    }
+  }
+  const total = size * size;
+  penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return penalty;
+}
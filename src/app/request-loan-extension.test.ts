@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest';
+import { requestLoanExtension } from './request-loan-extension';
+import type { ReservationService, Reservation } from './reservation-service';
+
+describe('requestLoanExtension', () => {
+  const reservation: Reservation = {
+    id: 'res-1',
+    userId: 'user-1',
+    deviceModelId: 'device-1',
+    deviceModelName: 'Laptop',
+    status: 'collected',
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-02'),
+    extension: { status: 'pending', requestedAt: new Date('2025-01-02'), days: 3 },
+  };
+
+  const createMockService = (overrides: Partial<ReservationService> = {}): ReservationService =>
+    ({
+      requestExtension: vi.fn().mockResolvedValue({ item: reservation }),
+      ...overrides,
+    }) as ReservationService;
+
+  it('requests the extension and returns the reservation', async () => {
+    const mockRequest = vi.fn().mockResolvedValue({ item: reservation });
+    const service = createMockService({ requestExtension: mockRequest });
+
+    const result = await requestLoanExtension(service, { id: 'res-1', days: 3, note: '  Exam week ' });
+
+    expect(result).toEqual({ success: true, item: reservation });
+    expect(mockRequest).toHaveBeenCalledWith('res-1', { days: 3, note: 'Exam week' });
+  });
+
+  it('leaves out a blank note', async () => {
+    const mockRequest = vi.fn().mockResolvedValue({ item: reservation });
+    const service = createMockService({ requestExtension: mockRequest });
+
+    await requestLoanExtension(service, { id: 'res-1', days: 2, note: '   ' });
+
+    expect(mockRequest).toHaveBeenCalledWith('res-1', { days: 2 });
+  });
+
+  it('refuses day counts outside the allowed range without calling the service', async () => {
+    const mockRequest = vi.fn();
+    const service = createMockService({ requestExtension: mockRequest });
+
+    for (const days of [0, 1.5, 8]) {
+      const result = await requestLoanExtension(service, { id: 'res-1', days });
+      expect(result).toEqual({
+        success: false,
+        errors: ['An extension must be between 1 and 7 days'],
+      });
+    }
+    expect(mockRequest).not.toHaveBeenCalled();
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      requestExtension: vi.fn().mockRejectedValue(new Error('Reservation res-1 is not on loan')),
+    });
+
+    const result = await requestLoanExtension(service, { id: 'res-1', days: 3 });
+
+    expect(result).toEqual({ success: false, errors: ['Reservation res-1 is not on loan'] });
+  });
+
+  it('returns default error message for non-Error exceptions', async () => {
+    const service = createMockService({
+      requestExtension: vi.fn().mockRejectedValue('boom'),
+    });
+
+    const result = await requestLoanExtension(service, { id: 'res-1', days: 3 });
+
+    expect(result).toEqual({ success: false, errors: ['Failed to request an extension'] });
+  });
+});
@@ -0,0 +1,37 @@
+import type { ReservationService, Reservation } from './reservation-service';
+import { MAX_EXTENSION_DAYS, isValidExtensionDays } from './loan-extension';
+
+export type RequestLoanExtensionCommand = {
+  id: string;
+  days: number;
+  note?: string;
+};
+
+export type RequestLoanExtensionResult =
+  | { success: true; item: Reservation }
+  | { success: false; errors: string[] };
+
+export async function requestLoanExtension(
+  service: ReservationService,
+  command: RequestLoanExtensionCommand,
+): Promise<RequestLoanExtensionResult> {
+  if (!isValidExtensionDays(command.days)) {
+    return {
+      success: false,
+      errors: [`An extension must be between 1 and ${MAX_EXTENSION_DAYS} days`],
+    };
+  }
+  try {
+    const note = command.note?.trim();
+    const output = await service.requestExtension(command.id, {
+      days: command.days,
+      ...(note ? { note } : {}),
+    });
+    return { success: true, item: output.item };
+  } catch (err: unknown) {
+    return {
+      success: false,
+      errors: [err instanceof Error ? err.message : 'Failed to request an extension'],
+    };
+  }
+}
@@ -1,3 +1,5 @@
+import type { BorrowerRole } from './loan-policy';
+
 export type ReservationStatus = 'reserved' | 'collected' | 'returned';
 
 export type Reservation = {
@@ -10,6 +12,42 @@ export type Reservation = {
   readonly updatedAt: Date;
   readonly collectedAt?: Date;
   readonly returnedAt?: Date;
+  /** The physical unit handed over at collection, when one was recorded. */
+  readonly assetId?: string;
+  /** Location the borrower collects from, when one was chosen. */
+  readonly pickupLocationId?: string;
+  /**
+   * First and last day of the booking, at local midnight. Reservations made
+   * without dates hold a unit from creation until it is returned.
+   */
+  readonly startDate?: Date;
+  readonly endDate?: Date;
+  /** Set at collection from the loan policy; the loan is overdue after it. */
+  readonly dueAt?: Date;
+  /** Picks the loan period; unknown roles are treated as students. */
+  readonly borrowerRole?: BorrowerRole;
+  /** When the borrower was last reminded to return the unit. */
+  readonly lastReminderAt?: Date;
+  /** The borrower's latest extension request, decided or not. */
+  readonly extension?: LoanExtension;
+};
+
+/**
+ * A borrower asks for more time on a collected loan and staff approve or deny
+ * it. Approving moves the loan's `dueAt`; a denied loan can be asked again.
+ */
+export type ExtensionStatus = 'pending' | 'approved' | 'denied';
+
+export type LoanExtension = {
+  readonly status: ExtensionStatus;
+  readonly requestedAt: Date;
+  /** Days added to the due date when approved. */
+  readonly days: number;
+  /** The borrower's explanation, if they gave one. */
+  readonly note?: string;
+  readonly decidedAt?: Date;
+  /** Why staff decided as they did; always given for denials. */
+  readonly reason?: string;
 };
 
 export type ListReservationsOutput = {
@@ -20,6 +58,11 @@ export type ListReservationsOutput = {
 export type CreateReservationInput = {
   readonly deviceModelId: string;
   readonly deviceModelName: string;
+  /** Units are then taken from that location's stock. */
+  readonly pickupLocationId?: string;
+  /** Both or neither; the booking covers these days inclusively. */
+  readonly startDate?: Date;
+  readonly endDate?: Date;
 };
 
 export type CreateReservationOutput = {
@@ -28,15 +71,100 @@ export type CreateReservationOutput = {
 
 export type UpdateReservationStatusInput = {
   readonly status: ReservationStatus;
+  readonly assetId?: string;
+  /** When collecting, the moment the unit must be back. */
+  readonly dueAt?: Date;
 };
 
 export type UpdateReservationStatusOutput = {
   readonly item: Reservation;
 };
 
+export type RequestExtensionInput = {
+  readonly days: number;
+  readonly note?: string;
+};
+
+export type RequestExtensionOutput = {
+  readonly item: Reservation;
+};
+
+export type DecideExtensionInput = {
+  readonly approve: boolean;
+  readonly reason?: string;
+};
+
+export type DecideExtensionOutput = {
+  readonly item: Reservation;
+};
+
+export type SendReturnRemindersOutput = {
+  /** The reminded reservations, with `lastReminderAt` set. */
+  readonly items: readonly Reservation[];
+};
+
+/**
+ * `waiting` entries queue first come, first served. When a unit is freed the
+ * next entry is `offered` it for a limited time; claiming turns the offer into
+ * a reservation, letting it lapse makes it `expired` and passes the unit on.
+ */
+export type WaitlistStatus = 'waiting' | 'offered' | 'claimed' | 'expired';
+
+export type WaitlistEntry = {
+  readonly id: string;
+  readonly userId: string;
+  readonly deviceModelId: string;
+  readonly deviceModelName: string;
+  readonly status: WaitlistStatus;
+  readonly createdAt: Date;
+  /** 1-based place among the device's waiting entries. */
+  readonly position?: number;
+  readonly offeredAt?: Date;
+  /** The offer lapses at this moment unless claimed. */
+  readonly offerExpiresAt?: Date;
+  /** The reservation made when the offer was claimed. */
+  readonly reservationId?: string;
+  /** Carried over to the reservation made from the offer. */
+  readonly pickupLocationId?: string;
+};
+
+export type ListWaitlistOutput = {
+  readonly items: readonly WaitlistEntry[];
+  readonly totalCount: number;
+};
+
+export type JoinWaitlistInput = {
+  readonly deviceModelId: string;
+  readonly deviceModelName: string;
+  readonly pickupLocationId?: string;
+};
+
+export type JoinWaitlistOutput = {
+  readonly item: WaitlistEntry;
+};
+
+export type ClaimWaitlistOfferOutput = {
+  readonly item: WaitlistEntry;
+  readonly reservation: Reservation;
+};
+
 export interface ReservationService {
-  listReservations(statusFilter?: ReservationStatus[]): Promise<ListReservationsOutput>;
+  listReservations(
+    statusFilter?: ReservationStatus[],
+    pickupLocationId?: string,
+  ): Promise<ListReservationsOutput>;
   createReservation(input: CreateReservationInput): Promise<CreateReservationOutput>;
   updateReservationStatus(id: string, input: UpdateReservationStatusInput): Promise<UpdateReservationStatusOutput>;
   deleteReservation(id: string): Promise<void>;
+  /** Refused while anyone is waitlisted for the device. */
+  requestExtension(id: string, input: RequestExtensionInput): Promise<RequestExtensionOutput>;
+  /** Approving is refused while anyone is waitlisted for the device; denying is not. */
+  decideExtension(id: string, input: DecideExtensionInput): Promise<DecideExtensionOutput>;
+  /** Asks the borrowers of collected reservations to bring their units back. */
+  sendReturnReminders(ids: readonly string[]): Promise<SendReturnRemindersOutput>;
+  /** Entries of the current user, or every entry for staff; optionally for one device. */
+  listWaitlist(deviceModelId?: string): Promise<ListWaitlistOutput>;
+  joinWaitlist(input: JoinWaitlistInput): Promise<JoinWaitlistOutput>;
+  leaveWaitlist(id: string): Promise<void>;
+  claimWaitlistOffer(id: string): Promise<ClaimWaitlistOfferOutput>;
 }
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+import { resolveMaintenance } from './resolve-maintenance';
+import type { InventoryService, Device, MaintenanceRecord } from './inventory-service';
+
+describe('resolveMaintenance', () => {
+  const device: Device = {
+    id: 'dev-1',
+    name: 'Laptop',
+    description: 'Dell XPS',
+    count: 3,
+    updatedAt: new Date('2025-01-01'),
+  };
+
+  const record: MaintenanceRecord = {
+    id: 'mnt-1',
+    deviceModelId: 'dev-1',
+    deviceModelName: 'Laptop',
+    quantity: 1,
+    status: 'written-off',
+    createdAt: new Date('2025-01-01'),
+    resolvedAt: new Date('2025-01-05'),
+  };
+
+  const createMockService = (overrides: Partial<InventoryService> = {}): InventoryService =>
+    ({
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi.fn(),
+      deleteInventoryItem: vi.fn(),
+      resolveMaintenance: vi.fn().mockResolvedValue({ item: record, device }),
+      ...overrides,
+    }) as InventoryService;
+
+  it('closes the record with the chosen outcome', async () => {
+    const service = createMockService();
+
+    const result = await resolveMaintenance(service, {
+      recordId: 'mnt-1',
+      outcome: 'written-off',
+      note: ' Beyond repair ',
+    });
+
+    expect(service.resolveMaintenance).toHaveBeenCalledWith('mnt-1', {
+      outcome: 'written-off',
+      note: 'Beyond repair',
+    });
+    expect(result).toEqual({ success: true, item: record, device });
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      resolveMaintenance: vi
+        .fn()
+        .mockRejectedValue(new Error('Maintenance record mnt-1 is already closed')),
+    });
+
+    const result = await resolveMaintenance(service, { recordId: 'mnt-1', outcome: 'repaired' });
+
+    expect(result).toEqual({
+      success: false,
+      errors: ['Maintenance record mnt-1 is already closed'],
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import type {
+  InventoryService,
+  Device,
+  MaintenanceRecord,
+  ResolveMaintenanceInput,
+} from './inventory-service';
+
+export type ResolveMaintenanceResult =
+  | { success: true; item: MaintenanceRecord; device: Device }
+  | { success: false; errors: readonly string[] };
+
+export type ResolveMaintenanceCommand = {
+  readonly recordId: string;
+  readonly outcome: ResolveMaintenanceInput['outcome'];
+  readonly note?: string;
+};
+
+export type ResolveMaintenanceUseCase = (
+  service: InventoryService,
+  command: ResolveMaintenanceCommand,
+) => Promise<ResolveMaintenanceResult>;
+
+export const resolveMaintenance: ResolveMaintenanceUseCase = async (service, command) => {
+  try {
+    const note = command.note?.trim();
+    const input: ResolveMaintenanceInput = note
+      ? { outcome: command.outcome, note }
+      : { outcome: command.outcome };
+    const { item, device } = await service.resolveMaintenance(command.recordId, input);
+    return { success: true, item, device };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, errors: [message] };
+  }
+};
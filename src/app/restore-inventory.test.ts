@@ -0,0 +1,42 @@
+import { describe, it, expect, vi } from 'vitest';
+import { restoreInventory } from './restore-inventory';
+import type { InventoryService, Device } from './inventory-service';
+
+describe('restoreInventory', () => {
+  const restored: Device = {
+    id: 'dev-1',
+    name: 'Laptop',
+    description: 'Dell XPS',
+    count: 5,
+    updatedAt: new Date('2025-02-02'),
+  };
+
+  const createMockService = (overrides: Partial<InventoryService> = {}): InventoryService =>
+    ({
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi.fn(),
+      deleteInventoryItem: vi.fn(),
+      restoreInventoryItem: vi.fn().mockResolvedValue({ item: restored }),
+      ...overrides,
+    }) as InventoryService;
+
+  it('returns the restored device', async () => {
+    const service = createMockService();
+
+    const result = await restoreInventory(service, { id: 'dev-1' });
+
+    expect(service.restoreInventoryItem).toHaveBeenCalledWith('dev-1');
+    expect(result).toEqual({ success: true, item: restored });
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      restoreInventoryItem: vi.fn().mockRejectedValue(new Error('Device "Laptop" is not in the trash')),
+    });
+
+    const result = await restoreInventory(service, { id: 'dev-1' });
+
+    expect(result).toEqual({ success: false, errors: ['Device "Laptop" is not in the trash'] });
+  });
+});
@@ -0,0 +1,24 @@
+import type { InventoryService, Device } from './inventory-service';
+
+export type RestoreInventoryResult =
+  | { success: true; item: Device }
+  | { success: false; errors: readonly string[] };
+
+export type RestoreInventoryCommand = {
+  readonly id: string;
+};
+
+export type RestoreInventoryUseCase = (
+  service: InventoryService,
+  command: RestoreInventoryCommand,
+) => Promise<RestoreInventoryResult>;
+
+export const restoreInventory: RestoreInventoryUseCase = async (service, command) => {
+  try {
+    const { item } = await service.restoreInventoryItem(command.id);
+    return { success: true, item };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, errors: [message] };
+  }
+};
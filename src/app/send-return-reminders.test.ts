@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest';
+import { sendReturnReminders } from './send-return-reminders';
+import type { ReservationService, Reservation } from './reservation-service';
+
+describe('sendReturnReminders', () => {
+  const reminded: Reservation = {
+    id: 'res-1',
+    userId: 'user-1',
+    deviceModelId: 'device-1',
+    deviceModelName: 'Laptop',
+    status: 'collected',
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+    lastReminderAt: new Date('2025-01-05'),
+  };
+
+  const createMockService = (overrides: Partial<ReservationService> = {}): ReservationService =>
+    ({
+      sendReturnReminders: vi.fn().mockResolvedValue({ items: [reminded] }),
+      ...overrides,
+    }) as ReservationService;
+
+  it('sends each reservation a reminder once', async () => {
+    const mockSend = vi.fn().mockResolvedValue({ items: [reminded] });
+    const service = createMockService({ sendReturnReminders: mockSend });
+
+    const result = await sendReturnReminders(service, { ids: ['res-1', 'res-1'] });
+
+    expect(result).toEqual({ success: true, items: [reminded] });
+    expect(mockSend).toHaveBeenCalledWith(['res-1']);
+  });
+
+  it('refuses an empty selection', async () => {
+    const mockSend = vi.fn();
+    const service = createMockService({ sendReturnReminders: mockSend });
+
+    const result = await sendReturnReminders(service, { ids: [] });
+
+    expect(result).toEqual({ success: false, errors: ['Select at least one loan to remind'] });
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      sendReturnReminders: vi.fn().mockRejectedValue(new Error('Reservation res-9 is not on loan')),
+    });
+
+    const result = await sendReturnReminders(service, { ids: ['res-9'] });
+
+    expect(result).toEqual({ success: false, errors: ['Reservation res-9 is not on loan'] });
+  });
+});
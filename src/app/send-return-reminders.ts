@@ -0,0 +1,28 @@
+import type { ReservationService, Reservation } from './reservation-service';
+
+export type SendReturnRemindersCommand = {
+  ids: readonly string[];
+};
+
+export type SendReturnRemindersResult =
+  | { success: true; items: readonly Reservation[] }
+  | { success: false; errors: string[] };
+
+export async function sendReturnReminders(
+  service: ReservationService,
+  command: SendReturnRemindersCommand,
+): Promise<SendReturnRemindersResult> {
+  const ids = [...new Set(command.ids)];
+  if (ids.length === 0) {
+    return { success: false, errors: ['Select at least one loan to remind'] };
+  }
+  try {
+    const output = await service.sendReturnReminders(ids);
+    return { success: true, items: output.items };
+  } catch (err: unknown) {
+    return {
+      success: false,
+      errors: [err instanceof Error ? err.message : 'Failed to send reminders'],
+    };
+  }
+}
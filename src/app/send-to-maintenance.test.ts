@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest';
+import { sendToMaintenance } from './send-to-maintenance';
+import type { InventoryService, Device, MaintenanceRecord } from './inventory-service';
+import type { Reservation, ReservationService } from './reservation-service';
+
+describe('sendToMaintenance', () => {
+  const device: Device = {
+    id: 'dev-1',
+    name: 'Laptop',
+    description: 'Dell XPS',
+    count: 4,
+    inRepair: 2,
+    updatedAt: new Date('2025-01-01'),
+  };
+
+  const record: MaintenanceRecord = {
+    id: 'mnt-1',
+    deviceModelId: 'dev-1',
+    deviceModelName: 'Laptop',
+    quantity: 2,
+    status: 'in-repair',
+    createdAt: new Date('2025-01-01'),
+  };
+
+  const createMockService = (overrides: Partial<InventoryService> = {}): InventoryService =>
+    ({
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi.fn(),
+      deleteInventoryItem: vi.fn(),
+      sendToMaintenance: vi.fn().mockResolvedValue({ item: record, device }),
+      ...overrides,
+    }) as InventoryService;
+
+  it('sends units for repair with a trimmed note and return date', async () => {
+    const service = createMockService();
+    const expectedReturnAt = new Date('2025-02-01');
+
+    const result = await sendToMaintenance(service, {
+      deviceId: 'dev-1',
+      quantity: 2,
+      note: '  Cracked screens ',
+      expectedReturnAt,
+    });
+
+    expect(service.sendToMaintenance).toHaveBeenCalledWith('dev-1', {
+      quantity: 2,
+      note: 'Cracked screens',
+      expectedReturnAt,
+    });
+    expect(result).toEqual({ success: true, item: record, device });
+  });
+
+  it('rejects invalid input without calling the service', async () => {
+    const service = createMockService();
+
+    const result = await sendToMaintenance(service, {
+      deviceId: 'dev-1',
+      quantity: 0,
+      note: 'x'.repeat(501),
+      expectedReturnAt: new Date('nope'),
+    });
+
+    expect(result).toEqual({
+      success: false,
+      errors: [
+        'Quantity must be a positive whole number',
+        'Note must be no more than 500 characters',
+        'Expected return date is invalid',
+      ],
+    });
+    expect(service.sendToMaintenance).not.toHaveBeenCalled();
+  });
+
+  describe('with reservations', () => {
+    const loan = (overrides: Partial<Reservation> = {}): Reservation => ({
+      id: 'res-1',
+      userId: 'user-1',
+      deviceModelId: 'dev-1',
+      deviceModelName: 'Laptop',
+      status: 'collected',
+      createdAt: new Date('2025-01-01'),
+      updatedAt: new Date('2025-01-01'),
+      ...overrides,
+    });
+
+    const withLoans = (items: Reservation[]) =>
+      ({
+        listReservations: vi.fn().mockResolvedValue({ items, totalCount: items.length }),
+      }) as unknown as ReservationService;
+
+    it('refuses units that are out on loan', async () => {
+      const service = createMockService({
+        getInventoryItem: vi.fn().mockResolvedValue({ item: device }),
+      });
+      const reservations = withLoans([
+        loan({ id: 'res-1' }),
+        loan({ id: 'res-2', deviceModelId: 'dev-2' }),
+      ]);
+
+      const result = await sendToMaintenance(
+        service,
+        { deviceId: 'dev-1', quantity: 2 },
+        { reservations },
+      );
+
+      expect(result).toEqual({
+        success: false,
+        errors: ['Only 1 unit of "Laptop" can be sent for repair'],
+      });
+      expect(reservations.listReservations).toHaveBeenCalledWith(['collected']);
+      expect(service.sendToMaintenance).not.toHaveBeenCalled();
+    });
+
+    it('sends units that are neither under repair nor on loan', async () => {
+      const service = createMockService({
+        getInventoryItem: vi.fn().mockResolvedValue({ item: device }),
+      });
+
+      const result = await sendToMaintenance(
+        service,
+        { deviceId: 'dev-1', quantity: 1 },
+        { reservations: withLoans([loan()]) },
+      );
+
+      expect(result.success).toBe(true);
+      expect(service.sendToMaintenance).toHaveBeenCalledWith('dev-1', { quantity: 1 });
+    });
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      sendToMaintenance: vi
+        .fn()
+        .mockRejectedValue(new Error('Only 1 unit of "Laptop" can be sent for repair')),
+    });
+
+    const result = await sendToMaintenance(service, { deviceId: 'dev-1', quantity: 2 });
+
+    expect(result).toEqual({
+      success: false,
+      errors: ['Only 1 unit of "Laptop" can be sent for repair'],
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import type {
+  InventoryService,
+  Device,
+  MaintenanceRecord,
+  SendToMaintenanceInput,
+} from './inventory-service';
+import type { ReservationService } from './reservation-service';
+import { countOnLoan, repairableUnits, repairLimitMessage } from './availability';
+
+export type SendToMaintenanceResult =
+  | { success: true; item: MaintenanceRecord; device: Device }
+  | { success: false; errors: readonly string[] };
+
+export type SendToMaintenanceCommand = {
+  readonly deviceId: string;
+  readonly quantity: number;
+  readonly note?: string;
+  readonly expectedReturnAt?: Date;
+};
+
+export type SendToMaintenanceDeps = {
+  /** Units out on loan cannot be sent for repair; without it only stock under repair is checked. */
+  readonly reservations?: ReservationService;
+};
+
+export type SendToMaintenanceUseCase = (
+  service: InventoryService,
+  command: SendToMaintenanceCommand,
+  deps?: SendToMaintenanceDeps,
+) => Promise<SendToMaintenanceResult>;
+
+const NOTE_MAX_LENGTH = 500;
+
+export const sendToMaintenance: SendToMaintenanceUseCase = async (
+  service,
+  command,
+  deps = {},
+) => {
+  const errors: string[] = [];
+  if (!Number.isInteger(command.quantity) || command.quantity <= 0) {
+    errors.push('Quantity must be a positive whole number');
+  }
+  const note = command.note?.trim();
+  if (note && note.length > NOTE_MAX_LENGTH) {
+    errors.push(`Note must be no more than ${NOTE_MAX_LENGTH} characters`);
+  }
+  if (command.expectedReturnAt && Number.isNaN(command.expectedReturnAt.getTime())) {
+    errors.push('Expected return date is invalid');
+  }
+  if (errors.length) return { success: false, errors };
+
+  try {
+    if (deps.reservations) {
+      const [{ item: device }, { items: loans }] = await Promise.all([
+        service.getInventoryItem(command.deviceId),
+        deps.reservations.listReservations(['collected']),
+      ]);
+      const onLoan = countOnLoan(loans, command.deviceId);
+      if (command.quantity > repairableUnits(device, onLoan)) {
+        return { success: false, errors: [repairLimitMessage(device, onLoan)] };
+      }
+    }
+    const input: SendToMaintenanceInput = {
+      quantity: command.quantity,
+      ...(note ? { note } : {}),
+      ...(command.expectedReturnAt ? { expectedReturnAt: command.expectedReturnAt } : {}),
+    };
+    const { item, device } = await service.sendToMaintenance(command.deviceId, input);
+    return { success: true, item, device };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, errors: [message] };
+  }
+};
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { findLowStock, isLowStock, lowStockAlert } from './stock-alerts';
+import type { Device } from './inventory-service';
+
+const device = (overrides: Partial<Device> = {}): Device => ({
+  id: 'dev-1',
+  name: 'Laptop',
+  description: 'Dell XPS',
+  count: 3,
+  updatedAt: new Date('2025-01-01'),
+  ...overrides,
+});
+
+describe('stock alerts', () => {
+  it('ignores devices without a threshold or known stock', () => {
+    expect(isLowStock(device({ count: 0 }))).toBe(false);
+    expect(isLowStock(device({ minStock: 0, count: 0 }))).toBe(false);
+    expect(isLowStock(device({ minStock: 2, count: undefined }))).toBe(false);
+  });
+
+  it('flags stock strictly below the minimum', () => {
+    expect(isLowStock(device({ minStock: 3, count: 3 }))).toBe(false);
+    expect(lowStockAlert(device({ minStock: 4, count: 3 }))).toMatchObject({
+      level: 3,
+      minStock: 4,
+      shortfall: 1,
+    });
+  });
+
+  it('prefers availability over raw stock', () => {
+    expect(isLowStock(device({ minStock: 2, count: 5, available: 1 }))).toBe(true);
+    expect(isLowStock(device({ minStock: 2, count: 1, available: 2 }))).toBe(false);
+  });
+
+  it('orders alerts by shortfall, then name', () => {
+    const alerts = findLowStock([
+      device({ id: 'a', name: 'Mouse', minStock: 3, count: 2 }),
+      device({ id: 'b', name: 'Camera', minStock: 5, count: 1 }),
+      device({ id: 'c', name: 'Keyboard', minStock: 2, count: 1 }),
+      device({ id: 'd', name: 'Tripod', minStock: 1, count: 4 }),
+    ]);
+
+    expect(alerts.map((a) => a.device.id)).toEqual(['b', 'c', 'a']);
+  });
+});
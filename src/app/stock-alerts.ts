@@ -0,0 +1,40 @@
+import type { Device } from './inventory-service';
+import { availableUnits } from './availability';
+
+/** A device whose stock has fallen below the minimum staff set for it. */
+export type LowStockAlert = {
+  readonly device: Device;
+  /** Units a borrower could take right now. */
+  readonly level: number;
+  readonly minStock: number;
+  /** Units needed to get back to the minimum. */
+  readonly shortfall: number;
+};
+
+/**
+ * Returns the alert for a device below its threshold, or `undefined` when it
+ * has no threshold, no known stock or enough units. Availability is used when
+ * known so reserved units count as gone.
+ */
+export function lowStockAlert(device: Device): LowStockAlert | undefined {
+  const minStock = device.minStock;
+  const level = availableUnits(device);
+  if (!minStock || level === undefined || level >= minStock) return undefined;
+  return { device, level, minStock, shortfall: minStock - level };
+}
+
+export function isLowStock(device: Device): boolean {
+  return lowStockAlert(device) !== undefined;
+}
+
+/** Alerts for every low device, largest shortfall first. */
+export function findLowStock(devices: readonly Device[]): LowStockAlert[] {
+  return devices
+    .map(lowStockAlert)
+    .filter((alert): alert is LowStockAlert => alert !== undefined)
+    .sort(
+      (a, b) =>
+        b.shortfall - a.shortfall ||
+        a.device.name.localeCompare(b.device.name, undefined, { sensitivity: 'base' }),
+    );
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest';
+import { updateAsset } from './update-asset';
+import type { InventoryService, Asset } from './inventory-service';
+
+describe('updateAsset', () => {
+  const updatedAsset: Asset = {
+    id: 'ast-1',
+    deviceModelId: 'dev-1',
+    serialNumber: 'SN-001',
+    assetTag: 'LAP-001',
+    condition: 'fair',
+    status: 'on-loan',
+    updatedAt: new Date('2025-02-01'),
+  };
+
+  const createMockService = (overrides: Partial<InventoryService> = {}): InventoryService => ({
+    listInventoryItems: vi.fn(),
+    addInventoryItem: vi.fn(),
+    updateInventoryItem: vi.fn(),
+    deleteInventoryItem: vi.fn(),
+    listAssets: vi.fn(),
+    addAsset: vi.fn(),
+    updateAsset: vi.fn().mockResolvedValue({ item: updatedAsset }),
+    deleteAsset: vi.fn(),
+    ...overrides,
+  });
+
+  it('only sends provided fields to service', async () => {
+    const service = createMockService();
+
+    const result = await updateAsset(service, {
+      deviceId: 'dev-1',
+      assetId: 'ast-1',
+      status: 'on-loan',
+    });
+
+    expect(service.updateAsset).toHaveBeenCalledWith('dev-1', 'ast-1', { status: 'on-loan' });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.item).toEqual(updatedAsset);
+    }
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      updateAsset: vi.fn().mockRejectedValue(new Error('update failed')),
+    });
+
+    const result = await updateAsset(service, {
+      deviceId: 'dev-1',
+      assetId: 'ast-1',
+      condition: 'damaged',
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors).toEqual(['update failed']);
+    }
+  });
+});
@@ -0,0 +1,45 @@
+import type {
+  InventoryService,
+  Asset,
+  AssetCondition,
+  AssetStatus,
+} from './inventory-service';
+
+export type UpdateAssetResult =
+  | { success: true; item: Asset }
+  | { success: false; errors: readonly string[] };
+
+export type UpdateAssetCommand = {
+  readonly deviceId: string;
+  readonly assetId: string;
+  readonly serialNumber?: string;
+  readonly assetTag?: string;
+  readonly condition?: AssetCondition;
+  readonly status?: AssetStatus;
+};
+
+export type UpdateAssetUseCase = (
+  service: InventoryService,
+  command: UpdateAssetCommand,
+) => Promise<UpdateAssetResult>;
+
+export const updateAsset: UpdateAssetUseCase = async (service, command) => {
+  try {
+    const input: {
+      serialNumber?: string;
+      assetTag?: string;
+      condition?: AssetCondition;
+      status?: AssetStatus;
+    } = {};
+    if (command.serialNumber !== undefined) input.serialNumber = command.serialNumber.trim();
+    if (command.assetTag !== undefined) input.assetTag = command.assetTag.trim();
+    if (command.condition !== undefined) input.condition = command.condition;
+    if (command.status !== undefined) input.status = command.status;
+
+    const { item } = await service.updateAsset(command.deviceId, command.assetId, input);
+    return { success: true, item };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, errors: [message] };
+  }
+};
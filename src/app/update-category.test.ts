@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest';
+import { updateCategory } from './update-category';
+import type { Category, InventoryService } from './inventory-service';
+
+describe('updateCategory', () => {
+  const renamed: Category = { id: 'cat-1', name: 'Photo & video' };
+
+  const createMockService = (overrides: Partial<InventoryService> = {}): InventoryService =>
+    ({
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi.fn(),
+      deleteInventoryItem: vi.fn(),
+      updateCategory: vi.fn().mockResolvedValue({ item: renamed }),
+      ...overrides,
+    }) as InventoryService;
+
+  it('renames the category with a trimmed name', async () => {
+    const service = createMockService();
+
+    const result = await updateCategory(service, { id: 'cat-1', name: ' Photo & video ' });
+
+    expect(service.updateCategory).toHaveBeenCalledWith('cat-1', { name: 'Photo & video' });
+    expect(result).toEqual({ success: true, item: renamed });
+  });
+
+  it('rejects a blank name without calling the service', async () => {
+    const service = createMockService();
+
+    const result = await updateCategory(service, { id: 'cat-1', name: '' });
+
+    expect(result).toEqual({ success: false, errors: ['Category name is required'] });
+    expect(service.updateCategory).not.toHaveBeenCalled();
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      updateCategory: vi.fn().mockRejectedValue(new Error('Category with id cat-1 not found')),
+    });
+
+    const result = await updateCategory(service, { id: 'cat-1', name: 'Audio' });
+
+    expect(result).toEqual({ success: false, errors: ['Category with id cat-1 not found'] });
+  });
+});
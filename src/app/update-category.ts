@@ -0,0 +1,30 @@
+import type { Category, InventoryService } from './inventory-service';
+import { checkCategoryName } from './add-category';
+
+export type UpdateCategoryResult =
+  | { success: true; item: Category }
+  | { success: false; errors: readonly string[] };
+
+export type UpdateCategoryCommand = {
+  readonly id: string;
+  readonly name: string;
+};
+
+export type UpdateCategoryUseCase = (
+  service: InventoryService,
+  command: UpdateCategoryCommand,
+) => Promise<UpdateCategoryResult>;
+
+export const updateCategory: UpdateCategoryUseCase = async (service, command) => {
+  const name = command.name.trim();
+  const invalid = checkCategoryName(name);
+  if (invalid) return { success: false, errors: [invalid] };
+
+  try {
+    const { item } = await service.updateCategory(command.id, { name });
+    return { success: true, item };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, errors: [message] };
+  }
+};
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi } from 'vitest';
 import { updateInventory } from './update-inventory';
 import type { InventoryService, Device } from './inventory-service';
+import { ConcurrencyConflictError, DeviceValidationError } from './errors';
 
 describe('updateInventory', () => {
   const updatedItem: Device = {
@@ -53,6 +54,10 @@ describe('updateInventory', () => {
     expect(service.updateInventoryItem).toHaveBeenCalledWith('dev-1', {
       name: 'New Name',
     });
+
+    await updateInventory(service, { id: 'dev-1', minStock: 0 });
+
+    expect(service.updateInventoryItem).toHaveBeenLastCalledWith('dev-1', { minStock: 0 });
   });
 
   it('returns error messages when service throws', async () => {
@@ -73,4 +78,105 @@ describe('updateInventory', () => {
       expect(result.errors).toEqual(['update failed']);
     }
   });
+
+  it('passes the expected version through', async () => {
+    const service: InventoryService = {
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi.fn().mockResolvedValue({ item: updatedItem }),
+      deleteInventoryItem: vi.fn(),
+    };
+
+    await updateInventory(service, { id: 'dev-1', count: 3, expectedVersion: 'v2' });
+
+    expect(service.updateInventoryItem).toHaveBeenCalledWith('dev-1', { count: 3 }, 'v2');
+  });
+
+  it('reports a conflict with the current device', async () => {
+    const current = { ...updatedItem, version: 'v3' };
+    const service: InventoryService = {
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi
+        .fn()
+        .mockRejectedValue(new ConcurrencyConflictError('Changed elsewhere', current)),
+      deleteInventoryItem: vi.fn(),
+    };
+
+    const result = await updateInventory(service, { id: 'dev-1', count: 3, expectedVersion: 'v2' });
+
+    expect(result).toEqual({
+      success: false,
+      errors: ['Changed elsewhere'],
+      conflict: { current },
+    });
+  });
+
+  it('reports the fields the service rejected', async () => {
+    const service: InventoryService = {
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi
+        .fn()
+        .mockRejectedValue(new DeviceValidationError({ name: 'Name is already taken' })),
+      deleteInventoryItem: vi.fn(),
+    };
+
+    const result = await updateInventory(service, { id: 'dev-1', name: 'Laptop' });
+
+    expect(result).toEqual({
+      success: false,
+      errors: ['Name is already taken'],
+      fieldErrors: [{ field: 'name', message: 'Name is already taken' }],
+    });
+  });
+
+  it('checks only the fields being changed', async () => {
+    const service: InventoryService = {
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi.fn().mockResolvedValue({ item: updatedItem }),
+      deleteInventoryItem: vi.fn(),
+    };
+
+    const rejected = await updateInventory(service, { id: 'dev-1', description: '  ' });
+    expect(rejected).toEqual({
+      success: false,
+      errors: ['Description is required'],
+      fieldErrors: [{ field: 'description', message: 'Description is required' }],
+    });
+    expect(service.updateInventoryItem).not.toHaveBeenCalled();
+
+    const accepted = await updateInventory(service, { id: 'dev-1', count: 0 });
+    expect(accepted.success).toBe(true);
+  });
+
+  it('replaces specs when given', async () => {
+    const service: InventoryService = {
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi.fn().mockResolvedValue({ item: updatedItem }),
+      deleteInventoryItem: vi.fn(),
+    };
+
+    await updateInventory(service, { id: 'dev-1', specs: {} });
+
+    expect(service.updateInventoryItem).toHaveBeenCalledWith('dev-1', { specs: {} });
+  });
+
+  it('passes an empty category through so the device leaves it', async () => {
+    const service: InventoryService = {
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi.fn().mockResolvedValue({ item: updatedItem }),
+      deleteInventoryItem: vi.fn(),
+    };
+
+    await updateInventory(service, { id: 'dev-1', categoryId: '', tags: ['usb-c', ' '] });
+
+    expect(service.updateInventoryItem).toHaveBeenCalledWith('dev-1', {
+      categoryId: '',
+      tags: ['usb-c'],
+    });
+  });
 });
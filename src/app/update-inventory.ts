@@ -1,14 +1,50 @@
-import type { InventoryService, Device, AddDeviceInput } from './inventory-service';
+import type {
+  InventoryService,
+  Device,
+  AddDeviceInput,
+  LocationStock,
+  DeviceSpecs,
+} from './inventory-service';
+import { specEntries } from './device-specs';
+import { normalizeTags } from './device-tags';
+import { ConcurrencyConflictError, DeviceValidationError } from './errors';
+import {
+  toFieldErrorList,
+  validateInventoryChanges,
+  type InventoryFieldError,
+} from './validate-inventory';
+
+export type UpdateConflict = {
+  /** The device as it is now, when known. */
+  readonly current?: Device;
+};
 
 export type UpdateInventoryResult =
   | { success: true; item: Device }
-  | { success: false; errors: readonly string[] };
+  | {
+      success: false;
+      errors: readonly string[];
+      /** Set when the update was rejected because the device changed meanwhile. */
+      conflict?: UpdateConflict;
+      /** Set when the change broke a rule for one or more fields. */
+      fieldErrors?: readonly InventoryFieldError[];
+    };
 
 export type UpdateInventoryCommand = {
   readonly id: string;
   readonly name?: string;
   readonly description?: string;
   readonly count?: number;
+  readonly minStock?: number;
+  readonly locationStock?: readonly LocationStock[];
+  /** Replaces every spec; an empty map clears them. */
+  readonly specs?: DeviceSpecs;
+  /** An empty string takes the device out of its category. */
+  readonly categoryId?: string;
+  /** Replaces every tag; an empty list clears them. */
+  readonly tags?: readonly string[];
+  /** Version the change was based on; omit to overwrite unconditionally. */
+  readonly expectedVersion?: string;
 };
 
 export type UpdateInventoryUseCase = (
@@ -20,15 +56,46 @@ export const updateInventory: UpdateInventoryUseCase = async (
   service,
   command,
 ) => {
+  const invalid = toFieldErrorList(
+    validateInventoryChanges({
+      ...command,
+      specs: command.specs !== undefined ? specEntries(command.specs) : undefined,
+    }),
+  );
+  if (invalid.length) {
+    return { success: false, errors: invalid.map((e) => e.message), fieldErrors: invalid };
+  }
   try {
     const input: Partial<AddDeviceInput> = {};
     if (command.name !== undefined) (input as any).name = command.name;
     if (command.description !== undefined) (input as any).description = command.description;
     if (command.count !== undefined) (input as any).count = command.count;
+    if (command.minStock !== undefined) (input as any).minStock = command.minStock;
+    if (command.locationStock !== undefined) (input as any).locationStock = command.locationStock;
+    if (command.specs !== undefined) (input as any).specs = command.specs;
+    if (command.categoryId !== undefined) (input as any).categoryId = command.categoryId;
+    if (command.tags !== undefined) (input as any).tags = normalizeTags(command.tags);
 
-    const { item } = await service.updateInventoryItem(command.id, input);
+    const { item } =
+      command.expectedVersion !== undefined
+        ? await service.updateInventoryItem(command.id, input, command.expectedVersion)
+        : await service.updateInventoryItem(command.id, input);
     return { success: true, item };
   } catch (err) {
+    if (err instanceof ConcurrencyConflictError) {
+      return {
+        success: false,
+        errors: [err.message],
+        conflict: { current: err.current },
+      };
+    }
+    if (err instanceof DeviceValidationError) {
+      return {
+        success: false,
+        errors: [err.message],
+        fieldErrors: toFieldErrorList(err.fieldErrors),
+      };
+    }
     const message = err instanceof Error ? err.message : String(err);
     return { success: false, errors: [message] };
   }
@@ -1,6 +1,10 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { updateReservationStatus } from './update-reservation-status';
 import type { ReservationService, Reservation } from './reservation-service';
+import type { Asset, InventoryService } from './inventory-service';
+import type { LoanPolicy } from './loan-policy';
+import { FakeInventoryService } from '../infra/fake-inventory-service';
+import { FakeReservationService } from '../infra/fake-reservation-service';
 
 describe('updateReservationStatus', () => {
   const sampleReservation: Reservation = {
@@ -28,7 +32,7 @@ describe('updateReservationStatus', () => {
     });
 
     const result = await updateReservationStatus(service, {
-      id: 'res-1',
+      reservation: sampleReservation,
       status: 'collected',
     });
 
@@ -45,11 +49,109 @@ describe('updateReservationStatus', () => {
     });
 
     await updateReservationStatus(service, {
-      id: 'res-1',
+      reservation: sampleReservation,
+      status: 'returned',
+    });
+
+    expect(mockUpdate).toHaveBeenCalledWith('res-1', { status: 'returned' });
+  });
+
+  it('passes the collected asset through when given', async () => {
+    const mockUpdate = vi.fn().mockResolvedValue({ item: sampleReservation });
+    const service = createMockService({
+      updateReservationStatus: mockUpdate,
+    });
+
+    await updateReservationStatus(service, {
+      reservation: sampleReservation,
       status: 'collected',
+      assetId: 'ast-1',
+    });
+
+    expect(mockUpdate).toHaveBeenCalledWith('res-1', {
+      status: 'collected',
+      assetId: 'ast-1',
+      dueAt: expect.any(Date),
+    });
+  });
+
+  describe('due date', () => {
+    const collectedAt = new Date(2025, 0, 6, 10, 0);
+    const policy: LoanPolicy = {
+      defaults: { student: 2, staff: 14 },
+      categories: { cameras: { student: 5 } },
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(collectedAt);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('sets the due date from the policy only when collecting', async () => {
+      const mockUpdate = vi.fn().mockResolvedValue({ item: sampleReservation });
+      const service = createMockService({ updateReservationStatus: mockUpdate });
+
+      await updateReservationStatus(
+        service,
+        { reservation: { ...sampleReservation, borrowerRole: 'staff' }, status: 'collected' },
+        { loanPolicy: policy },
+      );
+      await updateReservationStatus(
+        service,
+        { reservation: sampleReservation, status: 'returned' },
+        { loanPolicy: policy },
+      );
+
+      expect(mockUpdate).toHaveBeenNthCalledWith(1, 'res-1', {
+        status: 'collected',
+        dueAt: new Date(2025, 0, 20, 10, 0),
+      });
+      expect(mockUpdate).toHaveBeenNthCalledWith(2, 'res-1', { status: 'returned' });
+    });
+
+    it("uses the device's category period", async () => {
+      const inventory = new FakeInventoryService([
+        {
+          id: 'device-1',
+          name: 'Camera',
+          description: 'Mirrorless',
+          count: 1,
+          categoryId: 'cameras',
+          updatedAt: new Date('2025-01-01'),
+        },
+      ]);
+      const mockUpdate = vi.fn().mockResolvedValue({ item: sampleReservation });
+      const service = createMockService({ updateReservationStatus: mockUpdate });
+
+      await updateReservationStatus(
+        service,
+        { reservation: sampleReservation, status: 'collected' },
+        { inventory, loanPolicy: policy },
+      );
+
+      expect(mockUpdate).toHaveBeenCalledWith('res-1', {
+        status: 'collected',
+        dueAt: new Date(2025, 0, 11, 10, 0),
+      });
     });
 
-    expect(mockUpdate).toHaveBeenCalledWith('res-1', { status: 'collected' });
+    it('refuses to collect when the device cannot be looked up', async () => {
+      const mockUpdate = vi.fn();
+      const service = createMockService({ updateReservationStatus: mockUpdate });
+
+      const result = await updateReservationStatus(
+        service,
+        { reservation: sampleReservation, status: 'collected' },
+        { inventory: new FakeInventoryService(), loanPolicy: policy },
+      );
+
+      expect(result).toEqual({ success: false, errors: ['Device with id device-1 not found'] });
+      expect(mockUpdate).not.toHaveBeenCalled();
+    });
   });
 
   it('can update to returned status', async () => {
@@ -63,7 +165,7 @@ describe('updateReservationStatus', () => {
     });
 
     const result = await updateReservationStatus(service, {
-      id: 'res-1',
+      reservation: sampleReservation,
       status: 'returned',
     });
 
@@ -80,7 +182,7 @@ describe('updateReservationStatus', () => {
     });
 
     const result = await updateReservationStatus(service, {
-      id: 'res-1',
+      reservation: sampleReservation,
       status: 'collected',
     });
 
@@ -96,7 +198,7 @@ describe('updateReservationStatus', () => {
     });
 
     const result = await updateReservationStatus(service, {
-      id: 'res-1',
+      reservation: sampleReservation,
       status: 'collected',
     });
 
@@ -105,4 +207,123 @@ describe('updateReservationStatus', () => {
       expect(result.errors).toEqual(['Failed to update reservation status']);
     }
   });
+
+  describe('with an inventory', () => {
+    const unit = (overrides: Partial<Asset> = {}): Asset => ({
+      id: 'ast-1',
+      deviceModelId: 'device-1',
+      serialNumber: 'SN-1',
+      assetTag: 'TAG-1',
+      condition: 'good',
+      status: 'available',
+      updatedAt: new Date('2025-01-01'),
+      ...overrides,
+    });
+
+    const laptop = {
+      id: 'device-1',
+      name: 'Laptop',
+      description: 'Dell XPS',
+      count: 2,
+      updatedAt: new Date('2025-01-01'),
+    };
+
+    const statusOf = async (inventory: InventoryService, assetId: string) =>
+      (await inventory.listAssets('device-1')).items.find((a) => a.id === assetId)?.status;
+
+    it('marks the handed-over unit on loan, picking the first available one', async () => {
+      const inventory = new FakeInventoryService([laptop], {
+        assets: [unit({ id: 'ast-1', status: 'maintenance' }), unit({ id: 'ast-2' })],
+      });
+      const service = new FakeReservationService([sampleReservation]);
+
+      const result = await updateReservationStatus(
+        service,
+        { reservation: sampleReservation, status: 'collected' },
+        { inventory },
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) expect(result.item.assetId).toBe('ast-2');
+      expect(await statusOf(inventory, 'ast-2')).toBe('on-loan');
+    });
+
+    it('puts the unit back on the shelf when the loan is returned', async () => {
+      const onLoan: Reservation = { ...sampleReservation, status: 'collected', assetId: 'ast-1' };
+      const inventory = new FakeInventoryService([laptop], { assets: [unit({ status: 'on-loan' })] });
+      const service = new FakeReservationService([onLoan]);
+
+      const result = await updateReservationStatus(
+        service,
+        { reservation: onLoan, status: 'returned' },
+        { inventory },
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) expect(result.item.status).toBe('returned');
+      expect(await statusOf(inventory, 'ast-1')).toBe('available');
+    });
+
+    it('leaves the reservation alone when the unit cannot be updated', async () => {
+      const onLoan: Reservation = { ...sampleReservation, status: 'collected', assetId: 'ast-1' };
+      const inventory = {
+        updateAsset: vi.fn().mockRejectedValue(new Error('Asset ast-1 not found')),
+      } as unknown as InventoryService;
+      const mockUpdate = vi.fn();
+      const service = createMockService({ updateReservationStatus: mockUpdate });
+
+      const result = await updateReservationStatus(
+        service,
+        { reservation: onLoan, status: 'returned' },
+        { inventory },
+      );
+
+      expect(result).toEqual({
+        success: false,
+        errors: ['Could not mark unit ast-1 as available: Asset ast-1 not found'],
+      });
+      expect(mockUpdate).not.toHaveBeenCalled();
+    });
+
+    it('moves the unit back when the status change fails', async () => {
+      const onLoan: Reservation = { ...sampleReservation, status: 'collected', assetId: 'ast-1' };
+      const inventory = new FakeInventoryService([laptop], { assets: [unit({ status: 'on-loan' })] });
+      const service = createMockService({
+        updateReservationStatus: vi.fn().mockRejectedValue(new Error('Reservation res-1 not found')),
+      });
+
+      const result = await updateReservationStatus(
+        service,
+        { reservation: onLoan, status: 'returned' },
+        { inventory },
+      );
+
+      expect(result).toEqual({ success: false, errors: ['Reservation res-1 not found'] });
+      expect(await statusOf(inventory, 'ast-1')).toBe('on-loan');
+    });
+
+    it('reports a unit it could not move back', async () => {
+      const onLoan: Reservation = { ...sampleReservation, status: 'collected', assetId: 'ast-1' };
+      const inventory = {
+        updateAsset: vi
+          .fn()
+          .mockResolvedValueOnce({ item: unit() })
+          .mockRejectedValueOnce(new Error('offline')),
+      } as unknown as InventoryService;
+      const service = createMockService({
+        updateReservationStatus: vi.fn().mockRejectedValue(new Error('Server error')),
+      });
+
+      const result = await updateReservationStatus(
+        service,
+        { reservation: onLoan, status: 'returned' },
+        { inventory },
+      );
+
+      expect(result).toEqual({
+        success: false,
+        errors: ['Server error', 'Unit ast-1 is still marked available; set it back to on-loan'],
+      });
+    });
+  });
 });
@@ -1,25 +1,128 @@
 import type { ReservationService, UpdateReservationStatusInput, Reservation } from './reservation-service';
+import type { AssetStatus, InventoryService } from './inventory-service';
+import { DEFAULT_LOAN_POLICY, loanDueAt, type LoanPolicy } from './loan-policy';
 
 export type UpdateReservationStatusCommand = {
-  id: string;
+  reservation: Reservation;
   status: UpdateReservationStatusInput['status'];
+  /** The unit handed over; when collecting without one, the first available unit is used. */
+  assetId?: string;
 };
 
 export type UpdateReservationStatusResult =
   | { success: true; item: Reservation }
   | { success: false; errors: string[] };
 
+export type UpdateReservationStatusDeps = {
+  /**
+   * Keeps the handed-over unit's status in step and supplies the device's
+   * category for the loan period; without it units are left alone.
+   */
+  readonly inventory?: InventoryService;
+  /** Sets the due date when a unit is collected. */
+  readonly loanPolicy?: LoanPolicy;
+};
+
+/** A unit moved ahead of the status change, and where to put it back if that fails. */
+type AssetMove = {
+  readonly assetId: string;
+  readonly status: AssetStatus;
+  readonly previous: AssetStatus;
+};
+
+/**
+ * Changes a reservation's status. Collecting sets the due date from the loan
+ * policy and marks the handed-over unit `on-loan`; returning marks it
+ * `available` again. The unit moves first and is moved back if the status
+ * change fails, so the two never disagree.
+ */
 export async function updateReservationStatus(
   service: ReservationService,
-  command: UpdateReservationStatusCommand
+  command: UpdateReservationStatusCommand,
+  deps: UpdateReservationStatusDeps = {},
 ): Promise<UpdateReservationStatusResult> {
+  const { reservation } = command;
+  const { inventory } = deps;
+  let move: AssetMove | undefined;
+  let dueAt: Date | undefined;
   try {
-    const output = await service.updateReservationStatus(command.id, { status: command.status });
-    return { success: true, item: output.item };
+    move = inventory ? await planAssetMove(inventory, command) : undefined;
+    if (command.status === 'collected') {
+      dueAt = await collectionDueAt(reservation, deps);
+    }
   } catch (err: unknown) {
     return {
       success: false,
-      errors: [err instanceof Error ? err.message : 'Failed to update reservation status'],
+      errors: [err instanceof Error ? err.message : 'Failed to look up the device'],
     };
   }
+  if (inventory && move) {
+    try {
+      await inventory.updateAsset(reservation.deviceModelId, move.assetId, { status: move.status });
+    } catch (err: unknown) {
+      const reason = err instanceof Error ? err.message : String(err);
+      return {
+        success: false,
+        errors: [`Could not mark unit ${move.assetId} as ${move.status}: ${reason}`],
+      };
+    }
+  }
+  const assetId = move?.status === 'on-loan' ? move.assetId : command.assetId;
+  try {
+    const input: UpdateReservationStatusInput = {
+      status: command.status,
+      ...(assetId ? { assetId } : {}),
+      ...(dueAt ? { dueAt } : {}),
+    };
+    const output = await service.updateReservationStatus(reservation.id, input);
+    return { success: true, item: output.item };
+  } catch (err: unknown) {
+    const errors = [err instanceof Error ? err.message : 'Failed to update reservation status'];
+    if (inventory && move) {
+      try {
+        await inventory.updateAsset(reservation.deviceModelId, move.assetId, { status: move.previous });
+      } catch {
+        errors.push(`Unit ${move.assetId} is still marked ${move.status}; set it back to ${move.previous}`);
+      }
+    }
+    return { success: false, errors };
+  }
+}
+
+/** When a unit collected now must be back, by the device's category and the borrower's role. */
+async function collectionDueAt(
+  reservation: Reservation,
+  deps: UpdateReservationStatusDeps,
+): Promise<Date> {
+  const categoryId = deps.inventory
+    ? (await deps.inventory.getInventoryItem(reservation.deviceModelId)).item.categoryId
+    : undefined;
+  return loanDueAt(deps.loanPolicy ?? DEFAULT_LOAN_POLICY, {
+    deviceModelId: reservation.deviceModelId,
+    ...(categoryId ? { categoryId } : {}),
+    ...(reservation.borrowerRole ? { borrowerRole: reservation.borrowerRole } : {}),
+  });
+}
+
+async function planAssetMove(
+  inventory: InventoryService,
+  command: UpdateReservationStatusCommand,
+): Promise<AssetMove | undefined> {
+  const { reservation, status } = command;
+  if (status === 'collected' && reservation.status !== 'collected') {
+    const assetId = command.assetId ?? (await firstAvailableAsset(inventory, reservation.deviceModelId));
+    return assetId ? { assetId, status: 'on-loan', previous: 'available' } : undefined;
+  }
+  if (status === 'returned' && reservation.status === 'collected' && reservation.assetId) {
+    return { assetId: reservation.assetId, status: 'available', previous: 'on-loan' };
+  }
+  return undefined;
+}
+
+async function firstAvailableAsset(
+  inventory: InventoryService,
+  deviceModelId: string,
+): Promise<string | undefined> {
+  const { items } = await inventory.listAssets(deviceModelId);
+  return items.find((a) => a.status === 'available')?.id;
 }
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest';
+import { formatFileSize, uploadAttachment } from './upload-attachment';
+import type { Attachment, Device, InventoryService } from './inventory-service';
+
+describe('uploadAttachment', () => {
+  const photo: Attachment = {
+    id: 'att-1',
+    deviceModelId: 'dev-1',
+    kind: 'photo',
+    fileName: 'tripod.jpg',
+    contentType: 'image/jpeg',
+    size: 3,
+    url: 'data:image/jpeg;base64,AAAA',
+    createdAt: new Date('2024-03-01T10:00:00Z'),
+  };
+  const device = { id: 'dev-1', imageUrl: photo.url } as Device;
+
+  const createMockService = (overrides: Partial<InventoryService> = {}): InventoryService =>
+    ({
+      listInventoryItems: vi.fn(),
+      addInventoryItem: vi.fn(),
+      updateInventoryItem: vi.fn(),
+      deleteInventoryItem: vi.fn(),
+      uploadAttachment: vi.fn().mockResolvedValue({ item: photo, device }),
+      ...overrides,
+    }) as InventoryService;
+
+  it('uploads the file under its own name', async () => {
+    const service = createMockService();
+    const file = new File(['abc'], 'tripod.jpg', { type: 'image/jpeg' });
+
+    const result = await uploadAttachment(service, { deviceId: 'dev-1', kind: 'photo', file });
+
+    expect(service.uploadAttachment).toHaveBeenCalledWith('dev-1', {
+      kind: 'photo',
+      file,
+      fileName: 'tripod.jpg',
+    });
+    expect(result).toEqual({ success: true, item: photo, device });
+  });
+
+  it('rejects files of the wrong type, empty files and missing names', async () => {
+    const service = createMockService();
+
+    const result = await uploadAttachment(service, {
+      deviceId: 'dev-1',
+      kind: 'photo',
+      file: new Blob([], { type: 'application/pdf' }),
+    });
+
+    expect(result).toEqual({
+      success: false,
+      errors: [
+        'File name is required',
+        'File is empty',
+        'Photo must be a JPEG, PNG, WebP or GIF image',
+      ],
+    });
+    expect(service.uploadAttachment).not.toHaveBeenCalled();
+  });
+
+  it('limits the size per kind', async () => {
+    const service = createMockService();
+    const big = new Blob([new Uint8Array(6 * 1024 * 1024)], { type: 'application/pdf' });
+
+    const asPhoto = await uploadAttachment(service, {
+      deviceId: 'dev-1',
+      kind: 'photo',
+      file: new Blob([big], { type: 'image/png' }),
+      fileName: 'big.png',
+    });
+    const asDocument = await uploadAttachment(service, {
+      deviceId: 'dev-1',
+      kind: 'document',
+      file: big,
+      fileName: 'manual.pdf',
+    });
+
+    expect(asPhoto).toEqual({ success: false, errors: ['Photo must be no larger than 5 MB'] });
+    expect(asDocument.success).toBe(true);
+  });
+
+  it('returns error messages when service throws', async () => {
+    const service = createMockService({
+      uploadAttachment: vi.fn().mockRejectedValue(new Error('upload failed')),
+    });
+
+    const result = await uploadAttachment(service, {
+      deviceId: 'dev-1',
+      kind: 'document',
+      file: new Blob(['x'], { type: 'text/plain' }),
+      fileName: 'notes.txt',
+    });
+
+    expect(result).toEqual({ success: false, errors: ['upload failed'] });
+  });
+});
+
+describe('formatFileSize', () => {
+  it('picks a readable unit', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(840_000)).toBe('820 KB');
+    expect(formatFileSize(2.4 * 1024 * 1024)).toBe('2.4 MB');
+  });
+});
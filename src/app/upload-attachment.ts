@@ -0,0 +1,92 @@
+import type {
+  InventoryService,
+  Attachment,
+  AttachmentKind,
+  Device,
+} from './inventory-service';
+
+const MB = 1024 * 1024;
+
+/** What each kind of attachment accepts, used for validation and file pickers alike. */
+export const ATTACHMENT_RULES: Record<
+  AttachmentKind,
+  { readonly contentTypes: readonly string[]; readonly maxSize: number }
+> = {
+  photo: {
+    contentTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
+    maxSize: 5 * MB,
+  },
+  document: {
+    contentTypes: [
+      'application/pdf',
+      'text/plain',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    ],
+    maxSize: 20 * MB,
+  },
+};
+
+export type UploadAttachmentResult =
+  | { success: true; item: Attachment; device: Device }
+  | { success: false; errors: readonly string[] };
+
+export type UploadAttachmentCommand = {
+  readonly deviceId: string;
+  readonly kind: AttachmentKind;
+  readonly file: Blob;
+  /** Defaults to the file's own name when it is a `File`. */
+  readonly fileName?: string;
+};
+
+export type UploadAttachmentUseCase = (
+  service: InventoryService,
+  command: UploadAttachmentCommand,
+) => Promise<UploadAttachmentResult>;
+
+/** Rules for a file of the given kind; returns every problem found. */
+export function checkAttachment(kind: AttachmentKind, file: Blob): string[] {
+  const rules = ATTACHMENT_RULES[kind];
+  const label = kind === 'photo' ? 'Photo' : 'Document';
+  const errors: string[] = [];
+  if (file.size === 0) errors.push('File is empty');
+  if (file.size > rules.maxSize)
+    errors.push(`${label} must be no larger than ${rules.maxSize / MB} MB`);
+  if (!rules.contentTypes.includes(file.type))
+    errors.push(
+      kind === 'photo'
+        ? 'Photo must be a JPEG, PNG, WebP or GIF image'
+        : 'Document must be a PDF, text, Word or Excel file',
+    );
+  return errors;
+}
+
+/** Sizes as shown next to a file, e.g. "820 KB" or "2.4 MB". */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / MB).toFixed(1)} MB`;
+}
+
+export const uploadAttachment: UploadAttachmentUseCase = async (service, command) => {
+  const fileName = (
+    command.fileName ?? (command.file instanceof File ? command.file.name : '')
+  ).trim();
+  const errors = checkAttachment(command.kind, command.file);
+  if (!fileName) errors.unshift('File name is required');
+  if (errors.length) return { success: false, errors };
+
+  try {
+    const { item, device } = await service.uploadAttachment(command.deviceId, {
+      kind: command.kind,
+      file: command.file,
+      fileName,
+    });
+    return { success: true, item, device };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { success: false, errors: [message] };
+  }
+};
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toFieldErrorList,
+  toFieldErrorMap,
+  validateInventoryChanges,
+  validateInventoryFields,
+} from './validate-inventory';
+
+describe('validateInventoryFields', () => {
+  it('accepts valid values', () => {
+    expect(
+      validateInventoryFields({ name: 'Laptop', description: 'Dell XPS 13', count: 0 }),
+    ).toEqual({});
+  });
+
+  it('checks trimmed text lengths', () => {
+    expect(
+      validateInventoryFields({ name: ' a ', description: '    ', count: 1 }),
+    ).toEqual({
+      name: 'Name must be at least 2 characters',
+      description: 'Description is required',
+    });
+    expect(
+      validateInventoryFields({ name: 'x'.repeat(101), description: 'y'.repeat(501), count: 1 }),
+    ).toEqual({
+      name: 'Name must be no more than 100 characters',
+      description: 'Description must be no more than 500 characters',
+    });
+  });
+
+  it('requires a non-negative whole count', () => {
+    expect(validateInventoryFields({ name: 'Laptop', description: 'Dell XPS', count: -1 }).count).toBe(
+      'Count must be a non-negative number',
+    );
+    expect(validateInventoryFields({ name: 'Laptop', description: 'Dell XPS', count: 1.5 }).count).toBe(
+      'Count must be a whole number',
+    );
+    expect(validateInventoryFields({ name: 'Laptop', description: 'Dell XPS', count: NaN }).count).toBe(
+      'Count must be a non-negative number',
+    );
+  });
+
+  it('checks the optional minimum stock', () => {
+    const base = { name: 'Laptop', description: 'Dell XPS', count: 1 };
+    expect(validateInventoryFields({ ...base, minStock: 0 })).toEqual({});
+    expect(validateInventoryFields({ ...base, minStock: -2 }).minStock).toBe(
+      'Minimum stock must be a non-negative number',
+    );
+    expect(validateInventoryFields({ ...base, minStock: 0.5 }).minStock).toBe(
+      'Minimum stock must be a whole number',
+    );
+  });
+
+  it('checks the optional split across locations', () => {
+    const base = { name: 'Laptop', description: 'Dell XPS', count: 3 };
+    expect(
+      validateInventoryFields({
+        ...base,
+        locationStock: [
+          { locationId: 'loc-a', count: 1 },
+          { locationId: 'loc-b', count: 2 },
+        ],
+      }),
+    ).toEqual({});
+    expect(
+      validateInventoryFields({ ...base, locationStock: [{ locationId: 'loc-a', count: -1 }] })
+        .locationStock,
+    ).toBe('Stock at each location must be a non-negative whole number');
+    expect(
+      validateInventoryFields({
+        ...base,
+        locationStock: [
+          { locationId: 'loc-a', count: 1 },
+          { locationId: 'loc-a', count: 1 },
+        ],
+      }).locationStock,
+    ).toBe('Each location can only be listed once');
+    expect(
+      validateInventoryFields({ ...base, locationStock: [{ locationId: 'loc-a', count: 4 }] })
+        .locationStock,
+    ).toBe('Stock across locations cannot exceed the total count');
+  });
+});
+
+describe('spec rules', () => {
+  const base = { name: 'Laptop', description: 'Dell XPS', count: 1 };
+  const specsError = (specs: { key: string; value: string | number }[]) =>
+    validateInventoryFields({ ...base, specs }).specs;
+
+  it('accepts named specs with values', () => {
+    expect(specsError([{ key: 'RAM', value: 16 }, { key: 'OS', value: 'Windows' }])).toBeUndefined();
+    expect(specsError([])).toBeUndefined();
+  });
+
+  it('requires a unique name and a value for each spec', () => {
+    expect(specsError([{ key: ' ', value: 'x' }])).toBe('Each spec needs a name');
+    expect(specsError([{ key: 'OS', value: '  ' }])).toBe('Spec "OS" needs a value');
+    expect(specsError([{ key: 'RAM', value: 16 }, { key: 'ram ', value: 8 }])).toBe(
+      'Spec "ram" is listed more than once',
+    );
+    expect(specsError([{ key: 'RAM', value: NaN }])).toBe('Spec "RAM" must be a valid number');
+  });
+
+  it('limits names, values and the number of specs', () => {
+    expect(specsError([{ key: 'k'.repeat(41), value: 1 }])).toBe(
+      'Spec names must be no more than 40 characters',
+    );
+    expect(specsError([{ key: 'Notes', value: 'v'.repeat(101) }])).toBe(
+      'Spec "Notes" must be no more than 100 characters',
+    );
+    expect(
+      specsError(Array.from({ length: 31 }, (_, i) => ({ key: `k${i}`, value: i }))),
+    ).toBe('No more than 30 specs are allowed');
+  });
+});
+
+describe('tag rules', () => {
+  const base = { name: 'Laptop', description: 'Dell XPS', count: 1 };
+  const tagsError = (tags: string[]) => validateInventoryFields({ ...base, tags }).tags;
+
+  it('limits the length and number of tags', () => {
+    expect(tagsError(['4k', 'usb-c'])).toBeUndefined();
+    expect(tagsError(['t'.repeat(31)])).toBe('Tags must be no more than 30 characters each');
+    expect(tagsError(Array.from({ length: 21 }, (_, i) => `t${i}`))).toBe(
+      'No more than 20 tags are allowed',
+    );
+  });
+});
+
+describe('validateInventoryChanges', () => {
+  it('only checks the fields that are present', () => {
+    expect(validateInventoryChanges({})).toEqual({});
+    expect(validateInventoryChanges({ description: 'Dell' })).toEqual({
+      description: 'Description must be at least 5 characters',
+    });
+    expect(validateInventoryChanges({ name: 'Laptop', count: -1 })).toEqual({
+      count: 'Count must be a non-negative number',
+    });
+  });
+
+  it('checks stock per location against the count only when both are given', () => {
+    const locationStock = [{ locationId: 'loc-a', count: 4 }];
+    expect(validateInventoryChanges({ locationStock })).toEqual({});
+    expect(validateInventoryChanges({ count: 3, locationStock }).locationStock).toBe(
+      'Stock across locations cannot exceed the total count',
+    );
+  });
+});
+
+describe('field error lists', () => {
+  it('converts between the list and the per-field map', () => {
+    const list = toFieldErrorList({ name: 'Name is required', count: 'Count must be a whole number' });
+
+    expect(list).toEqual([
+      { field: 'name', message: 'Name is required' },
+      { field: 'count', message: 'Count must be a whole number' },
+    ]);
+    expect(toFieldErrorMap([...list, { field: 'name', message: 'Name is taken' }])).toEqual({
+      name: 'Name is required',
+      count: 'Count must be a whole number',
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import type { LocationStock } from './inventory-service';
+import type { SpecEntry } from './device-specs';
+
+export type InventoryField =
+  | 'name'
+  | 'description'
+  | 'count'
+  | 'minStock'
+  | 'locationStock'
+  | 'specs'
+  | 'tags';
+
+export type InventoryFieldErrors = Partial<Record<InventoryField, string>>;
+
+export type InventoryFieldValues = {
+  readonly name: string;
+  readonly description: string;
+  readonly count: number;
+  readonly minStock?: number;
+  readonly locationStock?: readonly LocationStock[];
+  readonly specs?: readonly SpecEntry[];
+  readonly tags?: readonly string[];
+};
+
+export const NAME_MIN_LENGTH = 2;
+export const NAME_MAX_LENGTH = 100;
+export const DESCRIPTION_MIN_LENGTH = 5;
+export const DESCRIPTION_MAX_LENGTH = 500;
+export const MAX_SPECS = 30;
+export const SPEC_KEY_MAX_LENGTH = 40;
+export const SPEC_VALUE_MAX_LENGTH = 100;
+export const MAX_TAGS = 20;
+export const TAG_MAX_LENGTH = 30;
+
+/** A rule broken by one field, as reported by the inventory use cases. */
+export type InventoryFieldError = {
+  readonly field: InventoryField;
+  readonly message: string;
+};
+
+/**
+ * Rules for a device model's editable fields. Text is checked after trimming.
+ * Returns an empty object when everything is valid.
+ */
+export function validateInventoryFields(
+  values: InventoryFieldValues,
+): InventoryFieldErrors {
+  return validateInventoryChanges(values);
+}
+
+/**
+ * Same rules as {@link validateInventoryFields}, applied only to the fields
+ * present, as in a partial update. Stock per location is only checked against
+ * the total count when the count is given too.
+ */
+export function validateInventoryChanges(
+  values: Partial<InventoryFieldValues>,
+): InventoryFieldErrors {
+  const errors: InventoryFieldErrors = {};
+  if (values.name !== undefined) {
+    const name = values.name.trim();
+    if (!name) errors.name = 'Name is required';
+    else if (name.length < NAME_MIN_LENGTH)
+      errors.name = `Name must be at least ${NAME_MIN_LENGTH} characters`;
+    else if (name.length > NAME_MAX_LENGTH)
+      errors.name = `Name must be no more than ${NAME_MAX_LENGTH} characters`;
+  }
+
+  if (values.description !== undefined) {
+    const description = values.description.trim();
+    if (!description) errors.description = 'Description is required';
+    else if (description.length < DESCRIPTION_MIN_LENGTH)
+      errors.description = `Description must be at least ${DESCRIPTION_MIN_LENGTH} characters`;
+    else if (description.length > DESCRIPTION_MAX_LENGTH)
+      errors.description = `Description must be no more than ${DESCRIPTION_MAX_LENGTH} characters`;
+  }
+
+  if (values.count !== undefined) {
+    if (!Number.isFinite(values.count) || values.count < 0) {
+      errors.count = 'Count must be a non-negative number';
+    } else if (!Number.isInteger(values.count)) {
+      errors.count = 'Count must be a whole number';
+    }
+  }
+
+  if (values.minStock !== undefined) {
+    if (!Number.isFinite(values.minStock) || values.minStock < 0) {
+      errors.minStock = 'Minimum stock must be a non-negative number';
+    } else if (!Number.isInteger(values.minStock)) {
+      errors.minStock = 'Minimum stock must be a whole number';
+    }
+  }
+
+  if (values.locationStock !== undefined) {
+    const locations = values.locationStock.map((s) => s.locationId);
+    const total = values.locationStock.reduce((sum, s) => sum + s.count, 0);
+    if (values.locationStock.some((s) => !Number.isInteger(s.count) || s.count < 0)) {
+      errors.locationStock = 'Stock at each location must be a non-negative whole number';
+    } else if (new Set(locations).size !== locations.length) {
+      errors.locationStock = 'Each location can only be listed once';
+    } else if (values.count !== undefined && !errors.count && total > values.count) {
+      errors.locationStock = 'Stock across locations cannot exceed the total count';
+    }
+  }
+
+  if (values.specs !== undefined) {
+    const message = checkSpecs(values.specs);
+    if (message) errors.specs = message;
+  }
+
+  if (values.tags !== undefined) {
+    if (values.tags.length > MAX_TAGS) errors.tags = `No more than ${MAX_TAGS} tags are allowed`;
+    else if (values.tags.some((t) => t.trim().length > TAG_MAX_LENGTH))
+      errors.tags = `Tags must be no more than ${TAG_MAX_LENGTH} characters each`;
+  }
+  return errors;
+}
+
+/** The first broken spec rule, or `undefined` when all specs are fine. */
+function checkSpecs(specs: readonly SpecEntry[]): string | undefined {
+  if (specs.length > MAX_SPECS) return `No more than ${MAX_SPECS} specs are allowed`;
+  const seen = new Set<string>();
+  for (const { key, value } of specs) {
+    const label = key.trim();
+    if (!label) return 'Each spec needs a name';
+    if (label.length > SPEC_KEY_MAX_LENGTH)
+      return `Spec names must be no more than ${SPEC_KEY_MAX_LENGTH} characters`;
+    if (seen.has(label.toLowerCase())) return `Spec "${label}" is listed more than once`;
+    seen.add(label.toLowerCase());
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) return `Spec "${label}" must be a valid number`;
+    } else if (!value.trim()) {
+      return `Spec "${label}" needs a value`;
+    } else if (value.trim().length > SPEC_VALUE_MAX_LENGTH) {
+      return `Spec "${label}" must be no more than ${SPEC_VALUE_MAX_LENGTH} characters`;
+    }
+  }
+  return undefined;
+}
+
+export function toFieldErrorList(
+  errors: InventoryFieldErrors,
+): InventoryFieldError[] {
+  return (Object.keys(errors) as InventoryField[]).map((field) => ({
+    field,
+    message: errors[field]!,
+  }));
+}
+
+export function toFieldErrorMap(
+  errors: readonly InventoryFieldError[],
+): InventoryFieldErrors {
+  const map: InventoryFieldErrors = {};
+  for (const { field, message } of errors) map[field] ??= message;
+  return map;
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatClaimTimeLeft,
+  isOfferOpen,
+  isOpenWaitlistEntry,
+  withQueuePositions,
+} from './waitlist';
+import type { WaitlistEntry } from './reservation-service';
+
+const entry = (overrides: Partial<WaitlistEntry> = {}): WaitlistEntry => ({
+  id: 'wait-1',
+  userId: 'user-1',
+  deviceModelId: 'dev-1',
+  deviceModelName: 'Laptop',
+  status: 'waiting',
+  createdAt: new Date('2025-01-01T10:00:00Z'),
+  ...overrides,
+});
+
+describe('waitlist', () => {
+  const now = new Date('2025-01-02T12:00:00Z');
+
+  it('treats waiting and offered entries as open', () => {
+    expect(isOpenWaitlistEntry(entry())).toBe(true);
+    expect(isOpenWaitlistEntry(entry({ status: 'offered' }))).toBe(true);
+    expect(isOpenWaitlistEntry(entry({ status: 'claimed' }))).toBe(false);
+    expect(isOpenWaitlistEntry(entry({ status: 'expired' }))).toBe(false);
+  });
+
+  it('only counts offers that have not lapsed', () => {
+    const offered = (expires: string) =>
+      entry({ status: 'offered', offerExpiresAt: new Date(expires) });
+    expect(isOfferOpen(offered('2025-01-02T13:00:00Z'), now)).toBe(true);
+    expect(isOfferOpen(offered('2025-01-02T12:00:00Z'), now)).toBe(false);
+    expect(isOfferOpen(entry(), now)).toBe(false);
+  });
+
+  it('numbers waiting entries per device in the order they joined', () => {
+    const ranked = withQueuePositions([
+      entry({ id: 'late', createdAt: new Date('2025-01-03') }),
+      entry({ id: 'early', createdAt: new Date('2025-01-01') }),
+      entry({ id: 'other', deviceModelId: 'dev-2', createdAt: new Date('2025-01-02') }),
+      entry({ id: 'offered', status: 'offered', position: 1 }),
+    ]);
+
+    expect(ranked.map((e) => [e.id, e.position])).toEqual([
+      ['late', 2],
+      ['early', 1],
+      ['other', 1],
+      ['offered', undefined],
+    ]);
+  });
+
+  it('describes the time left to claim an offer', () => {
+    expect(formatClaimTimeLeft(new Date('2025-01-02T15:20:00Z'), now)).toBe('3 h 20 min left');
+    expect(formatClaimTimeLeft(new Date('2025-01-02T14:00:00Z'), now)).toBe('2 h left');
+    expect(formatClaimTimeLeft(new Date('2025-01-02T12:00:30Z'), now)).toBe('1 min left');
+    expect(formatClaimTimeLeft(now, now)).toBeUndefined();
+  });
+});
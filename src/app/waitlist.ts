@@ -0,0 +1,51 @@
+import type { WaitlistEntry, WaitlistStatus } from './reservation-service';
+
+/** How long a freed unit is held for the person it was offered to. */
+export const WAITLIST_CLAIM_HOURS = 24;
+
+/** Waitlist states that still hold a place in the queue or an offer. */
+export const OPEN_WAITLIST_STATUSES: readonly WaitlistStatus[] = ['waiting', 'offered'];
+
+export function isOpenWaitlistEntry(entry: WaitlistEntry): boolean {
+  return OPEN_WAITLIST_STATUSES.includes(entry.status);
+}
+
+/** Whether the entry has an offer that can still be claimed at `now`. */
+export function isOfferOpen(entry: WaitlistEntry, now: Date = new Date()): boolean {
+  return (
+    entry.status === 'offered' &&
+    (entry.offerExpiresAt === undefined || entry.offerExpiresAt.getTime() > now.getTime())
+  );
+}
+
+/**
+ * Numbers each device's waiting entries by when they joined, first come first
+ * served. Other entries lose any position they had.
+ */
+export function withQueuePositions(entries: readonly WaitlistEntry[]): WaitlistEntry[] {
+  const waiting = entries
+    .filter((e) => e.status === 'waiting')
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  const positions = new Map<string, number>();
+  const counts = new Map<string, number>();
+  for (const entry of waiting) {
+    const position = (counts.get(entry.deviceModelId) ?? 0) + 1;
+    counts.set(entry.deviceModelId, position);
+    positions.set(entry.id, position);
+  }
+  return entries.map((entry) => {
+    const { position: _previous, ...rest } = entry;
+    const position = positions.get(entry.id);
+    return position === undefined ? rest : { ...rest, position };
+  });
+}
+
+/** Time left to claim an offer, e.g. "3 h 20 min left"; `undefined` once it lapsed. */
+export function formatClaimTimeLeft(expiresAt: Date, now: Date = new Date()): string | undefined {
+  const minutes = Math.ceil((expiresAt.getTime() - now.getTime()) / 60_000);
+  if (minutes <= 0) return undefined;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min left`;
+  return rest === 0 ? `${hours} h left` : `${hours} h ${rest} min left`;
+}
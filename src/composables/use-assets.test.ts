@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { inject } from 'vue';
+import { useAssets } from './use-assets';
+import type { InventoryUses } from '@/config/appServices';
+import type { Asset } from '@/app/inventory-service';
+
+vi.mock('vue', async () => {
+  const actual = await vi.importActual<typeof import('vue')>('vue');
+  return {
+    ...actual,
+    inject: vi.fn(),
+  };
+});
+
+const asset = (overrides: Partial<Asset> = {}): Asset => ({
+  id: 'ast-1',
+  deviceModelId: 'dev-1',
+  serialNumber: 'SN-1',
+  assetTag: 'LAP-1',
+  condition: 'good',
+  status: 'available',
+  updatedAt: new Date('2025-01-01'),
+  ...overrides,
+});
+
+const makeUses = (overrides: Partial<InventoryUses> = {}): InventoryUses => ({
+  listInventory: vi.fn(),
+  addInventory: vi.fn(),
+  deleteInventory: vi.fn(),
+  updateInventory: vi.fn(),
+  listAssets: vi.fn(),
+  addAsset: vi.fn(),
+  updateAsset: vi.fn(),
+  deleteAsset: vi.fn(),
+  ...overrides,
+});
+
+describe('useAssets', () => {
+  const injectMock = inject as unknown as vi.Mock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    injectMock.mockReset();
+  });
+
+  it('throws when inventory services are not provided', () => {
+    injectMock.mockReturnValue(undefined);
+    expect(() => useAssets()).toThrow('Inventory not provided');
+  });
+
+  it('fetches the units of a device', async () => {
+    const uses = makeUses({
+      listAssets: vi.fn().mockResolvedValue({ success: true, items: [asset()], totalCount: 1 }),
+    });
+    injectMock.mockReturnValue(uses);
+
+    const assets = useAssets();
+    await assets.fetchItems('dev-1');
+
+    expect(uses.listAssets).toHaveBeenCalledWith({ deviceId: 'dev-1' });
+    expect(assets.items.value).toHaveLength(1);
+    expect(assets.error.value).toBe(null);
+  });
+
+  it('adds, updates and deletes units in place', async () => {
+    const uses = makeUses({
+      addAsset: vi.fn().mockResolvedValue({ success: true, item: asset({ id: 'ast-2' }) }),
+      updateAsset: vi
+        .fn()
+        .mockResolvedValue({ success: true, item: asset({ id: 'ast-2', status: 'on-loan' }) }),
+      deleteAsset: vi.fn().mockResolvedValue({ success: true }),
+    });
+    injectMock.mockReturnValue(uses);
+
+    const assets = useAssets();
+    assets.items.value = [asset()];
+
+    expect(await assets.addItem({ deviceId: 'dev-1', serialNumber: 'SN-2', assetTag: 'LAP-2' })).toBe(true);
+    expect(assets.items.value.map((a) => a.id)).toEqual(['ast-1', 'ast-2']);
+
+    await assets.updateItem({ deviceId: 'dev-1', assetId: 'ast-2', status: 'on-loan' });
+    expect(assets.items.value[1].status).toBe('on-loan');
+
+    await assets.deleteItem({ deviceId: 'dev-1', assetId: 'ast-1' });
+    expect(assets.items.value.map((a) => a.id)).toEqual(['ast-2']);
+  });
+
+  it('sets error when a use case fails', async () => {
+    const uses = makeUses({
+      addAsset: vi.fn().mockResolvedValue({ success: false, errors: ['Serial number is required'] }),
+    });
+    injectMock.mockReturnValue(uses);
+
+    const assets = useAssets();
+    const ok = await assets.addItem({ deviceId: 'dev-1', serialNumber: '', assetTag: 'LAP-2' });
+
+    expect(ok).toBe(false);
+    expect(assets.error.value).toBe('Serial number is required');
+    expect(assets.items.value).toEqual([]);
+  });
+});
@@ -0,0 +1,131 @@
+import { inject, ref, type Ref } from 'vue';
+import { INVENTORY_KEY, type InventoryUses } from '@/config/appServices';
+import type { Asset } from '@/app/inventory-service';
+import type { AddAssetCommand } from '@/app/add-asset';
+import type { UpdateAssetCommand } from '@/app/update-asset';
+import type { DeleteAssetCommand } from '@/app/delete-asset';
+import { useTelemetry } from '@/composables/useTelemetry';
+
+export type UseAssets = {
+  readonly items: Ref<readonly Asset[]>;
+  readonly loading: Ref<boolean>;
+  readonly saving: Ref<boolean>;
+  readonly error: Ref<string | null>;
+  fetchItems: (deviceId: string) => Promise<void>;
+  addItem: (command: AddAssetCommand) => Promise<boolean>;
+  updateItem: (command: UpdateAssetCommand) => Promise<boolean>;
+  deleteItem: (command: DeleteAssetCommand) => Promise<boolean>;
+};
+
+export function useAssets(): UseAssets {
+  const uses = inject<InventoryUses>(INVENTORY_KEY);
+  if (!uses) throw new Error('Inventory not provided');
+
+  const telemetry = useTelemetry();
+
+  const items = ref<readonly Asset[]>([]);
+  const loading = ref(false);
+  const saving = ref(false);
+  const error = ref<string | null>(null);
+
+  const fail = (e: unknown, operation: string, id?: string): void => {
+    error.value = e instanceof Error ? e.message : String(e);
+    telemetry.trackException(e instanceof Error ? e : new Error(String(e)), {
+      operation,
+      id,
+    });
+  };
+
+  const fetchItems = async (deviceId: string): Promise<void> => {
+    if (loading.value) return;
+    loading.value = true;
+    error.value = null;
+    try {
+      const result = await uses.listAssets({ deviceId });
+      if (result.success) {
+        items.value = result.items;
+      } else {
+        error.value = result.errors.join('; ');
+        items.value = [];
+      }
+    } catch (e) {
+      items.value = [];
+      fail(e, 'fetchAssets', deviceId);
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const addItem = async (command: AddAssetCommand): Promise<boolean> => {
+    if (saving.value) return false;
+    saving.value = true;
+    error.value = null;
+    try {
+      const result = await uses.addAsset(command);
+      if (!result.success) {
+        error.value = result.errors.join('; ');
+        return false;
+      }
+      items.value = [...items.value, result.item];
+      return true;
+    } catch (e) {
+      fail(e, 'addAsset', command.deviceId);
+      return false;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  const updateItem = async (command: UpdateAssetCommand): Promise<boolean> => {
+    if (saving.value) return false;
+    saving.value = true;
+    error.value = null;
+    try {
+      const result = await uses.updateAsset(command);
+      if (!result.success) {
+        error.value = result.errors.join('; ');
+        return false;
+      }
+      items.value = items.value.map((a) =>
+        a.id === result.item.id ? result.item : a,
+      );
+      return true;
+    } catch (e) {
+      fail(e, 'updateAsset', command.assetId);
+      return false;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  const deleteItem = async (command: DeleteAssetCommand): Promise<boolean> => {
+    if (saving.value) return false;
+    saving.value = true;
+    error.value = null;
+    try {
+      const result = await uses.deleteAsset(command);
+      if (!result.success) {
+        error.value = result.errors.join('; ');
+        return false;
+      }
+      items.value = items.value.filter((a) => a.id !== command.assetId);
+      return true;
+    } catch (e) {
+      fail(e, 'deleteAsset', command.assetId);
+      return false;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  return {
+    items,
+    loading,
+    saving,
+    error,
+    fetchItems,
+    addItem,
+    updateItem,
+    deleteItem,
+  };
+}
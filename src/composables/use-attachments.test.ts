@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { inject } from 'vue';
+import { useAttachments } from './use-attachments';
+import type { InventoryUses } from '@/config/appServices';
+import type { Attachment, Device } from '@/app/inventory-service';
+
+vi.mock('vue', async () => {
+  const actual = await vi.importActual<typeof import('vue')>('vue');
+  return {
+    ...actual,
+    inject: vi.fn(),
+  };
+});
+
+const attachment = (overrides: Partial<Attachment> = {}): Attachment => ({
+  id: 'att-1',
+  deviceModelId: 'dev-1',
+  kind: 'document',
+  fileName: 'manual.pdf',
+  contentType: 'application/pdf',
+  size: 2048,
+  url: '/files/manual.pdf',
+  createdAt: new Date('2025-01-01'),
+  ...overrides,
+});
+
+describe('useAttachments', () => {
+  const injectMock = inject as unknown as vi.Mock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    injectMock.mockReset();
+  });
+
+  it('throws when inventory services are not provided', () => {
+    injectMock.mockReturnValue(undefined);
+    expect(() => useAttachments()).toThrow('Inventory not provided');
+  });
+
+  it('splits the photo from the documents', async () => {
+    const photo = attachment({ id: 'att-2', kind: 'photo', fileName: 'tripod.jpg' });
+    const uses = {
+      listAttachments: vi
+        .fn()
+        .mockResolvedValue({ success: true, items: [attachment(), photo], totalCount: 2 }),
+    } as unknown as InventoryUses;
+    injectMock.mockReturnValue(uses);
+
+    const files = useAttachments();
+    await files.fetchItems('dev-1');
+
+    expect(uses.listAttachments).toHaveBeenCalledWith({ deviceId: 'dev-1' });
+    expect(files.photo.value).toEqual(photo);
+    expect(files.documents.value).toEqual([attachment()]);
+  });
+
+  it('replaces the photo on upload and returns the updated device', async () => {
+    const oldPhoto = attachment({ id: 'att-2', kind: 'photo' });
+    const newPhoto = attachment({ id: 'att-3', kind: 'photo', url: 'data:image/png;base64,AA' });
+    const device = { id: 'dev-1', imageUrl: newPhoto.url } as Device;
+    const uses = {
+      listAttachments: vi.fn().mockResolvedValue({ success: true, items: [oldPhoto], totalCount: 1 }),
+      uploadAttachment: vi.fn().mockResolvedValue({ success: true, item: newPhoto, device }),
+    } as unknown as InventoryUses;
+    injectMock.mockReturnValue(uses);
+
+    const files = useAttachments();
+    await files.fetchItems('dev-1');
+    const result = await files.uploadItem({
+      deviceId: 'dev-1',
+      kind: 'photo',
+      file: new Blob(['x'], { type: 'image/png' }),
+      fileName: 'tripod.png',
+    });
+
+    expect(result).toBe(device);
+    expect(files.items.value).toEqual([newPhoto]);
+  });
+
+  it('removes deleted files and reports failures', async () => {
+    const uses = {
+      listAttachments: vi
+        .fn()
+        .mockResolvedValue({ success: true, items: [attachment()], totalCount: 1 }),
+      deleteAttachment: vi
+        .fn()
+        .mockResolvedValueOnce({ success: false, errors: ['Attachment with id att-1 not found'] })
+        .mockResolvedValueOnce({ success: true }),
+    } as unknown as InventoryUses;
+    injectMock.mockReturnValue(uses);
+
+    const files = useAttachments();
+    await files.fetchItems('dev-1');
+
+    expect(await files.deleteItem({ deviceId: 'dev-1', attachmentId: 'att-1' })).toBe(false);
+    expect(files.error.value).toBe('Attachment with id att-1 not found');
+    expect(await files.deleteItem({ deviceId: 'dev-1', attachmentId: 'att-1' })).toBe(true);
+    expect(files.items.value).toEqual([]);
+    expect(files.error.value).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+import { computed, inject, ref, type ComputedRef, type Ref } from 'vue';
+import { INVENTORY_KEY, type InventoryUses } from '@/config/appServices';
+import type { Attachment, Device } from '@/app/inventory-service';
+import type { UploadAttachmentCommand } from '@/app/upload-attachment';
+import type { DeleteAttachmentCommand } from '@/app/delete-attachment';
+import { useTelemetry } from '@/composables/useTelemetry';
+
+export type UseAttachments = {
+  readonly items: Ref<readonly Attachment[]>;
+  readonly photo: ComputedRef<Attachment | undefined>;
+  readonly documents: ComputedRef<readonly Attachment[]>;
+  readonly loading: Ref<boolean>;
+  readonly saving: Ref<boolean>;
+  readonly error: Ref<string | null>;
+  fetchItems: (deviceId: string) => Promise<void>;
+  /** Resolves to the updated device, or `null` when the upload failed. */
+  uploadItem: (command: UploadAttachmentCommand) => Promise<Device | null>;
+  deleteItem: (command: DeleteAttachmentCommand) => Promise<boolean>;
+};
+
+export function useAttachments(): UseAttachments {
+  const uses = inject<InventoryUses>(INVENTORY_KEY);
+  if (!uses) throw new Error('Inventory not provided');
+
+  const telemetry = useTelemetry();
+
+  const items = ref<readonly Attachment[]>([]);
+  const loading = ref(false);
+  const saving = ref(false);
+  const error = ref<string | null>(null);
+
+  const photo = computed(() => items.value.find((a) => a.kind === 'photo'));
+  const documents = computed(() => items.value.filter((a) => a.kind === 'document'));
+
+  const fail = (e: unknown, operation: string, id?: string): void => {
+    error.value = e instanceof Error ? e.message : String(e);
+    telemetry.trackException(e instanceof Error ? e : new Error(String(e)), {
+      operation,
+      id,
+    });
+  };
+
+  const fetchItems = async (deviceId: string): Promise<void> => {
+    if (loading.value) return;
+    loading.value = true;
+    error.value = null;
+    try {
+      const result = await uses.listAttachments({ deviceId });
+      if (result.success) {
+        items.value = result.items;
+      } else {
+        error.value = result.errors.join('; ');
+        items.value = [];
+      }
+    } catch (e) {
+      items.value = [];
+      fail(e, 'fetchAttachments', deviceId);
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const uploadItem = async (command: UploadAttachmentCommand): Promise<Device | null> => {
+    if (saving.value) return null;
+    saving.value = true;
+    error.value = null;
+    try {
+      const result = await uses.uploadAttachment(command);
+      if (!result.success) {
+        error.value = result.errors.join('; ');
+        return null;
+      }
+      // A new photo replaces the old one.
+      const kept =
+        result.item.kind === 'photo'
+          ? items.value.filter((a) => a.kind !== 'photo')
+          : items.value;
+      items.value = [...kept, result.item];
+      return result.device;
+    } catch (e) {
+      fail(e, 'uploadAttachment', command.deviceId);
+      return null;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  const deleteItem = async (command: DeleteAttachmentCommand): Promise<boolean> => {
+    if (saving.value) return false;
+    saving.value = true;
+    error.value = null;
+    try {
+      const result = await uses.deleteAttachment(command);
+      if (!result.success) {
+        error.value = result.errors.join('; ');
+        return false;
+      }
+      items.value = items.value.filter((a) => a.id !== command.attachmentId);
+      return true;
+    } catch (e) {
+      fail(e, 'deleteAttachment', command.deviceId);
+      return false;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  return {
+    items,
+    photo,
+    documents,
+    loading,
+    saving,
+    error,
+    fetchItems,
+    uploadItem,
+    deleteItem,
+  };
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { inject } from 'vue';
+import { useCategories } from './use-categories';
+import type { InventoryUses } from '@/config/appServices';
+import type { Category } from '@/app/inventory-service';
+
+vi.mock('vue', async () => {
+  const actual = await vi.importActual<typeof import('vue')>('vue');
+  return {
+    ...actual,
+    inject: vi.fn(),
+  };
+});
+
+const categories: Category[] = [
+  { id: 'cat-laptops', name: 'Laptops' },
+  { id: 'cat-audio', name: 'Audio' },
+];
+
+describe('useCategories', () => {
+  const injectMock = inject as unknown as vi.Mock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    injectMock.mockReset();
+  });
+
+  it('throws when inventory services are not provided', () => {
+    injectMock.mockReturnValue(undefined);
+    expect(() => useCategories()).toThrow('Inventory not provided');
+  });
+
+  it('fetches categories and names them by id', async () => {
+    const uses = {
+      listCategories: vi.fn().mockResolvedValue({ success: true, items: categories, totalCount: 2 }),
+    } as unknown as InventoryUses;
+    injectMock.mockReturnValue(uses);
+
+    const cat = useCategories();
+    await cat.fetchCategories();
+
+    expect(cat.categories.value).toEqual(categories);
+    expect(cat.categoryName('cat-audio')).toBe('Audio');
+    expect(cat.categoryName('cat-x')).toBe('cat-x');
+  });
+
+  it('keeps the list in step with adds, renames and deletes', async () => {
+    const uses = {
+      listCategories: vi.fn().mockResolvedValue({ success: true, items: categories, totalCount: 2 }),
+      addCategory: vi.fn().mockResolvedValue({ success: true, item: { id: 'cat-3', name: 'Cameras' } }),
+      updateCategory: vi.fn().mockResolvedValue({ success: true, item: { id: 'cat-audio', name: 'Sound' } }),
+      deleteCategory: vi.fn().mockResolvedValue({ success: true }),
+    } as unknown as InventoryUses;
+    injectMock.mockReturnValue(uses);
+
+    const cat = useCategories();
+    await cat.fetchCategories();
+
+    expect(await cat.addCategory({ name: 'Cameras' })).toBe(true);
+    expect(await cat.updateCategory({ id: 'cat-audio', name: 'Sound' })).toBe(true);
+    expect(await cat.deleteCategory({ id: 'cat-laptops' })).toBe(true);
+
+    expect(cat.categories.value).toEqual([
+      { id: 'cat-audio', name: 'Sound' },
+      { id: 'cat-3', name: 'Cameras' },
+    ]);
+  });
+
+  it('sets error when a use case fails', async () => {
+    const uses = {
+      addCategory: vi.fn().mockResolvedValue({
+        success: false,
+        errors: ['Category "Audio" already exists'],
+      }),
+    } as unknown as InventoryUses;
+    injectMock.mockReturnValue(uses);
+
+    const cat = useCategories();
+
+    expect(await cat.addCategory({ name: 'Audio' })).toBe(false);
+    expect(cat.error.value).toBe('Category "Audio" already exists');
+    expect(cat.categories.value).toEqual([]);
+  });
+});
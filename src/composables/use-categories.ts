@@ -0,0 +1,137 @@
+import { inject, ref, type Ref } from 'vue';
+import { INVENTORY_KEY, type InventoryUses } from '@/config/appServices';
+import type { Category } from '@/app/inventory-service';
+import type { AddCategoryCommand } from '@/app/add-category';
+import type { UpdateCategoryCommand } from '@/app/update-category';
+import type { DeleteCategoryCommand } from '@/app/delete-category';
+import { useTelemetry } from '@/composables/useTelemetry';
+
+export type UseCategories = {
+  readonly categories: Ref<readonly Category[]>;
+  readonly loading: Ref<boolean>;
+  readonly saving: Ref<boolean>;
+  readonly error: Ref<string | null>;
+  fetchCategories: () => Promise<void>;
+  addCategory: (command: AddCategoryCommand) => Promise<boolean>;
+  updateCategory: (command: UpdateCategoryCommand) => Promise<boolean>;
+  deleteCategory: (command: DeleteCategoryCommand) => Promise<boolean>;
+  /** Falls back to the id for categories that are not loaded. */
+  categoryName: (id: string) => string;
+};
+
+export function useCategories(): UseCategories {
+  const uses = inject<InventoryUses>(INVENTORY_KEY);
+  if (!uses) throw new Error('Inventory not provided');
+
+  const telemetry = useTelemetry();
+
+  const categories = ref<readonly Category[]>([]);
+  const loading = ref(false);
+  const saving = ref(false);
+  const error = ref<string | null>(null);
+
+  const fail = (e: unknown, operation: string, id?: string): void => {
+    error.value = e instanceof Error ? e.message : String(e);
+    telemetry.trackException(e instanceof Error ? e : new Error(String(e)), {
+      operation,
+      id,
+    });
+  };
+
+  const fetchCategories = async (): Promise<void> => {
+    if (loading.value) return;
+    loading.value = true;
+    error.value = null;
+    try {
+      const result = await uses.listCategories();
+      if (result.success) {
+        categories.value = result.items;
+      } else {
+        error.value = result.errors.join('; ');
+        categories.value = [];
+      }
+    } catch (e) {
+      categories.value = [];
+      fail(e, 'fetchCategories');
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const addCategory = async (command: AddCategoryCommand): Promise<boolean> => {
+    if (saving.value) return false;
+    saving.value = true;
+    error.value = null;
+    try {
+      const result = await uses.addCategory(command);
+      if (!result.success) {
+        error.value = result.errors.join('; ');
+        return false;
+      }
+      categories.value = [...categories.value, result.item];
+      return true;
+    } catch (e) {
+      fail(e, 'addCategory');
+      return false;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  const updateCategory = async (command: UpdateCategoryCommand): Promise<boolean> => {
+    if (saving.value) return false;
+    saving.value = true;
+    error.value = null;
+    try {
+      const result = await uses.updateCategory(command);
+      if (!result.success) {
+        error.value = result.errors.join('; ');
+        return false;
+      }
+      categories.value = categories.value.map((c) =>
+        c.id === result.item.id ? result.item : c,
+      );
+      return true;
+    } catch (e) {
+      fail(e, 'updateCategory', command.id);
+      return false;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  const deleteCategory = async (command: DeleteCategoryCommand): Promise<boolean> => {
+    if (saving.value) return false;
+    saving.value = true;
+    error.value = null;
+    try {
+      const result = await uses.deleteCategory(command);
+      if (!result.success) {
+        error.value = result.errors.join('; ');
+        return false;
+      }
+      categories.value = categories.value.filter((c) => c.id !== command.id);
+      return true;
+    } catch (e) {
+      fail(e, 'deleteCategory', command.id);
+      return false;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  const categoryName = (id: string): string =>
+    categories.value.find((c) => c.id === id)?.name ?? id;
+
+  return {
+    categories,
+    loading,
+    saving,
+    error,
+    fetchCategories,
+    addCategory,
+    updateCategory,
+    deleteCategory,
+    categoryName,
+  };
+}
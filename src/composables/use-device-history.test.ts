@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { inject } from 'vue';
+import { useDeviceHistory } from './use-device-history';
+import type { InventoryUses } from '@/config/appServices';
+import type { AuditEntry } from '@/app/inventory-service';
+
+vi.mock('vue', async () => {
+  const actual = await vi.importActual<typeof import('vue')>('vue');
+  return {
+    ...actual,
+    inject: vi.fn(),
+  };
+});
+
+const entry: AuditEntry = {
+  id: 'aud-1',
+  deviceModelId: 'dev-1',
+  actor: 'staff-1',
+  action: 'created',
+  changes: [{ field: 'name', before: null, after: 'Laptop' }],
+  timestamp: new Date('2025-01-01'),
+};
+
+describe('useDeviceHistory', () => {
+  const injectMock = inject as unknown as vi.Mock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    injectMock.mockReset();
+  });
+
+  it('throws when inventory services are not provided', () => {
+    injectMock.mockReturnValue(undefined);
+    expect(() => useDeviceHistory()).toThrow('Inventory not provided');
+  });
+
+  it('fetches the history of a device', async () => {
+    const uses = {
+      getDeviceHistory: vi.fn().mockResolvedValue({ success: true, items: [entry], totalCount: 1 }),
+    } as unknown as InventoryUses;
+    injectMock.mockReturnValue(uses);
+
+    const history = useDeviceHistory();
+    await history.fetchHistory('dev-1');
+
+    expect(uses.getDeviceHistory).toHaveBeenCalledWith({ id: 'dev-1' });
+    expect(history.entries.value).toEqual([entry]);
+    expect(history.loading.value).toBe(false);
+  });
+
+  it('sets error when the use case fails', async () => {
+    const uses = {
+      getDeviceHistory: vi.fn().mockResolvedValue({ success: false, errors: ['forbidden'] }),
+    } as unknown as InventoryUses;
+    injectMock.mockReturnValue(uses);
+
+    const history = useDeviceHistory();
+    await history.fetchHistory('dev-1');
+
+    expect(history.error.value).toBe('forbidden');
+    expect(history.entries.value).toEqual([]);
+  });
+});
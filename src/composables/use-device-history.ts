@@ -0,0 +1,49 @@
+import { inject, ref, type Ref } from 'vue';
+import { INVENTORY_KEY, type InventoryUses } from '@/config/appServices';
+import type { AuditEntry } from '@/app/inventory-service';
+import { useTelemetry } from '@/composables/useTelemetry';
+
+export type UseDeviceHistory = {
+  /** Newest first. */
+  readonly entries: Ref<readonly AuditEntry[]>;
+  readonly loading: Ref<boolean>;
+  readonly error: Ref<string | null>;
+  fetchHistory: (deviceId: string) => Promise<void>;
+};
+
+export function useDeviceHistory(): UseDeviceHistory {
+  const uses = inject<InventoryUses>(INVENTORY_KEY);
+  if (!uses) throw new Error('Inventory not provided');
+
+  const telemetry = useTelemetry();
+
+  const entries = ref<readonly AuditEntry[]>([]);
+  const loading = ref(false);
+  const error = ref<string | null>(null);
+
+  const fetchHistory = async (deviceId: string): Promise<void> => {
+    if (loading.value) return;
+    loading.value = true;
+    error.value = null;
+    try {
+      const result = await uses.getDeviceHistory({ id: deviceId });
+      if (result.success) {
+        entries.value = result.items;
+      } else {
+        error.value = result.errors.join('; ');
+        entries.value = [];
+      }
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : String(e);
+      entries.value = [];
+      telemetry.trackException(
+        e instanceof Error ? e : new Error(String(e)),
+        { operation: 'fetchDeviceHistory', id: deviceId },
+      );
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  return { entries, loading, error, fetchHistory };
+}
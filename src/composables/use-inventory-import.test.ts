@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { inject } from 'vue';
+import { useInventoryImport } from './use-inventory-import';
+import type { InventoryUses } from '@/config/appServices';
+import type { Device } from '@/app/inventory-service';
+
+vi.mock('vue', async () => {
+  const actual = await vi.importActual<typeof import('vue')>('vue');
+  return {
+    ...actual,
+    inject: vi.fn(),
+  };
+});
+
+const device = (overrides: Partial<Device> = {}): Device => ({
+  id: 'dev-1',
+  name: 'Laptop',
+  description: 'Dell XPS',
+  count: 5,
+  updatedAt: new Date('2025-01-01'),
+  ...overrides,
+});
+
+const CSV = [
+  'name,description,count',
+  'Laptop,Dell XPS 13,4',
+  'X,too short,1',
+  'Projector,Full HD projector,2',
+  'Camera,24MP DSLR body,1',
+].join('\n');
+
+describe('useInventoryImport', () => {
+  const injectMock = inject as unknown as vi.Mock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    injectMock.mockReset();
+  });
+
+  it('throws when inventory services are not provided', () => {
+    injectMock.mockReturnValue(undefined);
+    expect(() => useInventoryImport()).toThrow('Inventory not provided');
+  });
+
+  it('previews rows and separates the invalid ones', () => {
+    injectMock.mockReturnValue({ addInventory: vi.fn() });
+
+    const imp = useInventoryImport();
+    imp.loadCsv(CSV);
+
+    expect(imp.rows.value).toHaveLength(4);
+    expect(imp.validRows.value.map((r) => r.line)).toEqual([2, 4, 5]);
+    expect(imp.fileErrors.value).toEqual([]);
+  });
+
+  it('reports file-level errors', () => {
+    injectMock.mockReturnValue({ addInventory: vi.fn() });
+
+    const imp = useInventoryImport();
+    imp.loadCsv('title\nLaptop');
+
+    expect(imp.rows.value).toEqual([]);
+    expect(imp.fileErrors.value).toEqual(['Missing required column(s): name, description']);
+  });
+
+  it('creates valid rows in order and summarises failures', async () => {
+    const addInventory = vi
+      .fn()
+      .mockResolvedValueOnce({ success: true, item: device({ id: 'dev-a' }) })
+      .mockResolvedValueOnce({ success: false, errors: ['Duplicate name'] })
+      .mockRejectedValueOnce(new Error('network down'));
+    const uses = { addInventory } as unknown as InventoryUses;
+    injectMock.mockReturnValue(uses);
+
+    const imp = useInventoryImport();
+    imp.loadCsv(CSV);
+    await imp.runImport();
+
+    expect(addInventory).toHaveBeenCalledTimes(3);
+    expect(addInventory).toHaveBeenNthCalledWith(1, { name: 'Laptop', description: 'Dell XPS 13', count: 4 });
+    expect(imp.processed.value).toBe(3);
+    expect(imp.created.value.map((d) => d.id)).toEqual(['dev-a']);
+    expect(imp.failures.value).toEqual([
+      { line: 4, name: 'Projector', errors: ['Duplicate name'] },
+      { line: 5, name: 'Camera', errors: ['network down'] },
+    ]);
+    expect(imp.finished.value).toBe(true);
+    expect(imp.importing.value).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import { computed, inject, ref, type ComputedRef, type Ref } from 'vue';
+import { INVENTORY_KEY, type InventoryUses } from '@/config/appServices';
+import type { Device } from '@/app/inventory-service';
+import {
+  parseInventoryCsv,
+  type InventoryCsvRow,
+} from '@/app/parse-inventory-csv';
+import { useTelemetry } from '@/composables/useTelemetry';
+
+export type ImportFailure = {
+  readonly line: number;
+  readonly name: string;
+  readonly errors: readonly string[];
+};
+
+export type UseInventoryImport = {
+  readonly rows: Ref<readonly InventoryCsvRow[]>;
+  /** Problems with the file as a whole, e.g. missing columns. */
+  readonly fileErrors: Ref<readonly string[]>;
+  readonly validRows: ComputedRef<readonly InventoryCsvRow[]>;
+  readonly importing: Ref<boolean>;
+  readonly processed: Ref<number>;
+  readonly created: Ref<readonly Device[]>;
+  readonly failures: Ref<readonly ImportFailure[]>;
+  /** True once an import run has finished. */
+  readonly finished: Ref<boolean>;
+  loadCsv: (text: string) => void;
+  /** Creates every valid row in file order, one request at a time. */
+  runImport: () => Promise<void>;
+  reset: () => void;
+};
+
+export function useInventoryImport(): UseInventoryImport {
+  const uses = inject<InventoryUses>(INVENTORY_KEY);
+  if (!uses) throw new Error('Inventory not provided');
+
+  const telemetry = useTelemetry();
+
+  const rows = ref<readonly InventoryCsvRow[]>([]);
+  const fileErrors = ref<readonly string[]>([]);
+  const importing = ref(false);
+  const processed = ref(0);
+  const created = ref<readonly Device[]>([]);
+  const failures = ref<readonly ImportFailure[]>([]);
+  const finished = ref(false);
+
+  const validRows = computed(() =>
+    rows.value.filter((r) => Object.keys(r.errors).length === 0),
+  );
+
+  const reset = (): void => {
+    rows.value = [];
+    fileErrors.value = [];
+    processed.value = 0;
+    created.value = [];
+    failures.value = [];
+    finished.value = false;
+  };
+
+  const loadCsv = (text: string): void => {
+    reset();
+    const result = parseInventoryCsv(text);
+    if (result.success) {
+      rows.value = result.rows;
+    } else {
+      fileErrors.value = result.errors;
+    }
+  };
+
+  const runImport = async (): Promise<void> => {
+    if (importing.value || finished.value) return;
+    importing.value = true;
+    processed.value = 0;
+    const toCreate = validRows.value;
+    const done: Device[] = [];
+    const failed: ImportFailure[] = [];
+    try {
+      for (const row of toCreate) {
+        try {
+          const result = await uses.addInventory(row.command);
+          if (result.success) done.push(result.item);
+          else failed.push({ line: row.line, name: row.command.name, errors: result.errors });
+        } catch (e) {
+          failed.push({
+            line: row.line,
+            name: row.command.name,
+            errors: [e instanceof Error ? e.message : String(e)],
+          });
+        }
+        processed.value += 1;
+        created.value = [...done];
+        failures.value = [...failed];
+      }
+      telemetry.trackEvent('inventory_import', {
+        rows: rows.value.length,
+        attempted: toCreate.length,
+        created: done.length,
+        failed: failed.length,
+      });
+    } finally {
+      importing.value = false;
+      finished.value = true;
+    }
+  };
+
+  return {
+    rows,
+    fileErrors,
+    validRows,
+    importing,
+    processed,
+    created,
+    failures,
+    finished,
+    loadCsv,
+    runImport,
+    reset,
+  };
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { inject } from 'vue';
+import { useInventoryItem } from './use-inventory-item';
+import type { InventoryUses } from '@/config/appServices';
+import type { Device } from '@/app/inventory-service';
+
+vi.mock('vue', async () => {
+  const actual = await vi.importActual<typeof import('vue')>('vue');
+  return {
+    ...actual,
+    inject: vi.fn(),
+  };
+});
+
+const device = (overrides: Partial<Device> = {}): Device => ({
+  id: 'dev-1',
+  name: 'Laptop',
+  description: 'Dell XPS 13',
+  count: 4,
+  updatedAt: new Date('2025-01-01'),
+  ...overrides,
+});
+
+describe('useInventoryItem', () => {
+  const injectMock = inject as unknown as vi.Mock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    injectMock.mockReset();
+  });
+
+  it('throws when inventory services are not provided', () => {
+    injectMock.mockReturnValue(undefined);
+    expect(() => useInventoryItem()).toThrow('Inventory not provided');
+  });
+
+  it('fetches a single device', async () => {
+    const uses = {
+      getInventoryItem: vi.fn().mockResolvedValue({ success: true, item: device() }),
+    } as unknown as InventoryUses;
+    injectMock.mockReturnValue(uses);
+
+    const detail = useInventoryItem();
+    await detail.fetchItem('dev-1');
+
+    expect(uses.getInventoryItem).toHaveBeenCalledWith({ id: 'dev-1' });
+    expect(detail.item.value?.name).toBe('Laptop');
+    expect(detail.error.value).toBe(null);
+  });
+
+  it('clears the device when it cannot be found', async () => {
+    const uses = {
+      getInventoryItem: vi
+        .fn()
+        .mockResolvedValue({ success: false, errors: ['Device with id dev-9 not found'] }),
+    } as unknown as InventoryUses;
+    injectMock.mockReturnValue(uses);
+
+    const detail = useInventoryItem();
+    await detail.fetchItem('dev-9');
+
+    expect(detail.item.value).toBe(null);
+    expect(detail.error.value).toBe('Device with id dev-9 not found');
+  });
+
+  it('saves a change against the loaded version and keeps availability', async () => {
+    const uses = {
+      updateInventory: vi
+        .fn()
+        .mockResolvedValue({ success: true, item: device({ name: 'Laptop Pro', version: 'v3' }) }),
+    } as unknown as InventoryUses;
+    injectMock.mockReturnValue(uses);
+
+    const detail = useInventoryItem();
+    detail.setItem(device({ version: 'v2', available: 2 }));
+    const saved = await detail.updateItem({ id: 'dev-1', name: 'Laptop Pro' });
+
+    expect(saved).toBe(true);
+    expect(uses.updateInventory).toHaveBeenCalledWith({
+      id: 'dev-1',
+      name: 'Laptop Pro',
+      expectedVersion: 'v2',
+    });
+    expect(detail.item.value).toMatchObject({ name: 'Laptop Pro', version: 'v3', available: 2 });
+  });
+
+  it('shows the latest device on a conflict and keeps field errors', async () => {
+    const current = device({ name: 'Theirs', version: 'v4' });
+    const uses = {
+      updateInventory: vi
+        .fn()
+        .mockResolvedValueOnce({ success: false, errors: ['changed'], conflict: { current } })
+        .mockResolvedValueOnce({
+          success: false,
+          errors: ['Name is already taken'],
+          fieldErrors: [{ field: 'name', message: 'Name is already taken' }],
+        }),
+    } as unknown as InventoryUses;
+    injectMock.mockReturnValue(uses);
+
+    const detail = useInventoryItem();
+    detail.setItem(device({ version: 'v2' }));
+
+    expect(await detail.updateItem({ id: 'dev-1', count: 5 })).toBe(false);
+    expect(detail.item.value).toEqual(current);
+    expect(detail.error.value).toBe('changed');
+
+    expect(await detail.updateItem({ id: 'dev-1', name: 'Mouse' })).toBe(false);
+    expect(detail.fieldErrors.value).toEqual({ name: 'Name is already taken' });
+  });
+});
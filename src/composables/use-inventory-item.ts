@@ -0,0 +1,105 @@
+import { inject, ref, type Ref } from 'vue';
+import { INVENTORY_KEY, type InventoryUses } from '@/config/appServices';
+import type { Device } from '@/app/inventory-service';
+import type { UpdateInventoryCommand } from '@/app/update-inventory';
+import { toFieldErrorMap, type InventoryFieldErrors } from '@/app/validate-inventory';
+import { useTelemetry } from '@/composables/useTelemetry';
+
+export type UseInventoryItem = {
+  readonly item: Ref<Device | null>;
+  readonly loading: Ref<boolean>;
+  readonly updating: Ref<boolean>;
+  readonly error: Ref<string | null>;
+  /** Per-field messages from the last rejected update; empty otherwise. */
+  readonly fieldErrors: Ref<InventoryFieldErrors>;
+  fetchItem: (id: string) => Promise<void>;
+  /**
+   * Saves a change against the loaded version. On a conflict the latest saved
+   * device replaces the loaded one. Resolves to whether the change was saved.
+   */
+  updateItem: (command: UpdateInventoryCommand) => Promise<boolean>;
+  /** Replaces the loaded device after a change made elsewhere, e.g. a panel. */
+  setItem: (device: Device) => void;
+};
+
+export function useInventoryItem(): UseInventoryItem {
+  const uses = inject<InventoryUses>(INVENTORY_KEY);
+  if (!uses) throw new Error('Inventory not provided');
+
+  const telemetry = useTelemetry();
+
+  const item = ref<Device | null>(null);
+  const loading = ref(false);
+  const updating = ref(false);
+  const error = ref<string | null>(null);
+  const fieldErrors = ref<InventoryFieldErrors>({});
+
+  const fetchItem = async (id: string): Promise<void> => {
+    if (loading.value) return;
+    loading.value = true;
+    error.value = null;
+    try {
+      const result = await uses.getInventoryItem({ id });
+      if (result.success) {
+        item.value = result.item;
+      } else {
+        error.value = result.errors.join('; ');
+        item.value = null;
+      }
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : String(e);
+      item.value = null;
+      telemetry.trackException(
+        e instanceof Error ? e : new Error(String(e)),
+        { operation: 'fetchItem', id },
+      );
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const updateItem = async (command: UpdateInventoryCommand): Promise<boolean> => {
+    if (updating.value) return false;
+    updating.value = true;
+    error.value = null;
+    fieldErrors.value = {};
+    const expectedVersion = command.expectedVersion ?? item.value?.version;
+    try {
+      const result = await uses.updateInventory(
+        expectedVersion !== undefined ? { ...command, expectedVersion } : command,
+      );
+      if (result.success) {
+        // Availability is derived by the list; keep it when the update omits it.
+        item.value =
+          result.item.available === undefined && item.value?.available !== undefined
+            ? { ...result.item, available: item.value.available }
+            : result.item;
+        return true;
+      }
+      error.value = result.errors.join('; ');
+      fieldErrors.value = toFieldErrorMap(result.fieldErrors ?? []);
+      if (result.conflict?.current) item.value = result.conflict.current;
+      telemetry.trackEvent('inventory_item_update_failed_ui', {
+        errors: result.errors.join('; '),
+        id: command.id,
+        conflict: result.conflict !== undefined,
+      });
+      return false;
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : String(e);
+      telemetry.trackException(
+        e instanceof Error ? e : new Error(String(e)),
+        { operation: 'updateItem', id: command.id },
+      );
+      return false;
+    } finally {
+      updating.value = false;
+    }
+  };
+
+  const setItem = (device: Device): void => {
+    item.value = device;
+  };
+
+  return { item, loading, updating, error, fieldErrors, fetchItem, updateItem, setItem };
+}
@@ -93,9 +93,13 @@ describe('useInventory', () => {
     expect(inv.totalCount.value).toBe(0);
   });
 
-  it('skips fetch when already loading', async () => {
+  it('shows the latest query when it changes mid-fetch', async () => {
+    let resolveSlow!: (value: unknown) => void;
     const uses: InventoryUses = {
-      listInventory: vi.fn(),
+      listInventory: vi
+        .fn()
+        .mockImplementationOnce(() => new Promise((resolve) => (resolveSlow = resolve)))
+        .mockResolvedValueOnce({ success: true, items: [device({ id: 'dev-new' })], totalCount: 1 }),
       addInventory: vi.fn(),
       deleteInventory: vi.fn(),
       updateInventory: vi.fn(),
@@ -103,12 +107,148 @@ describe('useInventory', () => {
     injectMock.mockReturnValue(uses);
 
     const inv = useInventory();
-    inv.loading.value = true;
-
+    const slow = inv.fetchItems();
+    inv.search.value = 'camera';
     await inv.fetchItems();
+    expect(inv.loading.value).toBe(false);
+
+    resolveSlow({ success: true, items: [device({ id: 'dev-old' })], totalCount: 1 });
+    await slow;
+
+    expect(uses.listInventory).toHaveBeenCalledTimes(2);
+    expect(uses.listInventory).toHaveBeenLastCalledWith(expect.objectContaining({ search: 'camera' }));
+    expect(inv.items.value.map((i) => i.id)).toEqual(['dev-new']);
+    expect(inv.loading.value).toBe(false);
+  });
+
+  it('keeps loading until the latest fetch settles', async () => {
+    let resolveLatest!: (value: unknown) => void;
+    const uses: InventoryUses = {
+      listInventory: vi
+        .fn()
+        .mockRejectedValueOnce(new Error('stale failure'))
+        .mockImplementationOnce(() => new Promise((resolve) => (resolveLatest = resolve))),
+      addInventory: vi.fn(),
+      deleteInventory: vi.fn(),
+      updateInventory: vi.fn(),
+    };
+    injectMock.mockReturnValue(uses);
+
+    const inv = useInventory();
+    const stale = inv.fetchItems();
+    const latest = inv.fetchItems();
+    await stale;
 
-    expect(uses.listInventory).not.toHaveBeenCalled();
     expect(inv.loading.value).toBe(true);
+    expect(inv.error.value).toBeNull();
+
+    resolveLatest({ success: true, items: [device()], totalCount: 1 });
+    await latest;
+    expect(inv.loading.value).toBe(false);
+  });
+
+  it('requests the first page and tracks the next cursor', async () => {
+    const uses: InventoryUses = {
+      listInventory: vi
+        .fn()
+        .mockResolvedValue({ success: true, items: [device()], totalCount: 30, nextCursor: 'c1' }),
+      addInventory: vi.fn(),
+      deleteInventory: vi.fn(),
+      updateInventory: vi.fn(),
+    };
+    injectMock.mockReturnValue(uses);
+
+    const inv = useInventory();
+    await inv.fetchItems();
+
+    expect(uses.listInventory).toHaveBeenCalledWith({ limit: inv.pageSize.value });
+    expect(inv.page.value).toBe(1);
+    expect(inv.hasMore.value).toBe(true);
+    expect(inv.pageCount.value).toBe(Math.ceil(30 / inv.pageSize.value));
+  });
+
+  it('loads more items with the cursor and skips duplicates', async () => {
+    const uses: InventoryUses = {
+      listInventory: vi
+        .fn()
+        .mockResolvedValueOnce({ success: true, items: [device({ id: 'dev-1' })], totalCount: 3, nextCursor: 'c1' })
+        .mockResolvedValueOnce({
+          success: true,
+          items: [device({ id: 'dev-1' }), device({ id: 'dev-2' })],
+          totalCount: 3,
+        }),
+      addInventory: vi.fn(),
+      deleteInventory: vi.fn(),
+      updateInventory: vi.fn(),
+    };
+    injectMock.mockReturnValue(uses);
+
+    const inv = useInventory();
+    await inv.fetchItems();
+    await inv.loadMore();
+
+    expect(uses.listInventory).toHaveBeenLastCalledWith({ limit: inv.pageSize.value, cursor: 'c1' });
+    expect(inv.items.value.map((i) => i.id)).toEqual(['dev-1', 'dev-2']);
+    expect(inv.page.value).toBe(2);
+    expect(inv.hasMore.value).toBe(false);
+  });
+
+  it('includes search, stock filter and sort in the query', async () => {
+    const uses: InventoryUses = {
+      listInventory: vi.fn().mockResolvedValue({ success: true, items: [], totalCount: 0 }),
+      addInventory: vi.fn(),
+      deleteInventory: vi.fn(),
+      updateInventory: vi.fn(),
+    };
+    injectMock.mockReturnValue(uses);
+
+    const inv = useInventory();
+    inv.search.value = '  camera ';
+    inv.inStockOnly.value = true;
+    inv.sortBy.value = 'count';
+    inv.sortDirection.value = 'desc';
+    await inv.fetchItems();
+
+    expect(uses.listInventory).toHaveBeenCalledWith({
+      limit: inv.pageSize.value,
+      search: 'camera',
+      inStockOnly: true,
+      sortBy: 'count',
+      sortDirection: 'desc',
+    });
+  });
+
+  it('fetches every matching item without paging', async () => {
+    const uses: InventoryUses = {
+      listInventory: vi.fn().mockResolvedValue({ success: true, items: [device()], totalCount: 1 }),
+      addInventory: vi.fn(),
+      deleteInventory: vi.fn(),
+      updateInventory: vi.fn(),
+    };
+    injectMock.mockReturnValue(uses);
+
+    const inv = useInventory();
+    inv.search.value = 'lap';
+    const all = await inv.fetchAllMatching();
+
+    expect(uses.listInventory).toHaveBeenCalledWith({ search: 'lap' });
+    expect(all).toEqual([device()]);
+  });
+
+  it('skips loadMore when there is no next page', async () => {
+    const uses: InventoryUses = {
+      listInventory: vi.fn().mockResolvedValue({ success: true, items: [device()], totalCount: 1 }),
+      addInventory: vi.fn(),
+      deleteInventory: vi.fn(),
+      updateInventory: vi.fn(),
+    };
+    injectMock.mockReturnValue(uses);
+
+    const inv = useInventory();
+    await inv.fetchItems();
+    await inv.loadMore();
+
+    expect(uses.listInventory).toHaveBeenCalledTimes(1);
   });
 
   it('adds item successfully and updates totals', async () => {
@@ -202,6 +342,101 @@ describe('useInventory', () => {
     expect(inv.items.value[0].name).toBe('Laptop');
   });
 
+  it('keeps the field errors of a rejected update until the next attempt', async () => {
+    const uses: InventoryUses = {
+      listInventory: vi.fn(),
+      addInventory: vi.fn(),
+      deleteInventory: vi.fn(),
+      updateInventory: vi
+        .fn()
+        .mockResolvedValueOnce({
+          success: false,
+          errors: ['Name is already taken'],
+          fieldErrors: [{ field: 'name', message: 'Name is already taken' }],
+        })
+        .mockResolvedValueOnce({ success: true, item: device({ id: 'dev-1', name: 'Laptop Pro' }) }),
+    };
+    injectMock.mockReturnValue(uses);
+
+    const inv = useInventory();
+    inv.items.value = [device({ id: 'dev-1' })];
+
+    await inv.updateItem({ id: 'dev-1', name: 'Mouse' });
+    expect(inv.fieldErrors.value).toEqual({ name: 'Name is already taken' });
+
+    await inv.updateItem({ id: 'dev-1', name: 'Laptop Pro' });
+    expect(inv.fieldErrors.value).toEqual({});
+    expect(inv.items.value[0].name).toBe('Laptop Pro');
+  });
+
+  it('sends the known version and records a conflict', async () => {
+    const current = device({ id: 'dev-1', name: 'Theirs', version: 'v3' });
+    const uses: InventoryUses = {
+      listInventory: vi.fn(),
+      addInventory: vi.fn(),
+      deleteInventory: vi.fn(),
+      updateInventory: vi
+        .fn()
+        .mockResolvedValue({ success: false, errors: ['changed'], conflict: { current } }),
+    };
+    injectMock.mockReturnValue(uses);
+
+    const inv = useInventory();
+    inv.items.value = [device({ id: 'dev-1', version: 'v2' })];
+
+    await inv.updateItem({ id: 'dev-1', count: 9 });
+
+    expect(uses.updateInventory).toHaveBeenCalledWith({ id: 'dev-1', count: 9, expectedVersion: 'v2' });
+    expect(inv.conflict.value).toEqual({ command: { id: 'dev-1', count: 9 }, current });
+    expect(inv.error.value).toBe('changed');
+  });
+
+  it('reloads the current device when a conflict is dismissed', async () => {
+    const current = device({ id: 'dev-1', name: 'Theirs', version: 'v3' });
+    const uses: InventoryUses = {
+      listInventory: vi.fn(),
+      addInventory: vi.fn(),
+      deleteInventory: vi.fn(),
+      updateInventory: vi
+        .fn()
+        .mockResolvedValue({ success: false, errors: ['changed'], conflict: { current } }),
+    };
+    injectMock.mockReturnValue(uses);
+
+    const inv = useInventory();
+    inv.items.value = [device({ id: 'dev-1', version: 'v2' })];
+    await inv.updateItem({ id: 'dev-1', count: 9 });
+    await inv.reloadConflict();
+
+    expect(inv.items.value[0]).toEqual(current);
+    expect(inv.conflict.value).toBe(null);
+    expect(inv.error.value).toBe(null);
+  });
+
+  it('reapplies the change against the latest version', async () => {
+    const current = device({ id: 'dev-1', name: 'Theirs', version: 'v3' });
+    const saved = device({ id: 'dev-1', name: 'Theirs', count: 9, version: 'v4' });
+    const uses: InventoryUses = {
+      listInventory: vi.fn(),
+      addInventory: vi.fn(),
+      deleteInventory: vi.fn(),
+      updateInventory: vi
+        .fn()
+        .mockResolvedValueOnce({ success: false, errors: ['changed'], conflict: { current } })
+        .mockResolvedValueOnce({ success: true, item: saved }),
+    };
+    injectMock.mockReturnValue(uses);
+
+    const inv = useInventory();
+    inv.items.value = [device({ id: 'dev-1', version: 'v2' })];
+    await inv.updateItem({ id: 'dev-1', count: 9 });
+    await inv.reapplyConflict();
+
+    expect(uses.updateInventory).toHaveBeenLastCalledWith({ id: 'dev-1', count: 9, expectedVersion: 'v3' });
+    expect(inv.items.value[0]).toEqual(saved);
+    expect(inv.conflict.value).toBe(null);
+  });
+
   it('deletes item successfully and updates totals', async () => {
     const uses: InventoryUses = {
       listInventory: vi.fn(),
@@ -259,4 +494,130 @@ describe('useInventory', () => {
 
     expect(uses.deleteInventory).not.toHaveBeenCalled();
   });
+
+  it('lists the trash when archived devices are shown', async () => {
+    const uses: InventoryUses = {
+      listInventory: vi.fn().mockResolvedValue({ success: true, items: [], totalCount: 0 }),
+      addInventory: vi.fn(),
+      deleteInventory: vi.fn(),
+      updateInventory: vi.fn(),
+    };
+    injectMock.mockReturnValue(uses);
+
+    const inv = useInventory();
+    inv.showArchived.value = true;
+    await inv.fetchItems();
+
+    expect(uses.listInventory).toHaveBeenCalledWith({
+      limit: inv.pageSize.value,
+      archived: true,
+    });
+  });
+
+  it('narrows the list to the chosen location', async () => {
+    const uses: InventoryUses = {
+      listInventory: vi.fn().mockResolvedValue({ success: true, items: [], totalCount: 0 }),
+      addInventory: vi.fn(),
+      deleteInventory: vi.fn(),
+      updateInventory: vi.fn(),
+    };
+    injectMock.mockReturnValue(uses);
+
+    const inv = useInventory();
+    inv.locationId.value = 'loc-a';
+    await inv.fetchItems();
+
+    expect(uses.listInventory).toHaveBeenCalledWith({
+      limit: inv.pageSize.value,
+      locationId: 'loc-a',
+    });
+  });
+
+  it('filters by a spec only once both its name and value are given', async () => {
+    const uses: InventoryUses = {
+      listInventory: vi.fn().mockResolvedValue({ success: true, items: [], totalCount: 0 }),
+      addInventory: vi.fn(),
+      deleteInventory: vi.fn(),
+      updateInventory: vi.fn(),
+    };
+    injectMock.mockReturnValue(uses);
+
+    const inv = useInventory();
+    inv.specFilter.value = { key: 'RAM', value: ' ' };
+    await inv.fetchItems();
+    expect(uses.listInventory).toHaveBeenLastCalledWith({ limit: inv.pageSize.value });
+
+    inv.specFilter.value = { key: ' RAM ', value: '16' };
+    await inv.fetchItems();
+    expect(uses.listInventory).toHaveBeenLastCalledWith({
+      limit: inv.pageSize.value,
+      spec: { key: 'RAM', value: '16' },
+    });
+  });
+
+  it('narrows the list to a category and a tag', async () => {
+    const uses: InventoryUses = {
+      listInventory: vi.fn().mockResolvedValue({ success: true, items: [], totalCount: 0 }),
+      addInventory: vi.fn(),
+      deleteInventory: vi.fn(),
+      updateInventory: vi.fn(),
+    };
+    injectMock.mockReturnValue(uses);
+
+    const inv = useInventory();
+    inv.categoryId.value = 'cat-audio';
+    inv.tag.value = ' travel ';
+    await inv.fetchItems();
+
+    expect(uses.listInventory).toHaveBeenCalledWith({
+      limit: inv.pageSize.value,
+      categoryId: 'cat-audio',
+      tag: 'travel',
+    });
+  });
+
+  it('archives and restores items by dropping them from the current list', async () => {
+    const uses = {
+      listInventory: vi.fn(),
+      addInventory: vi.fn(),
+      deleteInventory: vi.fn(),
+      updateInventory: vi.fn(),
+      archiveInventory: vi.fn().mockResolvedValue({ success: true, item: device({ id: 'dev-1' }) }),
+      restoreInventory: vi.fn().mockResolvedValue({ success: true, item: device({ id: 'dev-2' }) }),
+    } as unknown as InventoryUses;
+    injectMock.mockReturnValue(uses);
+
+    const inv = useInventory();
+    inv.items.value = [device({ id: 'dev-1' }), device({ id: 'dev-2' })];
+    inv.totalCount.value = 2;
+
+    await inv.archiveItem({ id: 'dev-1' });
+    expect(inv.items.value.map((i) => i.id)).toEqual(['dev-2']);
+
+    await inv.restoreItem({ id: 'dev-2' });
+    expect(inv.items.value).toEqual([]);
+    expect(inv.totalCount.value).toBe(0);
+    expect(inv.error.value).toBe(null);
+  });
+
+  it('sets error when restore fails', async () => {
+    const uses = {
+      listInventory: vi.fn(),
+      addInventory: vi.fn(),
+      deleteInventory: vi.fn(),
+      updateInventory: vi.fn(),
+      restoreInventory: vi
+        .fn()
+        .mockResolvedValue({ success: false, errors: ['Device "Laptop" is not in the trash'] }),
+    } as unknown as InventoryUses;
+    injectMock.mockReturnValue(uses);
+
+    const inv = useInventory();
+    inv.items.value = [device({ id: 'dev-1' })];
+
+    await inv.restoreItem({ id: 'dev-1' });
+
+    expect(inv.error.value).toBe('Device "Laptop" is not in the trash');
+    expect(inv.items.value).toHaveLength(1);
+  });
 });
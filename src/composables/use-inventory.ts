@@ -1,23 +1,82 @@
-import { inject, ref, type Ref } from 'vue';
+import { computed, inject, ref, type ComputedRef, type Ref } from 'vue';
 import { INVENTORY_KEY, type InventoryUses } from '@/config/appServices';
-import type { Device } from '@/app/inventory-service';
+import type {
+  Device,
+  DeviceSortField,
+  SortDirection,
+  SpecFilter,
+} from '@/app/inventory-service';
+import type { ListInventoryQuery } from '@/app/list-inventory';
 import type { AddInventoryCommand } from '@/app/add-inventory';
 import type { UpdateInventoryCommand } from '@/app/update-inventory';
+import { toFieldErrorMap, type InventoryFieldErrors } from '@/app/validate-inventory';
 import type { DeleteInventoryCommand } from '@/app/delete-inventory';
+import type { ArchiveInventoryCommand } from '@/app/archive-inventory';
+import type { RestoreInventoryCommand } from '@/app/restore-inventory';
 import { useTelemetry } from '@/composables/useTelemetry';
 
+const DEFAULT_PAGE_SIZE = 12;
+
+/** An update refused because someone else changed the device first. */
+export type InventoryConflict = {
+  /** The change that was refused, without its stale version. */
+  readonly command: UpdateInventoryCommand;
+  /** The device as it is now, when the service reported it. */
+  readonly current?: Device;
+};
+
 export type UseInventory = {
   readonly items: Ref<readonly Device[]>;
   readonly totalCount: Ref<number>;
+  readonly pageSize: Ref<number>;
+  /** Number of pages loaded so far. */
+  readonly page: Ref<number>;
+  readonly pageCount: ComputedRef<number>;
+  readonly hasMore: ComputedRef<boolean>;
+  readonly search: Ref<string>;
+  readonly inStockOnly: Ref<boolean>;
+  /** `null` keeps the service's default ordering. */
+  readonly sortBy: Ref<DeviceSortField | null>;
+  readonly sortDirection: Ref<SortDirection>;
+  /** Lists the trash instead of the active devices. */
+  readonly showArchived: Ref<boolean>;
+  /** `null` lists every location. */
+  readonly locationId: Ref<string | null>;
+  /** `null`, or a blank key or value, leaves specs unfiltered. */
+  readonly specFilter: Ref<SpecFilter | null>;
+  /** `null` lists every category. */
+  readonly categoryId: Ref<string | null>;
+  /** `null` or blank leaves tags unfiltered. */
+  readonly tag: Ref<string | null>;
   readonly loading: Ref<boolean>;
+  readonly loadingMore: Ref<boolean>;
   readonly adding: Ref<boolean>;
   readonly deleting: Ref<boolean>;
   readonly updating: Ref<boolean>;
+  readonly restoring: Ref<boolean>;
   readonly error: Ref<string | null>;
+  readonly conflict: Ref<InventoryConflict | null>;
+  /** Per-field messages from the last rejected update; empty otherwise. */
+  readonly fieldErrors: Ref<InventoryFieldErrors>;
   fetchItems: () => Promise<void>;
+  loadMore: () => Promise<void>;
+  /**
+   * Every item matching the current search, filter and sort, ignoring paging.
+   * Resolves to `null` and sets `error` when the request fails.
+   */
+  fetchAllMatching: () => Promise<readonly Device[] | null>;
   addItem: (command: AddInventoryCommand) => Promise<void>;
   updateItem: (command: UpdateInventoryCommand) => Promise<void>;
+  /** Permanently deletes a device; refused while it has active reservations. */
   deleteItem: (command: DeleteInventoryCommand) => Promise<void>;
+  /** Moves a device to the trash, dropping it from the active list. */
+  archiveItem: (command: ArchiveInventoryCommand) => Promise<void>;
+  /** Takes a device out of the trash, dropping it from the trash list. */
+  restoreItem: (command: RestoreInventoryCommand) => Promise<void>;
+  /** Drops the refused change and shows the latest saved device. */
+  reloadConflict: () => Promise<void>;
+  /** Applies the refused change again on top of the latest saved device. */
+  reapplyConflict: () => Promise<void>;
 };
 
 export function useInventory(): UseInventory {
@@ -28,39 +87,142 @@ export function useInventory(): UseInventory {
 
   const items = ref<readonly Device[]>([]);
   const totalCount = ref(0);
+  const pageSize = ref(DEFAULT_PAGE_SIZE);
+  const page = ref(0);
+  const nextCursor = ref<string | null>(null);
+  const search = ref('');
+  const inStockOnly = ref(false);
+  const sortBy = ref<DeviceSortField | null>(null);
+  const sortDirection = ref<SortDirection>('asc');
+  const showArchived = ref(false);
+  const locationId = ref<string | null>(null);
+  const specFilter = ref<SpecFilter | null>(null);
+  const categoryId = ref<string | null>(null);
+  const tag = ref<string | null>(null);
   const loading = ref(false);
+  const loadingMore = ref(false);
   const adding = ref(false);
   const deleting = ref(false);
   const updating = ref(false);
+  const restoring = ref(false);
   const error = ref<string | null>(null);
+  const conflict = ref<InventoryConflict | null>(null);
+  const fieldErrors = ref<InventoryFieldErrors>({});
+
+  const buildQuery = (cursor?: string): ListInventoryQuery => {
+    const term = search.value.trim();
+    const specKey = specFilter.value?.key.trim();
+    const specValue = specFilter.value?.value.trim();
+    const tagName = tag.value?.trim();
+    return {
+      limit: pageSize.value,
+      ...(cursor ? { cursor } : {}),
+      ...(term ? { search: term } : {}),
+      ...(inStockOnly.value ? { inStockOnly: true } : {}),
+      ...(sortBy.value
+        ? { sortBy: sortBy.value, sortDirection: sortDirection.value }
+        : {}),
+      ...(showArchived.value ? { archived: true } : {}),
+      ...(locationId.value ? { locationId: locationId.value } : {}),
+      ...(specKey && specValue ? { spec: { key: specKey, value: specValue } } : {}),
+      ...(categoryId.value ? { categoryId: categoryId.value } : {}),
+      ...(tagName ? { tag: tagName } : {}),
+    };
+  };
+
+  // Bumped by every first-page fetch; responses for an older query are dropped.
+  let latestFetch = 0;
 
   const fetchItems = async (): Promise<void> => {
-    if (loading.value) return;
+    const token = ++latestFetch;
     loading.value = true;
     error.value = null;
     try {
-      const result = await uses.listInventory();
+      const result = await uses.listInventory(buildQuery());
+      if (token !== latestFetch) return;
       if (result.success) {
         items.value = result.items;
         totalCount.value = result.totalCount;
+        nextCursor.value = result.nextCursor ?? null;
+        page.value = 1;
       } else {
         error.value = result.errors.join('; ');
         items.value = [];
         totalCount.value = 0;
+        nextCursor.value = null;
+        page.value = 0;
       }
     } catch (e) {
+      if (token !== latestFetch) return;
       error.value = 'Failed to retrieve devices';
       items.value = [];
       totalCount.value = 0;
+      nextCursor.value = null;
+      page.value = 0;
       telemetry.trackException(
         e instanceof Error ? e : new Error(String(e)),
         { operation: 'fetchItems' },
       );
     } finally {
-      loading.value = false;
+      if (token === latestFetch) loading.value = false;
+    }
+  };
+
+  const loadMore = async (): Promise<void> => {
+    if (loading.value || loadingMore.value || !nextCursor.value) return;
+    loadingMore.value = true;
+    error.value = null;
+    const token = latestFetch;
+    try {
+      const result = await uses.listInventory(buildQuery(nextCursor.value));
+      // A new query started meanwhile; this page belongs to the old one.
+      if (token !== latestFetch) return;
+      if (result.success) {
+        // Items added locally since the first page may come back again.
+        const seen = new Set(items.value.map((i) => i.id));
+        items.value = [
+          ...items.value,
+          ...result.items.filter((i) => !seen.has(i.id)),
+        ];
+        totalCount.value = result.totalCount;
+        nextCursor.value = result.nextCursor ?? null;
+        page.value += 1;
+      } else {
+        error.value = result.errors.join('; ');
+      }
+    } catch (e) {
+      if (token !== latestFetch) return;
+      error.value = 'Failed to retrieve devices';
+      telemetry.trackException(
+        e instanceof Error ? e : new Error(String(e)),
+        { operation: 'loadMore' },
+      );
+    } finally {
+      loadingMore.value = false;
     }
   };
 
+  const fetchAllMatching = async (): Promise<readonly Device[] | null> => {
+    const { limit: _limit, ...query } = buildQuery();
+    try {
+      const result = await uses.listInventory(query);
+      if (result.success) return result.items;
+      error.value = result.errors.join('; ');
+    } catch (e) {
+      error.value = 'Failed to retrieve devices';
+      telemetry.trackException(
+        e instanceof Error ? e : new Error(String(e)),
+        { operation: 'fetchAllMatching' },
+      );
+    }
+    return null;
+  };
+
+  const hasMore = computed(() => nextCursor.value !== null);
+  const pageCount = computed(() =>
+    Math.max(Math.ceil(totalCount.value / pageSize.value), page.value),
+  );
+
   const add = async (command: AddInventoryCommand): Promise<void> => {
     if (adding.value) return;
     adding.value = true;
@@ -91,14 +253,27 @@ export function useInventory(): UseInventory {
     if (updating.value) return;
     updating.value = true;
     error.value = null;
+    conflict.value = null;
+    fieldErrors.value = {};
+    const expectedVersion =
+      command.expectedVersion ??
+      items.value.find((i) => i.id === command.id)?.version;
     try {
-      const result = await uses.updateInventory(command);
+      const result = await uses.updateInventory(
+        expectedVersion !== undefined ? { ...command, expectedVersion } : command,
+      );
       if (result.success) {
         items.value = items.value.map((i) =>
           i.id === result.item.id ? result.item : i,
         );
+      } else if (result.conflict) {
+        const { expectedVersion: _stale, ...change } = command;
+        conflict.value = { command: change, current: result.conflict.current };
+        error.value = result.errors.join('; ');
+        telemetry.trackEvent('inventory_update_conflict_ui', { id: command.id });
       } else {
         error.value = result.errors.join('; ');
+        fieldErrors.value = toFieldErrorMap(result.fieldErrors ?? []);
         telemetry.trackEvent('inventory_update_failed_ui', {
           errors: result.errors.join('; '),
           id: command.id,
@@ -142,17 +317,115 @@ export function useInventory(): UseInventory {
     }
   };
 
+  const archive = async (command: ArchiveInventoryCommand): Promise<void> => {
+    if (deleting.value) return;
+    deleting.value = true;
+    error.value = null;
+    try {
+      const result = await uses.archiveInventory(command);
+      if (result.success) {
+        items.value = items.value.filter((i) => i.id !== command.id);
+        totalCount.value = Math.max(totalCount.value - 1, items.value.length);
+      } else {
+        error.value = result.errors.join('; ');
+        telemetry.trackEvent('inventory_archive_failed_ui', {
+          errors: result.errors.join('; '),
+          id: command.id,
+        });
+      }
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : String(e);
+      telemetry.trackException(
+        e instanceof Error ? e : new Error(String(e)),
+        { operation: 'archiveItem', id: command.id },
+      );
+    } finally {
+      deleting.value = false;
+    }
+  };
+
+  const restore = async (command: RestoreInventoryCommand): Promise<void> => {
+    if (restoring.value) return;
+    restoring.value = true;
+    error.value = null;
+    try {
+      const result = await uses.restoreInventory(command);
+      if (result.success) {
+        items.value = items.value.filter((i) => i.id !== command.id);
+        totalCount.value = Math.max(totalCount.value - 1, items.value.length);
+      } else {
+        error.value = result.errors.join('; ');
+        telemetry.trackEvent('inventory_restore_failed_ui', {
+          errors: result.errors.join('; '),
+          id: command.id,
+        });
+      }
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : String(e);
+      telemetry.trackException(
+        e instanceof Error ? e : new Error(String(e)),
+        { operation: 'restoreItem', id: command.id },
+      );
+    } finally {
+      restoring.value = false;
+    }
+  };
+
+  const reloadConflict = async (): Promise<void> => {
+    const pending = conflict.value;
+    if (!pending) return;
+    conflict.value = null;
+    error.value = null;
+    const current = pending.current;
+    if (current) {
+      items.value = items.value.map((i) => (i.id === current.id ? current : i));
+    } else {
+      await fetchItems();
+    }
+  };
+
+  const reapplyConflict = async (): Promise<void> => {
+    const pending = conflict.value;
+    if (!pending) return;
+    await reloadConflict();
+    if (error.value) return;
+    await update(pending.command);
+  };
+
   return {
     items,
     totalCount,
+    pageSize,
+    page,
+    pageCount,
+    hasMore,
+    search,
+    inStockOnly,
+    sortBy,
+    sortDirection,
+    showArchived,
+    locationId,
+    specFilter,
+    categoryId,
+    tag,
     loading,
+    loadingMore,
     adding,
     deleting,
     updating,
+    restoring,
     error,
+    conflict,
+    fieldErrors,
     fetchItems,
+    loadMore,
+    fetchAllMatching,
     addItem: add,
     updateItem: update,
     deleteItem: remove,
+    archiveItem: archive,
+    restoreItem: restore,
+    reloadConflict,
+    reapplyConflict,
   };
 }
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { inject } from 'vue';
+import { useLocations } from './use-locations';
+import type { InventoryUses } from '@/config/appServices';
+import type { Location } from '@/app/inventory-service';
+
+vi.mock('vue', async () => {
+  const actual = await vi.importActual<typeof import('vue')>('vue');
+  return {
+    ...actual,
+    inject: vi.fn(),
+  };
+});
+
+const locations: Location[] = [
+  { id: 'loc-a', name: 'Media Lab' },
+  { id: 'loc-b', name: 'Library' },
+];
+
+describe('useLocations', () => {
+  const injectMock = inject as unknown as vi.Mock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    injectMock.mockReset();
+  });
+
+  it('throws when inventory services are not provided', () => {
+    injectMock.mockReturnValue(undefined);
+    expect(() => useLocations()).toThrow('Inventory not provided');
+  });
+
+  it('fetches locations and names them by id', async () => {
+    const uses = {
+      listLocations: vi.fn().mockResolvedValue({ success: true, items: locations, totalCount: 2 }),
+    } as unknown as InventoryUses;
+    injectMock.mockReturnValue(uses);
+
+    const loc = useLocations();
+    await loc.fetchLocations();
+
+    expect(loc.locations.value).toEqual(locations);
+    expect(loc.locationName('loc-b')).toBe('Library');
+    expect(loc.locationName('loc-x')).toBe('loc-x');
+  });
+
+  it('sets error when the use case fails', async () => {
+    const uses = {
+      listLocations: vi.fn().mockResolvedValue({ success: false, errors: ['offline'] }),
+    } as unknown as InventoryUses;
+    injectMock.mockReturnValue(uses);
+
+    const loc = useLocations();
+    await loc.fetchLocations();
+
+    expect(loc.error.value).toBe('offline');
+    expect(loc.locations.value).toEqual([]);
+  });
+});
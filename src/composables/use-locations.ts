@@ -0,0 +1,53 @@
+import { inject, ref, type Ref } from 'vue';
+import { INVENTORY_KEY, type InventoryUses } from '@/config/appServices';
+import type { Location } from '@/app/inventory-service';
+import { useTelemetry } from '@/composables/useTelemetry';
+
+export type UseLocations = {
+  readonly locations: Ref<readonly Location[]>;
+  readonly loading: Ref<boolean>;
+  readonly error: Ref<string | null>;
+  fetchLocations: () => Promise<void>;
+  /** Falls back to the id for locations that are not loaded. */
+  locationName: (id: string) => string;
+};
+
+export function useLocations(): UseLocations {
+  const uses = inject<InventoryUses>(INVENTORY_KEY);
+  if (!uses) throw new Error('Inventory not provided');
+
+  const telemetry = useTelemetry();
+
+  const locations = ref<readonly Location[]>([]);
+  const loading = ref(false);
+  const error = ref<string | null>(null);
+
+  const fetchLocations = async (): Promise<void> => {
+    if (loading.value) return;
+    loading.value = true;
+    error.value = null;
+    try {
+      const result = await uses.listLocations();
+      if (result.success) {
+        locations.value = result.items;
+      } else {
+        error.value = result.errors.join('; ');
+        locations.value = [];
+      }
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : String(e);
+      locations.value = [];
+      telemetry.trackException(
+        e instanceof Error ? e : new Error(String(e)),
+        { operation: 'fetchLocations' },
+      );
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const locationName = (id: string): string =>
+    locations.value.find((l) => l.id === id)?.name ?? id;
+
+  return { locations, loading, error, fetchLocations, locationName };
+}
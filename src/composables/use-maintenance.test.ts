@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { inject } from 'vue';
+import { useMaintenance } from './use-maintenance';
+import type { InventoryUses } from '@/config/appServices';
+import type { Device, MaintenanceRecord } from '@/app/inventory-service';
+
+vi.mock('vue', async () => {
+  const actual = await vi.importActual<typeof import('vue')>('vue');
+  return {
+    ...actual,
+    inject: vi.fn(),
+  };
+});
+
+const record = (overrides: Partial<MaintenanceRecord> = {}): MaintenanceRecord => ({
+  id: 'mnt-1',
+  deviceModelId: 'dev-1',
+  deviceModelName: 'Laptop',
+  quantity: 1,
+  status: 'in-repair',
+  createdAt: new Date('2025-01-01'),
+  ...overrides,
+});
+
+const device: Device = {
+  id: 'dev-1',
+  name: 'Laptop',
+  description: 'Dell XPS',
+  count: 3,
+  inRepair: 1,
+  updatedAt: new Date('2025-01-01'),
+};
+
+describe('useMaintenance', () => {
+  const injectMock = inject as unknown as vi.Mock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    injectMock.mockReset();
+  });
+
+  it('throws when inventory services are not provided', () => {
+    injectMock.mockReturnValue(undefined);
+    expect(() => useMaintenance()).toThrow('Inventory not provided');
+  });
+
+  it('fetches records for a status', async () => {
+    const uses = {
+      listMaintenance: vi.fn().mockResolvedValue({ success: true, items: [record()], totalCount: 1 }),
+    } as unknown as InventoryUses;
+    injectMock.mockReturnValue(uses);
+
+    const maintenance = useMaintenance();
+    await maintenance.fetchRecords('in-repair');
+
+    expect(uses.listMaintenance).toHaveBeenCalledWith({ status: 'in-repair' });
+    expect(maintenance.records.value).toHaveLength(1);
+  });
+
+  it('sends units for repair and resolves them in place', async () => {
+    const uses = {
+      sendToMaintenance: vi.fn().mockResolvedValue({ success: true, item: record(), device }),
+      resolveMaintenance: vi.fn().mockResolvedValue({
+        success: true,
+        item: record({ status: 'repaired' }),
+        device: { ...device, inRepair: undefined },
+      }),
+    } as unknown as InventoryUses;
+    injectMock.mockReturnValue(uses);
+
+    const maintenance = useMaintenance();
+
+    expect(await maintenance.sendToRepair({ deviceId: 'dev-1', quantity: 1 })).toEqual(device);
+    expect(maintenance.records.value.map((r) => r.status)).toEqual(['in-repair']);
+
+    const after = await maintenance.resolve({ recordId: 'mnt-1', outcome: 'repaired' });
+    expect(after?.inRepair).toBeUndefined();
+    expect(maintenance.records.value.map((r) => r.status)).toEqual(['repaired']);
+  });
+
+  it('sets error when a use case fails', async () => {
+    const uses = {
+      sendToMaintenance: vi
+        .fn()
+        .mockResolvedValue({ success: false, errors: ['Quantity must be a positive whole number'] }),
+    } as unknown as InventoryUses;
+    injectMock.mockReturnValue(uses);
+
+    const maintenance = useMaintenance();
+    const result = await maintenance.sendToRepair({ deviceId: 'dev-1', quantity: 0 });
+
+    expect(result).toBe(null);
+    expect(maintenance.error.value).toBe('Quantity must be a positive whole number');
+  });
+});
@@ -0,0 +1,119 @@
+import { inject, ref, type Ref } from 'vue';
+import { INVENTORY_KEY, type InventoryUses } from '@/config/appServices';
+import type {
+  Device,
+  MaintenanceRecord,
+  MaintenanceStatus,
+} from '@/app/inventory-service';
+import type { SendToMaintenanceCommand } from '@/app/send-to-maintenance';
+import type { ResolveMaintenanceCommand } from '@/app/resolve-maintenance';
+import { useTelemetry } from '@/composables/useTelemetry';
+
+export type UseMaintenance = {
+  /** Newest first. */
+  readonly records: Ref<readonly MaintenanceRecord[]>;
+  readonly loading: Ref<boolean>;
+  readonly saving: Ref<boolean>;
+  readonly error: Ref<string | null>;
+  fetchRecords: (status?: MaintenanceStatus) => Promise<void>;
+  /** Resolves to the updated device, or `null` when the request failed. */
+  sendToRepair: (command: SendToMaintenanceCommand) => Promise<Device | null>;
+  /** Resolves to the updated device, or `null` when the request failed. */
+  resolve: (command: ResolveMaintenanceCommand) => Promise<Device | null>;
+};
+
+export function useMaintenance(): UseMaintenance {
+  const uses = inject<InventoryUses>(INVENTORY_KEY);
+  if (!uses) throw new Error('Inventory not provided');
+
+  const telemetry = useTelemetry();
+
+  const records = ref<readonly MaintenanceRecord[]>([]);
+  const loading = ref(false);
+  const saving = ref(false);
+  const error = ref<string | null>(null);
+
+  const fail = (e: unknown, operation: string, id?: string): void => {
+    error.value = e instanceof Error ? e.message : String(e);
+    telemetry.trackException(e instanceof Error ? e : new Error(String(e)), {
+      operation,
+      id,
+    });
+  };
+
+  const fetchRecords = async (status?: MaintenanceStatus): Promise<void> => {
+    if (loading.value) return;
+    loading.value = true;
+    error.value = null;
+    try {
+      const result = await uses.listMaintenance(status ? { status } : {});
+      if (result.success) {
+        records.value = result.items;
+      } else {
+        error.value = result.errors.join('; ');
+        records.value = [];
+      }
+    } catch (e) {
+      records.value = [];
+      fail(e, 'fetchMaintenance');
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const sendToRepair = async (
+    command: SendToMaintenanceCommand,
+  ): Promise<Device | null> => {
+    if (saving.value) return null;
+    saving.value = true;
+    error.value = null;
+    try {
+      const result = await uses.sendToMaintenance(command);
+      if (!result.success) {
+        error.value = result.errors.join('; ');
+        telemetry.trackEvent('maintenance_send_failed_ui', {
+          errors: result.errors.join('; '),
+          id: command.deviceId,
+        });
+        return null;
+      }
+      records.value = [result.item, ...records.value];
+      return result.device;
+    } catch (e) {
+      fail(e, 'sendToMaintenance', command.deviceId);
+      return null;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  const resolve = async (
+    command: ResolveMaintenanceCommand,
+  ): Promise<Device | null> => {
+    if (saving.value) return null;
+    saving.value = true;
+    error.value = null;
+    try {
+      const result = await uses.resolveMaintenance(command);
+      if (!result.success) {
+        error.value = result.errors.join('; ');
+        telemetry.trackEvent('maintenance_resolve_failed_ui', {
+          errors: result.errors.join('; '),
+          recordId: command.recordId,
+        });
+        return null;
+      }
+      records.value = records.value.map((r) =>
+        r.id === result.item.id ? result.item : r,
+      );
+      return result.device;
+    } catch (e) {
+      fail(e, 'resolveMaintenance', command.recordId);
+      return null;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  return { records, loading, saving, error, fetchRecords, sendToRepair, resolve };
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { inject } from 'vue';
+import { useOverdueLoans } from './use-overdue-loans';
+import type { ReservationUses } from '@/config/appServices';
+import type { Reservation } from '@/app/reservation-service';
+
+vi.mock('vue', async () => {
+  const actual = await vi.importActual<typeof import('vue')>('vue');
+  return {
+    ...actual,
+    inject: vi.fn(),
+  };
+});
+
+vi.mock('@/composables/useTelemetry', () => ({
+  useTelemetry: () => ({
+    trackEvent: vi.fn(),
+    trackException: vi.fn(),
+  }),
+}));
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+const loan = (overrides: Partial<Reservation> = {}): Reservation => ({
+  id: 'res-1',
+  userId: 'user-1',
+  deviceModelId: 'device-1',
+  deviceModelName: 'Laptop',
+  status: 'collected',
+  createdAt: daysAgo(10),
+  updatedAt: daysAgo(10),
+  collectedAt: daysAgo(10),
+  ...overrides,
+});
+
+describe('useOverdueLoans', () => {
+  const injectMock = inject as unknown as vi.Mock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    injectMock.mockReset();
+  });
+
+  it('throws when reservation services are not provided', () => {
+    injectMock.mockReturnValue(undefined);
+    expect(() => useOverdueLoans()).toThrow('Reservations not provided');
+  });
+
+  it('lists overdue collected reservations, longest overdue first', async () => {
+    const listReservations = vi.fn().mockResolvedValue({
+      success: true,
+      items: [
+        loan({ id: 'res-recent', dueAt: daysAgo(1) }),
+        loan({ id: 'res-old', dueAt: daysAgo(5) }),
+        loan({ id: 'res-ok', dueAt: daysAgo(-1) }),
+      ],
+      totalCount: 3,
+    });
+    injectMock.mockReturnValue({ listReservations } as unknown as ReservationUses);
+
+    const overdue = useOverdueLoans();
+    await overdue.fetchLoans();
+
+    expect(listReservations).toHaveBeenCalledWith(['collected']);
+    expect(overdue.loans.value.map((l) => l.reservation.id)).toEqual(['res-old', 'res-recent']);
+    expect(overdue.count.value).toBe(2);
+  });
+
+  it('records reminders and drops returned loans', async () => {
+    const reminded = loan({ id: 'res-1', dueAt: daysAgo(2), lastReminderAt: new Date() });
+    const uses = {
+      listReservations: vi.fn().mockResolvedValue({
+        success: true,
+        items: [loan({ id: 'res-1', dueAt: daysAgo(2) }), loan({ id: 'res-2', dueAt: daysAgo(3) })],
+        totalCount: 2,
+      }),
+      sendReturnReminders: vi.fn().mockResolvedValue({ success: true, items: [reminded] }),
+      updateReservationStatus: vi.fn().mockImplementation(async ({ reservation }) => ({
+        success: true,
+        item: { ...reservation, status: 'returned' },
+      })),
+    } as unknown as ReservationUses;
+    injectMock.mockReturnValue(uses);
+
+    const overdue = useOverdueLoans();
+    await overdue.fetchLoans();
+
+    expect(await overdue.sendReminders(['res-1'])).toBe(true);
+    expect(overdue.loans.value.find((l) => l.reservation.id === 'res-1')?.reservation).toEqual(reminded);
+
+    const returned = await overdue.markReturned(
+      overdue.loans.value.filter((l) => l.reservation.id === 'res-2').map((l) => l.reservation),
+    );
+    expect(returned.map((r) => r.id)).toEqual(['res-2']);
+    expect(uses.updateReservationStatus).toHaveBeenCalledWith({
+      reservation: expect.objectContaining({ id: 'res-2' }),
+      status: 'returned',
+    });
+    expect(overdue.loans.value.map((l) => l.reservation.id)).toEqual(['res-1']);
+  });
+
+  it('keeps going when one return fails and reports it', async () => {
+    const uses = {
+      listReservations: vi.fn().mockResolvedValue({
+        success: true,
+        items: [loan({ id: 'res-1', dueAt: daysAgo(2) }), loan({ id: 'res-2', dueAt: daysAgo(3) })],
+        totalCount: 2,
+      }),
+      updateReservationStatus: vi
+        .fn()
+        .mockResolvedValueOnce({ success: false, errors: ['Reservation res-1 not found'] })
+        .mockResolvedValueOnce({ success: true, item: loan({ id: 'res-2', status: 'returned' }) }),
+    } as unknown as ReservationUses;
+    injectMock.mockReturnValue(uses);
+
+    const overdue = useOverdueLoans();
+    await overdue.fetchLoans();
+    const onLoan = (id: string) => overdue.loans.value.find((l) => l.reservation.id === id)!.reservation;
+    const returned = await overdue.markReturned([onLoan('res-1'), onLoan('res-2')]);
+
+    expect(returned.map((r) => r.id)).toEqual(['res-2']);
+    expect(overdue.error.value).toBe('Reservation res-1 not found');
+    expect(overdue.count.value).toBe(1);
+  });
+});
@@ -0,0 +1,126 @@
+import { computed, inject, ref, type ComputedRef, type InjectionKey, type Ref } from 'vue';
+import { RESERVATION_KEY, type ReservationUses } from '@/config/appServices';
+import type { Reservation } from '@/app/reservation-service';
+import { DEFAULT_LOAN_POLICY, type LoanPolicy } from '@/app/loan-policy';
+import { findOverdueLoans, type OverdueLoan } from '@/app/overdue-loans';
+import { useTelemetry } from '@/composables/useTelemetry';
+
+export type UseOverdueLoans = {
+  /** Longest overdue first. */
+  readonly loans: ComputedRef<readonly OverdueLoan[]>;
+  readonly count: ComputedRef<number>;
+  readonly loading: Ref<boolean>;
+  readonly saving: Ref<boolean>;
+  readonly error: Ref<string | null>;
+  fetchLoans: () => Promise<void>;
+  sendReminders: (ids: readonly string[]) => Promise<boolean>;
+  /**
+   * Marks each loan returned, carrying on past failures. Resolves to the
+   * reservations that were returned; `error` names the ones that were not.
+   */
+  markReturned: (reservations: readonly Reservation[]) => Promise<Reservation[]>;
+};
+
+/** The app shell shares one instance so the nav badge follows the dashboard. */
+export const OVERDUE_LOANS_KEY: InjectionKey<UseOverdueLoans> = Symbol('OverdueLoans');
+
+export function useOverdueLoans(policy: LoanPolicy = DEFAULT_LOAN_POLICY): UseOverdueLoans {
+  const uses = inject<ReservationUses>(RESERVATION_KEY);
+  if (!uses) throw new Error('Reservations not provided');
+
+  const telemetry = useTelemetry();
+
+  const onLoan = ref<readonly Reservation[]>([]);
+  const checkedAt = ref(new Date());
+  const loading = ref(false);
+  const saving = ref(false);
+  const error = ref<string | null>(null);
+
+  const loans = computed(() => findOverdueLoans(onLoan.value, checkedAt.value, policy));
+  const count = computed(() => loans.value.length);
+
+  const fail = (e: unknown, operation: string): void => {
+    error.value = e instanceof Error ? e.message : String(e);
+    telemetry.trackException(e instanceof Error ? e : new Error(String(e)), { operation });
+  };
+
+  const fetchLoans = async (): Promise<void> => {
+    if (loading.value) return;
+    loading.value = true;
+    error.value = null;
+    try {
+      const result = await uses.listReservations(['collected']);
+      checkedAt.value = new Date();
+      if (result.success) {
+        onLoan.value = result.items;
+      } else {
+        error.value = result.errors.join('; ');
+        onLoan.value = [];
+      }
+    } catch (e) {
+      onLoan.value = [];
+      fail(e, 'fetchOverdueLoans');
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const replace = (updated: readonly Reservation[]): void => {
+    const byId = new Map(updated.map((r) => [r.id, r]));
+    onLoan.value = onLoan.value.map((r) => byId.get(r.id) ?? r);
+  };
+
+  const sendReminders = async (ids: readonly string[]): Promise<boolean> => {
+    if (saving.value) return false;
+    saving.value = true;
+    error.value = null;
+    try {
+      const result = await uses.sendReturnReminders({ ids });
+      if (!result.success) {
+        error.value = result.errors.join('; ');
+        return false;
+      }
+      replace(result.items);
+      return true;
+    } catch (e) {
+      fail(e, 'sendReturnReminders');
+      return false;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  const markReturned = async (reservations: readonly Reservation[]): Promise<Reservation[]> => {
+    if (saving.value) return [];
+    saving.value = true;
+    error.value = null;
+    const returned: Reservation[] = [];
+    const errors: string[] = [];
+    try {
+      for (const reservation of reservations) {
+        const result = await uses.updateReservationStatus({ reservation, status: 'returned' });
+        if (result.success) returned.push(result.item);
+        else errors.push(...result.errors);
+      }
+    } catch (e) {
+      fail(e, 'markOverdueReturned');
+    } finally {
+      const done = new Set(returned.map((r) => r.id));
+      onLoan.value = onLoan.value.filter((r) => !done.has(r.id));
+      if (errors.length) error.value = errors.join('; ');
+      saving.value = false;
+    }
+    return returned;
+  };
+
+  return {
+    loans,
+    count,
+    loading,
+    saving,
+    error,
+    fetchLoans,
+    sendReminders,
+    markReturned,
+  };
+}
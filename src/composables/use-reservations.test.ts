@@ -79,6 +79,10 @@ describe('useReservations', () => {
       await res.fetchItems(['reserved', 'collected']);
 
       expect(uses.listReservations).toHaveBeenCalledWith(['reserved', 'collected']);
+
+      await res.fetchItems(undefined, 'loc-a');
+
+      expect(uses.listReservations).toHaveBeenLastCalledWith(undefined, 'loc-a');
     });
 
     it('sets error when fetch fails from use case', async () => {
@@ -211,7 +215,7 @@ describe('useReservations', () => {
 
       const res = useReservations();
       await res.fetchItems(); // populate items
-      await res.updateStatus({ id: 'res-1', status: 'collected' });
+      await res.updateStatus({ reservation: reservation(), status: 'collected' });
 
       expect(res.updating.value).toBe(false);
       expect(res.items.value.find(i => i.id === 'res-1')?.status).toBe('collected');
@@ -227,7 +231,7 @@ describe('useReservations', () => {
       injectMock.mockReturnValue(uses);
 
       const res = useReservations();
-      await res.updateStatus({ id: 'res-1', status: 'collected' });
+      await res.updateStatus({ reservation: reservation(), status: 'collected' });
 
       expect(res.error.value).toBe('Invalid status');
     });
@@ -242,7 +246,7 @@ describe('useReservations', () => {
       injectMock.mockReturnValue(uses);
 
       const res = useReservations();
-      await res.updateStatus({ id: 'res-1', status: 'collected' });
+      await res.updateStatus({ reservation: reservation(), status: 'collected' });
 
       expect(res.error.value).toBe('Not found');
     });
@@ -259,12 +263,86 @@ describe('useReservations', () => {
       const res = useReservations();
       res.updating.value = true;
 
-      await res.updateStatus({ id: 'res-1', status: 'collected' });
+      await res.updateStatus({ reservation: reservation(), status: 'collected' });
 
       expect(uses.updateReservationStatus).not.toHaveBeenCalled();
     });
   });
 
+  describe('requestExtension', () => {
+    it('replaces the reservation with the one carrying the request', async () => {
+      const onLoan = reservation({ status: 'collected' });
+      const requested = reservation({
+        status: 'collected',
+        extension: { status: 'pending', requestedAt: new Date('2025-01-02'), days: 3 },
+      });
+      const uses = {
+        listReservations: vi.fn().mockResolvedValue({ success: true, items: [onLoan], totalCount: 1 }),
+        requestLoanExtension: vi.fn().mockResolvedValue({ success: true, item: requested }),
+      } as unknown as ReservationUses;
+      injectMock.mockReturnValue(uses);
+
+      const res = useReservations();
+      await res.fetchItems();
+      await res.requestExtension({ id: 'res-1', days: 3 });
+
+      expect(uses.requestLoanExtension).toHaveBeenCalledWith({ id: 'res-1', days: 3 });
+      expect(res.items.value[0]?.extension?.status).toBe('pending');
+      expect(res.updating.value).toBe(false);
+    });
+
+    it('sets error when the request is refused', async () => {
+      const uses = {
+        requestLoanExtension: vi.fn().mockResolvedValue({
+          success: false,
+          errors: ['Someone is on the waitlist for "Laptop", so this loan cannot be extended.'],
+        }),
+      } as unknown as ReservationUses;
+      injectMock.mockReturnValue(uses);
+
+      const res = useReservations();
+      await res.requestExtension({ id: 'res-1', days: 3 });
+
+      expect(res.error.value).toContain('cannot be extended');
+    });
+  });
+
+  describe('decideExtension', () => {
+    it('replaces the reservation with the decided one', async () => {
+      const pending = reservation({
+        status: 'collected',
+        extension: { status: 'pending', requestedAt: new Date('2025-01-02'), days: 3 },
+      });
+      const denied = reservation({
+        status: 'collected',
+        extension: { ...pending.extension!, status: 'denied', reason: 'Needed for a course' },
+      });
+      const uses = {
+        listReservations: vi.fn().mockResolvedValue({ success: true, items: [pending], totalCount: 1 }),
+        decideLoanExtension: vi.fn().mockResolvedValue({ success: true, item: denied }),
+      } as unknown as ReservationUses;
+      injectMock.mockReturnValue(uses);
+
+      const res = useReservations();
+      await res.fetchItems();
+      await res.decideExtension({ reservation: pending, approve: false, reason: 'Needed for a course' });
+
+      expect(res.items.value[0]?.extension).toMatchObject({ status: 'denied', reason: 'Needed for a course' });
+    });
+
+    it('sets error when deciding throws', async () => {
+      const uses = {
+        decideLoanExtension: vi.fn().mockRejectedValue(new Error('Network down')),
+      } as unknown as ReservationUses;
+      injectMock.mockReturnValue(uses);
+
+      const res = useReservations();
+      await res.decideExtension({ reservation: reservation(), approve: true });
+
+      expect(res.error.value).toBe('Network down');
+    });
+  });
+
   describe('deleteItem', () => {
     it('deletes item successfully and updates list', async () => {
       const uses: ReservationUses = {
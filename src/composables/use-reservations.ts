@@ -4,6 +4,8 @@ import type { Reservation, ReservationStatus } from '@/app/reservation-service';
 import type { CreateReservationCommand } from '@/app/create-reservation';
 import type { UpdateReservationStatusCommand } from '@/app/update-reservation-status';
 import type { DeleteReservationCommand } from '@/app/delete-reservation';
+import type { RequestLoanExtensionCommand } from '@/app/request-loan-extension';
+import type { DecideLoanExtensionCommand } from '@/app/decide-loan-extension';
 import { useTelemetry } from '@/composables/useTelemetry';
 
 export type UseReservations = {
@@ -14,10 +16,12 @@ export type UseReservations = {
   readonly deleting: Ref<boolean>;
   readonly updating: Ref<boolean>;
   readonly error: Ref<string | null>;
-  fetchItems: (statusFilter?: ReservationStatus[]) => Promise<void>;
+  fetchItems: (statusFilter?: ReservationStatus[], pickupLocationId?: string) => Promise<void>;
   createItem: (command: CreateReservationCommand) => Promise<void>;
   updateStatus: (command: UpdateReservationStatusCommand) => Promise<void>;
   deleteItem: (command: DeleteReservationCommand) => Promise<void>;
+  requestExtension: (command: RequestLoanExtensionCommand) => Promise<void>;
+  decideExtension: (command: DecideLoanExtensionCommand) => Promise<void>;
 };
 
 export function useReservations(): UseReservations {
@@ -34,12 +38,18 @@ export function useReservations(): UseReservations {
   const updating = ref(false);
   const error = ref<string | null>(null);
 
-  const fetchItems = async (statusFilter?: ReservationStatus[]): Promise<void> => {
+  const fetchItems = async (
+    statusFilter?: ReservationStatus[],
+    pickupLocationId?: string,
+  ): Promise<void> => {
     if (loading.value) return;
     loading.value = true;
     error.value = null;
     try {
-      const result = await uses.listReservations(statusFilter);
+      const result =
+        pickupLocationId !== undefined
+          ? await uses.listReservations(statusFilter, pickupLocationId)
+          : await uses.listReservations(statusFilter);
       if (result.success) {
         items.value = result.items;
         totalCount.value = result.totalCount;
@@ -100,6 +110,34 @@ export function useReservations(): UseReservations {
       } else {
         error.value = result.errors.join('; ');
         telemetry.trackEvent('reservation_update_failed_ui', {
+          errors: result.errors.join('; '),
+          id: command.reservation.id,
+        });
+      }
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : String(e);
+      telemetry.trackException(
+        e instanceof Error ? e : new Error(String(e)),
+        { operation: 'updateReservationStatus', id: command.reservation.id },
+      );
+    } finally {
+      updating.value = false;
+    }
+  };
+
+  const requestExtensionFn = async (command: RequestLoanExtensionCommand): Promise<void> => {
+    if (updating.value) return;
+    updating.value = true;
+    error.value = null;
+    try {
+      const result = await uses.requestLoanExtension(command);
+      if (result.success) {
+        items.value = items.value.map((i) =>
+          i.id === result.item.id ? result.item : i,
+        );
+      } else {
+        error.value = result.errors.join('; ');
+        telemetry.trackEvent('reservation_extension_request_failed_ui', {
           errors: result.errors.join('; '),
           id: command.id,
         });
@@ -108,7 +146,36 @@ export function useReservations(): UseReservations {
       error.value = e instanceof Error ? e.message : String(e);
       telemetry.trackException(
         e instanceof Error ? e : new Error(String(e)),
-        { operation: 'updateReservationStatus', id: command.id },
+        { operation: 'requestLoanExtension', id: command.id },
+      );
+    } finally {
+      updating.value = false;
+    }
+  };
+
+  const decideExtensionFn = async (command: DecideLoanExtensionCommand): Promise<void> => {
+    if (updating.value) return;
+    updating.value = true;
+    error.value = null;
+    try {
+      const result = await uses.decideLoanExtension(command);
+      if (result.success) {
+        items.value = items.value.map((i) =>
+          i.id === result.item.id ? result.item : i,
+        );
+      } else {
+        error.value = result.errors.join('; ');
+        telemetry.trackEvent('reservation_extension_decision_failed_ui', {
+          errors: result.errors.join('; '),
+          id: command.reservation.id,
+          approve: command.approve,
+        });
+      }
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : String(e);
+      telemetry.trackException(
+        e instanceof Error ? e : new Error(String(e)),
+        { operation: 'decideLoanExtension', id: command.reservation.id },
       );
     } finally {
       updating.value = false;
@@ -154,5 +221,7 @@ export function useReservations(): UseReservations {
     createItem: create,
     updateStatus: updateStatusFn,
     deleteItem: remove,
+    requestExtension: requestExtensionFn,
+    decideExtension: decideExtensionFn,
   };
 }
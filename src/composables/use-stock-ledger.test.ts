@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { inject } from 'vue';
+import { useStockLedger } from './use-stock-ledger';
+import type { InventoryUses } from '@/config/appServices';
+import type { Device, StockAdjustment } from '@/app/inventory-service';
+
+vi.mock('vue', async () => {
+  const actual = await vi.importActual<typeof import('vue')>('vue');
+  return {
+    ...actual,
+    inject: vi.fn(),
+  };
+});
+
+const entry = (overrides: Partial<StockAdjustment> = {}): StockAdjustment => ({
+  id: 'adj-1',
+  deviceModelId: 'dev-1',
+  delta: 2,
+  reason: 'purchased',
+  resultingCount: 2,
+  createdAt: new Date('2025-01-01'),
+  ...overrides,
+});
+
+const device: Device = {
+  id: 'dev-1',
+  name: 'Laptop',
+  description: 'Dell XPS',
+  count: 1,
+  updatedAt: new Date('2025-01-02'),
+};
+
+const makeUses = (overrides: Partial<InventoryUses> = {}): InventoryUses =>
+  ({
+    listStockAdjustments: vi.fn(),
+    adjustStock: vi.fn(),
+    ...overrides,
+  }) as unknown as InventoryUses;
+
+describe('useStockLedger', () => {
+  const injectMock = inject as unknown as vi.Mock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    injectMock.mockReset();
+  });
+
+  it('throws when inventory services are not provided', () => {
+    injectMock.mockReturnValue(undefined);
+    expect(() => useStockLedger()).toThrow('Inventory not provided');
+  });
+
+  it('fetches the history of a device', async () => {
+    const uses = makeUses({
+      listStockAdjustments: vi.fn().mockResolvedValue({ success: true, items: [entry()], totalCount: 1 }),
+    });
+    injectMock.mockReturnValue(uses);
+
+    const ledger = useStockLedger();
+    await ledger.fetchHistory('dev-1');
+
+    expect(uses.listStockAdjustments).toHaveBeenCalledWith({ id: 'dev-1' });
+    expect(ledger.entries.value).toHaveLength(1);
+  });
+
+  it('prepends a successful adjustment and returns the device', async () => {
+    const adjustment = entry({ id: 'adj-2', delta: -1, reason: 'lost', resultingCount: 1 });
+    const uses = makeUses({
+      adjustStock: vi.fn().mockResolvedValue({ success: true, item: device, adjustment }),
+    });
+    injectMock.mockReturnValue(uses);
+
+    const ledger = useStockLedger();
+    ledger.entries.value = [entry()];
+    const updated = await ledger.adjust({ id: 'dev-1', delta: -1, reason: 'lost' });
+
+    expect(updated).toEqual(device);
+    expect(ledger.entries.value.map((e) => e.id)).toEqual(['adj-2', 'adj-1']);
+  });
+
+  it('sets error and returns null when the adjustment fails', async () => {
+    const uses = makeUses({
+      adjustStock: vi.fn().mockResolvedValue({ success: false, errors: ['Lost adjustments must remove stock'] }),
+    });
+    injectMock.mockReturnValue(uses);
+
+    const ledger = useStockLedger();
+    const updated = await ledger.adjust({ id: 'dev-1', delta: 1, reason: 'lost' });
+
+    expect(updated).toBe(null);
+    expect(ledger.error.value).toBe('Lost adjustments must remove stock');
+    expect(ledger.entries.value).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+import { inject, ref, type Ref } from 'vue';
+import { INVENTORY_KEY, type InventoryUses } from '@/config/appServices';
+import type { Device, StockAdjustment } from '@/app/inventory-service';
+import type { AdjustStockCommand } from '@/app/adjust-stock';
+import { useTelemetry } from '@/composables/useTelemetry';
+
+export type UseStockLedger = {
+  /** Newest first. */
+  readonly entries: Ref<readonly StockAdjustment[]>;
+  readonly loading: Ref<boolean>;
+  readonly saving: Ref<boolean>;
+  readonly error: Ref<string | null>;
+  fetchHistory: (deviceId: string) => Promise<void>;
+  /** Resolves to the updated device, or `null` when the adjustment failed. */
+  adjust: (command: AdjustStockCommand) => Promise<Device | null>;
+};
+
+export function useStockLedger(): UseStockLedger {
+  const uses = inject<InventoryUses>(INVENTORY_KEY);
+  if (!uses) throw new Error('Inventory not provided');
+
+  const telemetry = useTelemetry();
+
+  const entries = ref<readonly StockAdjustment[]>([]);
+  const loading = ref(false);
+  const saving = ref(false);
+  const error = ref<string | null>(null);
+
+  const fetchHistory = async (deviceId: string): Promise<void> => {
+    if (loading.value) return;
+    loading.value = true;
+    error.value = null;
+    try {
+      const result = await uses.listStockAdjustments({ id: deviceId });
+      if (result.success) {
+        entries.value = result.items;
+      } else {
+        error.value = result.errors.join('; ');
+        entries.value = [];
+      }
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : String(e);
+      entries.value = [];
+      telemetry.trackException(
+        e instanceof Error ? e : new Error(String(e)),
+        { operation: 'fetchStockHistory', id: deviceId },
+      );
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const adjust = async (command: AdjustStockCommand): Promise<Device | null> => {
+    if (saving.value) return null;
+    saving.value = true;
+    error.value = null;
+    try {
+      const result = await uses.adjustStock(command);
+      if (!result.success) {
+        error.value = result.errors.join('; ');
+        telemetry.trackEvent('inventory_adjust_failed_ui', {
+          errors: result.errors.join('; '),
+          id: command.id,
+        });
+        return null;
+      }
+      entries.value = [result.adjustment, ...entries.value];
+      return result.item;
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : String(e);
+      telemetry.trackException(
+        e instanceof Error ? e : new Error(String(e)),
+        { operation: 'adjustStock', id: command.id },
+      );
+      return null;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  return { entries, loading, saving, error, fetchHistory, adjust };
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { inject } from 'vue';
+import { useWaitlist } from './use-waitlist';
+import type { ReservationUses } from '@/config/appServices';
+import type { Reservation, WaitlistEntry } from '@/app/reservation-service';
+
+vi.mock('vue', async () => {
+  const actual = await vi.importActual<typeof import('vue')>('vue');
+  return {
+    ...actual,
+    inject: vi.fn(),
+  };
+});
+
+vi.mock('@/composables/useTelemetry', () => ({
+  useTelemetry: () => ({
+    trackEvent: vi.fn(),
+    trackException: vi.fn(),
+  }),
+}));
+
+const entry = (overrides: Partial<WaitlistEntry> = {}): WaitlistEntry => ({
+  id: 'wait-1',
+  userId: 'user-1',
+  deviceModelId: 'device-1',
+  deviceModelName: 'Laptop',
+  status: 'waiting',
+  position: 1,
+  createdAt: new Date('2025-01-01'),
+  ...overrides,
+});
+
+const reservation: Reservation = {
+  id: 'res-1',
+  userId: 'user-1',
+  deviceModelId: 'device-1',
+  deviceModelName: 'Laptop',
+  status: 'reserved',
+  createdAt: new Date('2025-01-02'),
+  updatedAt: new Date('2025-01-02'),
+};
+
+describe('useWaitlist', () => {
+  const injectMock = inject as unknown as vi.Mock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    injectMock.mockReset();
+  });
+
+  it('throws when reservation services are not provided', () => {
+    injectMock.mockReturnValue(undefined);
+    expect(() => useWaitlist()).toThrow('Reservations not provided');
+  });
+
+  it('fetches entries and finds the open one for a device', async () => {
+    const uses = {
+      listWaitlist: vi.fn().mockResolvedValue({
+        success: true,
+        items: [entry({ id: 'wait-0', status: 'expired' }), entry()],
+        totalCount: 2,
+      }),
+    } as unknown as ReservationUses;
+    injectMock.mockReturnValue(uses);
+
+    const waitlist = useWaitlist();
+    await waitlist.fetchWaitlist();
+
+    expect(waitlist.entries.value).toHaveLength(2);
+    expect(waitlist.openEntryFor('device-1')?.id).toBe('wait-1');
+    expect(waitlist.openEntryFor('device-2')).toBeUndefined();
+  });
+
+  it('keeps entries in step with joining, claiming and leaving', async () => {
+    const claimed = entry({ status: 'claimed', position: undefined, reservationId: 'res-1' });
+    const uses = {
+      joinWaitlist: vi.fn().mockResolvedValue({ success: true, item: entry() }),
+      claimWaitlistOffer: vi.fn().mockResolvedValue({ success: true, item: claimed, reservation }),
+      leaveWaitlist: vi.fn().mockResolvedValue({ success: true }),
+    } as unknown as ReservationUses;
+    injectMock.mockReturnValue(uses);
+
+    const waitlist = useWaitlist();
+
+    expect(await waitlist.joinWaitlist({ deviceModelId: 'device-1', deviceModelName: 'Laptop' })).toBe(true);
+    expect(await waitlist.claimOffer(entry({ status: 'offered' }))).toEqual(reservation);
+    expect(waitlist.entries.value).toEqual([claimed]);
+    expect(await waitlist.leaveWaitlist({ id: 'wait-1' })).toBe(true);
+    expect(waitlist.entries.value).toEqual([]);
+  });
+
+  it('sets error when a use case fails', async () => {
+    const uses = {
+      claimWaitlistOffer: vi.fn().mockResolvedValue({
+        success: false,
+        errors: ['The offer for "Laptop" has expired'],
+      }),
+    } as unknown as ReservationUses;
+    injectMock.mockReturnValue(uses);
+
+    const waitlist = useWaitlist();
+
+    expect(await waitlist.claimOffer(entry({ status: 'offered' }))).toBeNull();
+    expect(waitlist.error.value).toBe('The offer for "Laptop" has expired');
+  });
+});
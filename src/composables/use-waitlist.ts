@@ -0,0 +1,139 @@
+import { inject, ref, type Ref } from 'vue';
+import { RESERVATION_KEY, type ReservationUses } from '@/config/appServices';
+import type { Reservation, WaitlistEntry } from '@/app/reservation-service';
+import type { JoinWaitlistCommand } from '@/app/join-waitlist';
+import type { LeaveWaitlistCommand } from '@/app/leave-waitlist';
+import { isOpenWaitlistEntry } from '@/app/waitlist';
+import { useTelemetry } from '@/composables/useTelemetry';
+
+export type UseWaitlist = {
+  readonly entries: Ref<readonly WaitlistEntry[]>;
+  readonly loading: Ref<boolean>;
+  readonly saving: Ref<boolean>;
+  readonly error: Ref<string | null>;
+  fetchWaitlist: (deviceModelId?: string) => Promise<void>;
+  joinWaitlist: (command: JoinWaitlistCommand) => Promise<boolean>;
+  leaveWaitlist: (command: LeaveWaitlistCommand) => Promise<boolean>;
+  /** Resolves to the reservation made from the offer, or `null` when it failed. */
+  claimOffer: (entry: WaitlistEntry) => Promise<Reservation | null>;
+  /** The waiting or offered entry for a device, if there is one. */
+  openEntryFor: (deviceModelId: string) => WaitlistEntry | undefined;
+};
+
+export function useWaitlist(): UseWaitlist {
+  const uses = inject<ReservationUses>(RESERVATION_KEY);
+  if (!uses) throw new Error('Reservations not provided');
+
+  const telemetry = useTelemetry();
+
+  const entries = ref<readonly WaitlistEntry[]>([]);
+  const loading = ref(false);
+  const saving = ref(false);
+  const error = ref<string | null>(null);
+
+  const fail = (e: unknown, operation: string, id?: string): void => {
+    error.value = e instanceof Error ? e.message : String(e);
+    telemetry.trackException(e instanceof Error ? e : new Error(String(e)), {
+      operation,
+      id,
+    });
+  };
+
+  const fetchWaitlist = async (deviceModelId?: string): Promise<void> => {
+    if (loading.value) return;
+    loading.value = true;
+    error.value = null;
+    try {
+      const result =
+        deviceModelId !== undefined
+          ? await uses.listWaitlist(deviceModelId)
+          : await uses.listWaitlist();
+      if (result.success) {
+        entries.value = result.items;
+      } else {
+        error.value = result.errors.join('; ');
+        entries.value = [];
+      }
+    } catch (e) {
+      entries.value = [];
+      fail(e, 'fetchWaitlist');
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const joinWaitlist = async (command: JoinWaitlistCommand): Promise<boolean> => {
+    if (saving.value) return false;
+    saving.value = true;
+    error.value = null;
+    try {
+      const result = await uses.joinWaitlist(command);
+      if (!result.success) {
+        error.value = result.errors.join('; ');
+        return false;
+      }
+      entries.value = [...entries.value, result.item];
+      return true;
+    } catch (e) {
+      fail(e, 'joinWaitlist', command.deviceModelId);
+      return false;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  const leaveWaitlist = async (command: LeaveWaitlistCommand): Promise<boolean> => {
+    if (saving.value) return false;
+    saving.value = true;
+    error.value = null;
+    try {
+      const result = await uses.leaveWaitlist(command);
+      if (!result.success) {
+        error.value = result.errors.join('; ');
+        return false;
+      }
+      entries.value = entries.value.filter((e) => e.id !== command.id);
+      return true;
+    } catch (e) {
+      fail(e, 'leaveWaitlist', command.id);
+      return false;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  const claimOffer = async (entry: WaitlistEntry): Promise<Reservation | null> => {
+    if (saving.value) return null;
+    saving.value = true;
+    error.value = null;
+    try {
+      const result = await uses.claimWaitlistOffer({ entry });
+      if (!result.success) {
+        error.value = result.errors.join('; ');
+        return null;
+      }
+      entries.value = entries.value.map((e) => (e.id === result.item.id ? result.item : e));
+      return result.reservation;
+    } catch (e) {
+      fail(e, 'claimWaitlistOffer', entry.id);
+      return null;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  const openEntryFor = (deviceModelId: string): WaitlistEntry | undefined =>
+    entries.value.find((e) => e.deviceModelId === deviceModelId && isOpenWaitlistEntry(e));
+
+  return {
+    entries,
+    loading,
+    saving,
+    error,
+    fetchWaitlist,
+    joinWaitlist,
+    leaveWaitlist,
+    claimOffer,
+    openEntryFor,
+  };
+}
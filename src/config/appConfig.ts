@@ -1,3 +1,5 @@
+import { parseLoanPolicy, type LoanPolicy } from '@/app/loan-policy';
+
 export interface AppConfig {
   apiBaseUrl: string;
   auth0: {
@@ -7,6 +9,8 @@ export interface AppConfig {
     rolesClaim?: string;
   };
   appInsightsConnectionString?: string;
+  /** How long collected devices may be kept. */
+  loanPolicy: LoanPolicy;
 }
 
 export function loadAppConfig(): AppConfig {
@@ -17,11 +21,17 @@ export function loadAppConfig(): AppConfig {
   const audience = env.VITE_AUTH0_AUDIENCE || undefined;
   const rolesClaim = env.VITE_AUTH0_ROLES_CLAIM || undefined;
   const appInsightsConnectionString = env.VITE_APPINSIGHTS_CONNECTION_STRING || undefined;
+  const loanPolicy = parseLoanPolicy({
+    student: env.VITE_LOAN_DAYS_STUDENT,
+    staff: env.VITE_LOAN_DAYS_STAFF,
+    overrides: env.VITE_LOAN_POLICY_OVERRIDES,
+  });
 
   return {
     apiBaseUrl,
     auth0: { domain, clientId, audience, rolesClaim },
     appInsightsConnectionString,
+    loanPolicy,
   };
 }
 
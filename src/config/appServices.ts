@@ -1,6 +1,14 @@
 import type { InventoryService } from '../app/inventory-service';
 import { listInventory } from '../app/list-inventory';
-import type { ListInventoryResult } from '../app/list-inventory';
+import type {
+  ListInventoryQuery,
+  ListInventoryResult,
+} from '../app/list-inventory';
+import { getInventoryItem } from '../app/get-inventory-item';
+import type {
+  GetInventoryItemCommand,
+  GetInventoryItemResult,
+} from '../app/get-inventory-item';
 import { addInventory } from '../app/add-inventory';
 import type {
   AddInventoryCommand,
@@ -11,14 +19,92 @@ import type {
   DeleteInventoryCommand,
   DeleteInventoryResult,
 } from '../app/delete-inventory';
+import { archiveInventory } from '../app/archive-inventory';
+import type {
+  ArchiveInventoryCommand,
+  ArchiveInventoryResult,
+} from '../app/archive-inventory';
+import { restoreInventory } from '../app/restore-inventory';
+import type {
+  RestoreInventoryCommand,
+  RestoreInventoryResult,
+} from '../app/restore-inventory';
 import { updateInventory } from '../app/update-inventory';
 import type {
   UpdateInventoryCommand,
   UpdateInventoryResult,
 } from '../app/update-inventory';
+import { listAssets } from '../app/list-assets';
+import type { ListAssetsCommand, ListAssetsResult } from '../app/list-assets';
+import { addAsset } from '../app/add-asset';
+import type { AddAssetCommand, AddAssetResult } from '../app/add-asset';
+import { updateAsset } from '../app/update-asset';
+import type { UpdateAssetCommand, UpdateAssetResult } from '../app/update-asset';
+import { deleteAsset } from '../app/delete-asset';
+import type { DeleteAssetCommand, DeleteAssetResult } from '../app/delete-asset';
+import { adjustStock } from '../app/adjust-stock';
+import type { AdjustStockCommand, AdjustStockResult } from '../app/adjust-stock';
+import { listStockAdjustments } from '../app/list-stock-adjustments';
+import type {
+  ListStockAdjustmentsCommand,
+  ListStockAdjustmentsResult,
+} from '../app/list-stock-adjustments';
+import { getDeviceHistory } from '../app/get-device-history';
+import type {
+  GetDeviceHistoryCommand,
+  GetDeviceHistoryResult,
+} from '../app/get-device-history';
+import { listMaintenance } from '../app/list-maintenance';
+import type {
+  ListMaintenanceCommand,
+  ListMaintenanceResult,
+} from '../app/list-maintenance';
+import { sendToMaintenance } from '../app/send-to-maintenance';
+import type {
+  SendToMaintenanceCommand,
+  SendToMaintenanceResult,
+} from '../app/send-to-maintenance';
+import { resolveMaintenance } from '../app/resolve-maintenance';
+import type {
+  ResolveMaintenanceCommand,
+  ResolveMaintenanceResult,
+} from '../app/resolve-maintenance';
+import { listLocations } from '../app/list-locations';
+import type { ListLocationsResult } from '../app/list-locations';
+import { listCategories } from '../app/list-categories';
+import type { ListCategoriesResult } from '../app/list-categories';
+import { addCategory } from '../app/add-category';
+import type { AddCategoryCommand, AddCategoryResult } from '../app/add-category';
+import { updateCategory } from '../app/update-category';
+import type {
+  UpdateCategoryCommand,
+  UpdateCategoryResult,
+} from '../app/update-category';
+import { deleteCategory } from '../app/delete-category';
+import type {
+  DeleteCategoryCommand,
+  DeleteCategoryResult,
+} from '../app/delete-category';
+import { listAttachments } from '../app/list-attachments';
+import type {
+  ListAttachmentsCommand,
+  ListAttachmentsResult,
+} from '../app/list-attachments';
+import { uploadAttachment } from '../app/upload-attachment';
+import type {
+  UploadAttachmentCommand,
+  UploadAttachmentResult,
+} from '../app/upload-attachment';
+import { deleteAttachment } from '../app/delete-attachment';
+import type {
+  DeleteAttachmentCommand,
+  DeleteAttachmentResult,
+} from '../app/delete-attachment';
 import { FakeInventoryService } from '../infra/fake-inventory-service';
 import { HttpInventoryService } from '../infra/http-inventory-service';
 import { seedItems } from '../seed/items';
+import { seedLocations } from '../seed/locations';
+import { seedCategories } from '../seed/categories';
 import { useTelemetry } from '../composables/useTelemetry';
 
 import type { ReservationService } from '../app/reservation-service';
@@ -35,10 +121,37 @@ import type {
   DeleteReservationResult,
 } from '../app/delete-reservation';
 import { updateReservationStatus } from '../app/update-reservation-status';
+import { DEFAULT_LOAN_POLICY, type LoanPolicy } from '../app/loan-policy';
 import type {
   UpdateReservationStatusCommand,
   UpdateReservationStatusResult,
 } from '../app/update-reservation-status';
+import { requestLoanExtension } from '../app/request-loan-extension';
+import type {
+  RequestLoanExtensionCommand,
+  RequestLoanExtensionResult,
+} from '../app/request-loan-extension';
+import { decideLoanExtension } from '../app/decide-loan-extension';
+import type {
+  DecideLoanExtensionCommand,
+  DecideLoanExtensionResult,
+} from '../app/decide-loan-extension';
+import { sendReturnReminders } from '../app/send-return-reminders';
+import type {
+  SendReturnRemindersCommand,
+  SendReturnRemindersResult,
+} from '../app/send-return-reminders';
+import { listWaitlist } from '../app/list-waitlist';
+import type { ListWaitlistResult } from '../app/list-waitlist';
+import { joinWaitlist } from '../app/join-waitlist';
+import type { JoinWaitlistCommand, JoinWaitlistResult } from '../app/join-waitlist';
+import { leaveWaitlist } from '../app/leave-waitlist';
+import type { LeaveWaitlistCommand, LeaveWaitlistResult } from '../app/leave-waitlist';
+import { claimWaitlistOffer } from '../app/claim-waitlist-offer';
+import type {
+  ClaimWaitlistOfferCommand,
+  ClaimWaitlistOfferResult,
+} from '../app/claim-waitlist-offer';
 import { HttpReservationService } from '../infra/http-reservation-service';
 
 let _inventoryService: InventoryService | undefined;
@@ -66,7 +179,10 @@ function createInventoryServiceFromEnv(
   console.log('[appServices] Creating inventory service:', { kind, baseUrl, hasAuthProvider: !!options.authTokenProvider });
 
   if (kind === 'fake') {
-    return new FakeInventoryService(useSeedData ? seedItems : []);
+    return new FakeInventoryService(
+      useSeedData ? seedItems : [],
+      useSeedData ? { locations: seedLocations, categories: seedCategories } : {},
+    );
   }
   if (kind === 'http')
     return new HttpInventoryService({
@@ -81,7 +197,10 @@ function createInventoryServiceFromEnv(
       authTokenProvider: options.authTokenProvider,
       telemetry: useTelemetry(),
     });
-  return new FakeInventoryService(useSeedData ? seedItems : []);
+  return new FakeInventoryService(
+    useSeedData ? seedItems : [],
+    useSeedData ? { locations: seedLocations, categories: seedCategories } : {},
+  );
 }
 
 export function getInventoryService(
@@ -97,9 +216,18 @@ export function setInventoryService(service: InventoryService): void {
   _inventoryService = service;
 }
 
-export function makeListInventory(): () => Promise<ListInventoryResult> {
+export function makeListInventory(): (
+  query?: ListInventoryQuery,
+) => Promise<ListInventoryResult> {
   const service = getInventoryService();
-  return () => listInventory(service);
+  return (query?: ListInventoryQuery) => listInventory(service, query);
+}
+
+export function makeGetInventoryItem(): (
+  command: GetInventoryItemCommand,
+) => Promise<GetInventoryItemResult> {
+  const service = getInventoryService();
+  return (command: GetInventoryItemCommand) => getInventoryItem(service, command);
 }
 
 export function makeAddInventory(): (
@@ -116,6 +244,20 @@ export function makeDeleteInventory(): (
   return (command: DeleteInventoryCommand) => deleteInventory(service, command);
 }
 
+export function makeArchiveInventory(): (
+  command: ArchiveInventoryCommand,
+) => Promise<ArchiveInventoryResult> {
+  const service = getInventoryService();
+  return (command: ArchiveInventoryCommand) => archiveInventory(service, command);
+}
+
+export function makeRestoreInventory(): (
+  command: RestoreInventoryCommand,
+) => Promise<RestoreInventoryResult> {
+  const service = getInventoryService();
+  return (command: RestoreInventoryCommand) => restoreInventory(service, command);
+}
+
 export function makeUpdateInventory(): (
   command: UpdateInventoryCommand,
 ) => Promise<UpdateInventoryResult> {
@@ -123,15 +265,187 @@ export function makeUpdateInventory(): (
   return (command: UpdateInventoryCommand) => updateInventory(service, command);
 }
 
+export function makeListAssets(): (
+  command: ListAssetsCommand,
+) => Promise<ListAssetsResult> {
+  const service = getInventoryService();
+  return (command: ListAssetsCommand) => listAssets(service, command);
+}
+
+export function makeAddAsset(): (
+  command: AddAssetCommand,
+) => Promise<AddAssetResult> {
+  const service = getInventoryService();
+  return (command: AddAssetCommand) => addAsset(service, command);
+}
+
+export function makeUpdateAsset(): (
+  command: UpdateAssetCommand,
+) => Promise<UpdateAssetResult> {
+  const service = getInventoryService();
+  return (command: UpdateAssetCommand) => updateAsset(service, command);
+}
+
+export function makeDeleteAsset(): (
+  command: DeleteAssetCommand,
+) => Promise<DeleteAssetResult> {
+  const service = getInventoryService();
+  return (command: DeleteAssetCommand) => deleteAsset(service, command);
+}
+
+export function makeAdjustStock(): (
+  command: AdjustStockCommand,
+) => Promise<AdjustStockResult> {
+  const service = getInventoryService();
+  return (command: AdjustStockCommand) => adjustStock(service, command);
+}
+
+export function makeListStockAdjustments(): (
+  command: ListStockAdjustmentsCommand,
+) => Promise<ListStockAdjustmentsResult> {
+  const service = getInventoryService();
+  return (command: ListStockAdjustmentsCommand) =>
+    listStockAdjustments(service, command);
+}
+
+export function makeGetDeviceHistory(): (
+  command: GetDeviceHistoryCommand,
+) => Promise<GetDeviceHistoryResult> {
+  const service = getInventoryService();
+  return (command: GetDeviceHistoryCommand) => getDeviceHistory(service, command);
+}
+
+export function makeListMaintenance(): (
+  command?: ListMaintenanceCommand,
+) => Promise<ListMaintenanceResult> {
+  const service = getInventoryService();
+  return (command?: ListMaintenanceCommand) => listMaintenance(service, command);
+}
+
+export function makeSendToMaintenance(): (
+  command: SendToMaintenanceCommand,
+) => Promise<SendToMaintenanceResult> {
+  const service = getInventoryService();
+  // Loans are looked up lazily so the reservation service can be built later.
+  return (command: SendToMaintenanceCommand) =>
+    sendToMaintenance(service, command, { reservations: getReservationService() });
+}
+
+export function makeResolveMaintenance(): (
+  command: ResolveMaintenanceCommand,
+) => Promise<ResolveMaintenanceResult> {
+  const service = getInventoryService();
+  return (command: ResolveMaintenanceCommand) => resolveMaintenance(service, command);
+}
+
+export function makeListLocations(): () => Promise<ListLocationsResult> {
+  const service = getInventoryService();
+  return () => listLocations(service);
+}
+
+export function makeListCategories(): () => Promise<ListCategoriesResult> {
+  const service = getInventoryService();
+  return () => listCategories(service);
+}
+
+export function makeAddCategory(): (
+  command: AddCategoryCommand,
+) => Promise<AddCategoryResult> {
+  const service = getInventoryService();
+  return (command: AddCategoryCommand) => addCategory(service, command);
+}
+
+export function makeUpdateCategory(): (
+  command: UpdateCategoryCommand,
+) => Promise<UpdateCategoryResult> {
+  const service = getInventoryService();
+  return (command: UpdateCategoryCommand) => updateCategory(service, command);
+}
+
+export function makeDeleteCategory(): (
+  command: DeleteCategoryCommand,
+) => Promise<DeleteCategoryResult> {
+  const service = getInventoryService();
+  return (command: DeleteCategoryCommand) => deleteCategory(service, command);
+}
+
+export function makeListAttachments(): (
+  command: ListAttachmentsCommand,
+) => Promise<ListAttachmentsResult> {
+  const service = getInventoryService();
+  return (command: ListAttachmentsCommand) => listAttachments(service, command);
+}
+
+export function makeUploadAttachment(): (
+  command: UploadAttachmentCommand,
+) => Promise<UploadAttachmentResult> {
+  const service = getInventoryService();
+  return (command: UploadAttachmentCommand) => uploadAttachment(service, command);
+}
+
+export function makeDeleteAttachment(): (
+  command: DeleteAttachmentCommand,
+) => Promise<DeleteAttachmentResult> {
+  const service = getInventoryService();
+  return (command: DeleteAttachmentCommand) => deleteAttachment(service, command);
+}
+
 export type InventoryUses = {
-  listInventory: () => Promise<ListInventoryResult>;
+  listInventory: (query?: ListInventoryQuery) => Promise<ListInventoryResult>;
+  getInventoryItem: (
+    command: GetInventoryItemCommand,
+  ) => Promise<GetInventoryItemResult>;
   addInventory: (command: AddInventoryCommand) => Promise<AddInventoryResult>;
   deleteInventory: (
     command: DeleteInventoryCommand,
   ) => Promise<DeleteInventoryResult>;
+  archiveInventory: (
+    command: ArchiveInventoryCommand,
+  ) => Promise<ArchiveInventoryResult>;
+  restoreInventory: (
+    command: RestoreInventoryCommand,
+  ) => Promise<RestoreInventoryResult>;
   updateInventory: (
     command: UpdateInventoryCommand,
   ) => Promise<UpdateInventoryResult>;
+  listAssets: (command: ListAssetsCommand) => Promise<ListAssetsResult>;
+  addAsset: (command: AddAssetCommand) => Promise<AddAssetResult>;
+  updateAsset: (command: UpdateAssetCommand) => Promise<UpdateAssetResult>;
+  deleteAsset: (command: DeleteAssetCommand) => Promise<DeleteAssetResult>;
+  adjustStock: (command: AdjustStockCommand) => Promise<AdjustStockResult>;
+  listStockAdjustments: (
+    command: ListStockAdjustmentsCommand,
+  ) => Promise<ListStockAdjustmentsResult>;
+  getDeviceHistory: (
+    command: GetDeviceHistoryCommand,
+  ) => Promise<GetDeviceHistoryResult>;
+  listMaintenance: (
+    command?: ListMaintenanceCommand,
+  ) => Promise<ListMaintenanceResult>;
+  sendToMaintenance: (
+    command: SendToMaintenanceCommand,
+  ) => Promise<SendToMaintenanceResult>;
+  resolveMaintenance: (
+    command: ResolveMaintenanceCommand,
+  ) => Promise<ResolveMaintenanceResult>;
+  listLocations: () => Promise<ListLocationsResult>;
+  listCategories: () => Promise<ListCategoriesResult>;
+  addCategory: (command: AddCategoryCommand) => Promise<AddCategoryResult>;
+  updateCategory: (
+    command: UpdateCategoryCommand,
+  ) => Promise<UpdateCategoryResult>;
+  deleteCategory: (
+    command: DeleteCategoryCommand,
+  ) => Promise<DeleteCategoryResult>;
+  listAttachments: (
+    command: ListAttachmentsCommand,
+  ) => Promise<ListAttachmentsResult>;
+  uploadAttachment: (
+    command: UploadAttachmentCommand,
+  ) => Promise<UploadAttachmentResult>;
+  deleteAttachment: (
+    command: DeleteAttachmentCommand,
+  ) => Promise<DeleteAttachmentResult>;
 };
 
 export function buildInventoryUses(
@@ -141,9 +455,30 @@ export function buildInventoryUses(
   _inventoryService = createInventoryServiceFromEnv(options);
   return {
     listInventory: makeListInventory(),
+    getInventoryItem: makeGetInventoryItem(),
     addInventory: makeAddInventory(),
     deleteInventory: makeDeleteInventory(),
+    archiveInventory: makeArchiveInventory(),
+    restoreInventory: makeRestoreInventory(),
     updateInventory: makeUpdateInventory(),
+    listAssets: makeListAssets(),
+    addAsset: makeAddAsset(),
+    updateAsset: makeUpdateAsset(),
+    deleteAsset: makeDeleteAsset(),
+    adjustStock: makeAdjustStock(),
+    listStockAdjustments: makeListStockAdjustments(),
+    getDeviceHistory: makeGetDeviceHistory(),
+    listMaintenance: makeListMaintenance(),
+    sendToMaintenance: makeSendToMaintenance(),
+    resolveMaintenance: makeResolveMaintenance(),
+    listLocations: makeListLocations(),
+    listCategories: makeListCategories(),
+    addCategory: makeAddCategory(),
+    updateCategory: makeUpdateCategory(),
+    deleteCategory: makeDeleteCategory(),
+    listAttachments: makeListAttachments(),
+    uploadAttachment: makeUploadAttachment(),
+    deleteAttachment: makeDeleteAttachment(),
   };
 }
 
@@ -158,6 +493,8 @@ export type BuildReservationUsesOptions = {
   apiBaseUrl?: string;
   /** Optional provider for an access token to add to API calls. */
   authTokenProvider?: () => Promise<string | null>;
+  /** Loan periods applied when units are collected. */
+  loanPolicy?: LoanPolicy;
 };
 
 function createReservationServiceFromEnv(
@@ -187,10 +524,12 @@ export function setReservationService(service: ReservationService): void {
 }
 
 export function makeListReservations(): (
-  statusFilter?: ReservationStatus[]
+  statusFilter?: ReservationStatus[],
+  pickupLocationId?: string,
 ) => Promise<ListReservationsResult> {
   const service = getReservationService();
-  return (statusFilter?: ReservationStatus[]) => listReservations(service, statusFilter);
+  return (statusFilter?: ReservationStatus[], pickupLocationId?: string) =>
+    listReservations(service, statusFilter, pickupLocationId);
 }
 
 export function makeCreateReservation(): (
@@ -207,20 +546,75 @@ export function makeDeleteReservation(): (
   return (command: DeleteReservationCommand) => deleteReservation(service, command);
 }
 
-export function makeUpdateReservationStatus(): (
-  command: UpdateReservationStatusCommand,
-) => Promise<UpdateReservationStatusResult> {
+export function makeUpdateReservationStatus(
+  loanPolicy: LoanPolicy = DEFAULT_LOAN_POLICY,
+): (command: UpdateReservationStatusCommand) => Promise<UpdateReservationStatusResult> {
+  const service = getReservationService();
+  // Units are looked up lazily so the inventory service can be built first.
+  return (command: UpdateReservationStatusCommand) =>
+    updateReservationStatus(service, command, { inventory: getInventoryService(), loanPolicy });
+}
+
+export function makeRequestLoanExtension(): (
+  command: RequestLoanExtensionCommand,
+) => Promise<RequestLoanExtensionResult> {
+  const service = getReservationService();
+  return (command: RequestLoanExtensionCommand) => requestLoanExtension(service, command);
+}
+
+export function makeDecideLoanExtension(): (
+  command: DecideLoanExtensionCommand,
+) => Promise<DecideLoanExtensionResult> {
+  const service = getReservationService();
+  return (command: DecideLoanExtensionCommand) => decideLoanExtension(service, command);
+}
+
+export function makeSendReturnReminders(): (
+  command: SendReturnRemindersCommand,
+) => Promise<SendReturnRemindersResult> {
+  const service = getReservationService();
+  return (command: SendReturnRemindersCommand) => sendReturnReminders(service, command);
+}
+
+export function makeListWaitlist(): (deviceModelId?: string) => Promise<ListWaitlistResult> {
+  const service = getReservationService();
+  return (deviceModelId?: string) => listWaitlist(service, deviceModelId);
+}
+
+export function makeJoinWaitlist(): (command: JoinWaitlistCommand) => Promise<JoinWaitlistResult> {
+  const service = getReservationService();
+  return (command: JoinWaitlistCommand) => joinWaitlist(service, command);
+}
+
+export function makeLeaveWaitlist(): (command: LeaveWaitlistCommand) => Promise<LeaveWaitlistResult> {
+  const service = getReservationService();
+  return (command: LeaveWaitlistCommand) => leaveWaitlist(service, command);
+}
+
+export function makeClaimWaitlistOffer(): (
+  command: ClaimWaitlistOfferCommand,
+) => Promise<ClaimWaitlistOfferResult> {
   const service = getReservationService();
-  return (command: UpdateReservationStatusCommand) => updateReservationStatus(service, command);
+  return (command: ClaimWaitlistOfferCommand) => claimWaitlistOffer(service, command);
 }
 
 export type ReservationUses = {
-  listReservations: (statusFilter?: ReservationStatus[]) => Promise<ListReservationsResult>;
+  listReservations: (
+    statusFilter?: ReservationStatus[],
+    pickupLocationId?: string,
+  ) => Promise<ListReservationsResult>;
   createReservation: (command: CreateReservationCommand) => Promise<CreateReservationResult>;
   deleteReservation: (command: DeleteReservationCommand) => Promise<DeleteReservationResult>;
   updateReservationStatus: (
     command: UpdateReservationStatusCommand,
   ) => Promise<UpdateReservationStatusResult>;
+  requestLoanExtension: (command: RequestLoanExtensionCommand) => Promise<RequestLoanExtensionResult>;
+  decideLoanExtension: (command: DecideLoanExtensionCommand) => Promise<DecideLoanExtensionResult>;
+  sendReturnReminders: (command: SendReturnRemindersCommand) => Promise<SendReturnRemindersResult>;
+  listWaitlist: (deviceModelId?: string) => Promise<ListWaitlistResult>;
+  joinWaitlist: (command: JoinWaitlistCommand) => Promise<JoinWaitlistResult>;
+  leaveWaitlist: (command: LeaveWaitlistCommand) => Promise<LeaveWaitlistResult>;
+  claimWaitlistOffer: (command: ClaimWaitlistOfferCommand) => Promise<ClaimWaitlistOfferResult>;
 };
 
 export function buildReservationUses(
@@ -232,7 +626,14 @@ export function buildReservationUses(
     listReservations: makeListReservations(),
     createReservation: makeCreateReservation(),
     deleteReservation: makeDeleteReservation(),
-    updateReservationStatus: makeUpdateReservationStatus(),
+    updateReservationStatus: makeUpdateReservationStatus(options.loanPolicy),
+    requestLoanExtension: makeRequestLoanExtension(),
+    decideLoanExtension: makeDecideLoanExtension(),
+    sendReturnReminders: makeSendReturnReminders(),
+    listWaitlist: makeListWaitlist(),
+    joinWaitlist: makeJoinWaitlist(),
+    leaveWaitlist: makeLeaveWaitlist(),
+    claimWaitlistOffer: makeClaimWaitlistOffer(),
   };
 }
 
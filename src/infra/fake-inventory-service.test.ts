@@ -1,6 +1,13 @@
 import { describe, it, expect } from 'vitest';
 import { FakeInventoryService } from './fake-inventory-service';
 import type { Device } from '@/app/inventory-service';
+import type { Reservation } from '@/app/reservation-service';
+import { FakeReservationService } from './fake-reservation-service';
+import {
+  ConcurrencyConflictError,
+  DeviceInUseError,
+  DeviceValidationError,
+} from '@/app/errors';
 
 const device = (overrides: Partial<Device> = {}): Device => ({
   id: 'dev-1',
@@ -24,6 +31,110 @@ describe('FakeInventoryService', () => {
     expect(items).not.toBe(initial);
   });
 
+  it('pages through items with a cursor', async () => {
+    const svc = new FakeInventoryService([
+      device({ id: 'dev-a' }),
+      device({ id: 'dev-b' }),
+      device({ id: 'dev-c' }),
+    ]);
+
+    const first = await svc.listInventoryItems({ limit: 2 });
+    expect(first.items.map((i) => i.id)).toEqual(['dev-a', 'dev-b']);
+    expect(first.totalCount).toBe(3);
+    expect(first.nextCursor).toBeDefined();
+
+    const second = await svc.listInventoryItems({ limit: 2, cursor: first.nextCursor });
+    expect(second.items.map((i) => i.id)).toEqual(['dev-c']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('throws on an invalid cursor', async () => {
+    const svc = new FakeInventoryService([device()]);
+    await expect(svc.listInventoryItems({ cursor: 'nope' })).rejects.toThrow(
+      'Invalid cursor nope',
+    );
+  });
+
+  it('filters by free text over name and description', async () => {
+    const svc = new FakeInventoryService([
+      device({ id: 'dev-a', name: 'DSLR Camera', description: 'Kit lens' }),
+      device({ id: 'dev-b', name: 'Tripod', description: 'Fits any camera' }),
+      device({ id: 'dev-c', name: 'Laptop', description: 'Dell XPS' }),
+    ]);
+
+    const { items, totalCount } = await svc.listInventoryItems({ search: '  CAMERA ' });
+
+    expect(items.map((i) => i.id)).toEqual(['dev-a', 'dev-b']);
+    expect(totalCount).toBe(2);
+  });
+
+  it('filters to in-stock items only', async () => {
+    const svc = new FakeInventoryService([
+      device({ id: 'dev-a', count: 0 }),
+      device({ id: 'dev-b', count: 3 }),
+    ]);
+
+    const { items } = await svc.listInventoryItems({ inStockOnly: true });
+
+    expect(items.map((i) => i.id)).toEqual(['dev-b']);
+  });
+
+  it('sorts by the requested field and direction', async () => {
+    const svc = new FakeInventoryService([
+      device({ id: 'dev-a', name: 'beta', count: 5, updatedAt: new Date('2025-01-02') }),
+      device({ id: 'dev-b', name: 'Alpha', count: 1, updatedAt: new Date('2025-01-03') }),
+      device({ id: 'dev-c', name: 'gamma', count: 9, updatedAt: new Date('2025-01-01') }),
+    ]);
+
+    const byName = await svc.listInventoryItems({ sortBy: 'name' });
+    expect(byName.items.map((i) => i.id)).toEqual(['dev-b', 'dev-a', 'dev-c']);
+
+    const byCountDesc = await svc.listInventoryItems({ sortBy: 'count', sortDirection: 'desc' });
+    expect(byCountDesc.items.map((i) => i.id)).toEqual(['dev-c', 'dev-a', 'dev-b']);
+
+    const byUpdated = await svc.listInventoryItems({ sortBy: 'updatedAt', limit: 1 });
+    expect(byUpdated.items.map((i) => i.id)).toEqual(['dev-c']);
+    expect(byUpdated.totalCount).toBe(3);
+  });
+
+  it('derives availability from active reservations when wired to them', async () => {
+    const reservations = new FakeReservationService([
+      {
+        id: 'res-1',
+        userId: 'user-1',
+        deviceModelId: 'dev-a',
+        deviceModelName: 'Laptop',
+        status: 'collected',
+        createdAt: new Date('2025-01-01'),
+        updatedAt: new Date('2025-01-01'),
+      },
+    ]);
+    const svc = new FakeInventoryService(
+      [device({ id: 'dev-a', count: 1 }), device({ id: 'dev-b', count: 2 })],
+      { reservations },
+    );
+
+    const { items } = await svc.listInventoryItems();
+    expect(items.map((i) => i.available)).toEqual([0, 2]);
+
+    const inStock = await svc.listInventoryItems({ inStockOnly: true });
+    expect(inStock.items.map((i) => i.id)).toEqual(['dev-b']);
+
+    const { item } = await svc.getInventoryItem('dev-a');
+    expect(item.available).toBe(0);
+  });
+
+  it('gets a single device, including one in the trash', async () => {
+    const svc = new FakeInventoryService([device({ id: 'dev-1' })]);
+    await svc.archiveInventoryItem('dev-1');
+
+    const { item } = await svc.getInventoryItem('dev-1');
+
+    expect(item.id).toBe('dev-1');
+    expect(item.archivedAt).toBeInstanceOf(Date);
+    await expect(svc.getInventoryItem('missing')).rejects.toThrow('Device with id missing not found');
+  });
+
   it('adds items with generated id and default count', async () => {
     const svc = new FakeInventoryService();
 
@@ -58,6 +169,30 @@ describe('FakeInventoryService', () => {
     expect(items[0]).toEqual(item);
   });
 
+  it('sets and clears the minimum stock', async () => {
+    const svc = new FakeInventoryService();
+    const { item } = await svc.addInventoryItem({ name: 'Mouse', description: 'Wireless', minStock: 2 });
+    expect(item.minStock).toBe(2);
+
+    const { item: raised } = await svc.updateInventoryItem(item.id, { minStock: 5 });
+    expect(raised.minStock).toBe(5);
+
+    const { item: cleared } = await svc.updateInventoryItem(item.id, { minStock: 0 });
+    expect(cleared).not.toHaveProperty('minStock');
+  });
+
+  it('rejects updates based on a stale version', async () => {
+    const svc = new FakeInventoryService();
+    const { item } = await svc.addInventoryItem({ name: 'Mouse', description: 'Wireless' });
+    const { item: first } = await svc.updateInventoryItem(item.id, { count: 4 }, item.version);
+
+    expect(first.version).not.toBe(item.version);
+
+    const stale = svc.updateInventoryItem(item.id, { count: 8 }, item.version);
+    await expect(stale).rejects.toBeInstanceOf(ConcurrencyConflictError);
+    await expect(stale).rejects.toMatchObject({ current: first });
+  });
+
   it('throws when updating a missing item', async () => {
     const svc = new FakeInventoryService();
     await expect(
@@ -81,4 +216,566 @@ describe('FakeInventoryService', () => {
       'Device with id nope not found',
     );
   });
+
+  describe('trash', () => {
+    it('moves devices to the trash and restores them', async () => {
+      const svc = new FakeInventoryService([device({ id: 'dev-1' }), device({ id: 'dev-2' })]);
+
+      const { item: archived } = await svc.archiveInventoryItem('dev-1');
+      expect(archived.archivedAt).toBeInstanceOf(Date);
+      expect((await svc.listInventoryItems()).items.map((i) => i.id)).toEqual(['dev-2']);
+      expect((await svc.listInventoryItems({ archived: true })).items.map((i) => i.id)).toEqual([
+        'dev-1',
+      ]);
+
+      const { item: restored } = await svc.restoreInventoryItem('dev-1');
+      expect(restored.archivedAt).toBeUndefined();
+      expect((await svc.listInventoryItems()).totalCount).toBe(2);
+      expect((await svc.getHistory('dev-1')).items.map((e) => e.action)).toEqual([
+        'restored',
+        'archived',
+      ]);
+    });
+
+    it('refuses to archive twice or restore a device that is not in the trash', async () => {
+      const svc = new FakeInventoryService([device({ id: 'dev-1' })]);
+      await expect(svc.restoreInventoryItem('dev-1')).rejects.toThrow(
+        'Device "Laptop" is not in the trash',
+      );
+      await svc.archiveInventoryItem('dev-1');
+      await expect(svc.archiveInventoryItem('dev-1')).rejects.toThrow(
+        'Device "Laptop" is already in the trash',
+      );
+    });
+
+    it('blocks permanent deletion while active reservations reference the device', async () => {
+      const reservation = {
+        id: 'res-1',
+        userId: 'user-1',
+        deviceModelId: 'dev-1',
+        deviceModelName: 'Laptop',
+        createdAt: new Date('2025-01-01'),
+        updatedAt: new Date('2025-01-01'),
+      };
+      const reservations = new FakeReservationService([
+        { ...reservation, status: 'reserved' },
+        { ...reservation, id: 'res-2', status: 'returned' },
+      ]);
+      const svc = new FakeInventoryService([device({ id: 'dev-1' })], { reservations });
+
+      const attempt = svc.deleteInventoryItem('dev-1');
+      await expect(attempt).rejects.toBeInstanceOf(DeviceInUseError);
+      await expect(attempt).rejects.toMatchObject({ activeReservations: 1 });
+
+      await reservations.updateReservationStatus('res-1', { status: 'returned' });
+      await svc.deleteInventoryItem('dev-1');
+      expect((await svc.listInventoryItems()).totalCount).toBe(0);
+    });
+  });
+
+  describe('assets', () => {
+    it('adds assets under a device with defaults', async () => {
+      const svc = new FakeInventoryService([device({ id: 'dev-1' })]);
+
+      const { item } = await svc.addAsset('dev-1', { serialNumber: 'SN-1', assetTag: 'LAP-1' });
+
+      expect(item.id).toMatch(/^ast_/);
+      expect(item.deviceModelId).toBe('dev-1');
+      expect(item.condition).toBe('good');
+      expect(item.status).toBe('available');
+
+      const { items, totalCount } = await svc.listAssets('dev-1');
+      expect(totalCount).toBe(1);
+      expect(items[0]).toEqual(item);
+    });
+
+    it('rejects duplicate serial numbers for the same device', async () => {
+      const svc = new FakeInventoryService([device({ id: 'dev-1' })]);
+      await svc.addAsset('dev-1', { serialNumber: 'SN-1', assetTag: 'LAP-1' });
+
+      await expect(
+        svc.addAsset('dev-1', { serialNumber: 'SN-1', assetTag: 'LAP-2' }),
+      ).rejects.toThrow('Asset with serial number SN-1 already exists');
+    });
+
+    it('updates and deletes assets', async () => {
+      const svc = new FakeInventoryService([device({ id: 'dev-1' })]);
+      const { item } = await svc.addAsset('dev-1', { serialNumber: 'SN-1', assetTag: 'LAP-1' });
+
+      const { item: updated } = await svc.updateAsset('dev-1', item.id, { status: 'on-loan' });
+      expect(updated.status).toBe('on-loan');
+      expect(updated.serialNumber).toBe('SN-1');
+
+      await svc.deleteAsset('dev-1', item.id);
+      const { totalCount } = await svc.listAssets('dev-1');
+      expect(totalCount).toBe(0);
+    });
+
+    it('throws for unknown devices and assets', async () => {
+      const svc = new FakeInventoryService([device({ id: 'dev-1' })]);
+
+      await expect(svc.listAssets('missing')).rejects.toThrow('Device with id missing not found');
+      await expect(svc.updateAsset('dev-1', 'ast_9', {})).rejects.toThrow(
+        'Asset with id ast_9 not found',
+      );
+    });
+  });
+
+  describe('stock ledger', () => {
+    it('applies signed adjustments and lists them newest first', async () => {
+      const svc = new FakeInventoryService([device({ id: 'dev-1', count: 2 })]);
+
+      await svc.adjustStock('dev-1', { delta: 3, reason: 'purchased' });
+      const { item, adjustment } = await svc.adjustStock('dev-1', {
+        delta: -1,
+        reason: 'lost',
+        note: 'Left on the bus',
+      });
+
+      expect(item.count).toBe(4);
+      expect(adjustment).toMatchObject({ delta: -1, reason: 'lost', note: 'Left on the bus', resultingCount: 4 });
+
+      const { items, totalCount } = await svc.listStockAdjustments('dev-1');
+      expect(totalCount).toBe(3);
+      expect(items.map((a) => a.reason)).toEqual(['lost', 'purchased', 'purchased']);
+    });
+
+    it('opens the ledger for seeded stock', async () => {
+      const svc = new FakeInventoryService([
+        device({ id: 'dev-1', count: 2 }),
+        device({ id: 'dev-2', count: 0 }),
+      ]);
+
+      expect((await svc.listStockAdjustments('dev-1')).items).toEqual([
+        expect.objectContaining({ delta: 2, reason: 'purchased', note: 'Initial stock', resultingCount: 2 }),
+      ]);
+      expect((await svc.listStockAdjustments('dev-2')).totalCount).toBe(0);
+    });
+
+    it('keeps the ledger adding up to the count', async () => {
+      const svc = new FakeInventoryService([device({ id: 'dev-1', count: 4 })]);
+      await svc.adjustStock('dev-1', { delta: 3, reason: 'purchased' });
+      await svc.adjustStock('dev-1', { delta: -1, reason: 'lost' });
+      await svc.updateInventoryItem('dev-1', { count: 5 });
+      const { item } = await svc.sendToMaintenance('dev-1', { quantity: 1 });
+      await svc.resolveMaintenance(item.id, { outcome: 'written-off' });
+
+      const { item: stored } = await svc.getInventoryItem('dev-1');
+      const { items } = await svc.listStockAdjustments('dev-1');
+
+      expect(items.reduce((sum, a) => sum + a.delta, 0)).toBe(stored.count);
+      expect(items[0]?.resultingCount).toBe(stored.count);
+    });
+
+    it('refuses to take stock below zero', async () => {
+      const svc = new FakeInventoryService([device({ id: 'dev-1', name: 'Laptop', count: 1 })]);
+
+      await expect(
+        svc.adjustStock('dev-1', { delta: -2, reason: 'written-off' }),
+      ).rejects.toThrow('Stock of "Laptop" cannot go below zero');
+    });
+
+    it('records opening stock and direct count changes', async () => {
+      const svc = new FakeInventoryService();
+      const { item } = await svc.addInventoryItem({ name: 'Mouse', description: 'Wireless', count: 3 });
+      await svc.updateInventoryItem(item.id, { count: 5 });
+
+      const { items } = await svc.listStockAdjustments(item.id);
+
+      expect(items.map((a) => [a.reason, a.delta, a.resultingCount])).toEqual([
+        ['correction', 2, 5],
+        ['purchased', 3, 3],
+      ]);
+    });
+  });
+
+  describe('maintenance', () => {
+    const oneLoan: Reservation = {
+      id: 'res-1',
+      userId: 'user-1',
+      deviceModelId: 'dev-1',
+      deviceModelName: 'Laptop',
+      status: 'collected',
+      createdAt: new Date('2025-01-01'),
+      updatedAt: new Date('2025-01-01'),
+    };
+
+    it('holds units back from reservable stock while they are repaired', async () => {
+      const svc = new FakeInventoryService([device({ id: 'dev-1', count: 3 })]);
+      const expectedReturnAt = new Date('2025-02-01');
+
+      const { item, device: sent } = await svc.sendToMaintenance('dev-1', {
+        quantity: 2,
+        note: 'Cracked screens',
+        expectedReturnAt,
+      });
+
+      expect(item).toMatchObject({
+        deviceModelName: 'Laptop',
+        quantity: 2,
+        note: 'Cracked screens',
+        expectedReturnAt,
+        status: 'in-repair',
+      });
+      expect(sent).toMatchObject({ count: 3, inRepair: 2 });
+      expect((await svc.listInventoryItems({ inStockOnly: true })).items).toHaveLength(1);
+      await expect(svc.sendToMaintenance('dev-1', { quantity: 2 })).rejects.toThrow(
+        'Only 1 unit of "Laptop" can be sent for repair',
+      );
+
+      const { item: repaired, device: back } = await svc.resolveMaintenance(item.id, {
+        outcome: 'repaired',
+      });
+      expect(repaired.status).toBe('repaired');
+      expect(repaired.resolvedAt).toBeInstanceOf(Date);
+      expect(back).not.toHaveProperty('inRepair');
+      expect(back.count).toBe(3);
+    });
+
+    it('keeps units out on loan from being sent for repair', async () => {
+      const reservations = new FakeReservationService([oneLoan]);
+      const svc = new FakeInventoryService([device({ id: 'dev-1', count: 3, inRepair: 1 })], {
+        reservations,
+      });
+
+      await expect(svc.sendToMaintenance('dev-1', { quantity: 2 })).rejects.toThrow(
+        'Only 1 unit of "Laptop" can be sent for repair',
+      );
+      await expect(svc.sendToMaintenance('dev-1', { quantity: 1 })).resolves.toBeDefined();
+    });
+
+    it('refuses a count below the units under repair or on loan', async () => {
+      const reservations = new FakeReservationService([oneLoan]);
+      const svc = new FakeInventoryService([device({ id: 'dev-1', count: 4, inRepair: 2 })], {
+        reservations,
+      });
+
+      const update = svc.updateInventoryItem('dev-1', { count: 2 });
+
+      await expect(update).rejects.toBeInstanceOf(DeviceValidationError);
+      await expect(update).rejects.toMatchObject({
+        fieldErrors: { count: 'Count cannot be less than the 3 units under repair or on loan' },
+      });
+      await expect(svc.updateInventoryItem('dev-1', { count: 3 })).resolves.toBeDefined();
+      await expect(svc.updateInventoryItem('dev-1', { name: 'Laptops' })).resolves.toBeDefined();
+    });
+
+    it('refuses to adjust stock below the units under repair or on loan', async () => {
+      const reservations = new FakeReservationService([oneLoan]);
+      const svc = new FakeInventoryService([device({ id: 'dev-1', count: 4, inRepair: 2 })], {
+        reservations,
+      });
+
+      await expect(svc.adjustStock('dev-1', { delta: -2, reason: 'lost' })).rejects.toThrow(
+        'Count cannot be less than the 3 units under repair or on loan',
+      );
+      const { item } = await svc.adjustStock('dev-1', { delta: -1, reason: 'lost' });
+      expect(item.count).toBe(3);
+    });
+
+    it('removes written-off units from stock and the ledger', async () => {
+      const svc = new FakeInventoryService([device({ id: 'dev-1', count: 3 })]);
+      const { item } = await svc.sendToMaintenance('dev-1', { quantity: 1 });
+
+      const { device: after } = await svc.resolveMaintenance(item.id, {
+        outcome: 'written-off',
+        note: 'Beyond repair',
+      });
+
+      expect(after.count).toBe(2);
+      const { items: ledger } = await svc.listStockAdjustments('dev-1');
+      expect(ledger[0]).toMatchObject({ delta: -1, reason: 'written-off', note: 'Beyond repair' });
+      await expect(svc.resolveMaintenance(item.id, { outcome: 'repaired' })).rejects.toThrow(
+        `Maintenance record ${item.id} is already closed`,
+      );
+    });
+
+    it('lists records newest first, optionally by status', async () => {
+      const svc = new FakeInventoryService([device({ id: 'dev-1', count: 5 })]);
+      const first = await svc.sendToMaintenance('dev-1', { quantity: 1 });
+      await svc.sendToMaintenance('dev-1', { quantity: 1 });
+      await svc.resolveMaintenance(first.item.id, { outcome: 'repaired' });
+
+      expect((await svc.listMaintenance()).items.map((r) => r.id)).toEqual(['mnt_2', 'mnt_1']);
+      expect((await svc.listMaintenance({ status: 'in-repair' })).items.map((r) => r.id)).toEqual([
+        'mnt_2',
+      ]);
+    });
+  });
+
+  describe('specs', () => {
+    it('stores specs, filters by a spec value and audits each change', async () => {
+      const svc = new FakeInventoryService([
+        device({ id: 'dev-1', specs: { RAM: 16, OS: 'Windows' } }),
+        device({ id: 'dev-2', specs: { RAM: 8 } }),
+      ]);
+
+      const { items } = await svc.listInventoryItems({ spec: { key: 'ram', value: '16' } });
+      expect(items.map((i) => i.id)).toEqual(['dev-1']);
+
+      const { item } = await svc.updateInventoryItem('dev-1', { specs: { RAM: 32 } });
+      expect(item.specs).toEqual({ RAM: 32 });
+      const { items: history } = await svc.getHistory('dev-1');
+      expect(history[0]!.changes).toEqual([
+        { field: 'specs.RAM', before: 16, after: 32 },
+        { field: 'specs.OS', before: 'Windows', after: null },
+      ]);
+
+      const { item: cleared } = await svc.updateInventoryItem('dev-1', { specs: {} });
+      expect(cleared).not.toHaveProperty('specs');
+    });
+  });
+
+  describe('attachments', () => {
+    it('keeps one photo per device and shows it on the device', async () => {
+      const svc = new FakeInventoryService([device({ id: 'dev-1' })]);
+
+      await svc.uploadAttachment('dev-1', {
+        kind: 'photo',
+        file: new Blob(['old'], { type: 'image/png' }),
+        fileName: 'old.png',
+      });
+      const { item, device: updated } = await svc.uploadAttachment('dev-1', {
+        kind: 'photo',
+        file: new Blob(['abc'], { type: 'image/jpeg' }),
+        fileName: 'tripod.jpg',
+      });
+
+      expect(item).toMatchObject({
+        kind: 'photo',
+        fileName: 'tripod.jpg',
+        contentType: 'image/jpeg',
+        size: 3,
+        url: 'data:image/jpeg;base64,YWJj',
+      });
+      expect(updated.imageUrl).toBe(item.url);
+      const { items } = await svc.listAttachments('dev-1');
+      expect(items.map((a) => a.fileName)).toEqual(['tripod.jpg']);
+    });
+
+    it('keeps documents alongside and clears the photo when it is deleted', async () => {
+      const svc = new FakeInventoryService([device({ id: 'dev-1' })]);
+      const { item: photo } = await svc.uploadAttachment('dev-1', {
+        kind: 'photo',
+        file: new Blob(['abc'], { type: 'image/png' }),
+        fileName: 'tripod.png',
+      });
+      await svc.uploadAttachment('dev-1', {
+        kind: 'document',
+        file: new Blob(['%PDF'], { type: 'application/pdf' }),
+        fileName: 'manual.pdf',
+      });
+
+      await svc.deleteAttachment('dev-1', photo.id);
+
+      const { items } = await svc.listAttachments('dev-1');
+      expect(items.map((a) => a.kind)).toEqual(['document']);
+      const { item } = await svc.getInventoryItem('dev-1');
+      expect(item.imageUrl).toBeUndefined();
+      await expect(svc.deleteAttachment('dev-1', photo.id)).rejects.toThrow(
+        `Attachment with id ${photo.id} not found`,
+      );
+    });
+  });
+
+  describe('categories and tags', () => {
+    const categories = [
+      { id: 'cat-laptops', name: 'Laptops' },
+      { id: 'cat-audio', name: 'Audio' },
+    ];
+
+    it('filters by category and by tag', async () => {
+      const svc = new FakeInventoryService(
+        [
+          device({ id: 'dev-1', categoryId: 'cat-laptops', tags: ['USB-C'] }),
+          device({ id: 'dev-2', categoryId: 'cat-audio', tags: ['travel'] }),
+          device({ id: 'dev-3', tags: ['usb-c', 'travel'] }),
+        ],
+        { categories },
+      );
+
+      const inCategory = await svc.listInventoryItems({ categoryId: 'cat-laptops' });
+      expect(inCategory.items.map((i) => i.id)).toEqual(['dev-1']);
+      const tagged = await svc.listInventoryItems({ tag: 'usb-c' });
+      expect(tagged.items.map((i) => i.id)).toEqual(['dev-1', 'dev-3']);
+    });
+
+    it('stores the category and tags and clears them again', async () => {
+      const svc = new FakeInventoryService([device({ id: 'dev-1' })], { categories });
+
+      const { item } = await svc.updateInventoryItem('dev-1', {
+        categoryId: 'cat-audio',
+        tags: ['travel'],
+      });
+      expect(item).toMatchObject({ categoryId: 'cat-audio', tags: ['travel'] });
+      const { items: history } = await svc.getHistory('dev-1');
+      expect(history[0]!.changes).toEqual([
+        { field: 'categoryId', before: null, after: 'cat-audio' },
+        { field: 'tags', before: null, after: 'travel' },
+      ]);
+
+      const { item: cleared } = await svc.updateInventoryItem('dev-1', { categoryId: '', tags: [] });
+      expect(cleared).not.toHaveProperty('categoryId');
+      expect(cleared).not.toHaveProperty('tags');
+
+      await expect(
+        svc.addInventoryItem({ name: 'Mic', description: 'USB mic', categoryId: 'cat-x' }),
+      ).rejects.toThrow('Category with id cat-x not found');
+    });
+
+    it('adds, renames and deletes categories, uncategorising their devices', async () => {
+      const svc = new FakeInventoryService(
+        [device({ id: 'dev-1', categoryId: 'cat-audio' })],
+        { categories },
+      );
+
+      const { item: added } = await svc.addCategory({ name: 'Cameras' });
+      expect(added).toEqual({ id: 'cat_3', name: 'Cameras' });
+      await expect(svc.addCategory({ name: 'laptops' })).rejects.toThrow(
+        'Category "laptops" already exists',
+      );
+      const { item: renamed } = await svc.updateCategory('cat-audio', { name: 'Sound' });
+      expect(renamed).toEqual({ id: 'cat-audio', name: 'Sound' });
+
+      await svc.deleteCategory('cat-audio');
+
+      const { items } = await svc.listCategories();
+      expect(items.map((c) => c.name)).toEqual(['Laptops', 'Cameras']);
+      const { item } = await svc.getInventoryItem('dev-1');
+      expect(item).not.toHaveProperty('categoryId');
+    });
+  });
+
+  describe('locations', () => {
+    const locations = [
+      { id: 'loc-a', name: 'Media Lab' },
+      { id: 'loc-b', name: 'Library' },
+    ];
+    const split = device({
+      id: 'dev-1',
+      count: 5,
+      locationStock: [
+        { locationId: 'loc-a', count: 2 },
+        { locationId: 'loc-b', count: 3 },
+      ],
+    });
+
+    it('lists the known locations', async () => {
+      const svc = new FakeInventoryService([], { locations });
+
+      expect(await svc.listLocations()).toEqual({ items: locations, totalCount: 2 });
+    });
+
+    it('filters to devices stocked at a location and counts its pickups alone', async () => {
+      const reservations = new FakeReservationService([
+        {
+          id: 'res-1',
+          userId: 'user-1',
+          deviceModelId: 'dev-1',
+          deviceModelName: 'Laptop',
+          status: 'reserved',
+          createdAt: new Date('2025-01-01'),
+          updatedAt: new Date('2025-01-01'),
+          pickupLocationId: 'loc-a',
+        },
+      ]);
+      const svc = new FakeInventoryService(
+        [split, device({ id: 'dev-2', locationStock: [{ locationId: 'loc-b', count: 2 }] })],
+        { locations, reservations },
+      );
+
+      const atA = await svc.listInventoryItems({ locationId: 'loc-a' });
+      expect(atA.items.map((i) => [i.id, i.available])).toEqual([['dev-1', 1]]);
+      const atB = await svc.listInventoryItems({ locationId: 'loc-b' });
+      expect(atB.items.map((i) => [i.id, i.available])).toEqual([
+        ['dev-1', 3],
+        ['dev-2', 2],
+      ]);
+    });
+
+    it('checks a split against the count and the known locations', async () => {
+      const svc = new FakeInventoryService([], { locations });
+
+      const { item } = await svc.addInventoryItem({
+        name: 'Camera',
+        description: 'DSLR',
+        count: 3,
+        locationStock: [
+          { locationId: 'loc-a', count: 3 },
+          { locationId: 'loc-b', count: 0 },
+        ],
+      });
+      expect(item.locationStock).toEqual([{ locationId: 'loc-a', count: 3 }]);
+
+      const overSplit = svc.updateInventoryItem(item.id, { count: 2 });
+      await expect(overSplit).rejects.toThrow(
+        'Stock of "Camera" across locations cannot exceed its count of 2',
+      );
+      await expect(overSplit).rejects.toBeInstanceOf(DeviceValidationError);
+      await expect(
+        svc.updateInventoryItem(item.id, { locationStock: [{ locationId: 'loc-x', count: 1 }] }),
+      ).rejects.toThrow('Location with id loc-x not found');
+    });
+
+    it('adjusts the stock of the location it names', async () => {
+      const svc = new FakeInventoryService([split], { locations });
+
+      const { item, adjustment } = await svc.adjustStock('dev-1', {
+        delta: -2,
+        reason: 'lost',
+        locationId: 'loc-a',
+      });
+
+      expect(item.count).toBe(3);
+      expect(item.locationStock).toEqual([{ locationId: 'loc-b', count: 3 }]);
+      expect(adjustment.locationId).toBe('loc-a');
+      await expect(
+        svc.adjustStock('dev-1', { delta: -1, reason: 'lost', locationId: 'loc-a' }),
+      ).rejects.toThrow('Only 0 unit(s) of "Laptop" are at Media Lab');
+      await expect(svc.adjustStock('dev-1', { delta: -1, reason: 'lost' })).rejects.toThrow(
+        'Choose the location whose stock of "Laptop" changes',
+      );
+    });
+
+    it('takes written-off repairs off the best-stocked location', async () => {
+      const svc = new FakeInventoryService([split], { locations });
+      const { item } = await svc.sendToMaintenance('dev-1', { quantity: 1 });
+
+      const { device: after } = await svc.resolveMaintenance(item.id, { outcome: 'written-off' });
+
+      expect(after.count).toBe(4);
+      expect(after.locationStock).toEqual([
+        { locationId: 'loc-b', count: 2 },
+        { locationId: 'loc-a', count: 2 },
+      ]);
+    });
+  });
+
+  describe('history', () => {
+    it('records who created, changed, adjusted and deleted a device', async () => {
+      const svc = new FakeInventoryService([], { actor: 'staff-7' });
+      const { item } = await svc.addInventoryItem({ name: 'Mouse', description: 'Wireless', count: 2 });
+      await svc.updateInventoryItem(item.id, { name: 'Mouse', description: 'Wireless mouse' });
+      await svc.adjustStock(item.id, { delta: -1, reason: 'lost', note: 'Left on the bus' });
+      await svc.deleteInventoryItem(item.id);
+
+      const { items, totalCount } = await svc.getHistory(item.id);
+
+      expect(totalCount).toBe(4);
+      expect(items.map((e) => e.action)).toEqual(['deleted', 'stock-adjusted', 'updated', 'created']);
+      expect(items.every((e) => e.actor === 'staff-7')).toBe(true);
+      expect(items[2].changes).toEqual([
+        { field: 'description', before: 'Wireless', after: 'Wireless mouse' },
+      ]);
+      expect(items[1]).toMatchObject({
+        changes: [{ field: 'count', before: 2, after: 1 }],
+        note: 'lost: Left on the bus',
+      });
+    });
+
+    it('throws for a device it has never seen', async () => {
+      const svc = new FakeInventoryService();
+      await expect(svc.getHistory('nope')).rejects.toThrow('Device with id nope not found');
+    });
+  });
 });
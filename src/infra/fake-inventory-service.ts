@@ -2,64 +2,742 @@ import type {
   Device,
   InventoryService,
   ListDevicesOutput,
+  ListDevicesQuery,
   AddDeviceInput,
   AddDeviceOutput,
+  DeviceSortField,
+  Asset,
+  ListAssetsOutput,
+  AddAssetInput,
+  AssetOutput,
+  StockAdjustment,
+  AdjustStockInput,
+  AdjustStockOutput,
+  ListStockAdjustmentsOutput,
+  AuditAction,
+  AuditChange,
+  AuditEntry,
+  DeviceHistoryOutput,
+  MaintenanceRecord,
+  SendToMaintenanceInput,
+  ResolveMaintenanceInput,
+  MaintenanceOutput,
+  ListMaintenanceQuery,
+  ListMaintenanceOutput,
+  Location,
+  LocationStock,
+  ListLocationsOutput,
+  Category,
+  CategoryInput,
+  CategoryOutput,
+  ListCategoriesOutput,
+  Attachment,
+  ListAttachmentsOutput,
+  UploadAttachmentInput,
+  UploadAttachmentOutput,
 } from '../app/inventory-service';
+import type { ReservationService } from '../app/reservation-service';
+import {
+  ConcurrencyConflictError,
+  DeviceInUseError,
+  DeviceValidationError,
+} from '../app/errors';
+import {
+  ACTIVE_RESERVATION_STATUSES,
+  availableUnits,
+  countActiveReservations,
+  countOnLoan,
+  repairableUnits,
+  repairLimitMessage,
+  stockAt,
+  withAvailability,
+} from '../app/availability';
+import { matchesSpec } from '../app/device-specs';
+import { hasTag } from '../app/device-tags';
+
+export type FakeInventoryServiceOptions = {
+  /** When provided, listed devices carry `available` derived from these reservations. */
+  readonly reservations?: ReservationService;
+  readonly assets?: ReadonlyArray<Asset>;
+  readonly locations?: ReadonlyArray<Location>;
+  readonly categories?: ReadonlyArray<Category>;
+  /** Recorded as the actor on audit entries. */
+  readonly actor?: string;
+};
+
+/** Device fields tracked in the audit trail, in display order. */
+const AUDITED_FIELDS = [
+  'name',
+  'description',
+  'count',
+  'minStock',
+  'inRepair',
+  'categoryId',
+] as const;
 
 export class FakeInventoryService implements InventoryService {
   private items: Device[];
   private idCounter: number;
+  private assets: Asset[];
+  private assetCounter: number;
+  private adjustments: StockAdjustment[] = [];
+  private adjustmentCounter = 0;
+  private versionCounter = 0;
+  private history: AuditEntry[] = [];
+  private auditCounter = 0;
+  private maintenance: MaintenanceRecord[] = [];
+  private maintenanceCounter = 0;
+  private readonly locations: readonly Location[];
+  private categories: Category[];
+  private categoryCounter: number;
+  private attachments: Attachment[] = [];
+  private attachmentCounter = 0;
+  private readonly actor: string;
+  private readonly reservations?: ReservationService;
 
-  constructor(initial: ReadonlyArray<Device> = []) {
+  constructor(
+    initial: ReadonlyArray<Device> = [],
+    options: FakeInventoryServiceOptions = {},
+  ) {
     this.items = [...initial];
     this.idCounter = initial.length;
+    this.assets = [...(options.assets ?? [])];
+    this.assetCounter = this.assets.length;
+    this.reservations = options.reservations;
+    this.locations = [...(options.locations ?? [])];
+    this.categories = [...(options.categories ?? [])];
+    this.categoryCounter = this.categories.length;
+    this.actor = options.actor ?? 'test-user-id';
+    // Seeded stock opens the ledger so every device's entries add up to its count.
+    for (const item of this.items) {
+      if (item.count) {
+        this.record(item.id, item.count, 'purchased', item.count, 'Initial stock');
+      }
+    }
   }
 
-  async listInventoryItems(): Promise<ListDevicesOutput> {
+  async listInventoryItems(
+    query: ListDevicesQuery = {},
+  ): Promise<ListDevicesOutput> {
+    // Cursors are plain offsets here; callers must still treat them as opaque.
+    const offset = query.cursor ? Number(query.cursor) : 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error(`Invalid cursor ${query.cursor}`);
+    }
+    const matching = applyQuery(
+      await this.withAvailability(this.items, query.locationId),
+      query,
+    );
+    const end = query.limit ? offset + query.limit : matching.length;
     return {
-      items: [...this.items],
-      totalCount: this.items.length,
+      items: matching.slice(offset, end),
+      totalCount: matching.length,
+      nextCursor: end < matching.length ? String(end) : undefined,
     };
   }
 
+  async getInventoryItem(id: string): Promise<AddDeviceOutput> {
+    const [item] = await this.withAvailability([this.requireDevice(id)]);
+    return { item: item! };
+  }
+
   async addInventoryItem(input: AddDeviceInput): Promise<AddDeviceOutput> {
+    const count = input.count ?? 1;
+    const locationStock = this.checkSplit(input.name, input.locationStock ?? [], count);
+    if (input.categoryId) this.requireCategory(input.categoryId);
     const item: Device = {
       id: this.nextId(),
       name: input.name,
       description: input.description,
-      count: input.count ?? 1,
+      count,
+      ...(input.minStock ? { minStock: input.minStock } : {}),
+      ...(locationStock.length ? { locationStock } : {}),
+      ...(input.specs && Object.keys(input.specs).length ? { specs: { ...input.specs } } : {}),
+      ...(input.categoryId ? { categoryId: input.categoryId } : {}),
+      ...(input.tags?.length ? { tags: [...input.tags] } : {}),
       updatedAt: new Date(),
+      version: this.nextVersion(),
     };
     this.items.unshift(item);
+    if (item.count) {
+      this.record(item.id, item.count, 'purchased', item.count, 'Initial stock');
+    }
+    this.audit(item.id, 'created', diffDevices(undefined, item));
     return { item };
   }
 
   async updateInventoryItem(
     id: string,
     input: Partial<AddDeviceInput>,
+    expectedVersion?: string,
   ): Promise<AddDeviceOutput> {
     const index = this.items.findIndex((item) => item.id === id);
     if (index === -1) {
       throw new Error(`Device with id ${id} not found`);
     }
     const existing = this.items[index]!;
+    // Items seeded without a version cannot be checked until their first write.
+    if (
+      expectedVersion !== undefined &&
+      existing.version !== undefined &&
+      expectedVersion !== existing.version
+    ) {
+      throw new ConcurrencyConflictError(undefined, existing);
+    }
+    const {
+      minStock: _minStock,
+      locationStock: _locationStock,
+      specs: _specs,
+      categoryId: _categoryId,
+      tags: _tags,
+      ...rest
+    } = existing;
+    const specs = input.specs ?? existing.specs ?? {};
+    const categoryId = input.categoryId ?? existing.categoryId;
+    if (input.categoryId) this.requireCategory(input.categoryId);
+    const tags = input.tags ?? existing.tags ?? [];
+    const minStock = input.minStock ?? existing.minStock;
+    const count = input.count ?? existing.count;
+    if (input.count !== undefined) await this.checkCommitted(existing, input.count);
+    const locationStock = this.checkSplit(
+      input.name ?? existing.name,
+      input.locationStock ?? existing.locationStock ?? [],
+      count ?? 0,
+    );
     const updated: Device = {
-      id: existing.id,
+      ...rest,
       name: input.name ?? existing.name,
       description: input.description ?? existing.description,
-      count: input.count ?? existing.count,
+      count,
+      ...(minStock ? { minStock } : {}),
+      ...(locationStock.length ? { locationStock } : {}),
+      ...(Object.keys(specs).length ? { specs: { ...specs } } : {}),
+      ...(categoryId ? { categoryId } : {}),
+      ...(tags.length ? { tags: [...tags] } : {}),
       updatedAt: new Date(),
+      version: this.nextVersion(),
     };
     this.items[index] = updated;
+    const delta = (updated.count ?? 0) - (existing.count ?? 0);
+    if (delta !== 0) {
+      this.record(id, delta, 'correction', updated.count ?? 0);
+    }
+    this.audit(id, 'updated', diffDevices(existing, updated));
     return { item: updated };
   }
 
+  async archiveInventoryItem(id: string): Promise<AddDeviceOutput> {
+    const existing = this.requireDevice(id);
+    if (existing.archivedAt) {
+      throw new Error(`Device "${existing.name}" is already in the trash`);
+    }
+    const now = new Date();
+    const item: Device = {
+      ...existing,
+      updatedAt: now,
+      version: this.nextVersion(),
+      archivedAt: now,
+    };
+    this.items[this.items.indexOf(existing)] = item;
+    this.audit(id, 'archived', []);
+    return { item };
+  }
+
+  async restoreInventoryItem(id: string): Promise<AddDeviceOutput> {
+    const existing = this.requireDevice(id);
+    if (!existing.archivedAt) {
+      throw new Error(`Device "${existing.name}" is not in the trash`);
+    }
+    const { archivedAt: _archivedAt, ...rest } = existing;
+    const item: Device = {
+      ...rest,
+      updatedAt: new Date(),
+      version: this.nextVersion(),
+    };
+    this.items[this.items.indexOf(existing)] = item;
+    this.audit(id, 'restored', []);
+    return { item };
+  }
+
   async deleteInventoryItem(id: string): Promise<void> {
     const index = this.items.findIndex((item) => item.id === id);
     if (index === -1) {
       throw new Error(`Device with id ${id} not found`);
     }
-    this.items.splice(index, 1);
+    if (this.reservations) {
+      const { items: active } = await this.reservations.listReservations([
+        ...ACTIVE_RESERVATION_STATUSES,
+      ]);
+      const count = countActiveReservations(active, id);
+      if (count > 0) throw new DeviceInUseError(count);
+    }
+    const [removed] = this.items.splice(index, 1);
+    this.audit(id, 'deleted', diffDevices(removed, undefined));
+  }
+
+  async listAssets(deviceId: string): Promise<ListAssetsOutput> {
+    this.requireDevice(deviceId);
+    const items = this.assets.filter((a) => a.deviceModelId === deviceId);
+    return { items, totalCount: items.length };
+  }
+
+  async addAsset(deviceId: string, input: AddAssetInput): Promise<AssetOutput> {
+    this.requireDevice(deviceId);
+    this.ensureUniqueSerial(deviceId, input.serialNumber);
+    this.assetCounter += 1;
+    const item: Asset = {
+      id: `ast_${this.assetCounter}`,
+      deviceModelId: deviceId,
+      serialNumber: input.serialNumber,
+      assetTag: input.assetTag,
+      condition: input.condition ?? 'good',
+      status: input.status ?? 'available',
+      updatedAt: new Date(),
+    };
+    this.assets.push(item);
+    return { item };
+  }
+
+  async updateAsset(
+    deviceId: string,
+    assetId: string,
+    input: Partial<AddAssetInput>,
+  ): Promise<AssetOutput> {
+    const index = this.findAssetIndex(deviceId, assetId);
+    const existing = this.assets[index]!;
+    if (
+      input.serialNumber !== undefined &&
+      input.serialNumber !== existing.serialNumber
+    ) {
+      this.ensureUniqueSerial(deviceId, input.serialNumber);
+    }
+    const updated: Asset = {
+      ...existing,
+      serialNumber: input.serialNumber ?? existing.serialNumber,
+      assetTag: input.assetTag ?? existing.assetTag,
+      condition: input.condition ?? existing.condition,
+      status: input.status ?? existing.status,
+      updatedAt: new Date(),
+    };
+    this.assets[index] = updated;
+    return { item: updated };
+  }
+
+  async deleteAsset(deviceId: string, assetId: string): Promise<void> {
+    const index = this.findAssetIndex(deviceId, assetId);
+    this.assets.splice(index, 1);
+  }
+
+  async listAttachments(deviceId: string): Promise<ListAttachmentsOutput> {
+    this.requireDevice(deviceId);
+    const items = this.attachments.filter((a) => a.deviceModelId === deviceId);
+    return { items, totalCount: items.length };
+  }
+
+  async uploadAttachment(
+    deviceId: string,
+    input: UploadAttachmentInput,
+  ): Promise<UploadAttachmentOutput> {
+    let device = this.requireDevice(deviceId);
+    this.attachmentCounter += 1;
+    const item: Attachment = {
+      id: `att_${this.attachmentCounter}`,
+      deviceModelId: deviceId,
+      kind: input.kind,
+      fileName: input.fileName,
+      contentType: input.file.type,
+      size: input.file.size,
+      url: await toDataUrl(input.file),
+      createdAt: new Date(),
+    };
+    if (input.kind === 'photo') {
+      this.attachments = this.attachments.filter(
+        (a) => !(a.deviceModelId === deviceId && a.kind === 'photo'),
+      );
+      device = this.replacePhoto(device, item.url);
+    }
+    this.attachments.push(item);
+    return { item, device };
+  }
+
+  async deleteAttachment(deviceId: string, attachmentId: string): Promise<void> {
+    const existing = this.attachments.find(
+      (a) => a.id === attachmentId && a.deviceModelId === deviceId,
+    );
+    if (!existing) {
+      throw new Error(`Attachment with id ${attachmentId} not found`);
+    }
+    this.attachments.splice(this.attachments.indexOf(existing), 1);
+    if (existing.kind === 'photo') this.replacePhoto(this.requireDevice(deviceId));
+  }
+
+  async adjustStock(
+    id: string,
+    input: AdjustStockInput,
+  ): Promise<AdjustStockOutput> {
+    const existing = this.requireDevice(id);
+    const next = (existing.count ?? 0) + input.delta;
+    if (next < 0) {
+      throw new Error(`Stock of "${existing.name}" cannot go below zero`);
+    }
+    await this.checkCommitted(existing, next);
+    const locationStock = this.adjustSplit(existing, input, next);
+    const { locationStock: _locationStock, ...rest } = existing;
+    const item: Device = {
+      ...rest,
+      count: next,
+      ...(locationStock.length ? { locationStock } : {}),
+      updatedAt: new Date(),
+      version: this.nextVersion(),
+    };
+    this.items[this.items.indexOf(existing)] = item;
+    const adjustment = this.record(
+      id,
+      input.delta,
+      input.reason,
+      next,
+      input.note,
+      input.locationId,
+    );
+    this.audit(
+      id,
+      'stock-adjusted',
+      diffDevices(existing, item),
+      input.note ? `${input.reason}: ${input.note}` : input.reason,
+    );
+    return { item, adjustment };
+  }
+
+  async getHistory(id: string): Promise<DeviceHistoryOutput> {
+    const items = this.history.filter((e) => e.deviceModelId === id).reverse();
+    if (!items.length) this.requireDevice(id);
+    return { items, totalCount: items.length };
+  }
+
+  async listLocations(): Promise<ListLocationsOutput> {
+    return { items: [...this.locations], totalCount: this.locations.length };
+  }
+
+  async listCategories(): Promise<ListCategoriesOutput> {
+    return { items: [...this.categories], totalCount: this.categories.length };
+  }
+
+  async addCategory(input: CategoryInput): Promise<CategoryOutput> {
+    this.ensureUniqueCategory(input.name);
+    this.categoryCounter += 1;
+    const item: Category = { id: `cat_${this.categoryCounter}`, name: input.name };
+    this.categories.push(item);
+    return { item };
+  }
+
+  async updateCategory(id: string, input: CategoryInput): Promise<CategoryOutput> {
+    const existing = this.requireCategory(id);
+    this.ensureUniqueCategory(input.name, id);
+    const item: Category = { ...existing, name: input.name };
+    this.categories[this.categories.indexOf(existing)] = item;
+    return { item };
+  }
+
+  async deleteCategory(id: string): Promise<void> {
+    const existing = this.requireCategory(id);
+    this.categories.splice(this.categories.indexOf(existing), 1);
+    for (const device of this.items.filter((d) => d.categoryId === id)) {
+      const { categoryId: _categoryId, ...rest } = device;
+      const updated: Device = { ...rest, updatedAt: new Date(), version: this.nextVersion() };
+      this.items[this.items.indexOf(device)] = updated;
+      this.audit(device.id, 'updated', diffDevices(device, updated), 'category deleted');
+    }
+  }
+
+  async listMaintenance(
+    query: ListMaintenanceQuery = {},
+  ): Promise<ListMaintenanceOutput> {
+    const items = this.maintenance
+      .filter((r) => !query.status || r.status === query.status)
+      .reverse();
+    return { items, totalCount: items.length };
+  }
+
+  async sendToMaintenance(
+    deviceId: string,
+    input: SendToMaintenanceInput,
+  ): Promise<MaintenanceOutput> {
+    const existing = this.requireDevice(deviceId);
+    const inRepair = existing.inRepair ?? 0;
+    const onLoan = await this.countOnLoan(deviceId);
+    if (input.quantity > repairableUnits(existing, onLoan)) {
+      throw new Error(repairLimitMessage(existing, onLoan));
+    }
+    const device = this.replaceDevice(existing, { inRepair: inRepair + input.quantity });
+    this.maintenanceCounter += 1;
+    const item: MaintenanceRecord = {
+      id: `mnt_${this.maintenanceCounter}`,
+      deviceModelId: deviceId,
+      deviceModelName: existing.name,
+      quantity: input.quantity,
+      ...(input.note ? { note: input.note } : {}),
+      ...(input.expectedReturnAt ? { expectedReturnAt: input.expectedReturnAt } : {}),
+      status: 'in-repair',
+      createdAt: new Date(),
+    };
+    this.maintenance.push(item);
+    this.audit(
+      deviceId,
+      'maintenance',
+      diffDevices(existing, device),
+      input.note ? `sent for repair: ${input.note}` : 'sent for repair',
+    );
+    return { item, device };
+  }
+
+  async resolveMaintenance(
+    recordId: string,
+    input: ResolveMaintenanceInput,
+  ): Promise<MaintenanceOutput> {
+    const index = this.maintenance.findIndex((r) => r.id === recordId);
+    if (index === -1) {
+      throw new Error(`Maintenance record with id ${recordId} not found`);
+    }
+    const record = this.maintenance[index]!;
+    if (record.status !== 'in-repair') {
+      throw new Error(`Maintenance record ${recordId} is already closed`);
+    }
+    const existing = this.requireDevice(record.deviceModelId);
+    const writtenOff = input.outcome === 'written-off';
+    const count = (existing.count ?? 0) - (writtenOff ? record.quantity : 0);
+    const device = this.replaceDevice(existing, {
+      inRepair: Math.max((existing.inRepair ?? 0) - record.quantity, 0),
+      count,
+    });
+    if (writtenOff) {
+      this.record(existing.id, -record.quantity, 'written-off', count, input.note ?? record.note);
+    }
+    const item: MaintenanceRecord = {
+      ...record,
+      status: input.outcome,
+      resolvedAt: new Date(),
+      ...(input.note ? { resolutionNote: input.note } : {}),
+    };
+    this.maintenance[index] = item;
+    this.audit(
+      existing.id,
+      'maintenance',
+      diffDevices(existing, device),
+      writtenOff ? 'written off after repair' : 'back from repair',
+    );
+    return { item, device };
+  }
+
+  private audit(
+    deviceModelId: string,
+    action: AuditAction,
+    changes: AuditChange[],
+    note?: string,
+  ): void {
+    this.auditCounter += 1;
+    this.history.push({
+      id: `aud_${this.auditCounter}`,
+      deviceModelId,
+      actor: this.actor,
+      action,
+      changes,
+      ...(note ? { note } : {}),
+      timestamp: new Date(),
+    });
+  }
+
+  async listStockAdjustments(id: string): Promise<ListStockAdjustmentsOutput> {
+    this.requireDevice(id);
+    const items = this.adjustments
+      .filter((a) => a.deviceModelId === id)
+      .reverse();
+    return { items, totalCount: items.length };
+  }
+
+  private record(
+    deviceModelId: string,
+    delta: number,
+    reason: StockAdjustment['reason'],
+    resultingCount: number,
+    note?: string,
+    locationId?: string,
+  ): StockAdjustment {
+    this.adjustmentCounter += 1;
+    const entry: StockAdjustment = {
+      id: `adj_${this.adjustmentCounter}`,
+      deviceModelId,
+      delta,
+      reason,
+      ...(note ? { note } : {}),
+      resultingCount,
+      ...(locationId ? { locationId } : {}),
+      createdAt: new Date(),
+    };
+    this.adjustments.push(entry);
+    return entry;
+  }
+
+  /**
+   * Stores a copy of a device with a new photo, or none without `imageUrl`.
+   * The photo is not edited through the device form, so the version stays.
+   */
+  private replacePhoto(existing: Device, imageUrl?: string): Device {
+    const { imageUrl: _imageUrl, ...rest } = existing;
+    const device: Device = { ...rest, ...(imageUrl ? { imageUrl } : {}) };
+    this.items[this.items.indexOf(existing)] = device;
+    return device;
+  }
+
+  /** Stores a changed copy of a device; `inRepair: 0` drops the field. */
+  private replaceDevice(
+    existing: Device,
+    changes: { inRepair: number; count?: number },
+  ): Device {
+    const { inRepair: _inRepair, locationStock: _locationStock, ...rest } = existing;
+    const locationStock = trimSplit(
+      existing.locationStock ?? [],
+      changes.count ?? existing.count ?? 0,
+    );
+    const device: Device = {
+      ...rest,
+      ...(changes.count !== undefined ? { count: changes.count } : {}),
+      ...(changes.inRepair ? { inRepair: changes.inRepair } : {}),
+      ...(locationStock.length ? { locationStock } : {}),
+      updatedAt: new Date(),
+      version: this.nextVersion(),
+    };
+    this.items[this.items.indexOf(existing)] = device;
+    return device;
+  }
+
+  /**
+   * Checks a split across locations against the known locations and the
+   * total count, and drops empty entries.
+   */
+  private checkSplit(
+    name: string,
+    split: readonly LocationStock[],
+    count: number,
+  ): LocationStock[] {
+    for (const entry of split) this.requireLocation(entry.locationId);
+    const assigned = split.reduce((sum, s) => sum + s.count, 0);
+    if (assigned > count) {
+      throw new DeviceValidationError({
+        locationStock: `Stock of "${name}" across locations cannot exceed its count of ${count}`,
+      });
+    }
+    return split.filter((s) => s.count > 0);
+  }
+
+  /** Applies a stock adjustment to the location it names, if any. */
+  private adjustSplit(
+    existing: Device,
+    input: AdjustStockInput,
+    next: number,
+  ): LocationStock[] {
+    const split = existing.locationStock ?? [];
+    if (!input.locationId) {
+      const assigned = split.reduce((sum, s) => sum + s.count, 0);
+      if (next < assigned) {
+        throw new Error(
+          `Choose the location whose stock of "${existing.name}" changes`,
+        );
+      }
+      return [...split];
+    }
+    const location = this.requireLocation(input.locationId);
+    const here = stockAt(existing, location.id) + input.delta;
+    if (here < 0) {
+      throw new Error(
+        `Only ${here - input.delta} unit(s) of "${existing.name}" are at ${location.name}`,
+      );
+    }
+    const others = split.filter((s) => s.locationId !== location.id);
+    return here > 0 ? [...others, { locationId: location.id, count: here }] : others;
+  }
+
+  private requireLocation(id: string): Location {
+    const location = this.locations.find((l) => l.id === id);
+    if (!location) {
+      throw new Error(`Location with id ${id} not found`);
+    }
+    return location;
+  }
+
+  private requireCategory(id: string): Category {
+    const category = this.categories.find((c) => c.id === id);
+    if (!category) {
+      throw new Error(`Category with id ${id} not found`);
+    }
+    return category;
+  }
+
+  private ensureUniqueCategory(name: string, exceptId?: string): void {
+    const clash = this.categories.some(
+      (c) => c.id !== exceptId && c.name.toLowerCase() === name.toLowerCase(),
+    );
+    if (clash) {
+      throw new Error(`Category "${name}" already exists`);
+    }
+  }
+
+  private requireDevice(id: string): Device {
+    const device = this.items.find((item) => item.id === id);
+    if (!device) {
+      throw new Error(`Device with id ${id} not found`);
+    }
+    return device;
+  }
+
+  private findAssetIndex(deviceId: string, assetId: string): number {
+    const index = this.assets.findIndex(
+      (a) => a.id === assetId && a.deviceModelId === deviceId,
+    );
+    if (index === -1) {
+      throw new Error(`Asset with id ${assetId} not found`);
+    }
+    return index;
+  }
+
+  private ensureUniqueSerial(deviceId: string, serialNumber: string): void {
+    const clash = this.assets.some(
+      (a) => a.deviceModelId === deviceId && a.serialNumber === serialNumber,
+    );
+    if (clash) {
+      throw new Error(`Asset with serial number ${serialNumber} already exists`);
+    }
+  }
+
+  private async withAvailability(
+    items: Device[],
+    locationId?: string,
+  ): Promise<Device[]> {
+    if (!this.reservations) return items;
+    const { items: active } = await this.reservations.listReservations([
+      ...ACTIVE_RESERVATION_STATUSES,
+    ]);
+    return items.map((item) => withAvailability(item, active, locationId));
+  }
+
+  /** Refuses a count that would leave fewer units than are under repair or on loan. */
+  private async checkCommitted(existing: Device, count: number): Promise<void> {
+    const committed = (existing.inRepair ?? 0) + (await this.countOnLoan(existing.id));
+    if (count < committed) {
+      throw new DeviceValidationError({
+        count: `Count cannot be less than the ${committed} units under repair or on loan`,
+      });
+    }
+  }
+
+  private async countOnLoan(deviceId: string): Promise<number> {
+    if (!this.reservations) return 0;
+    const { items } = await this.reservations.listReservations(['collected']);
+    return countOnLoan(items, deviceId);
+  }
+
+  private nextVersion(): string {
+    this.versionCounter += 1;
+    return `v${this.versionCounter}`;
   }
 
   private nextId(): string {
@@ -67,3 +745,87 @@ export class FakeInventoryService implements InventoryService {
     return `dev_${this.idCounter}`;
   }
 }
+
+function applyQuery(
+  items: readonly Device[],
+  query: ListDevicesQuery,
+): Device[] {
+  const term = query.search?.trim().toLowerCase();
+  let result = items.filter((item) => {
+    if (Boolean(query.archived) !== Boolean(item.archivedAt)) return false;
+    if (query.locationId && stockAt(item, query.locationId) <= 0) return false;
+    if (query.inStockOnly && (availableUnits(item) ?? 0) <= 0) return false;
+    if (query.spec && !matchesSpec(item, query.spec)) return false;
+    if (query.categoryId && item.categoryId !== query.categoryId) return false;
+    if (query.tag && !hasTag(item, query.tag)) return false;
+    if (!term) return true;
+    return (
+      item.name.toLowerCase().includes(term) ||
+      item.description.toLowerCase().includes(term)
+    );
+  });
+  if (query.sortBy) {
+    const sortBy = query.sortBy;
+    const direction = query.sortDirection === 'desc' ? -1 : 1;
+    result = result.sort((a, b) => direction * compareBy(sortBy, a, b));
+  }
+  return result;
+}
+
+function compareBy(field: DeviceSortField, a: Device, b: Device): number {
+  switch (field) {
+    case 'name':
+      return a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+    case 'count':
+      return (a.count ?? 0) - (b.count ?? 0);
+    case 'updatedAt':
+      return a.updatedAt.getTime() - b.updatedAt.getTime();
+  }
+}
+
+function diffDevices(before?: Device, after?: Device): AuditChange[] {
+  const changes: AuditChange[] = [];
+  for (const field of AUDITED_FIELDS) {
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (from !== to) changes.push({ field, before: from, after: to });
+  }
+  const specKeys = new Set([
+    ...Object.keys(before?.specs ?? {}),
+    ...Object.keys(after?.specs ?? {}),
+  ]);
+  for (const key of specKeys) {
+    const from = before?.specs?.[key] ?? null;
+    const to = after?.specs?.[key] ?? null;
+    if (from !== to) changes.push({ field: `specs.${key}`, before: from, after: to });
+  }
+  const tagsBefore = before?.tags?.join(', ') || null;
+  const tagsAfter = after?.tags?.join(', ') || null;
+  if (tagsBefore !== tagsAfter) changes.push({ field: 'tags', before: tagsBefore, after: tagsAfter });
+  return changes;
+}
+
+/** Keeps uploads in memory; the browser shows data URLs like any other address. */
+async function toDataUrl(file: Blob): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return `data:${file.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+}
+
+/**
+ * Repairs do not track locations, so units written off after one are taken
+ * from the best-stocked locations once the split would exceed the count.
+ */
+function trimSplit(split: readonly LocationStock[], count: number): LocationStock[] {
+  let excess = split.reduce((sum, s) => sum + s.count, 0) - count;
+  if (excess <= 0) return [...split];
+  return [...split]
+    .sort((a, b) => b.count - a.count)
+    .map((s) => {
+      const taken = Math.min(s.count, excess);
+      excess -= taken;
+      return { ...s, count: s.count - taken };
+    })
+    .filter((s) => s.count > 0);
+}
@@ -1,6 +1,8 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { FakeReservationService } from './fake-reservation-service';
-import type { Reservation } from '../app/reservation-service';
+import type { Reservation, WaitlistEntry } from '../app/reservation-service';
+import { FakeInventoryService } from './fake-inventory-service';
+import { addDays, startOfDay, toIsoDate } from '../app/calendar-date';
 
 const createTestReservation = (overrides: Partial<Reservation> = {}): Reservation => ({
   id: 'res-1',
@@ -13,6 +15,16 @@ const createTestReservation = (overrides: Partial<Reservation> = {}): Reservatio
   ...overrides,
 });
 
+const createTestEntry = (overrides: Partial<WaitlistEntry> = {}): WaitlistEntry => ({
+  id: 'wait-1',
+  userId: 'user-2',
+  deviceModelId: 'device-1',
+  deviceModelName: 'Laptop',
+  status: 'waiting',
+  createdAt: new Date('2025-01-01'),
+  ...overrides,
+});
+
 describe('FakeReservationService', () => {
   describe('listReservations', () => {
     it('should return all reservations when no filter provided', async () => {
@@ -42,6 +54,19 @@ describe('FakeReservationService', () => {
       expect(result.items.map(r => r.status).sort()).toEqual(['collected', 'reserved']);
     });
 
+    it('should filter by pickup location when provided', async () => {
+      const reservations = [
+        createTestReservation({ id: 'res-1', pickupLocationId: 'loc-a' }),
+        createTestReservation({ id: 'res-2', pickupLocationId: 'loc-b' }),
+        createTestReservation({ id: 'res-3' }),
+      ];
+      const service = new FakeReservationService(reservations);
+
+      const result = await service.listReservations(undefined, 'loc-a');
+
+      expect(result.items.map(r => r.id)).toEqual(['res-1']);
+    });
+
     it('should return empty array when no reservations', async () => {
       const service = new FakeReservationService([]);
 
@@ -78,6 +103,104 @@ describe('FakeReservationService', () => {
       const list = await service.listReservations();
       expect(list.items).toHaveLength(1);
     });
+
+    it('should refuse when every unit is already reserved or collected', async () => {
+      const inventory = new FakeInventoryService([
+        { id: 'device-1', name: 'Laptop', description: 'Dell XPS', count: 2, updatedAt: new Date('2025-01-01') },
+      ]);
+      const service = new FakeReservationService(
+        [
+          createTestReservation({ id: 'res-1', status: 'reserved' }),
+          createTestReservation({ id: 'res-2', status: 'collected' }),
+          createTestReservation({ id: 'res-3', status: 'returned' }),
+        ],
+        { inventory },
+      );
+
+      await expect(
+        service.createReservation({ deviceModelId: 'device-1', deviceModelName: 'Laptop' })
+      ).rejects.toThrow('No units of "Laptop" are available');
+    });
+
+    it('should allow reservations while units remain', async () => {
+      const inventory = new FakeInventoryService([
+        { id: 'device-1', name: 'Laptop', description: 'Dell XPS', count: 2, updatedAt: new Date('2025-01-01') },
+      ]);
+      const service = new FakeReservationService(
+        [createTestReservation({ id: 'res-1', status: 'reserved' })],
+        { inventory },
+      );
+
+      const result = await service.createReservation({ deviceModelId: 'device-1', deviceModelName: 'Laptop' });
+
+      expect(result.item.status).toBe('reserved');
+    });
+
+    it('should refuse bookings that overlap when every unit is taken', async () => {
+      const inventory = new FakeInventoryService([
+        { id: 'device-1', name: 'Projector', description: 'Epson', count: 1, updatedAt: new Date('2025-01-01') },
+      ]);
+      const service = new FakeReservationService([], { inventory });
+      const today = startOfDay(new Date());
+      const book = (from: number, to: number) =>
+        service.createReservation({
+          deviceModelId: 'device-1',
+          deviceModelName: 'Projector',
+          startDate: addDays(today, from),
+          endDate: addDays(today, to),
+        });
+
+      const { item } = await book(7, 8);
+      expect(item).toMatchObject({ startDate: addDays(today, 7), endDate: addDays(today, 8) });
+      await expect(book(8, 9)).rejects.toThrow(
+        `No units of "Projector" are available from ${toIsoDate(addDays(today, 8))} to ${toIsoDate(addDays(today, 9))}`,
+      );
+      // The days around the booking are still free.
+      await book(9, 10);
+      await book(1, 6);
+      // Without dates the projector would be kept until returned, running into the bookings.
+      await expect(
+        service.createReservation({ deviceModelId: 'device-1', deviceModelName: 'Projector' }),
+      ).rejects.toThrow('No units of "Projector" are available');
+    });
+
+    it('should take units from the chosen pickup location', async () => {
+      const inventory = new FakeInventoryService(
+        [
+          {
+            id: 'device-1',
+            name: 'Laptop',
+            description: 'Dell XPS',
+            count: 3,
+            updatedAt: new Date('2025-01-01'),
+            locationStock: [
+              { locationId: 'loc-a', count: 1 },
+              { locationId: 'loc-b', count: 2 },
+            ],
+          },
+        ],
+        { locations: [{ id: 'loc-a', name: 'Media Lab' }, { id: 'loc-b', name: 'Library' }] },
+      );
+      const service = new FakeReservationService(
+        [createTestReservation({ id: 'res-1', pickupLocationId: 'loc-a' })],
+        { inventory },
+      );
+
+      await expect(
+        service.createReservation({ deviceModelId: 'device-1', deviceModelName: 'Laptop', pickupLocationId: 'loc-a' })
+      ).rejects.toThrow('No units of "Laptop" are available at Media Lab');
+      await expect(
+        service.createReservation({ deviceModelId: 'device-1', deviceModelName: 'Laptop', pickupLocationId: 'loc-x' })
+      ).rejects.toThrow('Pickup location loc-x not found');
+
+      const result = await service.createReservation({
+        deviceModelId: 'device-1',
+        deviceModelName: 'Laptop',
+        pickupLocationId: 'loc-b',
+      });
+
+      expect(result.item.pickupLocationId).toBe('loc-b');
+    });
   });
 
   describe('updateReservationStatus', () => {
@@ -92,6 +215,29 @@ describe('FakeReservationService', () => {
       expect(result.item.collectedAt).toBeDefined();
     });
 
+    it('should store the due date given at collection and keep it on return', async () => {
+      const service = new FakeReservationService([
+        createTestReservation({ id: 'res-1', status: 'reserved' }),
+      ]);
+      const dueAt = new Date('2025-01-03T10:00:00Z');
+
+      await service.updateReservationStatus('res-1', { status: 'collected', dueAt });
+      const result = await service.updateReservationStatus('res-1', { status: 'returned' });
+
+      expect(result.item.dueAt).toEqual(dueAt);
+    });
+
+    it('should record the unit handed over and keep it on return', async () => {
+      const service = new FakeReservationService([
+        createTestReservation({ id: 'res-1', status: 'reserved' }),
+      ]);
+
+      await service.updateReservationStatus('res-1', { status: 'collected', assetId: 'ast_1' });
+      const result = await service.updateReservationStatus('res-1', { status: 'returned' });
+
+      expect(result.item.assetId).toBe('ast_1');
+    });
+
     it('should update status to returned', async () => {
       const service = new FakeReservationService([
         createTestReservation({ id: 'res-1', status: 'collected' }),
@@ -132,4 +278,220 @@ describe('FakeReservationService', () => {
       );
     });
   });
+
+  describe('sendReturnReminders', () => {
+    it('should record when each borrower was reminded', async () => {
+      const service = new FakeReservationService([
+        createTestReservation({ id: 'res-1', status: 'collected' }),
+        createTestReservation({ id: 'res-2', status: 'collected' }),
+      ]);
+
+      const { items } = await service.sendReturnReminders(['res-1']);
+
+      expect(items.map((r) => r.id)).toEqual(['res-1']);
+      expect(items[0]!.lastReminderAt).toBeInstanceOf(Date);
+      const list = await service.listReservations();
+      expect(list.items.find((r) => r.id === 'res-2')!.lastReminderAt).toBeUndefined();
+    });
+
+    it('should refuse reservations that are not on loan, reminding nobody', async () => {
+      const service = new FakeReservationService([
+        createTestReservation({ id: 'res-1', status: 'collected' }),
+        createTestReservation({ id: 'res-2', status: 'returned' }),
+      ]);
+
+      await expect(service.sendReturnReminders(['res-1', 'res-2'])).rejects.toThrow(
+        'Reservation res-2 is not on loan',
+      );
+      const list = await service.listReservations();
+      expect(list.items.every((r) => r.lastReminderAt === undefined)).toBe(true);
+    });
+  });
+
+  describe('extensions', () => {
+    const onLoan = () =>
+      createTestReservation({
+        id: 'res-1',
+        status: 'collected',
+        dueAt: new Date(2025, 0, 3, 10, 0),
+      });
+
+    it('should move the due date when an extension is approved', async () => {
+      const service = new FakeReservationService([onLoan()]);
+
+      const requested = await service.requestExtension('res-1', { days: 3, note: 'Exam week' });
+      expect(requested.item.extension).toMatchObject({ status: 'pending', days: 3, note: 'Exam week' });
+      await expect(service.requestExtension('res-1', { days: 1 })).rejects.toThrow(
+        'An extension for reservation res-1 is already pending',
+      );
+
+      const { item } = await service.decideExtension('res-1', { approve: true });
+
+      expect(item.dueAt).toEqual(new Date(2025, 0, 6, 10, 0));
+      expect(item.extension).toMatchObject({ status: 'approved', days: 3 });
+      expect(item.extension!.decidedAt).toBeInstanceOf(Date);
+    });
+
+    it('should keep the due date and record the reason when denied', async () => {
+      const service = new FakeReservationService([onLoan()]);
+      await service.requestExtension('res-1', { days: 3 });
+
+      await expect(service.decideExtension('res-1', { approve: false })).rejects.toThrow(
+        'A reason is required to deny an extension',
+      );
+      const { item } = await service.decideExtension('res-1', {
+        approve: false,
+        reason: 'Booked by a class next week',
+      });
+
+      expect(item.dueAt).toEqual(new Date(2025, 0, 3, 10, 0));
+      expect(item.extension).toMatchObject({ status: 'denied', reason: 'Booked by a class next week' });
+      await expect(service.decideExtension('res-1', { approve: true })).rejects.toThrow(
+        'Reservation res-1 has no pending extension request',
+      );
+    });
+
+    it('should refuse extensions on loans that are not collected', async () => {
+      const service = new FakeReservationService([createTestReservation({ id: 'res-1' })]);
+
+      await expect(service.requestExtension('res-1', { days: 2 })).rejects.toThrow(
+        'Reservation res-1 is not on loan',
+      );
+    });
+
+    it('should block extensions while someone is waitlisted for the device', async () => {
+      const service = new FakeReservationService([onLoan()], {
+        waitlist: [createTestEntry({ id: 'wait-a' })],
+      });
+
+      await expect(service.requestExtension('res-1', { days: 2 })).rejects.toThrow(
+        'Someone is on the waitlist for "Laptop", so this loan cannot be extended.',
+      );
+    });
+
+    it('should refuse to approve once someone joins the waitlist, but allow denying', async () => {
+      const service = new FakeReservationService([onLoan()]);
+      await service.requestExtension('res-1', { days: 2 });
+      await service.joinWaitlist({ deviceModelId: 'device-1', deviceModelName: 'Laptop' });
+
+      await expect(service.decideExtension('res-1', { approve: true })).rejects.toThrow(
+        'so this loan cannot be extended',
+      );
+      const { item } = await service.decideExtension('res-1', {
+        approve: false,
+        reason: 'Someone is waiting for it',
+      });
+      expect(item.extension!.status).toBe('denied');
+    });
+  });
+
+  describe('waitlist', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const singleLaptop = () =>
+      new FakeInventoryService([
+        { id: 'device-1', name: 'Laptop', description: 'Dell XPS', count: 1, updatedAt: new Date('2025-01-01') },
+      ]);
+
+    it('should queue entries first come, first served', async () => {
+      const service = new FakeReservationService([], {
+        waitlist: [createTestEntry({ id: 'wait-a', createdAt: new Date('2025-01-01') })],
+      });
+
+      const { item } = await service.joinWaitlist({ deviceModelId: 'device-1', deviceModelName: 'Laptop' });
+
+      expect(item).toMatchObject({ userId: 'test-user-id', status: 'waiting', position: 2 });
+      await expect(
+        service.joinWaitlist({ deviceModelId: 'device-1', deviceModelName: 'Laptop' }),
+      ).rejects.toThrow('You are already on the waitlist for "Laptop"');
+    });
+
+    it('should offer a returned unit to the next in line and hold it for them', async () => {
+      const service = new FakeReservationService(
+        [createTestReservation({ id: 'res-1', status: 'collected' })],
+        {
+          inventory: singleLaptop(),
+          waitlist: [
+            createTestEntry({ id: 'wait-1', createdAt: new Date('2025-01-01') }),
+            createTestEntry({ id: 'wait-2', createdAt: new Date('2025-01-02') }),
+          ],
+        },
+      );
+
+      await service.updateReservationStatus('res-1', { status: 'returned' });
+
+      const { items } = await service.listWaitlist('device-1');
+      expect(items.map((e) => [e.id, e.status, e.position])).toEqual([
+        ['wait-1', 'offered', undefined],
+        ['wait-2', 'waiting', 1],
+      ]);
+      expect(items[0]!.offerExpiresAt!.getTime() - items[0]!.offeredAt!.getTime()).toBe(
+        24 * 60 * 60 * 1000,
+      );
+      await expect(
+        service.createReservation({ deviceModelId: 'device-1', deviceModelName: 'Laptop' }),
+      ).rejects.toThrow('No units of "Laptop" are available');
+    });
+
+    it('should turn a claimed offer into a reservation', async () => {
+      const service = new FakeReservationService([], {
+        inventory: singleLaptop(),
+        waitlist: [
+          createTestEntry({
+            status: 'offered',
+            pickupLocationId: 'loc-a',
+            offerExpiresAt: new Date(Date.now() + 60_000),
+          }),
+        ],
+      });
+
+      const { item, reservation } = await service.claimWaitlistOffer('wait-1');
+
+      expect(item).toMatchObject({ status: 'claimed', reservationId: reservation.id });
+      expect(reservation).toMatchObject({ deviceModelId: 'device-1', status: 'reserved', pickupLocationId: 'loc-a' });
+      await expect(service.claimWaitlistOffer('wait-1')).rejects.toThrow(
+        'No unit of "Laptop" has been offered to you',
+      );
+    });
+
+    it('should pass lapsed offers on to the next in line', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2025-03-01T09:00:00'));
+      const service = new FakeReservationService([createTestReservation({ id: 'res-1' })], {
+        waitlist: [
+          createTestEntry({ id: 'wait-1', createdAt: new Date('2025-01-01') }),
+          createTestEntry({ id: 'wait-2', createdAt: new Date('2025-01-02') }),
+        ],
+      });
+      await service.deleteReservation('res-1');
+
+      vi.setSystemTime(new Date('2025-03-02T09:00:01'));
+      const { items } = await service.listWaitlist();
+
+      expect(items.map((e) => [e.id, e.status])).toEqual([
+        ['wait-1', 'expired'],
+        ['wait-2', 'offered'],
+      ]);
+      await expect(service.claimWaitlistOffer('wait-1')).rejects.toThrow(
+        'The offer for "Laptop" has expired',
+      );
+    });
+
+    it('should pass the unit on when the person offered it leaves', async () => {
+      const service = new FakeReservationService([], {
+        waitlist: [
+          createTestEntry({ id: 'wait-1', status: 'offered', offerExpiresAt: new Date(Date.now() + 60_000) }),
+          createTestEntry({ id: 'wait-2', createdAt: new Date('2025-01-02') }),
+        ],
+      });
+
+      await service.leaveWaitlist('wait-1');
+
+      const { items } = await service.listWaitlist();
+      expect(items.map((e) => [e.id, e.status])).toEqual([['wait-2', 'offered']]);
+      await expect(service.leaveWaitlist('wait-1')).rejects.toThrow('Waitlist entry wait-1 not found');
+    });
+  });
 });
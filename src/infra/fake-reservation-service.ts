@@ -5,9 +5,43 @@ import type {
   CreateReservationOutput,
   UpdateReservationStatusInput,
   UpdateReservationStatusOutput,
+  RequestExtensionInput,
+  RequestExtensionOutput,
+  DecideExtensionInput,
+  DecideExtensionOutput,
+  SendReturnRemindersOutput,
   Reservation,
   ReservationStatus,
+  ListWaitlistOutput,
+  JoinWaitlistInput,
+  JoinWaitlistOutput,
+  ClaimWaitlistOfferOutput,
+  WaitlistEntry,
 } from '../app/reservation-service';
+import type { InventoryService } from '../app/inventory-service';
+import { reservationDueAt, type BorrowerRole } from '../app/loan-policy';
+import {
+  extendDueAt,
+  hasPendingExtension,
+  isValidExtensionDays,
+  waitlistBlocksExtensionMessage,
+} from '../app/loan-extension';
+import {
+  peakReservedUnits,
+  reservableStock,
+  stockAt,
+  type ReservationPeriod,
+} from '../app/availability';
+import { startOfDay, toIsoDate } from '../app/calendar-date';
+import { WAITLIST_CLAIM_HOURS, isOpenWaitlistEntry, withQueuePositions } from '../app/waitlist';
+
+export type FakeReservationServiceOptions = {
+  /** When provided, reservations are refused once a device's stock is used up. */
+  inventory?: InventoryService;
+  waitlist?: WaitlistEntry[];
+  /** Role recorded on new reservations; defaults to student. */
+  borrowerRole?: BorrowerRole;
+};
 
 /**
  * Fake in-memory implementation of ReservationService for tests.
@@ -15,17 +49,30 @@ import type {
 export class FakeReservationService implements ReservationService {
   private items: Reservation[] = [];
   private nextId = 1;
+  private waitlist: WaitlistEntry[] = [];
+  private nextWaitlistId = 1;
+  private readonly inventory?: InventoryService;
+  private readonly borrowerRole: BorrowerRole;
 
-  constructor(initial: Reservation[] = []) {
+  constructor(initial: Reservation[] = [], options: FakeReservationServiceOptions = {}) {
     this.items = initial.map((r) => ({ ...r }));
+    this.waitlist = (options.waitlist ?? []).map((e) => ({ ...e }));
+    this.inventory = options.inventory;
+    this.borrowerRole = options.borrowerRole ?? 'student';
   }
 
-  async listReservations(statusFilter?: ReservationStatus[]): Promise<ListReservationsOutput> {
+  async listReservations(
+    statusFilter?: ReservationStatus[],
+    pickupLocationId?: string,
+  ): Promise<ListReservationsOutput> {
     let filtered = [...this.items];
     
     if (statusFilter && statusFilter.length > 0) {
       filtered = filtered.filter((r) => statusFilter.includes(r.status));
     }
+    if (pickupLocationId) {
+      filtered = filtered.filter((r) => r.pickupLocationId === pickupLocationId);
+    }
 
     return {
       items: filtered,
@@ -34,6 +81,12 @@ export class FakeReservationService implements ReservationService {
   }
 
   async createReservation(input: CreateReservationInput): Promise<CreateReservationOutput> {
+    await this.expireOffers();
+    await this.ensureAvailable(input);
+    return { item: this.addReservation(input) };
+  }
+
+  private addReservation(input: CreateReservationInput): Reservation {
     const now = new Date();
     const newItem: Reservation = {
       id: `res-${this.nextId++}`,
@@ -43,9 +96,13 @@ export class FakeReservationService implements ReservationService {
       status: 'reserved',
       createdAt: now,
       updatedAt: now,
+      borrowerRole: this.borrowerRole,
+      ...(input.pickupLocationId ? { pickupLocationId: input.pickupLocationId } : {}),
+      ...(input.startDate ? { startDate: startOfDay(input.startDate) } : {}),
+      ...(input.endDate ? { endDate: startOfDay(input.endDate) } : {}),
     };
     this.items.push(newItem);
-    return { item: newItem };
+    return newItem;
   }
 
   async updateReservationStatus(
@@ -63,9 +120,14 @@ export class FakeReservationService implements ReservationService {
       updatedAt: now,
       collectedAt: input.status === 'collected' ? now : item.collectedAt,
       returnedAt: input.status === 'returned' ? now : item.returnedAt,
+      assetId: input.assetId ?? item.assetId,
+      dueAt: input.status === 'collected' ? input.dueAt : item.dueAt,
     };
     const index = this.items.findIndex((r) => r.id === id);
     this.items[index] = updated;
+    if (input.status === 'returned' && item.status !== 'returned') {
+      await this.offerFreedUnits(item.deviceModelId, 1);
+    }
     return { item: updated };
   }
 
@@ -74,6 +136,267 @@ export class FakeReservationService implements ReservationService {
     if (index === -1) {
       throw new Error(`Reservation ${id} not found`);
     }
-    this.items.splice(index, 1);
+    const [removed] = this.items.splice(index, 1);
+    if (removed && removed.status !== 'returned') {
+      await this.offerFreedUnits(removed.deviceModelId, 1);
+    }
+  }
+
+  async requestExtension(id: string, input: RequestExtensionInput): Promise<RequestExtensionOutput> {
+    const item = this.onLoan(id);
+    if (hasPendingExtension(item)) {
+      throw new Error(`An extension for reservation ${id} is already pending`);
+    }
+    if (!isValidExtensionDays(input.days)) {
+      throw new Error(`Cannot extend reservation ${id} by ${input.days} days`);
+    }
+    await this.ensureNobodyWaiting(item);
+    const now = new Date();
+    return {
+      item: this.replace({
+        ...item,
+        updatedAt: now,
+        extension: {
+          status: 'pending',
+          requestedAt: now,
+          days: input.days,
+          ...(input.note ? { note: input.note } : {}),
+        },
+      }),
+    };
+  }
+
+  async decideExtension(id: string, input: DecideExtensionInput): Promise<DecideExtensionOutput> {
+    const item = this.onLoan(id);
+    const extension = item.extension;
+    if (!extension || extension.status !== 'pending') {
+      throw new Error(`Reservation ${id} has no pending extension request`);
+    }
+    if (!input.approve && !input.reason) {
+      throw new Error('A reason is required to deny an extension');
+    }
+    // Someone may have joined the waitlist since the request was made.
+    if (input.approve) await this.ensureNobodyWaiting(item);
+    const now = new Date();
+    const dueAt = reservationDueAt(item);
+    return {
+      item: this.replace({
+        ...item,
+        updatedAt: now,
+        ...(input.approve && dueAt ? { dueAt: extendDueAt(dueAt, extension.days) } : {}),
+        extension: {
+          ...extension,
+          status: input.approve ? 'approved' : 'denied',
+          decidedAt: now,
+          ...(input.reason ? { reason: input.reason } : {}),
+        },
+      }),
+    };
+  }
+
+  private onLoan(id: string): Reservation {
+    const item = this.items.find((r) => r.id === id);
+    if (!item) {
+      throw new Error(`Reservation ${id} not found`);
+    }
+    if (item.status !== 'collected') {
+      throw new Error(`Reservation ${id} is not on loan`);
+    }
+    return item;
+  }
+
+  private replace(updated: Reservation): Reservation {
+    this.items = this.items.map((r) => (r.id === updated.id ? updated : r));
+    return updated;
+  }
+
+  private async ensureNobodyWaiting(item: Reservation): Promise<void> {
+    await this.expireOffers();
+    if (this.waitlist.some((e) => e.deviceModelId === item.deviceModelId && isOpenWaitlistEntry(e))) {
+      throw new Error(waitlistBlocksExtensionMessage(item.deviceModelName));
+    }
+  }
+
+  async sendReturnReminders(ids: readonly string[]): Promise<SendReturnRemindersOutput> {
+    for (const id of ids) {
+      const item = this.items.find((r) => r.id === id);
+      if (!item) {
+        throw new Error(`Reservation ${id} not found`);
+      }
+      if (item.status !== 'collected') {
+        throw new Error(`Reservation ${id} is not on loan`);
+      }
+    }
+    const now = new Date();
+    this.items = this.items.map((r) => (ids.includes(r.id) ? { ...r, lastReminderAt: now } : r));
+    return { items: this.items.filter((r) => ids.includes(r.id)) };
+  }
+
+  async listWaitlist(deviceModelId?: string): Promise<ListWaitlistOutput> {
+    await this.expireOffers();
+    const items = withQueuePositions(this.waitlist).filter(
+      (e) => deviceModelId === undefined || e.deviceModelId === deviceModelId,
+    );
+    return { items, totalCount: items.length };
+  }
+
+  async joinWaitlist(input: JoinWaitlistInput): Promise<JoinWaitlistOutput> {
+    await this.expireOffers();
+    const userId = 'test-user-id';
+    const existing = this.waitlist.find(
+      (e) => e.userId === userId && e.deviceModelId === input.deviceModelId && isOpenWaitlistEntry(e),
+    );
+    if (existing) {
+      throw new Error(`You are already on the waitlist for "${input.deviceModelName}"`);
+    }
+    const entry: WaitlistEntry = {
+      id: `wait-${this.nextWaitlistId++}`,
+      userId,
+      deviceModelId: input.deviceModelId,
+      deviceModelName: input.deviceModelName,
+      status: 'waiting',
+      createdAt: new Date(),
+      ...(input.pickupLocationId ? { pickupLocationId: input.pickupLocationId } : {}),
+    };
+    this.waitlist.push(entry);
+    // A unit may have been freed while nobody was waiting.
+    await this.offerFreedUnits(input.deviceModelId, 0);
+    return { item: this.positioned(entry.id) };
+  }
+
+  async leaveWaitlist(id: string): Promise<void> {
+    const index = this.waitlist.findIndex((e) => e.id === id);
+    if (index === -1) {
+      throw new Error(`Waitlist entry ${id} not found`);
+    }
+    const [removed] = this.waitlist.splice(index, 1);
+    // Turning down an offer passes the unit on to the next in line.
+    if (removed?.status === 'offered') {
+      await this.offerFreedUnits(removed.deviceModelId, 1);
+    }
+  }
+
+  async claimWaitlistOffer(id: string): Promise<ClaimWaitlistOfferOutput> {
+    await this.expireOffers();
+    const index = this.waitlist.findIndex((e) => e.id === id);
+    const entry = this.waitlist[index];
+    if (!entry) {
+      throw new Error(`Waitlist entry ${id} not found`);
+    }
+    if (entry.status !== 'offered') {
+      throw new Error(
+        entry.status === 'expired'
+          ? `The offer for "${entry.deviceModelName}" has expired`
+          : `No unit of "${entry.deviceModelName}" has been offered to you`,
+      );
+    }
+    // The offered unit was held back, so no availability check is needed.
+    const reservation = this.addReservation({
+      deviceModelId: entry.deviceModelId,
+      deviceModelName: entry.deviceModelName,
+      ...(entry.pickupLocationId ? { pickupLocationId: entry.pickupLocationId } : {}),
+    });
+    const { offerExpiresAt: _lapsed, ...rest } = entry;
+    const claimed: WaitlistEntry = { ...rest, status: 'claimed', reservationId: reservation.id };
+    this.waitlist[index] = claimed;
+    return { item: claimed, reservation };
+  }
+
+  private positioned(id: string): WaitlistEntry {
+    return withQueuePositions(this.waitlist).find((e) => e.id === id)!;
+  }
+
+  private openOffers(deviceModelId: string, locationId?: string): WaitlistEntry[] {
+    return this.waitlist.filter(
+      (e) =>
+        e.deviceModelId === deviceModelId &&
+        e.status === 'offered' &&
+        (locationId === undefined || e.pickupLocationId === locationId),
+    );
+  }
+
+  /** Lapsed offers expire and their units go to the next in line. */
+  private async expireOffers(now: Date = new Date()): Promise<void> {
+    const lapsed = new Map<string, number>();
+    this.waitlist = this.waitlist.map((e) => {
+      if (e.status !== 'offered' || !e.offerExpiresAt || e.offerExpiresAt > now) return e;
+      lapsed.set(e.deviceModelId, (lapsed.get(e.deviceModelId) ?? 0) + 1);
+      return { ...e, status: 'expired' };
+    });
+    for (const [deviceModelId, freed] of lapsed) {
+      await this.offerFreedUnits(deviceModelId, freed);
+    }
+  }
+
+  /**
+   * Offers every unit free today to the device's queue, first come first
+   * served. Without an inventory the stock is unknown, so only the `freed`
+   * units are offered.
+   */
+  private async offerFreedUnits(deviceModelId: string, freed: number): Promise<void> {
+    const waiting = withQueuePositions(this.waitlist)
+      .filter((e) => e.deviceModelId === deviceModelId && e.status === 'waiting')
+      .sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+    if (waiting.length === 0) return;
+    let free = freed;
+    if (this.inventory) {
+      const { items } = await this.inventory.listInventoryItems();
+      const device = items.find((d) => d.id === deviceModelId);
+      const stock = device ? reservableStock(device) : undefined;
+      if (stock !== undefined) {
+        const today = startOfDay(new Date());
+        free =
+          stock -
+          peakReservedUnits(this.items, deviceModelId, { start: today, end: today }) -
+          this.openOffers(deviceModelId).length;
+      }
+    }
+    const now = new Date();
+    const offerExpiresAt = new Date(now.getTime() + WAITLIST_CLAIM_HOURS * 60 * 60 * 1000);
+    for (const next of waiting.slice(0, Math.max(free, 0))) {
+      this.waitlist = this.waitlist.map((e) =>
+        e.id === next.id ? { ...e, status: 'offered', offeredAt: now, offerExpiresAt } : e,
+      );
+    }
+  }
+
+  private async ensureAvailable(input: CreateReservationInput): Promise<void> {
+    if (!this.inventory) return;
+    const { items } = await this.inventory.listInventoryItems();
+    const device = items.find((d) => d.id === input.deviceModelId);
+    if (!device) {
+      throw new Error(`Device ${input.deviceModelId} not found`);
+    }
+    const stock = reservableStock(device);
+    if (stock === undefined) return;
+    // Undated reservations hold a unit from today until it is returned.
+    const period: ReservationPeriod =
+      input.startDate && input.endDate
+        ? { start: startOfDay(input.startDate), end: startOfDay(input.endDate) }
+        : { start: startOfDay(new Date()) };
+    const when = period.end
+      ? ` from ${toIsoDate(period.start)} to ${toIsoDate(period.end)}`
+      : '';
+    // Units offered to the waitlist are held for a day, so they only count from today.
+    const heldForQueue = period.start <= startOfDay(new Date());
+    const pickup = input.pickupLocationId;
+    if (pickup) {
+      const { items: locations } = await this.inventory.listLocations();
+      const location = locations.find((l) => l.id === pickup);
+      if (!location) {
+        throw new Error(`Pickup location ${pickup} not found`);
+      }
+      const heldAtPickup = heldForQueue ? this.openOffers(device.id, pickup).length : 0;
+      if (
+        peakReservedUnits(this.items, device.id, period, pickup) + heldAtPickup >=
+        stockAt(device, pickup)
+      ) {
+        throw new Error(`No units of "${device.name}" are available at ${location.name}${when}`);
+      }
+    }
+    const held = heldForQueue ? this.openOffers(device.id).length : 0;
+    if (peakReservedUnits(this.items, device.id, period) + held >= stock) {
+      throw new Error(`No units of "${device.name}" are available${when}`);
+    }
   }
 }
@@ -2,6 +2,11 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { HttpInventoryService } from './http-inventory-service';
 import type { HttpClient } from './http-inventory-service';
 import type { AddDeviceInput } from '@/app/inventory-service';
+import {
+  ConcurrencyConflictError,
+  DeviceInUseError,
+  DeviceValidationError,
+} from '@/app/errors';
 
 const makeResponse = (
   body: unknown,
@@ -54,6 +59,108 @@ describe('HttpInventoryService', () => {
     expect(http).toHaveBeenCalledWith('http://api/api/devices', expect.any(Object));
   });
 
+  it('gets a single device by id', async () => {
+    http.mockResolvedValueOnce(
+      makeResponse({
+        item: { id: 'dev 1', name: 'Laptop', description: 'Dell', count: 3, available: 2, updatedAt: '2025-01-01T00:00:00.000Z' },
+      }),
+    );
+    const svc = new HttpInventoryService({ baseUrl: 'http://api', http });
+
+    const { item } = await svc.getInventoryItem('dev 1');
+
+    expect(item).toMatchObject({ id: 'dev 1', name: 'Laptop', available: 2 });
+    expect(http).toHaveBeenCalledWith(
+      'http://api/api/devices/dev%201',
+      expect.objectContaining({ method: 'GET' }),
+    );
+  });
+
+  it('sends page parameters and returns the next cursor', async () => {
+    http.mockResolvedValueOnce(
+      makeResponse({
+        data: [
+          { id: 'dev-3', name: 'Camera', description: 'd', count: 1, updatedAt: '2025-01-01T00:00:00.000Z' },
+        ],
+        count: 30,
+        nextCursor: 'abc',
+      }),
+    );
+    const svc = new HttpInventoryService({ baseUrl: 'http://api', http });
+
+    const result = await svc.listInventoryItems({ limit: 10, cursor: 'xyz' });
+
+    expect(result.nextCursor).toBe('abc');
+    expect(result.totalCount).toBe(30);
+    expect(http).toHaveBeenCalledWith(
+      'http://api/api/devices?limit=10&cursor=xyz',
+      expect.any(Object),
+    );
+  });
+
+  it('maps search, stock filter and sort to query parameters', async () => {
+    http.mockResolvedValueOnce(makeResponse({ data: [], count: 0 }));
+    const svc = new HttpInventoryService({ http });
+
+    await svc.listInventoryItems({
+      search: ' camera ',
+      inStockOnly: true,
+      sortBy: 'updatedAt',
+      sortDirection: 'desc',
+    });
+
+    expect(http).toHaveBeenCalledWith(
+      '/api/devices?search=camera&inStock=true&sortBy=updatedAt&sortDir=desc',
+      expect.any(Object),
+    );
+  });
+
+  it('maps availability when the API provides it', async () => {
+    http.mockResolvedValueOnce(
+      makeResponse({
+        data: [
+          { id: 'dev-1', name: 'Laptop', description: 'd', count: 6, available: 0, updatedAt: '2025-01-01T00:00:00.000Z' },
+          { id: 'dev-2', name: 'Mouse', description: 'd', count: 2, updatedAt: '2025-01-01T00:00:00.000Z' },
+        ],
+      }),
+    );
+    const svc = new HttpInventoryService({ http });
+
+    const { items } = await svc.listInventoryItems();
+
+    expect(items[0].available).toBe(0);
+    expect(items[1]).not.toHaveProperty('available');
+  });
+
+  it('maps minimum stock and reports the low-stock metric', async () => {
+    http.mockResolvedValueOnce(
+      makeResponse({
+        data: [
+          { id: 'dev-1', name: 'Laptop', description: 'd', count: 6, available: 1, minStock: 2, updatedAt: '2025-01-01T00:00:00.000Z' },
+          { id: 'dev-2', name: 'Mouse', description: 'd', count: 2, minStock: null, updatedAt: '2025-01-01T00:00:00.000Z' },
+        ],
+        count: 2,
+      }),
+    );
+    const telemetry = {
+      trackPageView: vi.fn(),
+      trackEvent: vi.fn(),
+      trackException: vi.fn(),
+      trackDependency: vi.fn(),
+      trackMetric: vi.fn(),
+    };
+    const svc = new HttpInventoryService({ http, telemetry });
+
+    const { items } = await svc.listInventoryItems();
+
+    expect(items[0].minStock).toBe(2);
+    expect(items[1]).not.toHaveProperty('minStock');
+    expect(telemetry.trackMetric).toHaveBeenCalledWith('inventory_total_count', 2);
+    expect(telemetry.trackMetric).toHaveBeenCalledWith('inventory_low_stock_count', 1, {
+      paged: false,
+    });
+  });
+
   it('throws when list returns errors array', async () => {
     http.mockResolvedValueOnce(makeResponse({ errors: ['bad', 'worse'] }));
     const svc = new HttpInventoryService({ http });
@@ -112,6 +219,92 @@ describe('HttpInventoryService', () => {
     expect(http).toHaveBeenCalledWith('/api/devices/dev-1', expect.objectContaining({ method: 'PATCH' }));
   });
 
+  it('sends If-Match and takes the new version from the ETag', async () => {
+    http.mockResolvedValueOnce(
+      makeResponse(
+        { data: { id: 'dev-1', name: 'Updated', description: 'Desc', count: 5, updatedAt: '2025-03-03T00:00:00.000Z' } },
+        { headers: { ETag: '"v8"' } },
+      ),
+    );
+    const svc = new HttpInventoryService({ http });
+
+    const { item } = await svc.updateInventoryItem('dev-1', { count: 5 }, '"v7"');
+
+    const [, options] = http.mock.calls[0] as [string, RequestInit];
+    expect(options.headers).toMatchObject({ 'If-Match': '"v7"' });
+    expect(item.version).toBe('"v8"');
+  });
+
+  it('maps 412 to a conflict error carrying the current device', async () => {
+    http.mockResolvedValueOnce(
+      makeResponse(
+        { item: { id: 'dev-1', name: 'Theirs', description: 'Desc', count: 2, updatedAt: '2025-03-03T00:00:00.000Z', version: '"v9"' } },
+        { status: 412, statusText: 'Precondition Failed' },
+      ),
+    );
+    const svc = new HttpInventoryService({ http });
+
+    const error = await svc.updateInventoryItem('dev-1', { count: 5 }, '"v7"').catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConcurrencyConflictError);
+    expect(error.current).toMatchObject({ name: 'Theirs', version: '"v9"' });
+  });
+
+  it('maps field errors on a rejected update to a validation error', async () => {
+    http.mockResolvedValueOnce(
+      makeResponse(
+        {
+          message: 'Invalid device',
+          errors: [
+            { field: 'name', message: 'Name is already taken' },
+            { field: 'colour', message: 'Unknown field' },
+          ],
+        },
+        { status: 422, statusText: 'Unprocessable Entity' },
+      ),
+    );
+    const svc = new HttpInventoryService({ http });
+
+    const error = await svc.updateInventoryItem('dev-1', { name: 'Laptop' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(DeviceValidationError);
+    expect(error.fieldErrors).toEqual({ name: 'Name is already taken' });
+    expect(error.message).toBe('Invalid device');
+  });
+
+  it('maps field errors on a rejected add to a validation error', async () => {
+    http.mockResolvedValueOnce(
+      makeResponse(
+        { fieldErrors: { name: 'Name is already taken', count: 'Count is too high' } },
+        { status: 422, statusText: 'Unprocessable Entity' },
+      ),
+    );
+    const svc = new HttpInventoryService({ http });
+
+    const error = await svc
+      .addInventoryItem({ name: 'Laptop', description: 'Dell', count: 500 })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(DeviceValidationError);
+    expect(error.fieldErrors).toEqual({
+      name: 'Name is already taken',
+      count: 'Count is too high',
+    });
+    expect(http).toHaveBeenCalledWith('/api/devices', expect.objectContaining({ method: 'POST' }));
+  });
+
+  it('falls back to the generic error when a 400 names no fields', async () => {
+    http.mockResolvedValueOnce(
+      makeResponse({ message: 'Bad payload' }, { status: 400, statusText: 'Bad Request' }),
+    );
+    const svc = new HttpInventoryService({ http });
+
+    const error = await svc.updateInventoryItem('dev-1', { count: 1 }).catch((e) => e);
+
+    expect(error).not.toBeInstanceOf(DeviceValidationError);
+    expect(error.message).toBe('400 Bad Request - Bad payload');
+  });
+
   it('throws when update returns invalid date', async () => {
     http.mockResolvedValueOnce(
       makeResponse({ data: { id: 'dev-1', name: 'Bad', description: 'd', count: 1, updatedAt: 'not-a-date' } }),
@@ -135,6 +328,218 @@ describe('HttpInventoryService', () => {
     expect(options.method).toBe('DELETE');
   });
 
+  it('maps 409 on delete to an in-use error', async () => {
+    http.mockResolvedValueOnce(
+      makeResponse({ activeReservations: 3 }, { status: 409, statusText: 'Conflict' }),
+    );
+    const svc = new HttpInventoryService({ http });
+
+    const error = await svc.deleteInventoryItem('dev-7').catch((e) => e);
+
+    expect(error).toBeInstanceOf(DeviceInUseError);
+    expect(error.activeReservations).toBe(3);
+    expect(error.message).toBe('This device has 3 active reservations and cannot be deleted');
+  });
+
+  it('archives and restores a device', async () => {
+    http
+      .mockResolvedValueOnce(
+        makeResponse({
+          item: { id: 'dev-1', name: 'Laptop', description: 'd', count: 1, updatedAt: '2025-01-02T00:00:00.000Z', archivedAt: '2025-01-02T00:00:00.000Z' },
+        }),
+      )
+      .mockResolvedValueOnce(
+        makeResponse({
+          item: { id: 'dev-1', name: 'Laptop', description: 'd', count: 1, updatedAt: '2025-01-03T00:00:00.000Z', archivedAt: null },
+        }),
+      );
+    const svc = new HttpInventoryService({ http });
+
+    const { item: archived } = await svc.archiveInventoryItem('dev-1');
+    const { item: restored } = await svc.restoreInventoryItem('dev-1');
+
+    expect(http.mock.calls.map(([url, init]) => [url, (init as RequestInit).method])).toEqual([
+      ['/api/devices/dev-1/archive', 'POST'],
+      ['/api/devices/dev-1/restore', 'POST'],
+    ]);
+    expect(archived.archivedAt).toEqual(new Date('2025-01-02T00:00:00.000Z'));
+    expect(restored).not.toHaveProperty('archivedAt');
+  });
+
+  it('asks for the trash when listing archived devices', async () => {
+    http.mockResolvedValueOnce(makeResponse({ data: [], count: 0 }));
+    const svc = new HttpInventoryService({ http });
+
+    await svc.listInventoryItems({ archived: true });
+
+    expect(http).toHaveBeenCalledWith('/api/devices?archived=true', expect.any(Object));
+  });
+
+  describe('locations', () => {
+    it('lists locations', async () => {
+      http.mockResolvedValueOnce(
+        makeResponse({ data: [{ id: 'loc-a', name: 'Media Lab' }], count: 1 }),
+      );
+      const svc = new HttpInventoryService({ http });
+
+      const result = await svc.listLocations();
+
+      expect(result).toEqual({ items: [{ id: 'loc-a', name: 'Media Lab' }], totalCount: 1 });
+      expect(http).toHaveBeenCalledWith('/api/locations', expect.objectContaining({ method: 'GET' }));
+    });
+
+    it('filters by location and maps the split across locations', async () => {
+      http.mockResolvedValueOnce(
+        makeResponse({
+          data: [
+            {
+              id: 'dev-1',
+              name: 'Laptop',
+              description: 'd',
+              count: 3,
+              updatedAt: '2025-01-01T00:00:00.000Z',
+              locationStock: [{ locationId: 'loc-a', count: 2 }],
+            },
+            { id: 'dev-2', name: 'Camera', description: 'd', count: 1, updatedAt: '2025-01-01T00:00:00.000Z', locationStock: null },
+          ],
+        }),
+      );
+      const svc = new HttpInventoryService({ http });
+
+      const { items } = await svc.listInventoryItems({ locationId: 'loc-a' });
+
+      expect(http).toHaveBeenCalledWith('/api/devices?location=loc-a', expect.any(Object));
+      expect(items[0].locationStock).toEqual([{ locationId: 'loc-a', count: 2 }]);
+      expect(items[1]).not.toHaveProperty('locationStock');
+    });
+
+    it('sends the split when adding a device', async () => {
+      http.mockResolvedValueOnce(
+        makeResponse({ item: { id: 'dev-1', name: 'Laptop', description: 'd', count: 2, updatedAt: '2025-01-01T00:00:00.000Z' } }),
+      );
+      const svc = new HttpInventoryService({ http });
+      const locationStock = [{ locationId: 'loc-a', count: 2 }];
+
+      await svc.addInventoryItem({ name: 'Laptop', description: 'd', count: 2, locationStock });
+
+      const [, options] = http.mock.calls[0] as [string, RequestInit];
+      expect(JSON.parse(options.body as string)).toEqual({
+        name: 'Laptop',
+        description: 'd',
+        count: 2,
+        locationStock,
+      });
+    });
+  });
+
+  describe('specs', () => {
+    it('filters by a spec value and maps text and number specs', async () => {
+      http.mockResolvedValueOnce(
+        makeResponse({
+          data: [
+            {
+              id: 'dev-1',
+              name: 'Laptop',
+              description: 'd',
+              count: 2,
+              updatedAt: '2025-01-01T00:00:00.000Z',
+              specs: { RAM: 16, OS: 'Windows', Touch: true, Weight: null },
+            },
+            { id: 'dev-2', name: 'Camera', description: 'd', count: 1, updatedAt: '2025-01-01T00:00:00.000Z', specs: null },
+          ],
+        }),
+      );
+      const svc = new HttpInventoryService({ http });
+
+      const { items } = await svc.listInventoryItems({ spec: { key: 'RAM', value: '16' } });
+
+      expect(http).toHaveBeenCalledWith('/api/devices?specKey=RAM&specValue=16', expect.any(Object));
+      expect(items[0].specs).toEqual({ RAM: 16, OS: 'Windows' });
+      expect(items[1]).not.toHaveProperty('specs');
+    });
+
+    it('sends specs when updating a device', async () => {
+      http.mockResolvedValueOnce(
+        makeResponse({ item: { id: 'dev-1', name: 'Laptop', description: 'd', count: 2, updatedAt: '2025-01-01T00:00:00.000Z' } }),
+      );
+      const svc = new HttpInventoryService({ http });
+
+      await svc.updateInventoryItem('dev-1', { specs: { RAM: 32 } });
+
+      const [, options] = http.mock.calls[0] as [string, RequestInit];
+      expect(JSON.parse(options.body as string)).toEqual({ specs: { RAM: 32 } });
+    });
+  });
+
+  describe('categories and tags', () => {
+    it('filters by category and tag and maps both onto devices', async () => {
+      http.mockResolvedValueOnce(
+        makeResponse({
+          data: [
+            {
+              id: 'dev-1',
+              name: 'Laptop',
+              description: 'd',
+              count: 2,
+              updatedAt: '2025-01-01T00:00:00.000Z',
+              categoryId: 'cat-1',
+              tags: ['usb-c', 7, 'travel'],
+            },
+            { id: 'dev-2', name: 'Mic', description: 'd', count: 1, updatedAt: '2025-01-01T00:00:00.000Z', categoryId: null, tags: [] },
+          ],
+        }),
+      );
+      const svc = new HttpInventoryService({ http });
+
+      const { items } = await svc.listInventoryItems({ categoryId: 'cat-1', tag: 'usb-c' });
+
+      expect(http).toHaveBeenCalledWith('/api/devices?category=cat-1&tag=usb-c', expect.any(Object));
+      expect(items[0]).toMatchObject({ categoryId: 'cat-1', tags: ['usb-c', 'travel'] });
+      expect(items[1]).not.toHaveProperty('categoryId');
+      expect(items[1]).not.toHaveProperty('tags');
+    });
+
+    it('sends null to take a device out of its category', async () => {
+      http.mockResolvedValueOnce(
+        makeResponse({ item: { id: 'dev-1', name: 'Laptop', description: 'd', count: 2, updatedAt: '2025-01-01T00:00:00.000Z' } }),
+      );
+      const svc = new HttpInventoryService({ http });
+
+      await svc.updateInventoryItem('dev-1', { categoryId: '', tags: ['4k'] });
+
+      const [, options] = http.mock.calls[0] as [string, RequestInit];
+      expect(JSON.parse(options.body as string)).toEqual({ categoryId: null, tags: ['4k'] });
+    });
+
+    it('lists, adds, renames and deletes categories', async () => {
+      http
+        .mockResolvedValueOnce(makeResponse({ data: [{ id: 'cat-1', name: 'Laptops' }], count: 1 }))
+        .mockResolvedValueOnce(makeResponse({ item: { id: 'cat-2', name: 'Audio' } }))
+        .mockResolvedValueOnce(makeResponse({ item: { id: 'cat-2', name: 'Sound' } }))
+        .mockResolvedValueOnce(makeResponse(null, { status: 204, statusText: 'No Content' }));
+      const svc = new HttpInventoryService({ http });
+
+      expect(await svc.listCategories()).toEqual({
+        items: [{ id: 'cat-1', name: 'Laptops' }],
+        totalCount: 1,
+      });
+      expect(await svc.addCategory({ name: 'Audio' })).toEqual({ item: { id: 'cat-2', name: 'Audio' } });
+      expect(await svc.updateCategory('cat-2', { name: 'Sound' })).toEqual({
+        item: { id: 'cat-2', name: 'Sound' },
+      });
+      await svc.deleteCategory('cat-2');
+
+      const calls = http.mock.calls as [string, RequestInit][];
+      expect(calls.map(([url, o]) => `${o.method} ${url}`)).toEqual([
+        'GET /api/categories',
+        'POST /api/categories',
+        'PATCH /api/categories/cat-2',
+        'DELETE /api/categories/cat-2',
+      ]);
+      expect(JSON.parse(calls[2]![1].body as string)).toEqual({ name: 'Sound' });
+    });
+  });
+
   it('ensureOk throws with response body details', async () => {
     http.mockResolvedValueOnce(
       makeResponse({ message: 'nope' }, { status: 400, statusText: 'Bad Request' }),
@@ -160,4 +565,334 @@ describe('HttpInventoryService', () => {
     const [, options] = http.mock.calls[0] as [string, RequestInit];
     expect(options.headers).toMatchObject({ 'x-test': 'yes', Accept: 'application/json' });
   });
+
+  describe('assets', () => {
+    const assetDto = {
+      id: 'ast-1',
+      deviceModelId: 'dev-1',
+      serialNumber: 'SN-1',
+      assetTag: 'LAP-1',
+      condition: 'good',
+      status: 'available',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+    };
+
+    it('lists assets for a device', async () => {
+      http.mockResolvedValueOnce(makeResponse({ data: [assetDto], count: 1 }));
+      const svc = new HttpInventoryService({ http });
+
+      const { items, totalCount } = await svc.listAssets('dev-1');
+
+      expect(totalCount).toBe(1);
+      expect(items[0].serialNumber).toBe('SN-1');
+      expect(items[0].updatedAt).toBeInstanceOf(Date);
+      expect(http).toHaveBeenCalledWith('/api/devices/dev-1/assets', expect.objectContaining({ method: 'GET' }));
+    });
+
+    it('adds an asset and sends the payload', async () => {
+      http.mockResolvedValueOnce(makeResponse({ item: assetDto }));
+      const svc = new HttpInventoryService({ http });
+
+      const { item } = await svc.addAsset('dev-1', { serialNumber: 'SN-1', assetTag: 'LAP-1' });
+
+      expect(item.id).toBe('ast-1');
+      const [, options] = http.mock.calls[0] as [string, RequestInit];
+      expect(options.method).toBe('POST');
+      expect(JSON.parse(options.body as string)).toEqual({ serialNumber: 'SN-1', assetTag: 'LAP-1' });
+    });
+
+    it('updates and deletes an asset by id', async () => {
+      http
+        .mockResolvedValueOnce(makeResponse({ data: { ...assetDto, status: 'on-loan' } }))
+        .mockResolvedValueOnce(makeResponse(null, { status: 204, statusText: 'No Content' }));
+      const svc = new HttpInventoryService({ http });
+
+      const { item } = await svc.updateAsset('dev-1', 'ast-1', { status: 'on-loan' });
+      await svc.deleteAsset('dev-1', 'ast-1');
+
+      expect(item.status).toBe('on-loan');
+      expect(http).toHaveBeenNthCalledWith(
+        1,
+        '/api/devices/dev-1/assets/ast-1',
+        expect.objectContaining({ method: 'PATCH' }),
+      );
+      expect(http).toHaveBeenNthCalledWith(
+        2,
+        '/api/devices/dev-1/assets/ast-1',
+        expect.objectContaining({ method: 'DELETE' }),
+      );
+    });
+
+    it('surfaces server errors', async () => {
+      http.mockResolvedValueOnce(
+        makeResponse({ message: 'Duplicate serial' }, { status: 409, statusText: 'Conflict' }),
+      );
+      const svc = new HttpInventoryService({ http });
+
+      await expect(
+        svc.addAsset('dev-1', { serialNumber: 'SN-1', assetTag: 'LAP-1' }),
+      ).rejects.toThrow('409 Conflict - Duplicate serial');
+    });
+  });
+
+  describe('attachments', () => {
+    const attachmentDto = {
+      id: 'att-1',
+      deviceModelId: 'dev-1',
+      kind: 'photo',
+      fileName: 'tripod.jpg',
+      contentType: 'image/jpeg',
+      size: 3,
+      url: 'https://files/tripod.jpg',
+      createdAt: '2025-01-01T00:00:00.000Z',
+    };
+    const deviceDto = {
+      id: 'dev-1',
+      name: 'Tripod',
+      description: 'Aluminium',
+      count: 4,
+      updatedAt: '2025-01-01T00:00:00.000Z',
+      imageUrl: 'https://files/tripod.jpg',
+    };
+
+    it('uploads a file as multipart form data', async () => {
+      http.mockResolvedValueOnce(makeResponse({ item: attachmentDto, device: deviceDto }));
+      const svc = new HttpInventoryService({ http });
+      const file = new Blob(['abc'], { type: 'image/jpeg' });
+
+      const { item, device } = await svc.uploadAttachment('dev-1', {
+        kind: 'photo',
+        file,
+        fileName: 'tripod.jpg',
+      });
+
+      expect(item.createdAt).toBeInstanceOf(Date);
+      expect(device.imageUrl).toBe('https://files/tripod.jpg');
+      const [url, options] = http.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe('/api/devices/dev-1/attachments');
+      expect(options.method).toBe('POST');
+      expect(options.headers).not.toHaveProperty('Content-Type');
+      const form = options.body as FormData;
+      expect(form.get('kind')).toBe('photo');
+      expect((form.get('file') as File).name).toBe('tripod.jpg');
+    });
+
+    it('lists and deletes attachments', async () => {
+      http
+        .mockResolvedValueOnce(makeResponse({ data: [attachmentDto] }))
+        .mockResolvedValueOnce(makeResponse(null, { status: 204, statusText: 'No Content' }));
+      const svc = new HttpInventoryService({ http });
+
+      const { items, totalCount } = await svc.listAttachments('dev-1');
+      await svc.deleteAttachment('dev-1', 'att-1');
+
+      expect(totalCount).toBe(1);
+      expect(items[0]!.fileName).toBe('tripod.jpg');
+      const calls = http.mock.calls as [string, RequestInit][];
+      expect(calls.map(([url, o]) => `${o.method} ${url}`)).toEqual([
+        'GET /api/devices/dev-1/attachments',
+        'DELETE /api/devices/dev-1/attachments/att-1',
+      ]);
+    });
+
+    it('rejects an upload response without the device', async () => {
+      http.mockResolvedValueOnce(makeResponse({ item: attachmentDto }));
+      const svc = new HttpInventoryService({ http });
+
+      await expect(
+        svc.uploadAttachment('dev-1', {
+          kind: 'photo',
+          file: new Blob(['abc'], { type: 'image/jpeg' }),
+          fileName: 'tripod.jpg',
+        }),
+      ).rejects.toThrow('Malformed upload attachment response');
+    });
+  });
+
+  describe('stock ledger', () => {
+    const adjustmentDto = {
+      id: 'adj-1',
+      deviceModelId: 'dev-1',
+      delta: -1,
+      reason: 'damaged',
+      note: null,
+      resultingCount: 2,
+      createdAt: '2025-01-02T00:00:00.000Z',
+    };
+
+    it('posts an adjustment and maps the device and ledger entry', async () => {
+      http.mockResolvedValueOnce(
+        makeResponse({
+          item: { id: 'dev-1', name: 'Laptop', description: 'd', count: 2, updatedAt: '2025-01-02T00:00:00.000Z' },
+          adjustment: adjustmentDto,
+        }),
+      );
+      const svc = new HttpInventoryService({ http });
+
+      const { item, adjustment } = await svc.adjustStock('dev-1', { delta: -1, reason: 'damaged' });
+
+      expect(item.count).toBe(2);
+      expect(adjustment.createdAt).toBeInstanceOf(Date);
+      expect(adjustment).not.toHaveProperty('note');
+      const [url, options] = http.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe('/api/devices/dev-1/adjustments');
+      expect(JSON.parse(options.body as string)).toEqual({ delta: -1, reason: 'damaged' });
+    });
+
+    it('sends and maps the location of an adjustment', async () => {
+      http.mockResolvedValueOnce(
+        makeResponse({
+          item: { id: 'dev-1', name: 'Laptop', description: 'd', count: 2, updatedAt: '2025-01-02T00:00:00.000Z' },
+          adjustment: { ...adjustmentDto, locationId: 'loc-a' },
+        }),
+      );
+      const svc = new HttpInventoryService({ http });
+
+      const { adjustment } = await svc.adjustStock('dev-1', {
+        delta: -1,
+        reason: 'damaged',
+        locationId: 'loc-a',
+      });
+
+      expect(adjustment.locationId).toBe('loc-a');
+      const [, options] = http.mock.calls[0] as [string, RequestInit];
+      expect(JSON.parse(options.body as string)).toMatchObject({ locationId: 'loc-a' });
+    });
+
+    it('throws on a malformed adjustment response', async () => {
+      http.mockResolvedValueOnce(makeResponse({ item: null }));
+      const svc = new HttpInventoryService({ http });
+
+      await expect(
+        svc.adjustStock('dev-1', { delta: 1, reason: 'purchased' }),
+      ).rejects.toThrow('Malformed stock adjustment response');
+    });
+
+    it('lists the ledger for a device', async () => {
+      http.mockResolvedValueOnce(makeResponse({ data: [adjustmentDto] }));
+      const svc = new HttpInventoryService({ http });
+
+      const { items, totalCount } = await svc.listStockAdjustments('dev-1');
+
+      expect(totalCount).toBe(1);
+      expect(items[0].reason).toBe('damaged');
+      expect(http).toHaveBeenCalledWith('/api/devices/dev-1/adjustments', expect.objectContaining({ method: 'GET' }));
+    });
+  });
+
+  it('fetches the audit trail of a device', async () => {
+    http.mockResolvedValueOnce(
+      makeResponse({
+        data: [
+          {
+            id: 'aud-1',
+            deviceModelId: 'dev-1',
+            actor: 'staff@example.com',
+            action: 'updated',
+            changes: [{ field: 'count', before: 2, after: 3 }],
+            note: null,
+            timestamp: '2025-01-02T00:00:00.000Z',
+          },
+        ],
+      }),
+    );
+    const svc = new HttpInventoryService({ http });
+
+    const { items, totalCount } = await svc.getHistory('dev-1');
+
+    expect(totalCount).toBe(1);
+    expect(items[0]).toEqual({
+      id: 'aud-1',
+      deviceModelId: 'dev-1',
+      actor: 'staff@example.com',
+      action: 'updated',
+      changes: [{ field: 'count', before: 2, after: 3 }],
+      timestamp: new Date('2025-01-02T00:00:00.000Z'),
+    });
+    expect(http).toHaveBeenCalledWith('/api/devices/dev-1/history', expect.objectContaining({ method: 'GET' }));
+  });
+
+  describe('maintenance', () => {
+    const recordDto = {
+      id: 'mnt-1',
+      deviceModelId: 'dev-1',
+      deviceModelName: 'Laptop',
+      quantity: 2,
+      note: 'Cracked screens',
+      expectedReturnAt: '2025-02-01T00:00:00.000Z',
+      status: 'in-repair',
+      createdAt: '2025-01-10T00:00:00.000Z',
+      resolvedAt: null,
+    };
+    const deviceDto = {
+      id: 'dev-1',
+      name: 'Laptop',
+      description: 'd',
+      count: 3,
+      inRepair: 2,
+      updatedAt: '2025-01-10T00:00:00.000Z',
+    };
+
+    it('sends units for repair and maps the record and device', async () => {
+      http.mockResolvedValueOnce(makeResponse({ item: recordDto, device: deviceDto }));
+      const svc = new HttpInventoryService({ http });
+
+      const { item, device } = await svc.sendToMaintenance('dev-1', {
+        quantity: 2,
+        note: 'Cracked screens',
+        expectedReturnAt: new Date('2025-02-01T00:00:00.000Z'),
+      });
+
+      const [url, options] = http.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe('/api/devices/dev-1/maintenance');
+      expect(JSON.parse(options.body as string)).toEqual({
+        quantity: 2,
+        note: 'Cracked screens',
+        expectedReturnAt: '2025-02-01T00:00:00.000Z',
+      });
+      expect(item.expectedReturnAt).toEqual(new Date('2025-02-01T00:00:00.000Z'));
+      expect(item).not.toHaveProperty('resolvedAt');
+      expect(device.inRepair).toBe(2);
+    });
+
+    it('lists records by status and resolves one', async () => {
+      http
+        .mockResolvedValueOnce(makeResponse({ data: [recordDto], count: 1 }))
+        .mockResolvedValueOnce(
+          makeResponse({
+            item: { ...recordDto, status: 'repaired', resolvedAt: '2025-01-20T00:00:00.000Z' },
+            device: { ...deviceDto, inRepair: 0 },
+          }),
+        );
+      const svc = new HttpInventoryService({ http });
+
+      const { items } = await svc.listMaintenance({ status: 'in-repair' });
+      const { item, device } = await svc.resolveMaintenance('mnt-1', { outcome: 'repaired' });
+
+      expect(http.mock.calls.map(([url]) => url)).toEqual([
+        '/api/maintenance?status=in-repair',
+        '/api/maintenance/mnt-1/resolve',
+      ]);
+      expect(items).toHaveLength(1);
+      expect(item.status).toBe('repaired');
+      expect(device).not.toHaveProperty('inRepair');
+    });
+
+    it('throws on a malformed maintenance response', async () => {
+      http.mockResolvedValueOnce(makeResponse({ item: recordDto }));
+      const svc = new HttpInventoryService({ http });
+      await expect(svc.resolveMaintenance('mnt-1', { outcome: 'repaired' })).rejects.toThrow(
+        'Malformed maintenance response',
+      );
+    });
+
+    it('names the field of a bad date in a maintenance record', async () => {
+      http.mockResolvedValueOnce(
+        makeResponse({ data: [{ ...recordDto, createdAt: 'yesterday-ish' }], count: 1 }),
+      );
+      const svc = new HttpInventoryService({ http });
+
+      await expect(svc.listMaintenance()).rejects.toThrow('Invalid createdAt date');
+    });
+  });
 });
@@ -2,10 +2,54 @@ import type {
   Device,
   InventoryService,
   ListDevicesOutput,
+  ListDevicesQuery,
   AddDeviceInput,
   AddDeviceOutput,
+  Asset,
+  AssetCondition,
+  AssetStatus,
+  ListAssetsOutput,
+  AddAssetInput,
+  AssetOutput,
+  StockAdjustment,
+  StockAdjustmentReason,
+  AdjustStockInput,
+  AdjustStockOutput,
+  ListStockAdjustmentsOutput,
+  AuditAction,
+  AuditChange,
+  AuditEntry,
+  DeviceHistoryOutput,
+  MaintenanceRecord,
+  MaintenanceStatus,
+  SendToMaintenanceInput,
+  ResolveMaintenanceInput,
+  MaintenanceOutput,
+  ListMaintenanceQuery,
+  ListMaintenanceOutput,
+  Location,
+  LocationStock,
+  ListLocationsOutput,
+  DeviceSpecs,
+  SpecValue,
+  Category,
+  CategoryInput,
+  CategoryOutput,
+  ListCategoriesOutput,
+  Attachment,
+  AttachmentKind,
+  ListAttachmentsOutput,
+  UploadAttachmentInput,
+  UploadAttachmentOutput,
 } from '../app/inventory-service';
 import type { Telemetry } from '../composables/useTelemetry';
+import {
+  ConcurrencyConflictError,
+  DeviceInUseError,
+  DeviceValidationError,
+} from '../app/errors';
+import type { InventoryField, InventoryFieldErrors } from '../app/validate-inventory';
+import { findLowStock } from '../app/stock-alerts';
 import {
   computeBackoffDelayMs,
   defaultRetryOptions,
@@ -19,12 +63,23 @@ type DeviceDto = {
   name: string;
   description: string;
   count: number;
+  available?: number;
   updatedAt: string;
+  version?: string;
+  archivedAt?: string | null;
+  minStock?: number | null;
+  inRepair?: number | null;
+  locationStock?: LocationStock[] | null;
+  specs?: Record<string, unknown> | null;
+  categoryId?: string | null;
+  tags?: unknown[] | null;
+  imageUrl?: string | null;
 };
 
 type ListDevicesResponseDto = {
   data?: DeviceDto[];
   count?: number;
+  nextCursor?: string | null;
   errors?: string[];
 };
 
@@ -32,6 +87,77 @@ type AddDeviceRequestDto = {
   name: string;
   description: string;
   count: number;
+  minStock?: number;
+  locationStock?: readonly LocationStock[];
+  specs?: DeviceSpecs;
+  /** `null` takes the device out of its category. */
+  categoryId?: string | null;
+  tags?: readonly string[];
+};
+
+type AssetDto = {
+  id: string;
+  deviceModelId: string;
+  serialNumber: string;
+  assetTag: string;
+  condition: AssetCondition;
+  status: AssetStatus;
+  updatedAt: string;
+};
+
+type StockAdjustmentDto = {
+  id: string;
+  deviceModelId: string;
+  delta: number;
+  reason: StockAdjustmentReason;
+  note?: string | null;
+  resultingCount: number;
+  locationId?: string | null;
+  createdAt: string;
+};
+
+type AuditEntryDto = {
+  id: string;
+  deviceModelId: string;
+  actor: string;
+  action: AuditAction;
+  changes?: AuditChange[] | null;
+  note?: string | null;
+  timestamp: string;
+};
+
+type MaintenanceRecordDto = {
+  id: string;
+  deviceModelId: string;
+  deviceModelName: string;
+  quantity: number;
+  note?: string | null;
+  expectedReturnAt?: string | null;
+  status: MaintenanceStatus;
+  createdAt: string;
+  resolvedAt?: string | null;
+  resolutionNote?: string | null;
+};
+
+type LocationDto = {
+  id: string;
+  name: string;
+};
+
+type CategoryDto = {
+  id: string;
+  name: string;
+};
+
+type AttachmentDto = {
+  id: string;
+  deviceModelId: string;
+  kind: AttachmentKind;
+  fileName: string;
+  contentType: string;
+  size: number;
+  url: string;
+  createdAt: string;
 };
 
 export type HttpClient = typeof fetch;
@@ -94,8 +220,10 @@ export class HttpInventoryService implements InventoryService {
     this.telemetry.trackException(exception, properties);
   }
 
-  async listInventoryItems(): Promise<ListDevicesOutput> {
-    const url = this.url('/api/devices');
+  async listInventoryItems(
+    query: ListDevicesQuery = {},
+  ): Promise<ListDevicesOutput> {
+    const url = this.url(`/api/devices${toListQueryString(query)}`);
     const started = this.nowMs();
     let res: Response | undefined;
     let success = false;
@@ -176,13 +304,22 @@ export class HttpInventoryService implements InventoryService {
       const mapped = items.map(toDomainDevice);
       const totalCount =
         typeof body.count === 'number' ? body.count : mapped.length;
+      const nextCursor =
+        typeof body.nextCursor === 'string' && body.nextCursor
+          ? body.nextCursor
+          : undefined;
       success = true;
       this.trackEvent('inventory_fetch', {
         totalCount,
         itemCount: mapped.length,
+        paged: query.limit !== undefined,
+        hasMore: nextCursor !== undefined,
       });
       this.telemetry?.trackMetric('inventory_total_count', totalCount);
-      return { items: mapped, totalCount };
+      this.telemetry?.trackMetric('inventory_low_stock_count', findLowStock(mapped).length, {
+        paged: query.limit !== undefined,
+      });
+      return { items: mapped, totalCount, nextCursor };
     } catch (err) {
       this.trackException(err, { operation: 'listInventoryItems' });
       this.trackEvent('inventory_fetch_failed');
@@ -192,6 +329,18 @@ export class HttpInventoryService implements InventoryService {
     }
   }
 
+  async getInventoryItem(id: string): Promise<AddDeviceOutput> {
+    const body = await this.send(
+      'GET',
+      `/api/devices/${encodeURIComponent(id)}`,
+      'GET /api/devices/{id}',
+      { operation: 'getInventoryItem', id },
+    );
+    const item = toDomainDevice(unwrapItem<DeviceDto>(body, 'Malformed device response'));
+    this.trackEvent('inventory_get', { id });
+    return { item };
+  }
+
   async addInventoryItem(
     input: AddDeviceInput,
   ): Promise<AddDeviceOutput> {
@@ -210,6 +359,10 @@ export class HttpInventoryService implements InventoryService {
         }),
         body: JSON.stringify(dto),
       });
+      if (res.status === 400 || res.status === 422) {
+        const invalid = await this.toValidationError(res);
+        if (invalid) throw invalid;
+      }
       await this.ensureOk(res);
       const raw = (await this.parseJson(res)) as unknown;
       const body = (raw && typeof raw === 'object' ? (raw as any) : {}) as {
@@ -239,6 +392,12 @@ export class HttpInventoryService implements InventoryService {
       });
       return { item };
     } catch (err) {
+      if (err instanceof DeviceValidationError) {
+        this.trackEvent('inventory_add_invalid', {
+          fields: Object.keys(err.fieldErrors).join(','),
+        });
+        throw err;
+      }
       this.trackException(err, { operation: 'addInventoryItem' });
       this.trackEvent('inventory_add_failed');
       throw err;
@@ -250,6 +409,7 @@ export class HttpInventoryService implements InventoryService {
   async updateInventoryItem(
     id: string,
     input: Partial<AddDeviceInput>,
+    expectedVersion?: string,
   ): Promise<AddDeviceOutput> {
     const dto = toUpdateDeviceRequestDto(input);
     const url = this.url(`/api/devices/${encodeURIComponent(id)}`);
@@ -263,9 +423,17 @@ export class HttpInventoryService implements InventoryService {
         headers: await this.authHeaders({
           Accept: 'application/json',
           'Content-Type': 'application/json',
+          ...(expectedVersion !== undefined ? { 'If-Match': expectedVersion } : {}),
         }),
         body: JSON.stringify(dto),
       });
+      if (res.status === 412) {
+        throw await this.toConflictError(res);
+      }
+      if (res.status === 400 || res.status === 422) {
+        const invalid = await this.toValidationError(res);
+        if (invalid) throw invalid;
+      }
       await this.ensureOk(res);
       const raw = (await this.parseJson(res)) as unknown;
       const body = (raw && typeof raw === 'object' ? (raw as any) : {}) as {
@@ -280,7 +448,10 @@ export class HttpInventoryService implements InventoryService {
       if (!itemDto || typeof itemDto !== 'object') {
         throw new Error('Malformed update device response');
       }
-      const item = toDomainDevice(itemDto);
+      const etag = res.headers.get('ETag');
+      const item = etag
+        ? { ...toDomainDevice(itemDto), version: etag }
+        : toDomainDevice(itemDto);
       success = true;
       this.trackEvent('inventory_update', {
         id: item.id,
@@ -288,6 +459,17 @@ export class HttpInventoryService implements InventoryService {
       });
       return { item };
     } catch (err) {
+      if (err instanceof ConcurrencyConflictError) {
+        this.trackEvent('inventory_update_conflict', { id });
+        throw err;
+      }
+      if (err instanceof DeviceValidationError) {
+        this.trackEvent('inventory_update_invalid', {
+          id,
+          fields: Object.keys(err.fieldErrors).join(','),
+        });
+        throw err;
+      }
       this.trackException(err, { operation: 'updateInventoryItem', id });
       this.trackEvent('inventory_update_failed', { id });
       throw err;
@@ -296,6 +478,30 @@ export class HttpInventoryService implements InventoryService {
     }
   }
 
+  async archiveInventoryItem(id: string): Promise<AddDeviceOutput> {
+    const body = await this.send(
+      'POST',
+      `/api/devices/${encodeURIComponent(id)}/archive`,
+      'POST /api/devices/{id}/archive',
+      { operation: 'archiveInventoryItem', id },
+    );
+    const item = toDomainDevice(unwrapItem<DeviceDto>(body, 'Malformed archive device response'));
+    this.trackEvent('inventory_archive', { id });
+    return { item };
+  }
+
+  async restoreInventoryItem(id: string): Promise<AddDeviceOutput> {
+    const body = await this.send(
+      'POST',
+      `/api/devices/${encodeURIComponent(id)}/restore`,
+      'POST /api/devices/{id}/restore',
+      { operation: 'restoreInventoryItem', id },
+    );
+    const item = toDomainDevice(unwrapItem<DeviceDto>(body, 'Malformed restore device response'));
+    this.trackEvent('inventory_restore', { id });
+    return { item };
+  }
+
   async deleteInventoryItem(id: string): Promise<void> {
     const url = this.url(`/api/devices/${encodeURIComponent(id)}`);
     const started = this.nowMs();
@@ -307,10 +513,20 @@ export class HttpInventoryService implements InventoryService {
         method: 'DELETE',
         headers: await this.authHeaders({ Accept: 'application/json' }),
       });
+      if (res.status === 409) {
+        throw await this.toInUseError(res);
+      }
       await this.ensureOk(res);
       success = true;
       this.trackEvent('inventory_delete', { id });
     } catch (err) {
+      if (err instanceof DeviceInUseError) {
+        this.trackEvent('inventory_delete_blocked', {
+          id,
+          activeReservations: err.activeReservations,
+        });
+        throw err;
+      }
       this.trackException(err, { operation: 'deleteInventoryItem', id });
       this.trackEvent('inventory_delete_failed', { id });
       throw err;
@@ -319,7 +535,329 @@ export class HttpInventoryService implements InventoryService {
     }
   }
 
+  async listAssets(deviceId: string): Promise<ListAssetsOutput> {
+    const body = await this.send(
+      'GET',
+      `/api/devices/${encodeURIComponent(deviceId)}/assets`,
+      'GET /api/devices/{id}/assets',
+      { operation: 'listAssets', id: deviceId },
+    );
+    const list = Array.isArray(body.data) ? (body.data as AssetDto[]) : [];
+    const items = list.map(toDomainAsset);
+    const totalCount = typeof body.count === 'number' ? body.count : items.length;
+    return { items, totalCount };
+  }
+
+  async addAsset(deviceId: string, input: AddAssetInput): Promise<AssetOutput> {
+    const body = await this.send(
+      'POST',
+      `/api/devices/${encodeURIComponent(deviceId)}/assets`,
+      'POST /api/devices/{id}/assets',
+      { operation: 'addAsset', id: deviceId },
+      input,
+    );
+    const item = toDomainAsset(unwrapItem<AssetDto>(body, 'Malformed add asset response'));
+    this.trackEvent('asset_add', { id: item.id, deviceId });
+    return { item };
+  }
+
+  async updateAsset(
+    deviceId: string,
+    assetId: string,
+    input: Partial<AddAssetInput>,
+  ): Promise<AssetOutput> {
+    const body = await this.send(
+      'PATCH',
+      `/api/devices/${encodeURIComponent(deviceId)}/assets/${encodeURIComponent(assetId)}`,
+      'PATCH /api/devices/{id}/assets/{assetId}',
+      { operation: 'updateAsset', id: deviceId, assetId },
+      input,
+    );
+    const item = toDomainAsset(unwrapItem<AssetDto>(body, 'Malformed update asset response'));
+    this.trackEvent('asset_update', { id: item.id, deviceId, status: item.status });
+    return { item };
+  }
+
+  async deleteAsset(deviceId: string, assetId: string): Promise<void> {
+    await this.send(
+      'DELETE',
+      `/api/devices/${encodeURIComponent(deviceId)}/assets/${encodeURIComponent(assetId)}`,
+      'DELETE /api/devices/{id}/assets/{assetId}',
+      { operation: 'deleteAsset', id: deviceId, assetId },
+    );
+    this.trackEvent('asset_delete', { id: assetId, deviceId });
+  }
+
+  async listAttachments(deviceId: string): Promise<ListAttachmentsOutput> {
+    const body = await this.send(
+      'GET',
+      `/api/devices/${encodeURIComponent(deviceId)}/attachments`,
+      'GET /api/devices/{id}/attachments',
+      { operation: 'listAttachments', id: deviceId },
+    );
+    const list = Array.isArray(body.data) ? (body.data as AttachmentDto[]) : [];
+    const items = list.map(toDomainAttachment);
+    const totalCount = typeof body.count === 'number' ? body.count : items.length;
+    return { items, totalCount };
+  }
+
+  async uploadAttachment(
+    deviceId: string,
+    input: UploadAttachmentInput,
+  ): Promise<UploadAttachmentOutput> {
+    const form = new FormData();
+    form.append('kind', input.kind);
+    form.append('file', input.file, input.fileName);
+    const body = await this.send(
+      'POST',
+      `/api/devices/${encodeURIComponent(deviceId)}/attachments`,
+      'POST /api/devices/{id}/attachments',
+      { operation: 'uploadAttachment', id: deviceId, kind: input.kind },
+      form,
+    );
+    const itemDto = body.item as AttachmentDto | undefined;
+    const deviceDto = body.device as DeviceDto | undefined;
+    if (!itemDto || typeof itemDto !== 'object' || !deviceDto || typeof deviceDto !== 'object') {
+      throw new Error('Malformed upload attachment response');
+    }
+    const item = toDomainAttachment(itemDto);
+    this.trackEvent('attachment_upload', {
+      id: item.id,
+      deviceId,
+      kind: item.kind,
+      size: item.size,
+    });
+    return { item, device: toDomainDevice(deviceDto) };
+  }
+
+  async deleteAttachment(deviceId: string, attachmentId: string): Promise<void> {
+    await this.send(
+      'DELETE',
+      `/api/devices/${encodeURIComponent(deviceId)}/attachments/${encodeURIComponent(attachmentId)}`,
+      'DELETE /api/devices/{id}/attachments/{attachmentId}',
+      { operation: 'deleteAttachment', id: deviceId, attachmentId },
+    );
+    this.trackEvent('attachment_delete', { id: attachmentId, deviceId });
+  }
+
+  async adjustStock(
+    id: string,
+    input: AdjustStockInput,
+  ): Promise<AdjustStockOutput> {
+    const body = await this.send(
+      'POST',
+      `/api/devices/${encodeURIComponent(id)}/adjustments`,
+      'POST /api/devices/{id}/adjustments',
+      { operation: 'adjustStock', id },
+      input,
+    );
+    const itemDto = body.item as DeviceDto | undefined;
+    const adjustmentDto = body.adjustment as StockAdjustmentDto | undefined;
+    if (!itemDto || typeof itemDto !== 'object' || !adjustmentDto || typeof adjustmentDto !== 'object') {
+      throw new Error('Malformed stock adjustment response');
+    }
+    const item = toDomainDevice(itemDto);
+    const adjustment = toDomainAdjustment(adjustmentDto);
+    this.trackEvent('inventory_adjust', {
+      id,
+      delta: adjustment.delta,
+      reason: adjustment.reason,
+      count: item.count,
+    });
+    return { item, adjustment };
+  }
+
+  async listStockAdjustments(id: string): Promise<ListStockAdjustmentsOutput> {
+    const body = await this.send(
+      'GET',
+      `/api/devices/${encodeURIComponent(id)}/adjustments`,
+      'GET /api/devices/{id}/adjustments',
+      { operation: 'listStockAdjustments', id },
+    );
+    const list = Array.isArray(body.data) ? (body.data as StockAdjustmentDto[]) : [];
+    const items = list.map(toDomainAdjustment);
+    const totalCount = typeof body.count === 'number' ? body.count : items.length;
+    return { items, totalCount };
+  }
+
+  async getHistory(id: string): Promise<DeviceHistoryOutput> {
+    const body = await this.send(
+      'GET',
+      `/api/devices/${encodeURIComponent(id)}/history`,
+      'GET /api/devices/{id}/history',
+      { operation: 'getHistory', id },
+    );
+    const list = Array.isArray(body.data) ? (body.data as AuditEntryDto[]) : [];
+    const items = list.map(toDomainAuditEntry);
+    const totalCount = typeof body.count === 'number' ? body.count : items.length;
+    return { items, totalCount };
+  }
+
+  async listLocations(): Promise<ListLocationsOutput> {
+    const body = await this.send(
+      'GET',
+      '/api/locations',
+      'GET /api/locations',
+      { operation: 'listLocations' },
+    );
+    const list = Array.isArray(body.data) ? (body.data as LocationDto[]) : [];
+    const items = list.map(toDomainLocation);
+    const totalCount = typeof body.count === 'number' ? body.count : items.length;
+    return { items, totalCount };
+  }
+
+  async listCategories(): Promise<ListCategoriesOutput> {
+    const body = await this.send(
+      'GET',
+      '/api/categories',
+      'GET /api/categories',
+      { operation: 'listCategories' },
+    );
+    const list = Array.isArray(body.data) ? (body.data as CategoryDto[]) : [];
+    const items = list.map(toDomainCategory);
+    const totalCount = typeof body.count === 'number' ? body.count : items.length;
+    return { items, totalCount };
+  }
+
+  async addCategory(input: CategoryInput): Promise<CategoryOutput> {
+    const body = await this.send(
+      'POST',
+      '/api/categories',
+      'POST /api/categories',
+      { operation: 'addCategory' },
+      input,
+    );
+    const item = toDomainCategory(unwrapItem<CategoryDto>(body, 'Malformed add category response'));
+    this.trackEvent('category_add', { id: item.id });
+    return { item };
+  }
+
+  async updateCategory(id: string, input: CategoryInput): Promise<CategoryOutput> {
+    const body = await this.send(
+      'PATCH',
+      `/api/categories/${encodeURIComponent(id)}`,
+      'PATCH /api/categories/{id}',
+      { operation: 'updateCategory', id },
+      input,
+    );
+    const item = toDomainCategory(unwrapItem<CategoryDto>(body, 'Malformed update category response'));
+    this.trackEvent('category_update', { id });
+    return { item };
+  }
+
+  async deleteCategory(id: string): Promise<void> {
+    await this.send(
+      'DELETE',
+      `/api/categories/${encodeURIComponent(id)}`,
+      'DELETE /api/categories/{id}',
+      { operation: 'deleteCategory', id },
+    );
+    this.trackEvent('category_delete', { id });
+  }
+
+  async listMaintenance(
+    query: ListMaintenanceQuery = {},
+  ): Promise<ListMaintenanceOutput> {
+    const qs = query.status ? `?status=${encodeURIComponent(query.status)}` : '';
+    const body = await this.send(
+      'GET',
+      `/api/maintenance${qs}`,
+      'GET /api/maintenance',
+      { operation: 'listMaintenance' },
+    );
+    const list = Array.isArray(body.data) ? (body.data as MaintenanceRecordDto[]) : [];
+    const items = list.map(toDomainMaintenance);
+    const totalCount = typeof body.count === 'number' ? body.count : items.length;
+    return { items, totalCount };
+  }
+
+  async sendToMaintenance(
+    deviceId: string,
+    input: SendToMaintenanceInput,
+  ): Promise<MaintenanceOutput> {
+    const body = await this.send(
+      'POST',
+      `/api/devices/${encodeURIComponent(deviceId)}/maintenance`,
+      'POST /api/devices/{id}/maintenance',
+      { operation: 'sendToMaintenance', id: deviceId },
+      {
+        quantity: input.quantity,
+        ...(input.note ? { note: input.note } : {}),
+        ...(input.expectedReturnAt
+          ? { expectedReturnAt: input.expectedReturnAt.toISOString() }
+          : {}),
+      },
+    );
+    const output = toMaintenanceOutput(body, 'Malformed maintenance response');
+    this.trackEvent('maintenance_send', { id: deviceId, quantity: output.item.quantity });
+    return output;
+  }
+
+  async resolveMaintenance(
+    recordId: string,
+    input: ResolveMaintenanceInput,
+  ): Promise<MaintenanceOutput> {
+    const body = await this.send(
+      'POST',
+      `/api/maintenance/${encodeURIComponent(recordId)}/resolve`,
+      'POST /api/maintenance/{id}/resolve',
+      { operation: 'resolveMaintenance', recordId },
+      input,
+    );
+    const output = toMaintenanceOutput(body, 'Malformed maintenance response');
+    this.trackEvent('maintenance_resolve', {
+      id: output.item.deviceModelId,
+      recordId,
+      outcome: input.outcome,
+    });
+    return output;
+  }
+
   // helpers
+
+  /**
+   * Single round trip without retries: auth headers, status check, JSON body
+   * and an `errors` array check, with the exception and dependency tracked.
+   */
+  private async send(
+    method: string,
+    path: string,
+    dependency: string,
+    properties: Record<string, any>,
+    payload?: unknown,
+  ): Promise<Record<string, any>> {
+    const url = this.url(path);
+    const started = this.nowMs();
+    let res: Response | undefined;
+    let success = false;
+
+    try {
+      // Form data goes out as multipart; fetch sets the boundary header itself.
+      const multipart = payload instanceof FormData;
+      const extra: Record<string, string> = { Accept: 'application/json' };
+      if (payload !== undefined && !multipart) extra['Content-Type'] = 'application/json';
+      res = await this.http(url, {
+        method,
+        headers: await this.authHeaders(extra),
+        ...(multipart ? { body: payload } : {}),
+        ...(payload !== undefined && !multipart ? { body: JSON.stringify(payload) } : {}),
+      });
+      await this.ensureOk(res);
+      const raw = (await this.parseJson(res)) as unknown;
+      const body = (raw && typeof raw === 'object' ? raw : {}) as Record<string, any>;
+      if (Array.isArray(body.errors) && body.errors.length) {
+        throw new Error(body.errors.join('; '));
+      }
+      success = true;
+      return body;
+    } catch (err) {
+      this.trackException(err, properties);
+      throw err;
+    } finally {
+      this.trackDependency(dependency, url, started, success, res?.status);
+    }
+  }
+
   private url(path: string): string {
     if (!this.baseUrl) return path;
     return `${this.baseUrl}${path}`;
@@ -374,6 +912,65 @@ export class HttpInventoryService implements InventoryService {
     throw new Error(message);
   }
 
+  /** A 412 body may carry the current device so the caller can reconcile. */
+  private async toConflictError(res: Response): Promise<ConcurrencyConflictError> {
+    let current: Device | undefined;
+    try {
+      const raw = (await this.parseJson(res)) as Record<string, any>;
+      const dto = (raw?.item ?? raw?.data) as DeviceDto | undefined;
+      if (dto && typeof dto === 'object' && !Array.isArray(dto)) {
+        current = toDomainDevice(dto);
+      }
+    } catch {
+      // the conflict itself is what matters
+    }
+    return new ConcurrencyConflictError(undefined, current);
+  }
+
+  /**
+   * A 400/422 may name the offending fields, either as a `fieldErrors` map or
+   * as `errors: [{ field, message }]`. Returns `null` when it does not, so the
+   * generic error handling applies.
+   */
+  private async toValidationError(res: Response): Promise<DeviceValidationError | null> {
+    const fieldErrors: InventoryFieldErrors = {};
+    let message: string | undefined;
+    try {
+      const raw = (await this.parseJson(res.clone())) as Record<string, any>;
+      if (raw?.fieldErrors && typeof raw.fieldErrors === 'object') {
+        for (const [field, text] of Object.entries(raw.fieldErrors)) {
+          if (isInventoryField(field) && typeof text === 'string') fieldErrors[field] = text;
+        }
+      }
+      if (Array.isArray(raw?.errors)) {
+        for (const e of raw.errors) {
+          const field: unknown = e?.field;
+          if (isInventoryField(field) && typeof e.message === 'string') {
+            fieldErrors[field] ??= e.message;
+          }
+        }
+      }
+      if (typeof raw?.message === 'string' && raw.message) message = raw.message;
+    } catch {
+      return null;
+    }
+    return Object.keys(fieldErrors).length ? new DeviceValidationError(fieldErrors, message) : null;
+  }
+
+  /** A 409 on delete names how many active reservations hold the device. */
+  private async toInUseError(res: Response): Promise<DeviceInUseError> {
+    let count = 0;
+    let message: string | undefined;
+    try {
+      const raw = (await this.parseJson(res)) as Record<string, any>;
+      if (typeof raw?.activeReservations === 'number') count = raw.activeReservations;
+      if (typeof raw?.message === 'string' && raw.message) message = raw.message;
+    } catch {
+      // the refusal itself is what matters
+    }
+    return new DeviceInUseError(count, message);
+  }
+
   private async parseJson(res: Response): Promise<unknown> {
     const text = await res.text();
     if (!text) return {};
@@ -385,16 +982,175 @@ export class HttpInventoryService implements InventoryService {
   }
 }
 
+const INVENTORY_FIELDS: readonly InventoryField[] = [
+  'name',
+  'description',
+  'count',
+  'minStock',
+  'locationStock',
+  'specs',
+  'tags',
+];
+
+function isInventoryField(value: unknown): value is InventoryField {
+  return INVENTORY_FIELDS.includes(value as InventoryField);
+}
+
 function toDomainDevice(dto: DeviceDto): Device {
   return {
     id: dto.id,
     name: dto.name,
     description: dto.description,
     count: dto.count,
-    updatedAt: toDate(dto.updatedAt),
+    ...(typeof dto.available === 'number' ? { available: dto.available } : {}),
+    updatedAt: toDate(dto.updatedAt, 'updatedAt'),
+    ...(dto.version ? { version: dto.version } : {}),
+    ...(dto.archivedAt ? { archivedAt: toDate(dto.archivedAt, 'archivedAt') } : {}),
+    ...(typeof dto.minStock === 'number' && dto.minStock > 0 ? { minStock: dto.minStock } : {}),
+    ...(typeof dto.inRepair === 'number' && dto.inRepair > 0 ? { inRepair: dto.inRepair } : {}),
+    ...(Array.isArray(dto.locationStock) && dto.locationStock.length
+      ? {
+          locationStock: dto.locationStock.map((s) => ({
+            locationId: s.locationId,
+            count: s.count,
+          })),
+        }
+      : {}),
+    ...(dto.specs && typeof dto.specs === 'object' ? toDomainSpecs(dto.specs) : {}),
+    ...(dto.categoryId ? { categoryId: dto.categoryId } : {}),
+    ...(Array.isArray(dto.tags) && dto.tags.length
+      ? { tags: dto.tags.filter((t): t is string => typeof t === 'string') }
+      : {}),
+    ...(dto.imageUrl ? { imageUrl: dto.imageUrl } : {}),
   };
 }
 
+/** Keeps text and number values; anything else is not a spec we can show. */
+function toDomainSpecs(raw: Record<string, unknown>): { specs?: DeviceSpecs } {
+  const specs: Record<string, SpecValue> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value))) {
+      specs[key] = value;
+    }
+  }
+  return Object.keys(specs).length ? { specs } : {};
+}
+
+function toDomainLocation(dto: LocationDto): Location {
+  return { id: dto.id, name: dto.name };
+}
+
+function toDomainCategory(dto: CategoryDto): Category {
+  return { id: dto.id, name: dto.name };
+}
+
+function toDomainAttachment(dto: AttachmentDto): Attachment {
+  return {
+    id: dto.id,
+    deviceModelId: dto.deviceModelId,
+    kind: dto.kind,
+    fileName: dto.fileName,
+    contentType: dto.contentType,
+    size: dto.size,
+    url: dto.url,
+    createdAt: toDate(dto.createdAt, 'createdAt'),
+  };
+}
+
+function toDomainAsset(dto: AssetDto): Asset {
+  return {
+    id: dto.id,
+    deviceModelId: dto.deviceModelId,
+    serialNumber: dto.serialNumber,
+    assetTag: dto.assetTag,
+    condition: dto.condition,
+    status: dto.status,
+    updatedAt: toDate(dto.updatedAt, 'updatedAt'),
+  };
+}
+
+function toDomainAdjustment(dto: StockAdjustmentDto): StockAdjustment {
+  return {
+    id: dto.id,
+    deviceModelId: dto.deviceModelId,
+    delta: dto.delta,
+    reason: dto.reason,
+    ...(dto.note ? { note: dto.note } : {}),
+    resultingCount: dto.resultingCount,
+    ...(dto.locationId ? { locationId: dto.locationId } : {}),
+    createdAt: toDate(dto.createdAt, 'createdAt'),
+  };
+}
+
+function toDomainAuditEntry(dto: AuditEntryDto): AuditEntry {
+  return {
+    id: dto.id,
+    deviceModelId: dto.deviceModelId,
+    actor: dto.actor,
+    action: dto.action,
+    changes: Array.isArray(dto.changes) ? dto.changes : [],
+    ...(dto.note ? { note: dto.note } : {}),
+    timestamp: toDate(dto.timestamp, 'timestamp'),
+  };
+}
+
+function toDomainMaintenance(dto: MaintenanceRecordDto): MaintenanceRecord {
+  return {
+    id: dto.id,
+    deviceModelId: dto.deviceModelId,
+    deviceModelName: dto.deviceModelName,
+    quantity: dto.quantity,
+    ...(dto.note ? { note: dto.note } : {}),
+    ...(dto.expectedReturnAt ? { expectedReturnAt: toDate(dto.expectedReturnAt, 'expectedReturnAt') } : {}),
+    status: dto.status,
+    createdAt: toDate(dto.createdAt, 'createdAt'),
+    ...(dto.resolvedAt ? { resolvedAt: toDate(dto.resolvedAt, 'resolvedAt') } : {}),
+    ...(dto.resolutionNote ? { resolutionNote: dto.resolutionNote } : {}),
+  };
+}
+
+/** Maintenance writes answer with `{ item, device }`. */
+function toMaintenanceOutput(body: Record<string, any>, malformed: string): MaintenanceOutput {
+  const itemDto = body.item as MaintenanceRecordDto | undefined;
+  const deviceDto = body.device as DeviceDto | undefined;
+  if (!itemDto || typeof itemDto !== 'object' || !deviceDto || typeof deviceDto !== 'object') {
+    throw new Error(malformed);
+  }
+  return { item: toDomainMaintenance(itemDto), device: toDomainDevice(deviceDto) };
+}
+
+/** Accepts `{ item }`, `{ data }` or a bare object, as the device endpoints do. */
+function unwrapItem<T>(body: Record<string, any>, malformed: string): T {
+  const source: unknown = body.item ?? body.data ?? body;
+  if (!source || typeof source !== 'object' || Array.isArray(source)) {
+    throw new Error(malformed);
+  }
+  return source as T;
+}
+
+function toListQueryString(query: ListDevicesQuery): string {
+  const params = new URLSearchParams();
+  if (query.limit !== undefined) params.set('limit', String(query.limit));
+  if (query.cursor) params.set('cursor', query.cursor);
+  const search = query.search?.trim();
+  if (search) params.set('search', search);
+  if (query.inStockOnly) params.set('inStock', 'true');
+  if (query.archived) params.set('archived', 'true');
+  if (query.locationId) params.set('location', query.locationId);
+  if (query.spec) {
+    params.set('specKey', query.spec.key);
+    params.set('specValue', query.spec.value);
+  }
+  if (query.categoryId) params.set('category', query.categoryId);
+  if (query.tag) params.set('tag', query.tag);
+  if (query.sortBy) {
+    params.set('sortBy', query.sortBy);
+    params.set('sortDir', query.sortDirection ?? 'asc');
+  }
+  const qs = params.toString();
+  return qs ? `?${qs}` : '';
+}
+
 function toAddDeviceRequestDto(
   input: AddDeviceInput,
 ): AddDeviceRequestDto {
@@ -402,6 +1158,11 @@ function toAddDeviceRequestDto(
     name: input.name,
     description: input.description,
     count: input.count ?? 1,
+    ...(input.minStock !== undefined ? { minStock: input.minStock } : {}),
+    ...(input.locationStock !== undefined ? { locationStock: input.locationStock } : {}),
+    ...(input.specs !== undefined ? { specs: input.specs } : {}),
+    ...(input.categoryId ? { categoryId: input.categoryId } : {}),
+    ...(input.tags !== undefined ? { tags: input.tags } : {}),
   };
 }
 
@@ -412,13 +1173,18 @@ function toUpdateDeviceRequestDto(
   if (input.name !== undefined) result.name = input.name;
   if (input.description !== undefined) result.description = input.description;
   if (input.count !== undefined) result.count = input.count;
+  if (input.minStock !== undefined) result.minStock = input.minStock;
+  if (input.locationStock !== undefined) result.locationStock = input.locationStock;
+  if (input.specs !== undefined) result.specs = input.specs;
+  if (input.categoryId !== undefined) result.categoryId = input.categoryId || null;
+  if (input.tags !== undefined) result.tags = input.tags;
   return result;
 }
 
-function toDate(v: string): Date {
+function toDate(v: string, field: string): Date {
   const d = new Date(v);
   if (Number.isNaN(d.getTime())) {
-    throw new Error('Invalid updatedAt date');
+    throw new Error(`Invalid ${field} date`);
   }
   return d;
 }
@@ -0,0 +1,379 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { HttpReservationService } from './http-reservation-service';
+import type { Telemetry } from '@/composables/useTelemetry';
+
+const makeResponse = (
+  body: unknown,
+  init: Partial<ResponseInit & { statusText?: string }> = {},
+) => {
+  const { status = 200, statusText = 'OK', headers = {} } = init;
+  const isNoContent = status === 204;
+  const payload = isNoContent
+    ? null
+    : typeof body === 'string'
+      ? body
+      : JSON.stringify(body);
+  return new Response(payload as BodyInit | null, {
+    status,
+    statusText,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+};
+
+const reservationDto = (overrides: Record<string, unknown> = {}) => ({
+  id: 'res-1',
+  userId: 'user-1',
+  deviceModelId: 'dev-1',
+  deviceModelName: 'Laptop',
+  status: 'reserved',
+  createdAt: '2025-06-01T09:00:00.000Z',
+  updatedAt: '2025-06-01T09:00:00.000Z',
+  ...overrides,
+});
+
+const waitlistDto = (overrides: Record<string, unknown> = {}) => ({
+  id: 'wl-1',
+  userId: 'user-1',
+  deviceModelId: 'dev-1',
+  deviceModelName: 'Laptop',
+  status: 'waiting',
+  createdAt: '2025-06-01T09:00:00.000Z',
+  ...overrides,
+});
+
+describe('HttpReservationService', () => {
+  // Far enough from UTC that local midnight falls on the previous UTC day.
+  const originalTz = process.env.TZ;
+  let fetchMock: ReturnType<typeof vi.fn<typeof fetch>>;
+
+  beforeAll(() => {
+    process.env.TZ = 'Pacific/Auckland';
+  });
+
+  afterAll(() => {
+    process.env.TZ = originalTz;
+  });
+
+  beforeEach(() => {
+    fetchMock = vi.fn<typeof fetch>();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const lastBody = () => JSON.parse(String(fetchMock.mock.calls.at(-1)?.[1]?.body));
+
+  describe('booking days', () => {
+    it('reads YYYY-MM-DD days as local midnight', async () => {
+      fetchMock.mockResolvedValueOnce(
+        makeResponse([reservationDto({ startDate: '2025-06-12', endDate: '2025-06-14' })]),
+      );
+      const svc = new HttpReservationService({ baseUrl: 'http://api' });
+
+      const { items } = await svc.listReservations();
+
+      expect(items[0]?.startDate).toEqual(new Date(2025, 5, 12));
+      expect(items[0]?.endDate).toEqual(new Date(2025, 5, 14));
+      expect(items[0]?.startDate?.getDate()).toBe(12);
+    });
+
+    it('reads full timestamps as the instant they name', async () => {
+      fetchMock.mockResolvedValueOnce(
+        makeResponse([reservationDto({ startDate: '2025-06-12T23:30:00Z' })]),
+      );
+      const svc = new HttpReservationService({ baseUrl: 'http://api' });
+
+      const { items } = await svc.listReservations();
+
+      expect(items[0]?.startDate).toEqual(new Date('2025-06-12T23:30:00Z'));
+      expect(items[0]?.startDate?.getDate()).toBe(13);
+    });
+
+    it('drops missing and invalid days', async () => {
+      fetchMock.mockResolvedValueOnce(
+        makeResponse([
+          reservationDto({ id: 'res-1' }),
+          reservationDto({ id: 'res-2', startDate: null, endDate: '' }),
+          reservationDto({ id: 'res-3', startDate: '2025-02-30', endDate: 'next week' }),
+          reservationDto({ id: 'res-4', startDate: 20250612 }),
+        ]),
+      );
+      const svc = new HttpReservationService({ baseUrl: 'http://api' });
+
+      const { items } = await svc.listReservations();
+
+      for (const item of items) {
+        expect(item.startDate).toBeUndefined();
+        expect(item.endDate).toBeUndefined();
+      }
+    });
+
+    it('sends the local calendar day of each booking date', async () => {
+      fetchMock.mockResolvedValueOnce(makeResponse(reservationDto()));
+      const svc = new HttpReservationService({ baseUrl: 'http://api' });
+
+      await svc.createReservation({
+        deviceModelId: 'dev-1',
+        deviceModelName: 'Laptop',
+        startDate: new Date(2025, 5, 12, 23, 30),
+        endDate: new Date(2025, 5, 14),
+      });
+
+      expect(lastBody()).toEqual({
+        deviceModelId: 'dev-1',
+        deviceModelName: 'Laptop',
+        startDate: '2025-06-12',
+        endDate: '2025-06-14',
+      });
+    });
+
+    it('leaves out booking dates that are not set', async () => {
+      fetchMock.mockResolvedValueOnce(makeResponse(reservationDto()));
+      const svc = new HttpReservationService({ baseUrl: 'http://api' });
+
+      await svc.createReservation({
+        deviceModelId: 'dev-1',
+        deviceModelName: 'Laptop',
+        pickupLocationId: 'loc-a',
+      });
+
+      expect(lastBody()).toEqual({
+        deviceModelId: 'dev-1',
+        deviceModelName: 'Laptop',
+        pickupLocationId: 'loc-a',
+      });
+    });
+  });
+
+  it('lists reservations by status and pickup location with auth', async () => {
+    fetchMock.mockResolvedValueOnce(makeResponse([reservationDto({ status: 'collected' })]));
+    const svc = new HttpReservationService({
+      baseUrl: 'http://api/',
+      authTokenProvider: async () => 'token-1',
+    });
+
+    const { items, totalCount } = await svc.listReservations(['reserved', 'collected'], 'loc-a');
+
+    expect(totalCount).toBe(1);
+    expect(items[0]?.createdAt).toBeInstanceOf(Date);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://api/api/reservations?status=reserved%2Ccollected&location=loc-a',
+      expect.objectContaining({
+        method: 'GET',
+        headers: expect.objectContaining({ Authorization: 'Bearer token-1' }),
+      }),
+    );
+  });
+
+  it('surfaces API errors with context and reports them', async () => {
+    fetchMock.mockResolvedValueOnce(
+      makeResponse({ error: { message: 'No units left' } }, { status: 409, statusText: 'Conflict' }),
+    );
+    const telemetry = { trackException: vi.fn(), trackEvent: vi.fn() } as unknown as Telemetry;
+    const svc = new HttpReservationService({ baseUrl: 'http://api', telemetry });
+
+    await expect(
+      svc.createReservation({ deviceModelId: 'dev-1', deviceModelName: 'Laptop' }),
+    ).rejects.toThrow('Failed to create reservation: No units left');
+    expect(telemetry.trackException).toHaveBeenCalledWith(expect.any(Error), {
+      operation: 'createReservation',
+    });
+  });
+
+  describe('extensions', () => {
+    it('requests an extension and reads it back', async () => {
+      fetchMock.mockResolvedValueOnce(
+        makeResponse(
+          reservationDto({
+            status: 'collected',
+            dueAt: '2025-06-20T09:00:00.000Z',
+            extension: { status: 'pending', requestedAt: '2025-06-18T09:00:00.000Z', days: '3' },
+          }),
+        ),
+      );
+      const svc = new HttpReservationService({ baseUrl: 'http://api' });
+
+      const { item } = await svc.requestExtension('res 1', { days: 3, note: 'Exams' });
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://api/api/reservations/res%201/extension',
+        expect.objectContaining({ method: 'POST' }),
+      );
+      expect(lastBody()).toEqual({ days: 3, note: 'Exams' });
+      expect(item.dueAt).toEqual(new Date('2025-06-20T09:00:00.000Z'));
+      expect(item.extension).toEqual({
+        status: 'pending',
+        requestedAt: new Date('2025-06-18T09:00:00.000Z'),
+        days: 3,
+        note: undefined,
+        decidedAt: undefined,
+        reason: undefined,
+      });
+    });
+
+    it('posts a decision on an extension', async () => {
+      fetchMock.mockResolvedValueOnce(
+        makeResponse(
+          reservationDto({
+            status: 'collected',
+            extension: {
+              status: 'denied',
+              requestedAt: '2025-06-18T09:00:00.000Z',
+              days: 3,
+              decidedAt: '2025-06-18T12:00:00.000Z',
+              reason: 'Waitlisted',
+            },
+          }),
+        ),
+      );
+      const svc = new HttpReservationService({ baseUrl: 'http://api' });
+
+      const { item } = await svc.decideExtension('res-1', { approve: false, reason: 'Waitlisted' });
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://api/api/reservations/res-1/extension/decision',
+        expect.objectContaining({ method: 'POST' }),
+      );
+      expect(lastBody()).toEqual({ approve: false, reason: 'Waitlisted' });
+      expect(item.extension).toMatchObject({
+        status: 'denied',
+        decidedAt: new Date('2025-06-18T12:00:00.000Z'),
+        reason: 'Waitlisted',
+      });
+    });
+
+    it('reports a refused extension', async () => {
+      fetchMock.mockResolvedValueOnce(
+        makeResponse({}, { status: 422, statusText: 'Unprocessable Entity' }),
+      );
+      const svc = new HttpReservationService({ baseUrl: 'http://api' });
+
+      await expect(svc.requestExtension('res-1', { days: 3 })).rejects.toThrow(
+        'Failed to request an extension: 422 Unprocessable Entity',
+      );
+    });
+  });
+
+  describe('reminders', () => {
+    it('sends reminders for the given loans', async () => {
+      fetchMock.mockResolvedValueOnce(
+        makeResponse([
+          reservationDto({ status: 'collected', lastReminderAt: '2025-06-21T08:00:00.000Z' }),
+        ]),
+      );
+      const svc = new HttpReservationService({ baseUrl: 'http://api' });
+
+      const { items } = await svc.sendReturnReminders(['res-1']);
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://api/api/reservations/reminders',
+        expect.objectContaining({ method: 'POST' }),
+      );
+      expect(lastBody()).toEqual({ ids: ['res-1'] });
+      expect(items[0]?.lastReminderAt).toEqual(new Date('2025-06-21T08:00:00.000Z'));
+    });
+
+    it('reports reminders that could not be sent', async () => {
+      fetchMock.mockResolvedValueOnce(
+        makeResponse({ error: { message: 'Mail is down' } }, { status: 502, statusText: 'Bad Gateway' }),
+      );
+      const svc = new HttpReservationService({ baseUrl: 'http://api' });
+
+      await expect(svc.sendReturnReminders(['res-1'])).rejects.toThrow(
+        'Failed to send reminders: Mail is down',
+      );
+    });
+  });
+
+  describe('waitlist', () => {
+    it('lists entries for a device', async () => {
+      fetchMock.mockResolvedValueOnce(
+        makeResponse([
+          waitlistDto({
+            status: 'offered',
+            position: 1,
+            offeredAt: '2025-06-10T09:00:00.000Z',
+            offerExpiresAt: '2025-06-11T09:00:00.000Z',
+          }),
+          waitlistDto({ id: 'wl-2', position: '2' }),
+        ]),
+      );
+      const svc = new HttpReservationService({ baseUrl: 'http://api' });
+
+      const { items, totalCount } = await svc.listWaitlist('dev-1');
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://api/api/waitlist?device=dev-1',
+        expect.objectContaining({ method: 'GET' }),
+      );
+      expect(totalCount).toBe(2);
+      expect(items[0]).toMatchObject({
+        position: 1,
+        offeredAt: new Date('2025-06-10T09:00:00.000Z'),
+        offerExpiresAt: new Date('2025-06-11T09:00:00.000Z'),
+      });
+      expect(items[1]?.position).toBeUndefined();
+    });
+
+    it('joins and leaves the waitlist', async () => {
+      fetchMock
+        .mockResolvedValueOnce(makeResponse(waitlistDto({ position: 3 })))
+        .mockResolvedValueOnce(makeResponse(null, { status: 204 }));
+      const svc = new HttpReservationService({ baseUrl: 'http://api' });
+
+      const { item } = await svc.joinWaitlist({ deviceModelId: 'dev-1', deviceModelName: 'Laptop' });
+      await svc.leaveWaitlist('wl-1');
+
+      expect(item.position).toBe(3);
+      expect(fetchMock).toHaveBeenNthCalledWith(
+        1,
+        'http://api/api/waitlist',
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ deviceModelId: 'dev-1', deviceModelName: 'Laptop' }) }),
+      );
+      expect(fetchMock).toHaveBeenNthCalledWith(
+        2,
+        'http://api/api/waitlist/wl-1',
+        expect.objectContaining({ method: 'DELETE' }),
+      );
+    });
+
+    it('claims an offer as a reservation', async () => {
+      fetchMock.mockResolvedValueOnce(
+        makeResponse({
+          item: waitlistDto({ status: 'claimed', reservationId: 'res-9' }),
+          reservation: reservationDto({ id: 'res-9', startDate: '2025-06-12' }),
+        }),
+      );
+      const svc = new HttpReservationService({ baseUrl: 'http://api' });
+
+      const { item, reservation } = await svc.claimWaitlistOffer('wl-1');
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://api/api/waitlist/wl-1/claim',
+        expect.objectContaining({ method: 'POST' }),
+      );
+      expect(item.reservationId).toBe('res-9');
+      expect(reservation.startDate).toEqual(new Date(2025, 5, 12));
+    });
+
+    it('rejects a claim response without both records', async () => {
+      fetchMock.mockResolvedValueOnce(makeResponse({ item: waitlistDto() }));
+      const svc = new HttpReservationService({ baseUrl: 'http://api' });
+
+      await expect(svc.claimWaitlistOffer('wl-1')).rejects.toThrow('Malformed claim offer response');
+    });
+
+    it('reports a failed join', async () => {
+      fetchMock.mockResolvedValueOnce(
+        makeResponse({ error: { message: 'Units are available' } }, { status: 409, statusText: 'Conflict' }),
+      );
+      const svc = new HttpReservationService({ baseUrl: 'http://api' });
+
+      await expect(svc.joinWaitlist({ deviceModelId: 'dev-1', deviceModelName: 'Laptop' })).rejects.toThrow(
+        'Failed to join the waitlist: Units are available',
+      );
+    });
+  });
+});
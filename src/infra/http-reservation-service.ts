@@ -5,10 +5,22 @@ import type {
   CreateReservationOutput,
   UpdateReservationStatusInput,
   UpdateReservationStatusOutput,
+  RequestExtensionInput,
+  RequestExtensionOutput,
+  DecideExtensionInput,
+  DecideExtensionOutput,
+  LoanExtension,
+  SendReturnRemindersOutput,
   Reservation,
   ReservationStatus,
+  ListWaitlistOutput,
+  JoinWaitlistInput,
+  JoinWaitlistOutput,
+  ClaimWaitlistOfferOutput,
+  WaitlistEntry,
 } from '../app/reservation-service';
 import type { Telemetry } from '../composables/useTelemetry';
+import { parseIsoDate, toIsoDate } from '../app/calendar-date';
 import {
   computeBackoffDelayMs,
   defaultRetryOptions,
@@ -76,10 +88,70 @@ export class HttpReservationService implements ReservationService {
       updatedAt: new Date(data.updatedAt),
       collectedAt: data.collectedAt ? new Date(data.collectedAt) : undefined,
       returnedAt: data.returnedAt ? new Date(data.returnedAt) : undefined,
+      assetId: data.assetId ?? undefined,
+      pickupLocationId: data.pickupLocationId ?? undefined,
+      startDate: this.parseDay(data.startDate),
+      endDate: this.parseDay(data.endDate),
+      dueAt: data.dueAt ? new Date(data.dueAt) : undefined,
+      lastReminderAt: data.lastReminderAt ? new Date(data.lastReminderAt) : undefined,
+      borrowerRole: data.borrowerRole === 'staff' || data.borrowerRole === 'student'
+        ? data.borrowerRole
+        : undefined,
+      extension: data.extension ? this.parseExtension(data.extension) : undefined,
     };
   }
 
-  async listReservations(statusFilter?: ReservationStatus[]): Promise<ListReservationsOutput> {
+  private parseExtension(data: any): LoanExtension {
+    return {
+      status: data.status,
+      requestedAt: new Date(data.requestedAt),
+      days: Number(data.days),
+      note: data.note ?? undefined,
+      decidedAt: data.decidedAt ? new Date(data.decidedAt) : undefined,
+      reason: data.reason ?? undefined,
+    };
+  }
+
+  private parseWaitlistEntry(data: any): WaitlistEntry {
+    return {
+      id: data.id,
+      userId: data.userId,
+      deviceModelId: data.deviceModelId,
+      deviceModelName: data.deviceModelName,
+      status: data.status,
+      createdAt: new Date(data.createdAt),
+      position: typeof data.position === 'number' ? data.position : undefined,
+      offeredAt: data.offeredAt ? new Date(data.offeredAt) : undefined,
+      offerExpiresAt: data.offerExpiresAt ? new Date(data.offerExpiresAt) : undefined,
+      reservationId: data.reservationId ?? undefined,
+      pickupLocationId: data.pickupLocationId ?? undefined,
+    };
+  }
+
+  /**
+   * Booking days travel as `YYYY-MM-DD`; full timestamps are read as given.
+   * Days that do not exist, such as 2025-02-30, and unreadable values are dropped.
+   */
+  private parseDay(value: unknown): Date | undefined {
+    if (typeof value !== 'string' || !value) return undefined;
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) return parseIsoDate(value);
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  }
+
+  private toRequestBody(input: CreateReservationInput): Record<string, unknown> {
+    const { startDate, endDate, ...rest } = input;
+    return {
+      ...rest,
+      ...(startDate ? { startDate: toIsoDate(startDate) } : {}),
+      ...(endDate ? { endDate: toIsoDate(endDate) } : {}),
+    };
+  }
+
+  async listReservations(
+    statusFilter?: ReservationStatus[],
+    pickupLocationId?: string,
+  ): Promise<ListReservationsOutput> {
     const retry = defaultRetryOptions;
     let lastRes: Response | undefined;
     try {
@@ -87,6 +159,9 @@ export class HttpReservationService implements ReservationService {
       if (statusFilter && statusFilter.length > 0) {
         url.searchParams.set('status', statusFilter.join(','));
       }
+      if (pickupLocationId) {
+        url.searchParams.set('location', pickupLocationId);
+      }
 
       const headers = await this.getHeaders();
       for (let attempt = 1; attempt <= retry.attempts; attempt++) {
@@ -174,7 +249,7 @@ export class HttpReservationService implements ReservationService {
       const res = await fetch(url.toString(), {
         method: 'POST',
         headers,
-        body: JSON.stringify(input),
+        body: JSON.stringify(this.toRequestBody(input)),
       });
 
       if (!res.ok) {
@@ -243,4 +318,197 @@ export class HttpReservationService implements ReservationService {
       throw err;
     }
   }
+
+  async requestExtension(id: string, input: RequestExtensionInput): Promise<RequestExtensionOutput> {
+    try {
+      const url = new URL(`api/reservations/${id}/extension`, this.baseUrl);
+      const headers = await this.getHeaders();
+
+      const res = await fetch(url.toString(), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(input),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        const message = errorData?.error?.message || `${res.status} ${res.statusText}`;
+        throw new Error(`Failed to request an extension: ${message}`);
+      }
+
+      const data = await res.json();
+      return {
+        item: this.parseReservation(data),
+      };
+    } catch (err) {
+      this.trackException(err, { operation: 'requestExtension', id });
+      throw err;
+    }
+  }
+
+  async decideExtension(id: string, input: DecideExtensionInput): Promise<DecideExtensionOutput> {
+    try {
+      const url = new URL(`api/reservations/${id}/extension/decision`, this.baseUrl);
+      const headers = await this.getHeaders();
+
+      const res = await fetch(url.toString(), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(input),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        const message = errorData?.error?.message || `${res.status} ${res.statusText}`;
+        throw new Error(`Failed to decide on the extension: ${message}`);
+      }
+
+      const data = await res.json();
+      return {
+        item: this.parseReservation(data),
+      };
+    } catch (err) {
+      this.trackException(err, { operation: 'decideExtension', id });
+      throw err;
+    }
+  }
+
+  async sendReturnReminders(ids: readonly string[]): Promise<SendReturnRemindersOutput> {
+    try {
+      const url = new URL('api/reservations/reminders', this.baseUrl);
+      const headers = await this.getHeaders();
+
+      const res = await fetch(url.toString(), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ ids }),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        const message = errorData?.error?.message || `${res.status} ${res.statusText}`;
+        throw new Error(`Failed to send reminders: ${message}`);
+      }
+
+      const data = await res.json();
+      const items = Array.isArray(data)
+        ? data.map((item) => this.parseReservation(item))
+        : [];
+      return { items };
+    } catch (err) {
+      this.trackException(err, { operation: 'sendReturnReminders', count: ids.length });
+      throw err;
+    }
+  }
+
+  async listWaitlist(deviceModelId?: string): Promise<ListWaitlistOutput> {
+    try {
+      const url = new URL('api/waitlist', this.baseUrl);
+      if (deviceModelId) {
+        url.searchParams.set('device', deviceModelId);
+      }
+      const headers = await this.getHeaders();
+
+      const res = await fetch(url.toString(), {
+        method: 'GET',
+        headers,
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        const message = errorData?.error?.message || `${res.status} ${res.statusText}`;
+        throw new Error(`Failed to list the waitlist: ${message}`);
+      }
+
+      const data = await res.json();
+      const items = Array.isArray(data)
+        ? data.map((item) => this.parseWaitlistEntry(item))
+        : [];
+      return {
+        items,
+        totalCount: items.length,
+      };
+    } catch (err) {
+      this.trackException(err, { operation: 'listWaitlist' });
+      throw err;
+    }
+  }
+
+  async joinWaitlist(input: JoinWaitlistInput): Promise<JoinWaitlistOutput> {
+    try {
+      const url = new URL('api/waitlist', this.baseUrl);
+      const headers = await this.getHeaders();
+
+      const res = await fetch(url.toString(), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(input),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        const message = errorData?.error?.message || `${res.status} ${res.statusText}`;
+        throw new Error(`Failed to join the waitlist: ${message}`);
+      }
+
+      const data = await res.json();
+      return {
+        item: this.parseWaitlistEntry(data),
+      };
+    } catch (err) {
+      this.trackException(err, { operation: 'joinWaitlist' });
+      throw err;
+    }
+  }
+
+  async leaveWaitlist(id: string): Promise<void> {
+    try {
+      const url = new URL(`api/waitlist/${id}`, this.baseUrl);
+      const headers = await this.getHeaders();
+
+      const res = await fetch(url.toString(), {
+        method: 'DELETE',
+        headers,
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        const message = errorData?.error?.message || `${res.status} ${res.statusText}`;
+        throw new Error(`Failed to leave the waitlist: ${message}`);
+      }
+    } catch (err) {
+      this.trackException(err, { operation: 'leaveWaitlist', id });
+      throw err;
+    }
+  }
+
+  async claimWaitlistOffer(id: string): Promise<ClaimWaitlistOfferOutput> {
+    try {
+      const url = new URL(`api/waitlist/${id}/claim`, this.baseUrl);
+      const headers = await this.getHeaders();
+
+      const res = await fetch(url.toString(), {
+        method: 'POST',
+        headers,
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        const message = errorData?.error?.message || `${res.status} ${res.statusText}`;
+        throw new Error(`Failed to claim the offer: ${message}`);
+      }
+
+      const data = await res.json();
+      if (!data?.item || !data?.reservation) {
+        throw new Error('Malformed claim offer response');
+      }
+      return {
+        item: this.parseWaitlistEntry(data.item),
+        reservation: this.parseReservation(data.reservation),
+      };
+    } catch (err) {
+      this.trackException(err, { operation: 'claimWaitlistOffer', id });
+      throw err;
+    }
+  }
 }
@@ -88,6 +88,7 @@ app.provide(
 	buildReservationUses({
 		apiBaseUrl: reservationBaseUrl,
 		authTokenProvider,
+		loanPolicy: appConfig.loanPolicy,
 	}),
 );
 
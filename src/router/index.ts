@@ -1,14 +1,20 @@
 import { createRouter, createWebHistory } from 'vue-router';
 import ListInventory from '@/views/ListInventory.vue';
+import DeviceDetail from '@/views/DeviceDetail.vue';
 import MyReservations from '@/views/MyReservations.vue';
 import StaffReservations from '@/views/StaffReservations.vue';
+import StaffMaintenance from '@/views/StaffMaintenance.vue';
+import StaffOverdue from '@/views/StaffOverdue.vue';
 
 const router = createRouter({
   history: createWebHistory(import.meta.env.BASE_URL),
   routes: [
     { path: '/', name: 'home', component: ListInventory },
+    { path: '/devices/:id', name: 'deviceDetail', component: DeviceDetail, props: true },
     { path: '/my-reservations', name: 'myReservations', component: MyReservations },
     { path: '/staff/reservations', name: 'staffReservations', component: StaffReservations },
+    { path: '/staff/maintenance', name: 'staffMaintenance', component: StaffMaintenance },
+    { path: '/staff/overdue', name: 'staffOverdue', component: StaffOverdue },
   ],
 });
 
@@ -0,0 +1,8 @@
+import type { Category } from '@/app/inventory-service';
+
+export const seedCategories: readonly Category[] = [
+  { id: 'cat_001', name: 'Laptops' },
+  { id: 'cat_002', name: 'Projectors' },
+  { id: 'cat_003', name: 'Cameras' },
+  { id: 'cat_004', name: 'Audio' },
+];
@@ -7,6 +7,13 @@ export const seedItems: readonly Device[] = [
     description: 'High-performance laptop suitable for development tasks.',
     count: 6,
     updatedAt: new Date(),
+    version: 'v0',
+    locationStock: [
+      { locationId: 'loc_001', count: 4 },
+      { locationId: 'loc_003', count: 2 },
+    ],
+    categoryId: 'cat_001',
+    tags: ['usb-c', 'development'],
   },
   {
     id: 'dev_002',
@@ -14,6 +21,10 @@ export const seedItems: readonly Device[] = [
     description: 'Full HD projector for presentations.',
     count: 3,
     updatedAt: new Date(),
+    version: 'v0',
+    locationStock: [{ locationId: 'loc_002', count: 3 }],
+    categoryId: 'cat_002',
+    tags: ['hdmi', '1080p'],
   },
   {
     id: 'dev_003',
@@ -21,5 +32,12 @@ export const seedItems: readonly Device[] = [
     description: '24MP DSLR camera with kit lens.',
     count: 4,
     updatedAt: new Date(),
+    version: 'v0',
+    locationStock: [
+      { locationId: 'loc_001', count: 3 },
+      { locationId: 'loc_002', count: 1 },
+    ],
+    categoryId: 'cat_003',
+    tags: ['photography'],
   },
 ];
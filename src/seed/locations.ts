@@ -0,0 +1,7 @@
+import type { Location } from '@/app/inventory-service';
+
+export const seedLocations: readonly Location[] = [
+  { id: 'loc_001', name: 'Media Lab (B.012)' },
+  { id: 'loc_002', name: 'Library Service Desk' },
+  { id: 'loc_003', name: 'IT Helpdesk (A.105)' },
+];